@@ -0,0 +1,323 @@
+import { Permission } from './permissions.config';
+
+/**
+ * Who may call a route:
+ * - 'public': anyone, no token required
+ * - 'authenticated': any signed-in user, guests included
+ * - a permission: signed-in users holding it through their role or a grant
+ */
+export type RoutePolicy = 'public' | 'authenticated' | Permission;
+
+// Policies per route, keyed by 'METHOD /path' as declared on the router
+export type RouterPolicy = Record<string, RoutePolicy>;
+
+/**
+ * Access policy matrix, keyed by router mount path.
+ * Every route declared in src/routes must have an entry here; the app
+ * refuses to start otherwise.
+ */
+export const accessPolicy: Record<string, RouterPolicy> = {
+  '/permissions': {
+    'GET /': 'permission.manage',
+    'GET /roles': 'permission.manage',
+    'GET /roles/:role': 'permission.manage',
+    'PUT /roles/:role': 'permission.manage',
+    'DELETE /roles/:role': 'permission.manage',
+    'GET /users/:userId': 'permission.manage',
+    'PUT /users/:userId': 'permission.manage',
+  },
+
+  '/me': {
+    'GET /': 'authenticated',
+    'GET /reservations': 'authenticated',
+    'GET /reservations/:id': 'authenticated',
+    'GET /stay': 'authenticated',
+    'GET /folio': 'authenticated',
+    'GET /service-requests': 'authenticated',
+    'POST /service-requests': 'authenticated',
+    'GET /feedback': 'authenticated',
+    'POST /feedback': 'authenticated',
+    'GET /notifications': 'authenticated',
+    'PATCH /notifications/read-all': 'authenticated',
+    'PATCH /notifications/:id/read': 'authenticated',
+  },
+
+  '/tests': {
+    'GET /': 'test.manage',
+    'GET /:id': 'test.manage',
+    'POST /': 'test.manage',
+    'PUT /:id': 'test.manage',
+    'DELETE /:id': 'test.manage',
+  },
+
+  '/users': {
+    'POST /register': 'public',
+    'POST /login': 'public',
+    'POST /refresh-token': 'public',
+    'POST /logout': 'authenticated',
+    'POST /logout-all': 'authenticated',
+    'POST /forgot-password': 'public',
+    'POST /reset-password': 'public',
+    'GET /': 'user.read',
+    'GET /search': 'user.read',
+    'GET /role/:role': 'user.read',
+    'GET /:id': 'user.read',
+    'PUT /:id': 'user.manage',
+    'DELETE /:id': 'user.manage',
+    'PATCH /:id/status': 'user.manage',
+    'PATCH /:id/change-password': 'authenticated',
+    'GET /:id/profile': 'user.read',
+    'POST /import': 'user.manage',
+    'GET /imports/:importId/log': 'user.manage',
+    'POST /bulk': 'authenticated',
+  },
+
+  '/rooms': {
+    'GET /': 'public',
+    'GET /availability': 'public',
+    'GET /number/:roomNumber': 'public',
+    'GET /:id': 'public',
+    'POST /': 'room.manage',
+    'POST /import': 'room.manage',
+    'GET /imports/:importId/log': 'room.manage',
+    'POST /bulk': 'authenticated',
+    'PUT /:id': 'room.manage',
+    'PATCH /:id/status': 'room.status.update',
+    'GET /:id/status-history': 'room.status.update',
+    'DELETE /:id': 'room.manage',
+  },
+
+  '/reservations': {
+    'GET /': 'reservation.read',
+    'GET /availability': 'public',
+    'GET /quote': 'public',
+    'POST /export': 'reservation.read',
+    'POST /holds': 'authenticated',
+    'DELETE /holds/:holdId': 'authenticated',
+    'GET /:id': 'reservation.read',
+    'POST /': 'authenticated',
+    'PUT /:id': 'reservation.update',
+    'PATCH /:id/status': 'reservation.update',
+    'PATCH /:id/confirm': 'reservation.update',
+    'PATCH /:id/cancel': 'reservation.update',
+    'DELETE /:id': 'reservation.delete',
+  },
+
+  '/group-bookings': {
+    'GET /': 'group_booking.read',
+    'POST /': 'group_booking.manage',
+    'POST /release-expired': 'group_booking.cancel',
+    'GET /:id': 'group_booking.read',
+    'POST /:id/rooming-list': 'group_booking.manage',
+    'POST /:id/release': 'group_booking.manage',
+    'PATCH /:id/cancel': 'group_booking.cancel',
+    'GET /:id/master-bill': 'group_booking.read',
+    'POST /:id/master-bill/route': 'group_booking.manage',
+  },
+
+  '/rate-plans': {
+    'GET /': 'rate_plan.read',
+    'GET /:id': 'rate_plan.read',
+    'POST /': 'rate_plan.manage',
+    'PUT /:id': 'rate_plan.manage',
+    'DELETE /:id': 'rate_plan.manage',
+  },
+
+  '/bills': {
+    'GET /': 'bill.read',
+    'GET /overdue': 'bill.read',
+    'POST /export': 'bill.read',
+    'GET /tax-rules': 'bill.read',
+    'PUT /tax-rules': 'tax.manage',
+    'GET /guest/:guestId': 'bill.read',
+    'GET /reservation/:reservationId': 'bill.read',
+    'GET /:id': 'bill.read',
+    'POST /': 'bill.manage',
+    'POST /folio': 'bill.manage',
+    'POST /night-audit': 'bill.manage',
+    'GET /:id/invoice.pdf': 'bill.read',
+    'GET /:id/charges': 'bill.read',
+    'POST /:id/room-charges': 'bill.manage',
+    'POST /:id/minibar': 'bill.manage',
+    'POST /:id/adjustments': 'bill.adjust',
+    'POST /:id/payment': 'bill.payment',
+    'GET /:id/payments': 'bill.read',
+    'POST /:id/payments/:paymentId/void': 'bill.payment.void',
+    'POST /:id/deposit': 'bill.payment',
+    'POST /:id/refund': 'bill.refund',
+    'GET /:id/credit-notes': 'bill.read',
+    'PUT /:id': 'bill.manage',
+    'DELETE /:id': 'bill.delete',
+  },
+
+  '/checkins': {
+    'GET /': 'checkin.read',
+    'GET /stats': 'checkin.read',
+    'GET /active': 'checkin.read',
+    'GET /:id': 'checkin.read',
+    'POST /': 'checkin.manage',
+    'POST /:id/complete': 'checkin.manage',
+    'POST /:id/move': 'checkin.manage',
+    'PUT /:id': 'checkin.manage',
+    'DELETE /:id': 'checkin.delete',
+  },
+
+  '/checkouts': {
+    'GET /': 'checkout.read',
+    'GET /stats': 'checkout.read',
+    'GET /pending': 'checkout.read',
+    'GET /:id': 'checkout.read',
+    'POST /': 'checkout.manage',
+    'POST /:id/complete': 'checkout.manage',
+    'POST /:id/late-fee': 'checkout.manage',
+    'PUT /:id': 'checkout.manage',
+    'DELETE /:id': 'checkout.delete',
+  },
+
+  '/service-requests': {
+    'GET /': 'service_request.read',
+    'GET /statistics': 'service_request.statistics',
+    'GET /overdue': 'service_request.read',
+    'GET /guest/:guestId': 'service_request.read',
+    'GET /room/:roomId': 'service_request.read',
+    'GET /staff/:staffId': 'service_request.read',
+    'GET /:id': 'service_request.read',
+    'POST /': 'service_request.create',
+    'POST /:id/assign': 'service_request.assign',
+    'POST /:id/complete': 'service_request.update',
+    'PUT /:id': 'service_request.update',
+    'PATCH /:id/status': 'service_request.update',
+    'DELETE /:id': 'service_request.delete',
+  },
+
+  '/housekeeping-tasks': {
+    'GET /': 'housekeeping.read',
+    'GET /statistics': 'housekeeping.statistics',
+    'GET /overdue': 'housekeeping.read',
+    'GET /board': 'housekeeping.read',
+    'GET /room/:roomId': 'housekeeping.read',
+    'GET /staff/:staffId': 'housekeeping.read',
+    'GET /:id': 'housekeeping.read',
+    'POST /': 'housekeeping.manage',
+    'POST /bulk': 'authenticated',
+    'POST /generate': 'housekeeping.manage',
+    'POST /auto-assign': 'housekeeping.manage',
+    'POST /:id/assign': 'housekeeping.manage',
+    'POST /:id/complete': 'housekeeping.manage',
+    'PUT /:id': 'housekeeping.manage',
+    'PATCH /:id/status': 'housekeeping.manage',
+    'DELETE /:id': 'housekeeping.delete',
+  },
+
+  '/maintenance-requests': {
+    'POST /': 'maintenance.report',
+    'POST /bulk': 'authenticated',
+    'GET /': 'maintenance.read',
+    'GET /search': 'maintenance.read',
+    'GET /statistics': 'maintenance.statistics',
+    'GET /:id': 'maintenance.read',
+    'PUT /:id': 'maintenance.manage',
+    'DELETE /:id': 'maintenance.delete',
+    'PUT /:id/assign': 'maintenance.manage',
+    'PUT /:id/status': 'maintenance.manage',
+    'PUT /:id/complete': 'maintenance.manage',
+  },
+
+  '/maintenance-plans': {
+    'GET /': 'maintenance.read',
+    'POST /': 'maintenance.manage',
+    'POST /generate': 'maintenance.manage',
+    'GET /compliance': 'maintenance.statistics',
+    'GET /:id': 'maintenance.read',
+    'PUT /:id': 'maintenance.manage',
+    'DELETE /:id': 'maintenance.manage',
+  },
+
+  '/assets': {
+    'GET /': 'maintenance.read',
+    'POST /': 'maintenance.manage',
+    'GET /:id': 'maintenance.read',
+    'GET /:id/history': 'maintenance.read',
+    'PUT /:id': 'maintenance.manage',
+    'DELETE /:id': 'maintenance.manage',
+  },
+
+  '/feedback': {
+    'POST /': 'feedback.create',
+    'GET /': 'feedback.read',
+    'GET /search': 'feedback.read',
+    'GET /statistics': 'feedback.statistics',
+    'GET /:id': 'feedback.read',
+    'PUT /:id': 'feedback.manage',
+    'DELETE /:id': 'feedback.manage',
+    'POST /:id/respond': 'feedback.respond',
+  },
+
+  '/notifications': {
+    'POST /': 'notification.send',
+    'GET /': 'notification.manage',
+    'GET /search': 'notification.manage',
+    'GET /statistics': 'notification.manage',
+    'GET /unread-count/:recipientId': 'notification.read',
+    'PATCH /mark-all-read/:recipientId': 'notification.read',
+    'PATCH /mark-as-read': 'notification.read',
+    'POST /bulk-delete': 'notification.manage',
+    'GET /:id': 'notification.read',
+    'PUT /:id': 'notification.manage',
+    'DELETE /:id': 'notification.manage',
+  },
+
+  '/reports': {
+    'POST /generate': 'report.generate',
+    'GET /': 'report.read',
+    'GET /statistics': 'report.read',
+    'POST /cleanup': 'report.delete',
+    'DELETE /bulk-delete': 'report.delete',
+    'GET /:id': 'report.read',
+    'GET /:id/download': 'report.read',
+    'PUT /:id': 'report.generate',
+    'DELETE /:id': 'report.delete',
+  },
+
+  '/inventory': {
+    'POST /items': 'inventory.manage',
+    'GET /items': 'inventory.read',
+    'GET /items/search': 'inventory.read',
+    'POST /items/export': 'inventory.read',
+    'POST /items/import': 'inventory.manage',
+    'GET /items/imports/:importId/log': 'inventory.manage',
+    'POST /items/bulk': 'authenticated',
+    'GET /items/:id': 'inventory.read',
+    'PUT /items/:id': 'inventory.manage',
+    'DELETE /items/:id': 'inventory.delete',
+    'GET /stats': 'inventory.statistics',
+    'GET /alerts/low-stock': 'inventory.alerts',
+  },
+
+  '/settings': {
+    'GET /': 'settings.read',
+    'GET /:key': 'settings.read',
+    'POST /': 'settings.manage',
+    'PUT /:key': 'settings.manage',
+    'DELETE /:key': 'settings.manage',
+  },
+
+  '/shifts': {
+    'GET /templates': 'shift.read',
+    'POST /templates': 'shift.manage',
+    'PUT /templates/:id': 'shift.manage',
+    'DELETE /templates/:id': 'shift.manage',
+    'GET /roster': 'shift.read',
+    'PUT /roster': 'shift.manage',
+    'GET /on-duty': 'shift.read',
+    'GET /mine': 'shift.clock',
+    'POST /clock-in': 'shift.clock',
+    'POST /clock-out': 'shift.clock',
+    'GET /clock-entries': 'shift.manage',
+    'POST /leave': 'shift.clock',
+    'GET /leave': 'shift.manage',
+    'GET /leave/mine': 'shift.clock',
+    'PATCH /leave/:id/review': 'shift.manage',
+    'PATCH /leave/:id/cancel': 'shift.clock',
+  },
+};
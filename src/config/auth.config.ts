@@ -0,0 +1,17 @@
+/**
+ * Authentication and session configuration
+ */
+export const authConfig = {
+  // Access tokens are short-lived; clients renew them with a refresh token
+  accessTokenExpiresIn: process.env.JWT_EXPIRES_IN || '15m',
+
+  // Lifetime of a refresh token; each use rotates it
+  refreshTokenTtlDays: Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30,
+
+  // Lifetime of a single-use password reset token
+  passwordResetTtlMinutes: Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 60,
+
+  // How long role permission sets are cached before being re-read
+  permissionCacheTtlSeconds:
+    Number(process.env.PERMISSION_CACHE_TTL_SECONDS) || 60,
+};
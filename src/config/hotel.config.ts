@@ -0,0 +1,19 @@
+/**
+ * Hotel details printed on invoices and reports
+ */
+export const hotelConfig = {
+  name: process.env.HOTEL_NAME || 'LuxuryStay Hotel',
+
+  // Postal address, printed on one line
+  address: process.env.HOTEL_ADDRESS || '',
+
+  phone: process.env.HOTEL_PHONE || '',
+
+  email: process.env.HOTEL_EMAIL || '',
+
+  // Tax registration number shown on invoices
+  taxId: process.env.HOTEL_TAX_ID || '',
+
+  // Currency bill amounts are kept in
+  currency: process.env.HOTEL_CURRENCY || 'USD',
+};
@@ -0,0 +1,31 @@
+import { HousekeepingTaskType, RoomType } from '../types/models';
+
+/**
+ * Housekeeping board configuration
+ */
+export const housekeepingConfig = {
+  // Hour of the day (UTC) generated tasks are scheduled for
+  boardStartHour: Number(process.env.HOUSEKEEPING_BOARD_START_HOUR) || 9,
+
+  // Defaults of the settings that pace linen changes and deep cleans
+  linenChangeNights: 3,
+  deepCleanIntervalDays: 90,
+
+  // Workload credits of each task in a standard room
+  taskCredits: {
+    [HousekeepingTaskType.DAILY_CLEANING]: 1,
+    [HousekeepingTaskType.DEPARTURE_CLEANING]: 2,
+    [HousekeepingTaskType.DEEP_CLEANING]: 4,
+    [HousekeepingTaskType.LINEN_CHANGE]: 0.5,
+    [HousekeepingTaskType.AMENITY_RESTOCK]: 0.25,
+    [HousekeepingTaskType.INSPECTION]: 0.5,
+  } as Record<HousekeepingTaskType, number>,
+
+  // How much more work a room of each type is than a standard room
+  roomTypeWeights: {
+    [RoomType.STANDARD]: 1,
+    [RoomType.DELUXE]: 1.25,
+    [RoomType.SUITE]: 1.75,
+    [RoomType.PRESIDENTIAL]: 2.5,
+  } as Record<RoomType, number>,
+};
@@ -1,2 +1,7 @@
 export * from './rateLimiter.config';
 export * from './database';
+export * from './reservation.config';
+export * from './auth.config';
+export * from './mail.config';
+export * from './hotel.config';
+export * from './housekeeping.config';
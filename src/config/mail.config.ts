@@ -0,0 +1,16 @@
+/**
+ * Outgoing mail configuration
+ */
+export const mailConfig = {
+  // Transport used to deliver mail: 'console' or 'file'
+  transport: process.env.MAIL_TRANSPORT || 'console',
+
+  // Sender address on every message
+  from: process.env.MAIL_FROM || 'LuxuryStay HMS <noreply@luxurystay.local>',
+
+  // Directory the file transport writes messages to
+  fileDirectory: process.env.MAIL_FILE_DIR || 'logs/mail',
+
+  // Base URL of the frontend, used to build links in messages
+  frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
+};
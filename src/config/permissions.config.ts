@@ -0,0 +1,184 @@
+import { UserRole } from '../types/models';
+
+/**
+ * Permission catalogue: every named permission the API checks, with a
+ * description shown by the permission admin API
+ */
+export const PERMISSIONS = {
+  'system.admin': 'Full administrative access',
+  'system.management': 'Management access',
+  'test.manage': 'Manage test records',
+  'permission.manage': 'Edit role permissions and per-user grants',
+  'user.read': 'View and search user accounts',
+  'user.manage': 'Create staff accounts, edit, deactivate and delete users',
+  'room.manage': 'Create, edit and delete rooms',
+  'room.status.update': 'Change the status of a room',
+  'reservation.read': 'View all reservations',
+  'reservation.update': 'Edit, confirm and cancel reservations',
+  'reservation.delete': 'Delete reservations',
+  'group_booking.read': 'View group bookings and master bills',
+  'group_booking.manage': 'Create group bookings, rooming lists and routing',
+  'group_booking.cancel': 'Cancel group bookings and release expired blocks',
+  'rate_plan.read': 'View rate plans',
+  'rate_plan.manage': 'Create, edit and deactivate rate plans',
+  'bill.read': 'View bills',
+  'bill.manage': 'Create and edit bills, post folio charges',
+  'bill.adjust': 'Post charge adjustments to bills',
+  'bill.payment': 'Record payments on bills',
+  'bill.payment.void': 'Void recorded payments',
+  'bill.refund': 'Issue refunds on bills',
+  'bill.delete': 'Delete bills',
+  'tax.manage': 'Edit the tax rules applied to charges',
+  'settings.read': 'View system settings',
+  'settings.manage': 'Create, edit and delete system settings',
+  'checkin.read': 'View check-ins',
+  'checkin.manage': 'Create and complete check-ins',
+  'checkin.delete': 'Delete check-ins',
+  'checkout.read': 'View check-outs',
+  'checkout.manage': 'Create and complete check-outs and late fees',
+  'checkout.delete': 'Delete check-outs',
+  'service_request.read': 'View service requests',
+  'service_request.create': 'Log service requests on behalf of guests',
+  'service_request.update': 'Work on and complete service requests',
+  'service_request.assign': 'Assign service requests to staff',
+  'service_request.statistics': 'View service request statistics',
+  'service_request.delete': 'Delete service requests',
+  'housekeeping.read': 'View housekeeping tasks',
+  'housekeeping.manage': 'Create, assign and complete housekeeping tasks',
+  'housekeeping.statistics': 'View housekeeping statistics',
+  'housekeeping.delete': 'Delete housekeeping tasks',
+  'maintenance.report': 'Report maintenance issues',
+  'maintenance.read': 'View maintenance requests',
+  'maintenance.manage': 'Assign, update and complete maintenance requests',
+  'maintenance.statistics': 'View maintenance statistics',
+  'maintenance.delete': 'Delete maintenance requests',
+  'feedback.read': 'View guest feedback',
+  'feedback.create': 'Record feedback on behalf of guests',
+  'feedback.respond': 'Respond to guest feedback',
+  'feedback.manage': 'Edit and delete guest feedback',
+  'feedback.statistics': 'View feedback statistics',
+  'notification.send': 'Send notifications',
+  'notification.read': 'Read and acknowledge notifications',
+  'notification.manage': 'List, edit and delete all notifications',
+  'report.read': 'View and download reports',
+  'report.generate': 'Generate and edit reports',
+  'report.delete': 'Delete and clean up reports',
+  'inventory.read': 'View inventory items',
+  'inventory.manage': 'Create and edit inventory items',
+  'inventory.delete': 'Delete inventory items',
+  'inventory.statistics': 'View inventory statistics',
+  'inventory.alerts': 'View low stock alerts',
+  'shift.read': 'View shift templates, rosters and who is on duty',
+  'shift.manage':
+    'Edit shift templates and rosters, review leave and view time clock entries',
+  'shift.clock': 'Clock in and out, view own shifts and request leave',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_NAMES = Object.keys(PERMISSIONS) as Permission[];
+
+const FRONT_DESK: Permission[] = [
+  'user.read',
+  'room.status.update',
+  'reservation.read',
+  'reservation.update',
+  'group_booking.read',
+  'group_booking.manage',
+  'rate_plan.read',
+  'bill.read',
+  'bill.manage',
+  'bill.payment',
+  'checkin.read',
+  'checkin.manage',
+  'checkout.read',
+  'checkout.manage',
+  'service_request.read',
+  'service_request.create',
+  'service_request.update',
+  'service_request.assign',
+  'housekeeping.read',
+  'maintenance.report',
+  'maintenance.read',
+  'feedback.read',
+  'feedback.create',
+  'feedback.respond',
+  'notification.send',
+  'notification.read',
+  'shift.read',
+  'shift.clock',
+];
+
+const MANAGEMENT: Permission[] = [
+  ...FRONT_DESK,
+  'system.management',
+  'settings.read',
+  'room.manage',
+  'reservation.delete',
+  'group_booking.cancel',
+  'rate_plan.manage',
+  'bill.adjust',
+  'bill.payment.void',
+  'bill.refund',
+  'bill.delete',
+  'checkin.delete',
+  'checkout.delete',
+  'service_request.statistics',
+  'service_request.delete',
+  'housekeeping.manage',
+  'housekeeping.statistics',
+  'housekeeping.delete',
+  'maintenance.manage',
+  'maintenance.statistics',
+  'maintenance.delete',
+  'feedback.manage',
+  'feedback.statistics',
+  'notification.manage',
+  'report.read',
+  'report.generate',
+  'inventory.read',
+  'inventory.manage',
+  'inventory.statistics',
+  'inventory.alerts',
+  'shift.manage',
+];
+
+/**
+ * Permissions each role starts with. Admins always hold every permission;
+ * the other sets can be changed through the permission admin API.
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.ADMIN]: PERMISSION_NAMES,
+  [UserRole.MANAGER]: MANAGEMENT,
+  [UserRole.RECEPTIONIST]: FRONT_DESK,
+  [UserRole.HOUSEKEEPING]: [
+    'room.status.update',
+    'service_request.read',
+    'service_request.create',
+    'service_request.update',
+    'housekeeping.read',
+    'housekeeping.manage',
+    'maintenance.report',
+    'maintenance.read',
+    'notification.read',
+    'inventory.read',
+    'inventory.alerts',
+    'shift.read',
+    'shift.clock',
+  ],
+  [UserRole.MAINTENANCE]: [
+    'room.status.update',
+    'service_request.read',
+    'service_request.create',
+    'service_request.update',
+    'housekeeping.read',
+    'maintenance.report',
+    'maintenance.read',
+    'maintenance.manage',
+    'notification.read',
+    'inventory.read',
+    'shift.read',
+    'shift.clock',
+  ],
+  [UserRole.GUEST]: [],
+};
@@ -0,0 +1,13 @@
+/**
+ * Reservation engine configuration
+ */
+export const reservationConfig = {
+  // Default lifetime of a room hold while a guest completes checkout
+  holdTtlMinutes: Number(process.env.RESERVATION_HOLD_TTL_MINUTES) || 15,
+
+  // Upper bound a client may request for a single hold
+  maxHoldTtlMinutes: 60,
+
+  // Longest stay that can be quoted, held or booked
+  maxStayNights: Number(process.env.RESERVATION_MAX_STAY_NIGHTS) || 365,
+};
@@ -0,0 +1,109 @@
+import { Request, Response } from 'express';
+import { ResponseUtil } from '../utils/response';
+import { logger } from '../utils';
+import { AppError } from '../utils/errors';
+import { AssetService } from '../services';
+
+export class AssetController {
+  /**
+   * Get assets with pagination
+   */
+  static async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const filter = req.query as any;
+      const { assets, total } = await AssetService.list(filter);
+
+      ResponseUtil.paginated(
+        res,
+        assets,
+        total,
+        filter.page,
+        filter.limit,
+        'Assets retrieved successfully'
+      );
+    } catch (error) {
+      AssetController.handleError(res, error, 'retrieve assets');
+    }
+  }
+
+  /**
+   * Get asset by ID
+   */
+  static async getById(req: Request, res: Response): Promise<void> {
+    try {
+      const asset = await AssetService.get(req.params.id);
+
+      ResponseUtil.success(res, asset, 'Asset retrieved successfully');
+    } catch (error) {
+      AssetController.handleError(res, error, 'retrieve asset');
+    }
+  }
+
+  /**
+   * Get the repair history, cost and failure rate of an asset
+   */
+  static async getHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const history = await AssetService.history(req.params.id);
+
+      ResponseUtil.success(
+        res,
+        history,
+        'Asset history retrieved successfully'
+      );
+    } catch (error) {
+      AssetController.handleError(res, error, 'retrieve asset history');
+    }
+  }
+
+  /**
+   * Register an asset
+   */
+  static async create(req: Request, res: Response): Promise<void> {
+    try {
+      const asset = await AssetService.create(req.body);
+
+      logger.info(`Asset ${asset.assetTag} registered`, {
+        userId: (req as any).user?.id,
+      });
+      ResponseUtil.success(res, asset, 'Asset created successfully', 201);
+    } catch (error) {
+      AssetController.handleError(res, error, 'create asset');
+    }
+  }
+
+  /**
+   * Update an asset
+   */
+  static async update(req: Request, res: Response): Promise<void> {
+    try {
+      const asset = await AssetService.update(req.params.id, req.body);
+
+      ResponseUtil.success(res, asset, 'Asset updated successfully');
+    } catch (error) {
+      AssetController.handleError(res, error, 'update asset');
+    }
+  }
+
+  /**
+   * Retire an asset; its history is kept
+   */
+  static async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const asset = await AssetService.deactivate(req.params.id);
+
+      ResponseUtil.success(res, asset, 'Asset retired successfully');
+    } catch (error) {
+      AssetController.handleError(res, error, 'retire asset');
+    }
+  }
+
+  private static handleError(res: Response, error: unknown, action: string) {
+    if (error instanceof AppError) {
+      ResponseUtil.error(res, error.message, error.statusCode);
+      return;
+    }
+    logger.error(`Error trying to ${action}:`, error);
+    ResponseUtil.internalError(res, `Failed to ${action}`);
+  }
+}
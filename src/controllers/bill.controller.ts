@@ -4,6 +4,21 @@ import { BillModel } from '../models/Bill.model';
 import { logger } from '../utils';
 import { billValidationSchemas } from '../validations/bill.validation';
 import { PaymentStatus } from '../types/models';
+import {
+  BillingService,
+  DocumentService,
+  ExportService,
+  FolioService,
+  TaxService,
+} from '../services';
+import { AppError } from '../utils/errors';
+
+// Bills that still have money owing
+const OUTSTANDING_STATUSES = [
+  PaymentStatus.PENDING,
+  PaymentStatus.PARTIAL,
+  PaymentStatus.OVERDUE,
+];
 
 /**
  * Bill Controller
@@ -36,10 +51,13 @@ export class BillController {
         }
       }
 
-      const bill = await BillModel.create(billData);
+      const bill = await BillingService.createBill(billData);
       logger.info('Bill created successfully', { bill });
       return ResponseUtil.success(res, bill, 'Bill created successfully', 201);
     } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
       logger.error('Error creating bill', { error });
       return ResponseUtil.error(res, 'Internal server error', 500);
     }
@@ -114,7 +132,7 @@ export class BillController {
 
       if (req.query.isOverdue === 'true') {
         searchQuery.dueDate = { $lt: new Date() };
-        searchQuery.status = { $ne: PaymentStatus.PAID };
+        searchQuery.status = { $in: OUTSTANDING_STATUSES };
       }
 
       if (startDate || endDate) {
@@ -202,10 +220,9 @@ export class BillController {
       const { id } = req.params;
       const updateData = req.body;
 
-      const bill = await BillModel.findByIdAndUpdate(id, updateData, {
-        new: true,
-        runValidators: true,
-      })
+      // Ledger fields are ignored; the balance is re-derived from the new total
+      await BillingService.updateBill(id, updateData);
+      const bill = await BillModel.findById(id)
         .populate('reservationId', 'checkInDate checkOutDate numberOfGuests')
         .populate('guestId', 'firstName lastName email phone')
         .populate('roomId', 'roomNumber roomType');
@@ -218,6 +235,9 @@ export class BillController {
       logger.info('Bill updated successfully', { billId: bill._id });
       return ResponseUtil.success(res, bill, 'Bill updated successfully');
     } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
       logger.error('Error updating bill', { error });
       return ResponseUtil.error(res, 'Internal server error', 500);
     }
@@ -246,7 +266,7 @@ export class BillController {
   }
 
   /**
-   * Process payment for a bill
+   * Record a payment against a bill
    * @route POST /api/v1/bills/:id/payment
    */
   async processPayment(req: Request, res: Response) {
@@ -254,48 +274,128 @@ export class BillController {
       const { id } = req.params;
       const paymentData = req.body;
 
-      const bill = await BillModel.findById(id);
+      const bill = await BillingService.recordPayment(
+        id,
+        paymentData,
+        this.staffId(req)
+      );
+
+      logger.info('Payment processed successfully', {
+        billId: id,
+        amount: paymentData.amount,
+        paymentMethod: paymentData.paymentMethod,
+        status: bill.status,
+      });
+      return ResponseUtil.success(res, bill, 'Payment processed successfully');
+    } catch (error) {
+      if (error instanceof AppError) {
+        logger.warn('Payment rejected', { reason: error.message });
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error processing payment', { error });
+      return ResponseUtil.error(res, 'Internal server error', 500);
+    }
+  }
+
+  /**
+   * Get the payment ledger of a bill
+   * @route GET /api/v1/bills/:id/payments
+   */
+  async getPayments(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const bill = await BillModel.findById(id).populate(
+        'payments.receivedBy payments.voidedBy',
+        'firstName lastName email'
+      );
+
       if (!bill) {
         logger.error('Bill not found', { id });
         return ResponseUtil.error(res, 'Bill not found', 404);
       }
 
-      if (bill.status === PaymentStatus.PAID) {
-        logger.error('Bill already paid', { billId: id });
-        return ResponseUtil.error(res, 'Bill is already paid', 400);
-      }
-
-      // Update bill with payment information
-      const updatedBill = await BillModel.findByIdAndUpdate(
-        id,
+      return ResponseUtil.success(
+        res,
         {
-          status: PaymentStatus.PAID,
-          paidDate: new Date(),
-          paymentMethod: paymentData.paymentMethod,
+          payments: bill.payments,
+          totalAmount: bill.totalAmount,
+          creditedAmount: bill.creditedAmount,
+          netAmount: bill.netAmount,
+          amountPaid: bill.amountPaid,
+          balanceDue: bill.balanceDue,
+          status: bill.status,
         },
-        { new: true, runValidators: true }
-      )
-        .populate('reservationId', 'checkInDate checkOutDate numberOfGuests')
-        .populate('guestId', 'firstName lastName email phone')
-        .populate('roomId', 'roomNumber roomType');
+        'Payments fetched successfully'
+      );
+    } catch (error) {
+      logger.error('Error getting bill payments', { error });
+      return ResponseUtil.error(res, 'Internal server error', 500);
+    }
+  }
 
-      logger.info('Payment processed successfully', {
+  /**
+   * Void a payment, keeping it in the ledger
+   * @route POST /api/v1/bills/:id/payments/:paymentId/void
+   */
+  async voidPayment(req: Request, res: Response) {
+    try {
+      const { id, paymentId } = req.params;
+      const { reason } = req.body;
+
+      const bill = await BillingService.voidPayment(
+        id,
+        paymentId,
+        reason,
+        this.staffId(req)
+      );
+
+      logger.info('Payment voided successfully', {
         billId: id,
-        paymentMethod: paymentData.paymentMethod,
+        paymentId,
+        voidedBy: this.staffId(req),
       });
-      return ResponseUtil.success(
-        res,
-        updatedBill,
-        'Payment processed successfully'
+      return ResponseUtil.success(res, bill, 'Payment voided successfully');
+    } catch (error) {
+      if (error instanceof AppError) {
+        logger.warn('Payment void rejected', { reason: error.message });
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error voiding payment', { error });
+      return ResponseUtil.error(res, 'Internal server error', 500);
+    }
+  }
+
+  /**
+   * Record a deposit taken for the bill's reservation
+   * @route POST /api/v1/bills/:id/deposit
+   */
+  async recordDeposit(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const bill = await BillingService.recordDeposit(
+        id,
+        req.body,
+        this.staffId(req)
       );
+
+      logger.info('Deposit recorded successfully', {
+        billId: id,
+        amount: req.body.amount,
+        receivedBy: this.staffId(req),
+      });
+      return ResponseUtil.success(res, bill, 'Deposit recorded successfully');
     } catch (error) {
-      logger.error('Error processing payment', { error });
+      if (error instanceof AppError) {
+        logger.warn('Deposit rejected', { reason: error.message });
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error recording deposit', { error });
       return ResponseUtil.error(res, 'Internal server error', 500);
     }
   }
 
   /**
-   * Process refund for a bill
+   * Refund a payment and issue a credit note
    * @route POST /api/v1/bills/:id/refund
    */
   async processRefund(req: Request, res: Response) {
@@ -303,47 +403,296 @@ export class BillController {
       const { id } = req.params;
       const refundData = req.body;
 
-      const bill = await BillModel.findById(id);
+      const { bill, creditNote } = await BillingService.refundPayment(
+        id,
+        refundData,
+        this.staffId(req)
+      );
+
+      logger.info('Refund processed successfully', {
+        billId: id,
+        paymentId: refundData.paymentId,
+        creditNoteNumber: creditNote.creditNoteNumber,
+        amount: creditNote.amount,
+      });
+      return ResponseUtil.success(
+        res,
+        { bill, creditNote },
+        'Refund processed successfully'
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        logger.warn('Refund rejected', { reason: error.message });
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error processing refund', { error });
+      return ResponseUtil.error(res, 'Internal server error', 500);
+    }
+  }
+
+  /**
+   * Get the credit notes issued against a bill
+   * @route GET /api/v1/bills/:id/credit-notes
+   */
+  async getCreditNotes(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const creditNotes = await BillingService.getCreditNotes(id);
+
+      return ResponseUtil.success(
+        res,
+        creditNotes,
+        'Credit notes fetched successfully'
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error getting credit notes', { error });
+      return ResponseUtil.error(res, 'Internal server error', 500);
+    }
+  }
+
+  /**
+   * Export the bills matching the given filters
+   * @route POST /api/v1/bills/export
+   */
+  async exportBills(req: Request, res: Response) {
+    try {
+      const file = await ExportService.exportList('bills', req.body);
+
+      logger.info('Bills exported successfully', {
+        format: req.body.format,
+        exportedBy: this.staffId(req),
+      });
+      return ResponseUtil.file(
+        res,
+        file.content,
+        file.contentType,
+        file.filename
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error exporting bills', { error });
+      return ResponseUtil.error(res, 'Internal server error', 500);
+    }
+  }
+
+  /**
+   * Download the invoice of a bill as a PDF
+   * @route GET /api/v1/bills/:id/invoice.pdf
+   */
+  async downloadInvoice(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const pdf = await DocumentService.renderInvoice(id);
+
+      return ResponseUtil.file(
+        res,
+        pdf,
+        'application/pdf',
+        `invoice_${id}.pdf`
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error rendering invoice', { error });
+      return ResponseUtil.error(res, 'Internal server error', 500);
+    }
+  }
+
+  /**
+   * Open the folio of a check-in, posting the nights so far
+   * @route POST /api/v1/bills/folio
+   */
+  async openFolio(req: Request, res: Response) {
+    try {
+      const { checkInId } = req.body;
+      const bill = await FolioService.openFolio(checkInId);
+
+      logger.info('Folio opened successfully', { billId: bill._id, checkInId });
+      return ResponseUtil.success(res, bill, 'Folio opened successfully');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error opening folio', { error });
+      return ResponseUtil.error(res, 'Internal server error', 500);
+    }
+  }
+
+  /**
+   * Get the folio lines of a bill
+   * @route GET /api/v1/bills/:id/charges
+   */
+  async getCharges(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const bill = await BillModel.findById(id).populate(
+        'charges.postedBy',
+        'firstName lastName email'
+      );
+
       if (!bill) {
         logger.error('Bill not found', { id });
         return ResponseUtil.error(res, 'Bill not found', 404);
       }
 
-      if (bill.status !== PaymentStatus.PAID) {
-        logger.error('Cannot refund unpaid bill', {
-          billId: id,
-          status: bill.status,
-        });
-        return ResponseUtil.error(res, 'Cannot refund unpaid bill', 400);
-      }
-
-      // Update bill with refund information
-      const updatedBill = await BillModel.findByIdAndUpdate(
-        id,
+      return ResponseUtil.success(
+        res,
         {
-          status: PaymentStatus.CANCELLED,
-          refundAmount: refundData.refundAmount,
-          refundReason: refundData.refundReason,
-          refundDate: new Date(),
+          charges: bill.charges,
+          baseAmount: bill.baseAmount,
+          serviceCharges: bill.serviceCharges,
+          adjustmentAmount: bill.adjustmentAmount,
+          taxAmount: bill.taxAmount,
+          taxBreakdown: bill.taxBreakdown,
+          totalAmount: bill.totalAmount,
         },
-        { new: true, runValidators: true }
-      )
-        .populate('reservationId', 'checkInDate checkOutDate numberOfGuests')
-        .populate('guestId', 'firstName lastName email phone')
-        .populate('roomId', 'roomNumber roomType');
+        'Charges fetched successfully'
+      );
+    } catch (error) {
+      logger.error('Error getting bill charges', { error });
+      return ResponseUtil.error(res, 'Internal server error', 500);
+    }
+  }
 
-      logger.info('Refund processed successfully', {
+  /**
+   * Post the room charges of the nights of the stay so far
+   * @route POST /api/v1/bills/:id/room-charges
+   */
+  async postRoomCharges(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const bill = await FolioService.postRoomCharges(id);
+
+      logger.info('Room charges posted successfully', { billId: id });
+      return ResponseUtil.success(
+        res,
+        bill,
+        'Room charges posted successfully'
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error posting room charges', { error });
+      return ResponseUtil.error(res, 'Internal server error', 500);
+    }
+  }
+
+  /**
+   * Post minibar consumption to a bill
+   * @route POST /api/v1/bills/:id/minibar
+   */
+  async postMinibar(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const { items } = req.body;
+      const bill = await FolioService.postMinibar(id, items, this.staffId(req));
+
+      logger.info('Minibar charges posted successfully', {
         billId: id,
-        refundAmount: refundData.refundAmount,
-        refundReason: refundData.refundReason,
+        itemCount: items.length,
       });
       return ResponseUtil.success(
         res,
-        updatedBill,
-        'Refund processed successfully'
+        bill,
+        'Minibar charges posted successfully'
       );
     } catch (error) {
-      logger.error('Error processing refund', { error });
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error posting minibar charges', { error });
+      return ResponseUtil.error(res, 'Internal server error', 500);
+    }
+  }
+
+  /**
+   * Post a charge adjustment with a reason
+   * @route POST /api/v1/bills/:id/adjustments
+   */
+  async postAdjustment(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const adjustmentData = req.body;
+      const bill = await FolioService.postAdjustment(
+        id,
+        adjustmentData,
+        this.staffId(req)
+      );
+
+      logger.info('Adjustment posted successfully', {
+        billId: id,
+        amount: adjustmentData.amount,
+        reason: adjustmentData.reason,
+        postedBy: this.staffId(req),
+      });
+      return ResponseUtil.success(res, bill, 'Adjustment posted successfully');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error posting adjustment', { error });
+      return ResponseUtil.error(res, 'Internal server error', 500);
+    }
+  }
+
+  /**
+   * Post outstanding room nights and service charges of all stays
+   * @route POST /api/v1/bills/night-audit
+   */
+  async runNightAudit(req: Request, res: Response) {
+    try {
+      const result = await FolioService.runNightAudit();
+
+      logger.info('Night audit completed', { ...result });
+      return ResponseUtil.success(res, result, 'Night audit completed');
+    } catch (error) {
+      logger.error('Error running night audit', { error });
+      return ResponseUtil.error(res, 'Internal server error', 500);
+    }
+  }
+
+  /**
+   * Get the tax rules applied to folio charges
+   * @route GET /api/v1/bills/tax-rules
+   */
+  async getTaxRules(req: Request, res: Response) {
+    try {
+      const rules = await TaxService.getRules();
+      return ResponseUtil.success(res, rules, 'Tax rules fetched successfully');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error getting tax rules', { error });
+      return ResponseUtil.error(res, 'Internal server error', 500);
+    }
+  }
+
+  /**
+   * Replace the tax rules
+   * @route PUT /api/v1/bills/tax-rules
+   */
+  async updateTaxRules(req: Request, res: Response) {
+    try {
+      const rules = await TaxService.setRules(req.body.rules);
+
+      logger.info('Tax rules updated successfully', {
+        codes: rules.map(rule => rule.code),
+        updatedBy: this.staffId(req),
+      });
+      return ResponseUtil.success(res, rules, 'Tax rules updated successfully');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error updating tax rules', { error });
       return ResponseUtil.error(res, 'Internal server error', 500);
     }
   }
@@ -403,7 +752,7 @@ export class BillController {
       const currentDate = new Date();
       const bills = await BillModel.find({
         dueDate: { $lt: currentDate },
-        status: { $ne: PaymentStatus.PAID },
+        status: { $in: OUTSTANDING_STATUSES },
       })
         .populate('reservationId', 'checkInDate checkOutDate numberOfGuests')
         .populate('guestId', 'firstName lastName email phone')
@@ -423,4 +772,9 @@ export class BillController {
       return ResponseUtil.error(res, 'Internal server error', 500);
     }
   }
+
+  // Staff member recorded against ledger entries
+  private staffId(req: Request): string | undefined {
+    return (req as any).user?.id;
+  }
 }
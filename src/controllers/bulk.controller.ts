@@ -0,0 +1,81 @@
+import { Request, RequestHandler, Response } from 'express';
+import { ResponseUtil } from '../utils/response';
+import { logger } from '../utils';
+import { BulkResource, BulkService } from '../services';
+import { AppError } from '../utils/errors';
+import { hasPermission } from '../middleware/permission.middleware';
+import { HttpStatusCode } from '../types/api';
+
+/**
+ * Bulk Controller
+ * One bulk endpoint per list: rooms, users, inventory items, housekeeping
+ * tasks and maintenance requests
+ */
+export class BulkController {
+  /**
+   * Handler that applies a bulk operation to records of a resource
+   * @route POST /api/v1/<resource>/bulk
+   */
+  static handler(resource: BulkResource): RequestHandler {
+    return (req, res) => {
+      void BulkController.apply(resource, req, res);
+    };
+  }
+
+  private static async apply(
+    resource: BulkResource,
+    req: Request,
+    res: Response
+  ) {
+    try {
+      // The route is open to any signed-in user; each operation needs the
+      // permission of its single-item route
+      const permission = BulkService.permissionFor(
+        resource,
+        req.body.operation
+      );
+      if (!hasPermission(req, permission)) {
+        return ResponseUtil.forbidden(
+          res,
+          `Permission ${permission} is required to ${req.body.operation} these records`
+        );
+      }
+
+      const userId = (req as any).user?.id;
+      const result = await BulkService.apply(resource, req.body, userId);
+      logger.info('Bulk operation processed', {
+        resource,
+        operation: result.operation,
+        succeeded: result.succeeded,
+        failed: result.failed,
+        userId,
+      });
+
+      if (!result.applied) {
+        return ResponseUtil.error(
+          res,
+          `Nothing was changed: ${result.failed} of ${result.total} items could not be processed`,
+          HttpStatusCode.CONFLICT,
+          result.results
+            .filter(item => item.success === false)
+            .map(item => ({
+              field: 'ids',
+              message: item.message,
+              value: item.id,
+            }))
+        );
+      }
+      return ResponseUtil.success(
+        res,
+        result,
+        `${result.succeeded} of ${result.total} items processed`
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error applying bulk operation', { error, resource });
+      return ResponseUtil.internalError(res, 'Failed to apply bulk operation');
+    }
+  }
+}
@@ -3,6 +3,10 @@ import { ResponseUtil } from '../utils/response';
 import { CheckInModel } from '../models/CheckIn.model';
 import { logger } from '../utils';
 import { checkInValidationSchemas } from '../validations/checkIn.validation';
+import { FolioService, RoomMoveService, RoomStatusService } from '../services';
+import { AppError } from '../utils/errors';
+import { runInTransaction } from '../utils/transaction';
+import { RoomStatus, RoomStatusTrigger } from '../types/models';
 
 /**
  * CheckIn Controller
@@ -33,14 +37,44 @@ export class CheckInController {
         );
       }
 
-      const checkIn = await CheckInModel.create(checkInData);
+      // The guest's room is occupied from check-in
+      const checkIn = await runInTransaction(async session => {
+        const [created] = await CheckInModel.create([checkInData], {
+          session,
+        });
+        await RoomStatusService.changeStatus(
+          String(created.roomId),
+          RoomStatus.OCCUPIED,
+          {
+            trigger: RoomStatusTrigger.CHECK_IN,
+            sourceId: String(created._id),
+            changedBy: (req as any).user?.id,
+          },
+          session
+        );
+        return created;
+      });
       logger.info('Check-in created successfully', { checkIn });
+
+      // The night audit opens the folio later if this fails
+      try {
+        await FolioService.openFolio(String(checkIn._id));
+      } catch (error) {
+        logger.error('Error opening folio for check-in', {
+          checkInId: checkIn._id,
+          error,
+        });
+      }
+
       return ResponseUtil.success(
         res,
         checkIn,
         'Check-in created successfully'
       );
     } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
       logger.error('Error creating check-in', { error });
       return ResponseUtil.error(res, 'Internal server error', 500);
     }
@@ -313,6 +347,37 @@ export class CheckInController {
     }
   }
 
+  /**
+   * Move a stay in progress to another room
+   * @route POST /api/v1/checkins/:id/move
+   */
+  async moveRoom(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const staffId = (req as any).user?.id;
+      const result = await RoomMoveService.moveStay(id, req.body, staffId);
+
+      logger.info('Stay moved to another room', {
+        checkInId: id,
+        fromRoomNumber: result.move.fromRoomNumber,
+        toRoomNumber: result.move.toRoomNumber,
+        chargedAmount: result.move.chargedAmount,
+        movedBy: staffId,
+      });
+      return ResponseUtil.success(
+        res,
+        result,
+        `Guest moved to room ${result.move.toRoomNumber}`
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error moving stay to another room', { error });
+      return ResponseUtil.error(res, 'Internal server error', 500);
+    }
+  }
+
   /**
    * Get check-in statistics
    * @route GET /api/v1/checkins/stats
@@ -4,6 +4,10 @@ import { CheckOutModel } from '../models/CheckOut.model';
 import { CheckInModel } from '../models/CheckIn.model';
 import { logger } from '../utils';
 import { checkOutValidationSchemas } from '../validations/checkOut.validation';
+import { FolioService, RoomStatusService } from '../services';
+import { AppError } from '../utils/errors';
+import { runInTransaction } from '../utils/transaction';
+import { RoomStatus, RoomStatusTrigger } from '../types/models';
 
 /**
  * CheckOut Controller
@@ -43,11 +47,30 @@ export class CheckOutController {
         return ResponseUtil.error(res, 'Check-in not found', 404);
       }
 
-      const checkOut = await CheckOutModel.create({
-        ...checkOutData,
-        reservationId: checkIn.reservationId,
-        roomId: checkIn.roomId,
-        guestId: checkIn.guestId,
+      // The room is cleaned once the guest has left
+      const checkOut = await runInTransaction(async session => {
+        const [created] = await CheckOutModel.create(
+          [
+            {
+              ...checkOutData,
+              reservationId: checkIn.reservationId,
+              roomId: checkIn.roomId,
+              guestId: checkIn.guestId,
+            },
+          ],
+          { session }
+        );
+        await RoomStatusService.changeStatus(
+          String(checkIn.roomId),
+          RoomStatus.CLEANING,
+          {
+            trigger: RoomStatusTrigger.CHECK_OUT,
+            sourceId: String(created._id),
+            changedBy: (req as any).user?.id,
+          },
+          session
+        );
+        return created;
       });
 
       logger.info('Check-out created successfully', { checkOut });
@@ -57,6 +80,9 @@ export class CheckOutController {
         'Check-out created successfully'
       );
     } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
       logger.error('Error creating check-out', { error });
       return ResponseUtil.error(res, 'Internal server error', 500);
     }
@@ -308,12 +334,23 @@ export class CheckOutController {
         return ResponseUtil.error(res, 'Check-out not found', 404);
       }
 
+      const checkOutTime = completionData.checkOutTime || new Date();
+
+      // Update the corresponding check-in record
+      await CheckInModel.findByIdAndUpdate(checkOut.checkInId, {
+        checkOutTime,
+      });
+
+      // Post the nights not yet charged; the final amount follows the folio
+      const bill = await FolioService.openFolio(String(checkOut.checkInId));
+
       // Update check-out with completion data
       const updatedCheckOut = await CheckOutModel.findByIdAndUpdate(
         id,
         {
           ...completionData,
-          checkOutTime: completionData.checkOutTime || new Date(),
+          checkOutTime,
+          finalBillAmount: bill.netAmount,
           status: 'completed',
         },
         { new: true, runValidators: true }
@@ -323,11 +360,6 @@ export class CheckOutController {
         .populate('roomId', 'roomNumber roomType')
         .populate('guestId', 'firstName lastName email phone');
 
-      // Update the corresponding check-in record
-      await CheckInModel.findByIdAndUpdate(checkOut.checkInId, {
-        checkOutTime: completionData.checkOutTime || new Date(),
-      });
-
       logger.info('Check-out completed successfully', { checkOutId: id });
       return ResponseUtil.success(
         res,
@@ -335,6 +367,9 @@ export class CheckOutController {
         'Check-out completed successfully'
       );
     } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
       logger.error('Error completing check-out', { error });
       return ResponseUtil.error(res, 'Internal server error', 500);
     }
@@ -349,25 +384,17 @@ export class CheckOutController {
       const { id } = req.params;
       const { lateFeeAmount, reason } = req.body;
 
-      const checkOut = await CheckOutModel.findById(id);
-      if (!checkOut) {
-        logger.error('Check-out not found', { id });
-        return ResponseUtil.error(res, 'Check-out not found', 404);
-      }
-
-      // Calculate new final bill amount including late fee
-      const newFinalBillAmount = checkOut.finalBillAmount + lateFeeAmount;
+      const bill = await FolioService.postLateFee(
+        id,
+        lateFeeAmount,
+        reason,
+        (req as any).user?.id
+      );
 
+      // The final bill amount follows the folio, late fee included
       const updatedCheckOut = await CheckOutModel.findByIdAndUpdate(
         id,
-        {
-          finalBillAmount: newFinalBillAmount,
-          lateFee: {
-            amount: lateFeeAmount,
-            reason: reason || 'Late check-out fee',
-            appliedAt: new Date(),
-          },
-        },
+        { finalBillAmount: bill.netAmount },
         { new: true, runValidators: true }
       )
         .populate('checkInId', 'checkInTime assignedRoomNumber')
@@ -377,8 +404,9 @@ export class CheckOutController {
 
       logger.info('Late fee processed successfully', {
         checkOutId: id,
+        billId: bill._id,
         lateFeeAmount,
-        newFinalBillAmount,
+        newFinalBillAmount: bill.netAmount,
       });
       return ResponseUtil.success(
         res,
@@ -386,6 +414,9 @@ export class CheckOutController {
         'Late fee processed successfully'
       );
     } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
       logger.error('Error processing late fee', { error });
       return ResponseUtil.error(res, 'Internal server error', 500);
     }
@@ -0,0 +1,287 @@
+import { Request, Response } from 'express';
+import { GroupBookingModel as GroupBooking } from '../models/GroupBooking.model';
+import { ReservationModel as Reservation } from '../models/Reservation.model';
+import { ResponseUtil } from '../utils/response';
+import { logger } from '../utils';
+import { Types } from 'mongoose';
+import { GroupBookingService } from '../services';
+import { AppError } from '../utils/errors';
+
+export class GroupBookingController {
+  // Create a group booking and block its rooms
+  static async createGroupBooking(req: Request, res: Response): Promise<void> {
+    try {
+      const group = await GroupBookingService.createGroup({
+        ...req.body,
+        createdBy: (req as any).user?.id,
+      });
+
+      logger.info(`Group booking created successfully with ID: ${group._id}`);
+      ResponseUtil.success(
+        res,
+        group,
+        'Group booking created successfully',
+        201
+      );
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
+        return;
+      }
+      logger.error('Error creating group booking:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to create group booking',
+        500
+      );
+    }
+  }
+
+  // Get all group bookings with pagination and filters
+  static async getAllGroupBookings(req: Request, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 10, status, contactGuestId } = req.query;
+
+      const pageNum = parseInt(page as string);
+      const limitNum = parseInt(limit as string);
+      const skip = (pageNum - 1) * limitNum;
+
+      const searchQuery: any = {};
+      if (status) searchQuery.status = status;
+      if (contactGuestId) {
+        searchQuery.contactGuestId = new Types.ObjectId(
+          contactGuestId as string
+        );
+      }
+
+      const [groups, total] = await Promise.all([
+        GroupBooking.find(searchQuery)
+          .populate('contactGuestId', 'firstName lastName email')
+          .sort({ arrivalDate: 1 })
+          .skip(skip)
+          .limit(limitNum),
+        GroupBooking.countDocuments(searchQuery),
+      ]);
+
+      const totalPages = Math.ceil(total / limitNum);
+
+      ResponseUtil.success(
+        res,
+        {
+          groupBookings: groups,
+          pagination: {
+            currentPage: pageNum,
+            totalPages,
+            totalItems: total,
+            itemsPerPage: limitNum,
+            hasNextPage: pageNum < totalPages,
+            hasPrevPage: pageNum > 1,
+          },
+        },
+        'Group bookings retrieved successfully'
+      );
+    } catch (error: any) {
+      logger.error('Error retrieving group bookings:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to retrieve group bookings',
+        500
+      );
+    }
+  }
+
+  // Get a group booking with its child reservations
+  static async getGroupBookingById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!Types.ObjectId.isValid(id)) {
+        ResponseUtil.error(res, 'Invalid group booking ID format', 400);
+        return;
+      }
+
+      const group = await GroupBooking.findById(id)
+        .populate('contactGuestId', 'firstName lastName email phone')
+        .populate('allotments.roomIds', 'roomNumber roomType floor');
+
+      if (!group) {
+        ResponseUtil.error(res, 'Group booking not found', 404);
+        return;
+      }
+
+      const reservations = await Reservation.find({ groupBookingId: id })
+        .populate('guestId', 'firstName lastName email')
+        .populate('roomId', 'roomNumber roomType')
+        .sort({ checkInDate: 1 });
+
+      ResponseUtil.success(
+        res,
+        { groupBooking: group, reservations },
+        'Group booking retrieved successfully'
+      );
+    } catch (error: any) {
+      logger.error('Error retrieving group booking:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to retrieve group booking',
+        500
+      );
+    }
+  }
+
+  // Add a rooming list, creating one child reservation per entry
+  static async addRoomingList(req: Request, res: Response): Promise<void> {
+    try {
+      const reservations = await GroupBookingService.addRoomingList(
+        req.params.id,
+        req.body.entries
+      );
+
+      logger.info(
+        `Rooming list added to group ${req.params.id}: ${reservations.length} reservation(s)`
+      );
+      ResponseUtil.success(
+        res,
+        reservations,
+        'Rooming list added successfully',
+        201
+      );
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
+        return;
+      }
+      logger.error('Error adding rooming list:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to add rooming list',
+        500
+      );
+    }
+  }
+
+  // Release the unused rooms of a group block
+  static async releaseGroupBlock(req: Request, res: Response): Promise<void> {
+    try {
+      const group = await GroupBookingService.releaseUnusedRooms(req.params.id);
+
+      logger.info(`Group block released for group ${group._id}`);
+      ResponseUtil.success(res, group, 'Unused rooms released successfully');
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
+        return;
+      }
+      logger.error('Error releasing group block:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to release group block',
+        500
+      );
+    }
+  }
+
+  // Release every group block whose cutoff date has passed
+  static async releaseExpiredBlocks(
+    _req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const released = await GroupBookingService.releaseExpiredBlocks();
+
+      logger.info(`Released ${released.length} expired group block(s)`);
+      ResponseUtil.success(
+        res,
+        { releasedGroupIds: released, count: released.length },
+        'Expired group blocks released successfully'
+      );
+    } catch (error: any) {
+      logger.error('Error releasing expired group blocks:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to release expired group blocks',
+        500
+      );
+    }
+  }
+
+  // Cancel a group booking and its child reservations
+  static async cancelGroupBooking(req: Request, res: Response): Promise<void> {
+    try {
+      const group = await GroupBookingService.cancelGroup(req.params.id);
+
+      logger.info(`Group booking cancelled: ${group._id}`);
+      ResponseUtil.success(res, group, 'Group booking cancelled successfully');
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
+        return;
+      }
+      logger.error('Error cancelling group booking:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to cancel group booking',
+        500
+      );
+    }
+  }
+
+  // Route charges from child bills to the group master bill
+  static async routeToMasterBill(req: Request, res: Response): Promise<void> {
+    try {
+      const masterBill = await GroupBookingService.routeChildBills(
+        req.params.id,
+        req.body.billIds
+      );
+
+      logger.info(
+        `Routed ${req.body.billIds.length} bill(s) to master bill ${masterBill._id}`
+      );
+      ResponseUtil.success(
+        res,
+        masterBill,
+        'Charges routed to master bill successfully'
+      );
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
+        return;
+      }
+      logger.error('Error routing charges to master bill:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to route charges to master bill',
+        500
+      );
+    }
+  }
+
+  // Get the group master bill
+  static async getMasterBill(req: Request, res: Response): Promise<void> {
+    try {
+      const masterBill = await GroupBookingService.getMasterBill(req.params.id);
+
+      if (!masterBill) {
+        ResponseUtil.error(res, 'Group has no master bill yet', 404);
+        return;
+      }
+
+      ResponseUtil.success(
+        res,
+        masterBill,
+        'Master bill retrieved successfully'
+      );
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
+        return;
+      }
+      logger.error('Error retrieving master bill:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to retrieve master bill',
+        500
+      );
+    }
+  }
+}
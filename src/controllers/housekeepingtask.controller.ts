@@ -3,7 +3,14 @@ import { ResponseUtil } from '../utils/response';
 import { HousekeepingTaskModel } from '../models/HousekeepingTask.model';
 import { logger } from '../utils';
 import { housekeepingValidationSchemas } from '../validations/housekeeping.validation';
-import { TaskStatus } from '../types/models';
+import { TaskStatus, UserRole } from '../types/models';
+import {
+  HousekeepingAssignmentService,
+  HousekeepingBoardService,
+  RoomStatusService,
+  ShiftService,
+} from '../services';
+import { AppError } from '../utils/errors';
 
 /**
  * Housekeeping Task Controller
@@ -307,6 +314,15 @@ export class HousekeepingTaskController {
         );
       }
 
+      // Only housekeepers on duty when the task is due can take it
+      await ShiftService.assertOnDuty(
+        assignmentData.assignedTo,
+        [UserRole.HOUSEKEEPING],
+        assignmentData.scheduledDate
+          ? new Date(assignmentData.scheduledDate)
+          : task.scheduledDate
+      );
+
       // Update task with assignment information
       const updatedTask = await HousekeepingTaskModel.findByIdAndUpdate(
         id,
@@ -331,6 +347,9 @@ export class HousekeepingTaskController {
         'Housekeeping task assigned successfully'
       );
     } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
       logger.error('Error assigning housekeeping task', { error });
       return ResponseUtil.error(res, 'Internal server error', 500);
     }
@@ -371,6 +390,13 @@ export class HousekeepingTaskController {
         .populate('roomId', 'roomNumber roomType floor')
         .populate('assignedStaffId', 'firstName lastName email');
 
+      if (updatedTask && task.status !== TaskStatus.COMPLETED) {
+        await RoomStatusService.afterHousekeepingTask(
+          updatedTask,
+          (req as any).user?.id
+        );
+      }
+
       logger.info('Housekeeping task status updated successfully', {
         taskId: id,
         status: statusData.status,
@@ -425,6 +451,14 @@ export class HousekeepingTaskController {
         .populate('roomId', 'roomNumber roomType floor')
         .populate('assignedStaffId', 'firstName lastName email');
 
+      // A passed inspection makes the room available again
+      if (updatedTask) {
+        await RoomStatusService.afterHousekeepingTask(
+          updatedTask,
+          (req as any).user?.id
+        );
+      }
+
       logger.info('Housekeeping task completed successfully', {
         taskId: id,
       });
@@ -586,4 +620,81 @@ export class HousekeepingTaskController {
       return ResponseUtil.error(res, 'Internal server error', 500);
     }
   }
+
+  /**
+   * Generate the housekeeping tasks of a day from occupancy
+   * @route POST /api/v1/housekeeping-tasks/generate
+   */
+  async generateBoard(req: Request, res: Response) {
+    try {
+      const result = await HousekeepingBoardService.generate(req.body.date);
+
+      logger.info('Housekeeping board generated', { ...result });
+      return ResponseUtil.success(
+        res,
+        result,
+        `${result.created} housekeeping tasks generated for ${result.date}`,
+        result.created > 0 ? 201 : 200
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error generating housekeeping board', { error });
+      return ResponseUtil.error(res, 'Internal server error', 500);
+    }
+  }
+
+  /**
+   * Get the open tasks of a day grouped by attendant, with their credits
+   * @route GET /api/v1/housekeeping-tasks/board
+   */
+  async getBoard(req: Request, res: Response) {
+    try {
+      const date = req.query['date'] as Date | undefined;
+      const board = await HousekeepingAssignmentService.getBoard(date);
+
+      return ResponseUtil.success(
+        res,
+        board,
+        'Housekeeping board fetched successfully'
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error getting housekeeping board', { error });
+      return ResponseUtil.error(res, 'Internal server error', 500);
+    }
+  }
+
+  /**
+   * Spread the open tasks of a day across housekeeping staff
+   * @route POST /api/v1/housekeeping-tasks/auto-assign
+   */
+  async autoAssignHousekeepingTasks(req: Request, res: Response) {
+    try {
+      const result = await HousekeepingAssignmentService.autoAssign(req.body);
+
+      logger.info('Housekeeping tasks auto-assigned', {
+        date: result.board.date,
+        assigned: result.assigned,
+        preview: result.preview,
+        assignedBy: (req as any).user?.id,
+      });
+      return ResponseUtil.success(
+        res,
+        result,
+        result.preview
+          ? `${result.assigned} housekeeping tasks would be assigned`
+          : `${result.assigned} housekeeping tasks assigned`
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error auto-assigning housekeeping tasks', { error });
+      return ResponseUtil.error(res, 'Internal server error', 500);
+    }
+  }
 }
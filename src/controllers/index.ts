@@ -1,7 +1,11 @@
 export { TestController } from './test.controller';
 export { RoomController } from './room.controller';
 export { UserController } from './user.controller';
+export { PermissionController } from './permission.controller';
+export { MeController } from './me.controller';
 export { ReservationController } from './reservation.controller';
+export { GroupBookingController } from './groupbooking.controller';
+export { RatePlanController } from './rateplan.controller';
 export { BillController } from './bill.controller';
 export { CheckInController } from './checkin.controller';
 export { CheckOutController } from './checkout.controller';
@@ -11,3 +15,6 @@ export { MaintenanceRequestController } from './maintenancerequest.controller';
 export { FeedbackController } from './feedback.controller';
 export { NotificationController } from './notification.controller';
 export { ReportController } from './report.controller';
+export { BulkController } from './bulk.controller';
+export { SettingsController } from './settings.controller';
+export { ShiftController } from './shift.controller';
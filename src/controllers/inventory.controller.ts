@@ -4,7 +4,10 @@ import { logger } from '../utils/logger';
 import { InventoryItemModel } from '../models/InventoryItem.model';
 import { InventoryTransactionModel } from '../models/InventoryTransaction.model';
 import { inventoryValidationSchemas } from '../validations/inventory.validation';
-import { UserRole } from '../types/models';
+import { ImportResource, ImportStatus, UserRole } from '../types/models';
+import { HttpStatusCode } from '../types/api';
+import { ExportService, ImportService } from '../services';
+import { AppError } from '../utils/errors';
 
 // Extend the Request interface locally
 interface AuthenticatedRequest extends Request {
@@ -369,6 +372,115 @@ export class InventoryController {
     }
   }
 
+  /**
+   * Export inventory items matching the given filters
+   */
+  static async exportItems(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const file = await ExportService.exportList('inventory', req.body);
+
+      logger.info('Inventory items exported', {
+        format: req.body.format,
+        userId: req.user?.id,
+      });
+
+      ResponseUtil.file(res, file.content, file.contentType, file.filename);
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
+        return;
+      }
+      logger.error('Failed to export inventory items', {
+        error: error.message,
+        userId: req.user?.id,
+      });
+
+      ResponseUtil.error(res, 'Failed to export inventory items', 500);
+    }
+  }
+
+  /**
+   * Import inventory items from a CSV or JSON file
+   */
+  static async importItems(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const log = await ImportService.importRecords(
+        ImportResource.INVENTORY,
+        req.body,
+        req.user?.id
+      );
+
+      logger.info('Inventory import processed', {
+        importId: log._id,
+        status: log.status,
+        userId: req.user?.id,
+      });
+
+      if (log.status === ImportStatus.FAILED) {
+        ResponseUtil.error(
+          res,
+          ImportService.describe(log),
+          HttpStatusCode.UNPROCESSABLE_ENTITY,
+          ImportService.rowErrors(log),
+          { importId: log._id }
+        );
+        return;
+      }
+      ResponseUtil.success(
+        res,
+        ImportService.summarize(log),
+        ImportService.describe(log),
+        log.status === ImportStatus.COMPLETED ? 201 : 200
+      );
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
+        return;
+      }
+      logger.error('Failed to import inventory items', {
+        error: error.message,
+        userId: req.user?.id,
+      });
+
+      ResponseUtil.error(res, 'Failed to import inventory items', 500);
+    }
+  }
+
+  /**
+   * Download the log of an inventory import
+   */
+  static async downloadImportLog(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const log = await ImportService.getLog(
+        ImportResource.INVENTORY,
+        req.params['importId']
+      );
+      const file = ImportService.renderLog(log, req.query as any);
+
+      ResponseUtil.file(res, file.content, file.contentType, file.filename);
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
+        return;
+      }
+      logger.error('Failed to download inventory import log', {
+        error: error.message,
+        importId: req.params['importId'],
+      });
+
+      ResponseUtil.error(res, 'Failed to download the import log', 500);
+    }
+  }
+
   /**
    * Search inventory items
    */
@@ -0,0 +1,177 @@
+import { Request, Response } from 'express';
+import { ResponseUtil } from '../utils/response';
+import { logger } from '../utils';
+import { AppError } from '../utils/errors';
+import { MaintenancePlanService } from '../services';
+
+export class MaintenancePlanController {
+  /**
+   * Get maintenance plans with pagination
+   */
+  static async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const filter = req.query as any;
+      const { plans, total } = await MaintenancePlanService.list(filter);
+
+      ResponseUtil.paginated(
+        res,
+        plans,
+        total,
+        filter.page,
+        filter.limit,
+        'Maintenance plans retrieved successfully'
+      );
+    } catch (error) {
+      MaintenancePlanController.handleError(
+        res,
+        error,
+        'retrieve maintenance plans'
+      );
+    }
+  }
+
+  /**
+   * Get maintenance plan by ID
+   */
+  static async getById(req: Request, res: Response): Promise<void> {
+    try {
+      const plan = await MaintenancePlanService.get(req.params.id);
+
+      ResponseUtil.success(
+        res,
+        plan,
+        'Maintenance plan retrieved successfully'
+      );
+    } catch (error) {
+      MaintenancePlanController.handleError(
+        res,
+        error,
+        'retrieve maintenance plan'
+      );
+    }
+  }
+
+  /**
+   * Create a maintenance plan
+   */
+  static async create(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.id;
+      const plan = await MaintenancePlanService.create(req.body, userId);
+
+      logger.info(`Maintenance plan ${plan.title} created`, { userId });
+      ResponseUtil.success(
+        res,
+        plan,
+        'Maintenance plan created successfully',
+        201
+      );
+    } catch (error) {
+      MaintenancePlanController.handleError(
+        res,
+        error,
+        'create maintenance plan'
+      );
+    }
+  }
+
+  /**
+   * Update a maintenance plan
+   */
+  static async update(req: Request, res: Response): Promise<void> {
+    try {
+      const plan = await MaintenancePlanService.update(req.params.id, req.body);
+
+      ResponseUtil.success(res, plan, 'Maintenance plan updated successfully');
+    } catch (error) {
+      MaintenancePlanController.handleError(
+        res,
+        error,
+        'update maintenance plan'
+      );
+    }
+  }
+
+  /**
+   * Deactivate a maintenance plan; its work orders are kept
+   */
+  static async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const plan = await MaintenancePlanService.deactivate(req.params.id);
+
+      ResponseUtil.success(
+        res,
+        plan,
+        'Maintenance plan deactivated successfully'
+      );
+    } catch (error) {
+      MaintenancePlanController.handleError(
+        res,
+        error,
+        'deactivate maintenance plan'
+      );
+    }
+  }
+
+  /**
+   * Raise the work orders of plans that are coming due
+   */
+  static async generate(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.id;
+      const result = await MaintenancePlanService.generateDue(
+        userId,
+        req.body?.asOf
+      );
+
+      logger.info(`Preventive work orders generated for ${result.asOf}`, {
+        created: result.created,
+        skipped: result.skipped,
+        userId,
+      });
+      ResponseUtil.success(
+        res,
+        result,
+        `${result.created} preventive work orders created`
+      );
+    } catch (error) {
+      MaintenancePlanController.handleError(
+        res,
+        error,
+        'generate preventive work orders'
+      );
+    }
+  }
+
+  /**
+   * Get on-time, late and overdue preventive work per plan
+   */
+  static async getCompliance(req: Request, res: Response): Promise<void> {
+    try {
+      const report = await MaintenancePlanService.complianceReport(
+        req.query as any
+      );
+
+      ResponseUtil.success(
+        res,
+        report,
+        'Preventive maintenance compliance retrieved successfully'
+      );
+    } catch (error) {
+      MaintenancePlanController.handleError(
+        res,
+        error,
+        'retrieve preventive maintenance compliance'
+      );
+    }
+  }
+
+  private static handleError(res: Response, error: unknown, action: string) {
+    if (error instanceof AppError) {
+      ResponseUtil.error(res, error.message, error.statusCode);
+      return;
+    }
+    logger.error(`Error trying to ${action}:`, error);
+    ResponseUtil.internalError(res, `Failed to ${action}`);
+  }
+}
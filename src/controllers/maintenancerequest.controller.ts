@@ -4,6 +4,20 @@ import { ResponseUtil } from '../utils/response';
 import { maintenanceValidationSchemas } from '../validations/maintenance.validation';
 import { z } from 'zod';
 import mongoose from 'mongoose';
+import {
+  AssetService,
+  MaintenancePlanService,
+  RoomStatusService,
+  ShiftService,
+} from '../services';
+import { AppError } from '../utils/errors';
+import { runInTransaction } from '../utils/transaction';
+import {
+  Priority,
+  RoomStatus,
+  RoomStatusTrigger,
+  UserRole,
+} from '../types/models';
 
 export class MaintenanceRequestController {
   /**
@@ -29,10 +43,43 @@ export class MaintenanceRequestController {
         delete (maintenanceRequestData as any).assignedTo;
       }
 
-      const maintenanceRequest = new MaintenanceRequestModel(
-        maintenanceRequestData
+      // The room defaults to the asset's room
+      if (!validatedData.roomId && !validatedData.assetId) {
+        ResponseUtil.error(res, 'A room or an asset is required', 400);
+        return;
+      }
+      Object.assign(
+        maintenanceRequestData,
+        await AssetService.resolveTarget(
+          validatedData.roomId,
+          validatedData.assetId
+        )
       );
-      const savedRequest = await maintenanceRequest.save();
+
+      // An urgent request takes its room out of use straight away
+      const savedRequest = await runInTransaction(async session => {
+        const maintenanceRequest = new MaintenanceRequestModel(
+          maintenanceRequestData
+        );
+        await maintenanceRequest.save({ session });
+        if (
+          maintenanceRequest.roomId &&
+          maintenanceRequest.priority === Priority.URGENT
+        ) {
+          await RoomStatusService.changeStatus(
+            String(maintenanceRequest.roomId),
+            RoomStatus.MAINTENANCE,
+            {
+              trigger: RoomStatusTrigger.MAINTENANCE,
+              reason: maintenanceRequest.title,
+              sourceId: String(maintenanceRequest._id),
+              changedBy: (req as any).user?.id,
+            },
+            session
+          );
+        }
+        return maintenanceRequest;
+      });
 
       ResponseUtil.success(
         res,
@@ -50,6 +97,8 @@ export class MaintenanceRequestController {
             code: issue.code,
           }))
         );
+      } else if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
       } else {
         ResponseUtil.error(res, 'Failed to create maintenance request', 500);
       }
@@ -120,6 +169,7 @@ export class MaintenanceRequestController {
         priority,
         maintenanceType,
         roomId,
+        assetId,
         assignedTo,
         reportedBy,
         startDate,
@@ -173,6 +223,11 @@ export class MaintenanceRequestController {
         filter.roomId = roomId;
       }
 
+      // Asset filter
+      if (assetId) {
+        filter.assetId = assetId;
+      }
+
       // Assigned technician filter
       if (assignedTo) {
         filter.assignedTechnicianId = assignedTo;
@@ -314,6 +369,9 @@ export class MaintenanceRequestController {
         estimatedCompletionDate: { $lt: new Date() },
       });
 
+      // Work orders raised by preventive maintenance plans
+      const preventive = await MaintenancePlanService.complianceSummary();
+
       const statistics = {
         overview: overallStats[0] || {
           total: 0,
@@ -328,6 +386,7 @@ export class MaintenanceRequestController {
         statusDistribution: statusStats,
         priorityDistribution: priorityStats,
         categoryDistribution: categoryStats,
+        preventive,
       };
 
       ResponseUtil.success(
@@ -356,6 +415,7 @@ export class MaintenanceRequestController {
         .populate('roomId', 'number type floor')
         .populate('reportedBy', 'firstName lastName email phone')
         .populate('assignedTechnicianId', 'firstName lastName email phone')
+        .populate('assetId', 'assetTag assetType name make modelNumber')
         .lean();
 
       if (!request) {
@@ -398,6 +458,22 @@ export class MaintenanceRequestController {
         updateData.assignedTechnicianId = validatedData.assignedTo;
         delete updateData.assignedTo;
       }
+      if (validatedData.assetId) {
+        const existing = await MaintenanceRequestModel.findById(id)
+          .select('roomId')
+          .lean<{ roomId?: mongoose.Types.ObjectId }>();
+        if (!existing) {
+          ResponseUtil.error(res, 'Maintenance request not found', 404);
+          return;
+        }
+        Object.assign(
+          updateData,
+          await AssetService.resolveTarget(
+            existing.roomId?.toString(),
+            validatedData.assetId
+          )
+        );
+      }
 
       const updatedRequest = await MaintenanceRequestModel.findByIdAndUpdate(
         id,
@@ -429,6 +505,8 @@ export class MaintenanceRequestController {
             code: issue.code,
           }))
         );
+      } else if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
       } else {
         ResponseUtil.error(res, 'Failed to update maintenance request', 500);
       }
@@ -482,6 +560,17 @@ export class MaintenanceRequestController {
 
       const { assignedTo, scheduledDate } = validatedData;
 
+      if (!(await MaintenanceRequestModel.exists({ _id: id }))) {
+        ResponseUtil.error(res, 'Maintenance request not found', 404);
+        return;
+      }
+      // Only technicians on duty when the work is scheduled can take it
+      await ShiftService.assertOnDuty(
+        assignedTo,
+        [UserRole.MAINTENANCE],
+        scheduledDate ? new Date(scheduledDate) : undefined
+      );
+
       const updateData: any = {
         assignedTechnicianId: assignedTo,
         status: 'assigned',
@@ -512,7 +601,9 @@ export class MaintenanceRequestController {
         'Technician assigned successfully'
       );
     } catch (error) {
-      if (error instanceof z.ZodError) {
+      if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
+      } else if (error instanceof z.ZodError) {
         ResponseUtil.validationError(
           res,
           error.issues.map(issue => ({
@@ -0,0 +1,476 @@
+import { Request, Response } from 'express';
+import { UserModel as User } from '../models/User.model';
+import { ReservationModel as Reservation } from '../models/Reservation.model';
+import { CheckInModel as CheckIn } from '../models/CheckIn.model';
+import { BillModel as Bill } from '../models/Bill.model';
+import { ServiceRequestModel as ServiceRequest } from '../models/ServiceRequest.model';
+import { FeedbackModel as Feedback } from '../models/Feedback.model';
+import { NotificationModel as Notification } from '../models/Notification.model';
+import { ResponseUtil } from '../utils/response';
+import { logger, roundCurrency } from '../utils';
+import { Types } from 'mongoose';
+import { PaymentStatus, ReservationStatus } from '../types/models';
+
+/**
+ * Guest self-service portal.
+ * Every query is scoped to the authenticated user; no route accepts a
+ * guest ID, so one guest can never reach another guest's records.
+ */
+export class MeController {
+  // Get my profile
+  static async getProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const user = await User.findById(MeController.userId(req));
+      if (!user) {
+        ResponseUtil.error(res, 'User not found', 404);
+        return;
+      }
+
+      ResponseUtil.success(res, user, 'Profile retrieved successfully');
+    } catch (error: any) {
+      logger.error('Error retrieving my profile:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to retrieve profile',
+        500
+      );
+    }
+  }
+
+  // Get my reservations
+  static async getReservations(req: Request, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 10, status } = req.query;
+
+      const pageNum = parseInt(page as string);
+      const limitNum = parseInt(limit as string);
+      const skip = (pageNum - 1) * limitNum;
+
+      const searchQuery: any = { guestId: MeController.userId(req) };
+      if (status) searchQuery.status = status;
+
+      const [reservations, total] = await Promise.all([
+        Reservation.find(searchQuery)
+          .populate('roomId', 'roomNumber roomType floor')
+          .sort({ checkInDate: -1 })
+          .skip(skip)
+          .limit(limitNum),
+        Reservation.countDocuments(searchQuery),
+      ]);
+
+      const totalPages = Math.ceil(total / limitNum);
+
+      ResponseUtil.success(
+        res,
+        {
+          reservations,
+          pagination: {
+            currentPage: pageNum,
+            totalPages,
+            totalItems: total,
+            itemsPerPage: limitNum,
+            hasNextPage: pageNum < totalPages,
+            hasPrevPage: pageNum > 1,
+          },
+        },
+        'Reservations retrieved successfully'
+      );
+    } catch (error: any) {
+      logger.error('Error retrieving my reservations:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to retrieve reservations',
+        500
+      );
+    }
+  }
+
+  // Get one of my reservations
+  static async getReservationById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!Types.ObjectId.isValid(id)) {
+        ResponseUtil.error(res, 'Invalid reservation ID format', 400);
+        return;
+      }
+
+      const reservation = await Reservation.findOne({
+        _id: id,
+        guestId: MeController.userId(req),
+      }).populate('roomId', 'roomNumber roomType floor amenities');
+
+      if (!reservation) {
+        ResponseUtil.error(res, 'Reservation not found', 404);
+        return;
+      }
+
+      ResponseUtil.success(
+        res,
+        reservation,
+        'Reservation retrieved successfully'
+      );
+    } catch (error: any) {
+      logger.error('Error retrieving my reservation:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to retrieve reservation',
+        500
+      );
+    }
+  }
+
+  // Get my current stay
+  static async getStay(req: Request, res: Response): Promise<void> {
+    try {
+      const stay = await MeController.findCurrentStay(req);
+      if (!stay) {
+        ResponseUtil.error(res, 'You are not checked in', 404);
+        return;
+      }
+
+      await stay.populate([
+        { path: 'roomId', select: 'roomNumber roomType floor amenities' },
+        {
+          path: 'reservationId',
+          select: 'checkInDate checkOutDate numberOfGuests status',
+        },
+      ]);
+
+      ResponseUtil.success(res, stay, 'Stay retrieved successfully');
+    } catch (error: any) {
+      logger.error('Error retrieving my stay:', error);
+      ResponseUtil.error(res, error.message || 'Failed to retrieve stay', 500);
+    }
+  }
+
+  // Get my folio: bills and what is still owed
+  static async getFolio(req: Request, res: Response): Promise<void> {
+    try {
+      const { reservationId } = req.query;
+
+      const searchQuery: any = { guestId: MeController.userId(req) };
+      if (reservationId) {
+        if (!Types.ObjectId.isValid(reservationId as string)) {
+          ResponseUtil.error(res, 'Invalid reservation ID format', 400);
+          return;
+        }
+        searchQuery.reservationId = reservationId;
+      }
+
+      const bills = await Bill.find(searchQuery).sort({ createdAt: -1 });
+
+      const open = bills.filter(
+        bill => bill.status !== PaymentStatus.CANCELLED
+      );
+      const totalAmount = roundCurrency(
+        open.reduce((sum, bill) => sum + bill.netAmount, 0)
+      );
+      const outstandingAmount = roundCurrency(
+        open.reduce((sum, bill) => sum + bill.balanceDue, 0)
+      );
+
+      ResponseUtil.success(
+        res,
+        { bills, totalAmount, outstandingAmount },
+        'Folio retrieved successfully'
+      );
+    } catch (error: any) {
+      logger.error('Error retrieving my folio:', error);
+      ResponseUtil.error(res, error.message || 'Failed to retrieve folio', 500);
+    }
+  }
+
+  // Get my service requests
+  static async getServiceRequests(req: Request, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 10, status } = req.query;
+
+      const pageNum = parseInt(page as string);
+      const limitNum = parseInt(limit as string);
+      const skip = (pageNum - 1) * limitNum;
+
+      const searchQuery: any = { guestId: MeController.userId(req) };
+      if (status) searchQuery.status = status;
+
+      const [serviceRequests, total] = await Promise.all([
+        ServiceRequest.find(searchQuery)
+          .populate('roomId', 'roomNumber')
+          .sort({ requestedDate: -1 })
+          .skip(skip)
+          .limit(limitNum),
+        ServiceRequest.countDocuments(searchQuery),
+      ]);
+
+      const totalPages = Math.ceil(total / limitNum);
+
+      ResponseUtil.success(
+        res,
+        {
+          serviceRequests,
+          pagination: {
+            currentPage: pageNum,
+            totalPages,
+            totalItems: total,
+            itemsPerPage: limitNum,
+            hasNextPage: pageNum < totalPages,
+            hasPrevPage: pageNum > 1,
+          },
+        },
+        'Service requests retrieved successfully'
+      );
+    } catch (error: any) {
+      logger.error('Error retrieving my service requests:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to retrieve service requests',
+        500
+      );
+    }
+  }
+
+  // Request a service for the room of my current stay
+  static async createServiceRequest(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const stay = await MeController.findCurrentStay(req);
+      if (!stay) {
+        ResponseUtil.error(
+          res,
+          'Service requests can only be made during a stay',
+          400
+        );
+        return;
+      }
+
+      const serviceRequest = await ServiceRequest.create({
+        ...req.body,
+        guestId: MeController.userId(req),
+        roomId: stay.roomId,
+        requestedDate: new Date(),
+      });
+
+      logger.info(
+        `Guest service request created with ID: ${serviceRequest._id}`
+      );
+      ResponseUtil.success(
+        res,
+        serviceRequest,
+        'Service request created successfully',
+        201
+      );
+    } catch (error: any) {
+      logger.error('Error creating my service request:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to create service request',
+        500
+      );
+    }
+  }
+
+  // Get my feedback
+  static async getFeedback(req: Request, res: Response): Promise<void> {
+    try {
+      const feedback = await Feedback.find({
+        guestId: MeController.userId(req),
+      })
+        .populate('roomId', 'roomNumber roomType')
+        .sort({ createdAt: -1 });
+
+      ResponseUtil.success(res, feedback, 'Feedback retrieved successfully');
+    } catch (error: any) {
+      logger.error('Error retrieving my feedback:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to retrieve feedback',
+        500
+      );
+    }
+  }
+
+  // Leave feedback on one of my stays
+  static async createFeedback(req: Request, res: Response): Promise<void> {
+    try {
+      const { reservationId } = req.body;
+
+      if (!Types.ObjectId.isValid(reservationId)) {
+        ResponseUtil.error(res, 'Invalid reservation ID format', 400);
+        return;
+      }
+
+      const reservation = await Reservation.findOne({
+        _id: reservationId,
+        guestId: MeController.userId(req),
+      });
+      if (!reservation) {
+        ResponseUtil.error(res, 'Reservation not found', 404);
+        return;
+      }
+
+      const stayed = [
+        ReservationStatus.CHECKED_IN,
+        ReservationStatus.CHECKED_OUT,
+      ];
+      if (!stayed.includes(reservation.status)) {
+        ResponseUtil.error(
+          res,
+          'Feedback can only be left for a stay that has started',
+          400
+        );
+        return;
+      }
+
+      const feedback = await Feedback.create({
+        ...req.body,
+        guestId: MeController.userId(req),
+        roomId: reservation.roomId,
+      });
+
+      logger.info(`Guest feedback created with ID: ${feedback._id}`);
+      ResponseUtil.success(
+        res,
+        feedback,
+        'Feedback submitted successfully',
+        201
+      );
+    } catch (error: any) {
+      logger.error('Error creating my feedback:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to submit feedback',
+        500
+      );
+    }
+  }
+
+  // Get my notifications
+  static async getNotifications(req: Request, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 10, isRead } = req.query;
+
+      const pageNum = parseInt(page as string);
+      const limitNum = parseInt(limit as string);
+      const skip = (pageNum - 1) * limitNum;
+
+      const recipientId = MeController.userId(req);
+      const searchQuery: any = { recipientId };
+      if (isRead !== undefined) searchQuery.isRead = isRead === 'true';
+
+      const [notifications, total, unreadCount] = await Promise.all([
+        Notification.find(searchQuery)
+          .sort({ createdAt: -1 })
+          .skip(skip)
+          .limit(limitNum),
+        Notification.countDocuments(searchQuery),
+        Notification.countDocuments({ recipientId, isRead: false }),
+      ]);
+
+      const totalPages = Math.ceil(total / limitNum);
+
+      ResponseUtil.success(
+        res,
+        {
+          notifications,
+          unreadCount,
+          pagination: {
+            currentPage: pageNum,
+            totalPages,
+            totalItems: total,
+            itemsPerPage: limitNum,
+            hasNextPage: pageNum < totalPages,
+            hasPrevPage: pageNum > 1,
+          },
+        },
+        'Notifications retrieved successfully'
+      );
+    } catch (error: any) {
+      logger.error('Error retrieving my notifications:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to retrieve notifications',
+        500
+      );
+    }
+  }
+
+  // Mark one of my notifications as read
+  static async markNotificationRead(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!Types.ObjectId.isValid(id)) {
+        ResponseUtil.error(res, 'Invalid notification ID format', 400);
+        return;
+      }
+
+      const notification = await Notification.findOneAndUpdate(
+        { _id: id, recipientId: MeController.userId(req) },
+        { isRead: true, readDate: new Date() },
+        { new: true }
+      );
+
+      if (!notification) {
+        ResponseUtil.error(res, 'Notification not found', 404);
+        return;
+      }
+
+      ResponseUtil.success(
+        res,
+        notification,
+        'Notification marked as read successfully'
+      );
+    } catch (error: any) {
+      logger.error('Error marking my notification as read:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to mark notification as read',
+        500
+      );
+    }
+  }
+
+  // Mark all of my notifications as read
+  static async markAllNotificationsRead(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const result = await Notification.updateMany(
+        { recipientId: MeController.userId(req), isRead: false },
+        { isRead: true, readDate: new Date() }
+      );
+
+      ResponseUtil.success(
+        res,
+        { modifiedCount: result.modifiedCount },
+        'All notifications marked as read successfully'
+      );
+    } catch (error: any) {
+      logger.error('Error marking my notifications as read:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to mark notifications as read',
+        500
+      );
+    }
+  }
+
+  // The signed-in user, set by authMiddleware
+  private static userId(req: Request): string {
+    return (req as any).user.id;
+  }
+
+  // The check-in of the stay in progress, if any
+  private static findCurrentStay(req: Request) {
+    return CheckIn.findOne({
+      guestId: MeController.userId(req),
+      checkOutTime: { $exists: false },
+    }).sort({ checkInTime: -1 });
+  }
+}
@@ -0,0 +1,194 @@
+import { Request, Response } from 'express';
+import { ResponseUtil } from '../utils/response';
+import { logger } from '../utils';
+import { Types } from 'mongoose';
+import { PermissionService } from '../services';
+import { AppError } from '../utils/errors';
+import { UserRole } from '../types/models';
+
+export class PermissionController {
+  // List the permission catalogue
+  static getPermissions(req: Request, res: Response): void {
+    ResponseUtil.success(
+      res,
+      PermissionService.listPermissions(),
+      'Permissions retrieved successfully'
+    );
+  }
+
+  // List the permission set of every role
+  static async getRoles(req: Request, res: Response): Promise<void> {
+    try {
+      const roles = await PermissionService.listRoles();
+      ResponseUtil.success(res, roles, 'Roles retrieved successfully');
+    } catch (error: any) {
+      logger.error('Error retrieving role permissions:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to retrieve role permissions',
+        500
+      );
+    }
+  }
+
+  // Get the permission set of a role
+  static async getRole(req: Request, res: Response): Promise<void> {
+    try {
+      const role = PermissionController.parseRole(req, res);
+      if (!role) return;
+
+      const permissions = await PermissionService.getRole(role);
+      ResponseUtil.success(res, permissions, 'Role retrieved successfully');
+    } catch (error: any) {
+      logger.error('Error retrieving role permissions:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to retrieve role permissions',
+        500
+      );
+    }
+  }
+
+  // Replace the permission set of a role
+  static async updateRole(req: Request, res: Response): Promise<void> {
+    try {
+      const role = PermissionController.parseRole(req, res);
+      if (!role) return;
+
+      const permissions = await PermissionService.setRolePermissions(
+        role,
+        req.body.permissions,
+        (req as any).user?.id
+      );
+
+      logger.info(`Updated permissions of role: ${role}`, {
+        updatedBy: (req as any).user?.id,
+      });
+      ResponseUtil.success(
+        res,
+        permissions,
+        'Role permissions updated successfully'
+      );
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
+        return;
+      }
+      logger.error('Error updating role permissions:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to update role permissions',
+        500
+      );
+    }
+  }
+
+  // Restore the default permission set of a role
+  static async resetRole(req: Request, res: Response): Promise<void> {
+    try {
+      const role = PermissionController.parseRole(req, res);
+      if (!role) return;
+
+      const permissions = await PermissionService.resetRolePermissions(role);
+
+      logger.info(`Reset permissions of role: ${role}`, {
+        updatedBy: (req as any).user?.id,
+      });
+      ResponseUtil.success(
+        res,
+        permissions,
+        'Role permissions reset to defaults'
+      );
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
+        return;
+      }
+      logger.error('Error resetting role permissions:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to reset role permissions',
+        500
+      );
+    }
+  }
+
+  // Get a user's grants, denials and effective permissions
+  static async getUserPermissions(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+
+      if (!Types.ObjectId.isValid(userId)) {
+        ResponseUtil.error(res, 'Invalid user ID format', 400);
+        return;
+      }
+
+      const permissions = await PermissionService.getUserPermissions(userId);
+      ResponseUtil.success(
+        res,
+        permissions,
+        'User permissions retrieved successfully'
+      );
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
+        return;
+      }
+      logger.error('Error retrieving user permissions:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to retrieve user permissions',
+        500
+      );
+    }
+  }
+
+  // Replace a user's grants and denials
+  static async updateUserPermissions(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { userId } = req.params;
+
+      if (!Types.ObjectId.isValid(userId)) {
+        ResponseUtil.error(res, 'Invalid user ID format', 400);
+        return;
+      }
+
+      const permissions = await PermissionService.setUserOverrides(userId, {
+        grants: req.body.grants,
+        denials: req.body.denials,
+      });
+
+      logger.info(`Updated permission overrides of user: ${userId}`, {
+        updatedBy: (req as any).user?.id,
+      });
+      ResponseUtil.success(
+        res,
+        permissions,
+        'User permissions updated successfully'
+      );
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
+        return;
+      }
+      logger.error('Error updating user permissions:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to update user permissions',
+        500
+      );
+    }
+  }
+
+  private static parseRole(req: Request, res: Response): UserRole | null {
+    const { role } = req.params;
+    if (!Object.values(UserRole).includes(role as UserRole)) {
+      ResponseUtil.error(res, 'Invalid role specified', 400);
+      return null;
+    }
+    return role as UserRole;
+  }
+}
@@ -0,0 +1,156 @@
+import { Request, Response } from 'express';
+import { RatePlanModel as RatePlan } from '../models/RatePlan.model';
+import { ResponseUtil } from '../utils/response';
+import { logger } from '../utils';
+import { Types } from 'mongoose';
+import { isDuplicateKeyError } from '../utils/errors';
+
+export class RatePlanController {
+  // Create a new rate plan
+  static async createRatePlan(req: Request, res: Response): Promise<void> {
+    try {
+      const ratePlan = await RatePlan.create(req.body);
+
+      logger.info(`Rate plan created successfully with ID: ${ratePlan._id}`);
+      ResponseUtil.success(
+        res,
+        ratePlan,
+        'Rate plan created successfully',
+        201
+      );
+    } catch (error: any) {
+      if (isDuplicateKeyError(error)) {
+        ResponseUtil.error(
+          res,
+          'A rate plan with this code already exists for the room type',
+          409
+        );
+        return;
+      }
+      logger.error('Error creating rate plan:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to create rate plan',
+        500
+      );
+    }
+  }
+
+  // Get all rate plans with filters
+  static async getAllRatePlans(req: Request, res: Response): Promise<void> {
+    try {
+      const { roomType, type, isActive } = req.query;
+
+      const searchQuery: any = {};
+      if (roomType) searchQuery.roomType = roomType;
+      if (type) searchQuery.type = type;
+      if (isActive !== undefined) searchQuery.isActive = isActive === 'true';
+
+      const ratePlans = await RatePlan.find(searchQuery)
+        .sort({ roomType: 1, code: 1 })
+        .lean();
+
+      logger.info(`Retrieved ${ratePlans.length} rate plans`);
+      ResponseUtil.success(res, ratePlans, 'Rate plans retrieved successfully');
+    } catch (error: any) {
+      logger.error('Error retrieving rate plans:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to retrieve rate plans',
+        500
+      );
+    }
+  }
+
+  // Get rate plan by ID
+  static async getRatePlanById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!Types.ObjectId.isValid(id)) {
+        ResponseUtil.error(res, 'Invalid rate plan ID format', 400);
+        return;
+      }
+
+      const ratePlan = await RatePlan.findById(id).lean();
+      if (!ratePlan) {
+        ResponseUtil.error(res, 'Rate plan not found', 404);
+        return;
+      }
+
+      ResponseUtil.success(res, ratePlan, 'Rate plan retrieved successfully');
+    } catch (error: any) {
+      logger.error('Error retrieving rate plan by ID:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to retrieve rate plan',
+        500
+      );
+    }
+  }
+
+  // Update rate plan
+  static async updateRatePlan(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!Types.ObjectId.isValid(id)) {
+        ResponseUtil.error(res, 'Invalid rate plan ID format', 400);
+        return;
+      }
+
+      const ratePlan = await RatePlan.findById(id);
+      if (!ratePlan) {
+        ResponseUtil.error(res, 'Rate plan not found', 404);
+        return;
+      }
+
+      // Saved through the document so the non-refundable rule is applied
+      ratePlan.set(req.body);
+      await ratePlan.save();
+
+      logger.info(`Updated rate plan with ID: ${id}`);
+      ResponseUtil.success(res, ratePlan, 'Rate plan updated successfully');
+    } catch (error: any) {
+      logger.error('Error updating rate plan:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to update rate plan',
+        500
+      );
+    }
+  }
+
+  // Deactivate rate plan; existing reservations keep their priced nights
+  static async deleteRatePlan(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!Types.ObjectId.isValid(id)) {
+        ResponseUtil.error(res, 'Invalid rate plan ID format', 400);
+        return;
+      }
+
+      const ratePlan = await RatePlan.findByIdAndUpdate(
+        id,
+        { isActive: false },
+        { new: true }
+      ).lean();
+
+      if (!ratePlan) {
+        ResponseUtil.error(res, 'Rate plan not found', 404);
+        return;
+      }
+
+      logger.info(`Deactivated rate plan with ID: ${id}`);
+      ResponseUtil.success(res, ratePlan, 'Rate plan deactivated successfully');
+    } catch (error: any) {
+      logger.error('Error deactivating rate plan:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to deactivate rate plan',
+        500
+      );
+    }
+  }
+}
@@ -4,6 +4,9 @@ import { reportValidationSchemas } from '../validations/report.validation';
 import { ResponseUtil } from '../utils/response';
 import { Types } from 'mongoose';
 import { ReportType, ReportFormat } from '../types/models';
+import { DocumentService } from '../services';
+import { XLSX_CONTENT_TYPE } from '../utils/xlsx';
+import { createCsvStream, csvHeaders, CSV_CONTENT_TYPE } from '../utils/csv';
 
 // Import other models for report generation
 import { RoomModel } from '../models/Room.model';
@@ -250,7 +253,8 @@ export class ReportController {
       const validatedQuery = reportValidationSchemas.reportDownload.parse(
         req.query
       );
-      const { format, includeMetadata } = validatedQuery;
+      const { format, includeMetadata, delimiter, bom, section } =
+        validatedQuery;
 
       if (!Types.ObjectId.isValid(id)) {
         ResponseUtil.error(res, 'Invalid report ID', 400);
@@ -277,25 +281,23 @@ export class ReportController {
           );
           res.json(includeMetadata ? report.toJSON() : report.data);
           break;
-        case ReportFormat.CSV:
-          res.setHeader('Content-Type', 'text/csv');
-          res.setHeader(
-            'Content-Disposition',
-            `attachment; filename="${filename}.csv"`
+        case ReportFormat.CSV: {
+          const rows = ReportController.toCSVRows(report.data, section);
+          ResponseUtil.file(
+            res,
+            createCsvStream(rows, csvHeaders(rows), { delimiter, bom }),
+            CSV_CONTENT_TYPE,
+            `${filename}.csv`
           );
-          res.send(ReportController.convertToCSV(report.data));
           break;
+        }
         case ReportFormat.EXCEL:
-          res.setHeader(
-            'Content-Type',
-            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
-          );
+          res.setHeader('Content-Type', XLSX_CONTENT_TYPE);
           res.setHeader(
             'Content-Disposition',
             `attachment; filename="${filename}.xlsx"`
           );
-          // For now, return JSON with Excel headers (would need xlsx library for actual Excel format)
-          res.json(report.data);
+          res.send(DocumentService.renderReportXlsx(report));
           break;
         case ReportFormat.PDF:
           res.setHeader('Content-Type', 'application/pdf');
@@ -303,8 +305,7 @@ export class ReportController {
             'Content-Disposition',
             `attachment; filename="${filename}.pdf"`
           );
-          // For now, return JSON with PDF headers (would need PDF generation library)
-          res.json(report.data);
+          res.send(DocumentService.renderReportPdf(report));
           break;
         default:
           ResponseUtil.error(res, 'Unsupported format', 400);
@@ -962,34 +963,35 @@ export class ReportController {
     };
   }
 
-  // Utility method to convert data to CSV format
-  private static convertToCSV(data: any): string {
-    if (!data || typeof data !== 'object') {
-      return 'No data available';
-    }
-
-    // Simple CSV conversion for basic data structures
+  // Report data as CSV rows: each list of the report contributes its rows,
+  // and any other value a row of its own, tagged with the section it is from
+  private static toCSVRows(
+    data: any,
+    section?: string
+  ): Record<string, unknown>[] {
     if (Array.isArray(data)) {
-      if (data.length === 0) return 'No data available';
-
-      const headers = Object.keys(data[0]);
-      const csvHeaders = headers.join(',');
-      const csvRows = data.map(row =>
-        headers
-          .map(header => {
-            const value = row[header];
-            return typeof value === 'string' && value.includes(',')
-              ? `"${value}"`
-              : value;
-          })
-          .join(',')
+      return data.map(row =>
+        row !== null && typeof row === 'object' ? row : { value: row }
       );
-
-      return [csvHeaders, ...csvRows].join('\n');
+    }
+    if (!data || typeof data !== 'object') {
+      return [];
     }
 
-    // For object data, convert to key-value pairs
-    const entries = Object.entries(data);
-    return entries.map(([key, value]) => `${key},${value}`).join('\n');
+    const rows: Record<string, unknown>[] = [];
+    for (const [key, value] of Object.entries(data)) {
+      if (section && key !== section) {
+        continue;
+      }
+      const items = Array.isArray(value) ? value : [value];
+      for (const item of items) {
+        rows.push(
+          item !== null && typeof item === 'object' && !Array.isArray(item)
+            ? { section: key, ...item }
+            : { section: key, value: item }
+        );
+      }
+    }
+    return rows;
   }
 }
@@ -3,37 +3,47 @@ import { ReservationModel as Reservation } from '../models/Reservation.model';
 import { ResponseUtil } from '../utils/response';
 import { logger } from '../utils';
 import { Types } from 'mongoose';
-import { ReservationStatus } from '../types/models';
+import {
+  PaymentStatus,
+  ReservationSource,
+  ReservationStatus,
+} from '../types/models';
+import { ReservationEngine, PricingService, ExportService } from '../services';
+import { AppError } from '../utils/errors';
+import { hasPermission } from '../middleware/permission.middleware';
+
+// Set by staff only; dropped when a guest books for themselves
+const STAFF_ONLY_FIELDS = [
+  'depositAmount',
+  'depositPaymentMethod',
+  'depositReference',
+  'groupBookingId',
+];
 
 export class ReservationController {
   // Create a new reservation
   static async createReservation(req: Request, res: Response): Promise<void> {
     try {
-      const reservationData = req.body;
-
-      // Check if room is available for the requested dates
-      const existingReservation = await Reservation.findOne({
-        roomId: reservationData.roomId,
-        status: { $in: ['confirmed', 'checked-in'] },
-        $or: [
-          {
-            checkInDate: { $lte: new Date(reservationData.checkOutDate) },
-            checkOutDate: { $gte: new Date(reservationData.checkInDate) },
-          },
-        ],
-      });
+      const { holdId, ...reservationData } = req.body;
 
-      if (existingReservation) {
-        ResponseUtil.error(
-          res,
-          'Room is not available for the selected dates',
-          409
-        );
-        return;
+      // Guests can only book for themselves, as a pending online booking
+      if (!hasPermission(req, 'reservation.update')) {
+        for (const field of STAFF_ONLY_FIELDS) {
+          delete reservationData[field];
+        }
+        Object.assign(reservationData, {
+          guestId: (req as any).user.id,
+          status: ReservationStatus.PENDING,
+          paymentStatus: PaymentStatus.PENDING,
+          source: ReservationSource.ONLINE,
+        });
       }
 
-      const reservation = new Reservation(reservationData);
-      const savedReservation = await reservation.save();
+      // Books the room nights and saves the reservation atomically
+      const savedReservation = await ReservationEngine.createReservation(
+        reservationData,
+        holdId
+      );
 
       logger.info(
         `Reservation created successfully with ID: ${savedReservation._id}`
@@ -45,6 +55,10 @@ export class ReservationController {
         201
       );
     } catch (error: any) {
+      if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
+        return;
+      }
       logger.error('Error creating reservation:', error);
       ResponseUtil.error(
         res,
@@ -189,61 +203,18 @@ export class ReservationController {
         return;
       }
 
-      // If updating room or dates, check availability
-      if (
-        updateData.roomId ||
-        updateData.checkInDate ||
-        updateData.checkOutDate
-      ) {
-        const currentReservation = await Reservation.findById(id);
-        if (!currentReservation) {
-          ResponseUtil.error(res, 'Reservation not found', 404);
-          return;
-        }
-
-        const roomId = updateData.roomId || currentReservation.roomId;
-        const checkInDate =
-          updateData.checkInDate || currentReservation.checkInDate;
-        const checkOutDate =
-          updateData.checkOutDate || currentReservation.checkOutDate;
-
-        const conflictingReservation = await Reservation.findOne({
-          _id: { $ne: id },
-          roomId: roomId,
-          status: { $in: ['confirmed', 'checked-in'] },
-          $or: [
-            {
-              checkInDate: { $lte: new Date(checkOutDate) },
-              checkOutDate: { $gte: new Date(checkInDate) },
-            },
-          ],
-        });
-
-        if (conflictingReservation) {
-          ResponseUtil.error(
-            res,
-            'Room is not available for the selected dates',
-            409
-          );
-          return;
-        }
-      }
-
-      const updatedReservation = await Reservation.findByIdAndUpdate(
+      // Moves the booked nights if the room or dates change
+      const reservation = await ReservationEngine.modifyReservation(
         id,
-        { ...updateData, updatedAt: new Date() },
-        { new: true, runValidators: true }
-      )
+        updateData
+      );
+
+      const updatedReservation = await Reservation.findById(reservation._id)
         .populate('guestId', 'firstName lastName email phone')
         .populate('roomId', 'roomNumber roomType price')
         .populate('assignedRoomId', 'roomNumber roomType')
         .lean();
 
-      if (!updatedReservation) {
-        ResponseUtil.error(res, 'Reservation not found', 404);
-        return;
-      }
-
       logger.info(`Updated reservation with ID: ${id}`);
       ResponseUtil.success(
         res,
@@ -251,6 +222,10 @@ export class ReservationController {
         'Reservation updated successfully'
       );
     } catch (error: any) {
+      if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
+        return;
+      }
       logger.error('Error updating reservation:', error);
       ResponseUtil.error(
         res,
@@ -280,18 +255,16 @@ export class ReservationController {
         return;
       }
 
-      const conflictingReservation = await Reservation.findOne({
-        roomId: new Types.ObjectId(roomIdStr),
-        status: { $in: ['confirmed', 'checked-in'] },
-        $or: [
-          {
-            checkInDate: { $lte: new Date(checkOutDate as string) },
-            checkOutDate: { $gte: new Date(checkInDate as string) },
-          },
-        ],
+      const conflicts = await ReservationEngine.findConflicts({
+        roomId: roomIdStr,
+        checkInDate: checkInDate as string,
+        checkOutDate: checkOutDate as string,
       });
 
-      const isAvailable = !conflictingReservation;
+      const isAvailable = conflicts.length === 0;
+      const conflictingReservation = conflicts.find(
+        night => night.reservationId
+      )?.reservationId;
 
       logger.info(`Checked availability for room ${roomIdStr}: ${isAvailable}`);
       ResponseUtil.success(
@@ -301,13 +274,16 @@ export class ReservationController {
           roomId,
           checkInDate,
           checkOutDate,
-          conflictingReservation: conflictingReservation
-            ? conflictingReservation._id
-            : null,
+          conflictingReservation: conflictingReservation ?? null,
+          conflictingNights: conflicts.map(night => night.date),
         },
         'Availability checked successfully'
       );
     } catch (error: any) {
+      if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
+        return;
+      }
       logger.error('Error checking availability:', error);
       ResponseUtil.error(
         res,
@@ -375,38 +351,16 @@ export class ReservationController {
   static async cancelReservation(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const { reason } = req.body;
 
       if (!Types.ObjectId.isValid(id)) {
         ResponseUtil.error(res, 'Invalid reservation ID format', 400);
         return;
       }
 
-      const reservation = await Reservation.findById(id);
-      if (!reservation) {
-        ResponseUtil.error(res, 'Reservation not found', 404);
-        return;
-      }
-
-      if (['cancelled', 'checked-out'].includes(reservation.status)) {
-        ResponseUtil.error(
-          res,
-          'Reservation is already cancelled or completed',
-          400
-        );
-        return;
-      }
+      // Cancels and returns the room nights to inventory atomically
+      await ReservationEngine.cancelReservation(id);
 
-      const updatedReservation = await Reservation.findByIdAndUpdate(
-        id,
-        {
-          status: 'cancelled',
-          cancellationReason: reason,
-          cancelledAt: new Date(),
-          updatedAt: new Date(),
-        },
-        { new: true, runValidators: true }
-      )
+      const updatedReservation = await Reservation.findById(id)
         .populate('guestId', 'firstName lastName email phone')
         .populate('roomId', 'roomNumber roomType price')
         .lean();
@@ -418,6 +372,10 @@ export class ReservationController {
         'Reservation cancelled successfully'
       );
     } catch (error: any) {
+      if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
+        return;
+      }
       logger.error('Error cancelling reservation:', error);
       ResponseUtil.error(
         res,
@@ -441,44 +399,20 @@ export class ReservationController {
         return;
       }
 
-      const validStatuses = [
-        'pending',
-        'confirmed',
-        'checked-in',
-        'checked-out',
-        'cancelled',
-        'no-show',
-      ];
-      if (!validStatuses.includes(status)) {
+      if (!Object.values(ReservationStatus).includes(status)) {
         ResponseUtil.error(res, 'Invalid status value', 400);
         return;
       }
 
-      const updateData: any = {
-        status,
-        updatedAt: new Date(),
-      };
+      // Releases or re-books room nights when the status crosses in or out
+      // of the inventory-holding statuses
+      await ReservationEngine.updateStatus(id, status);
 
-      // Add timestamp based on status
-      if (status === 'confirmed') updateData.confirmedAt = new Date();
-      if (status === 'checked-in') updateData.checkedInAt = new Date();
-      if (status === 'checked-out') updateData.checkedOutAt = new Date();
-      if (status === 'cancelled') updateData.cancelledAt = new Date();
-
-      const updatedReservation = await Reservation.findByIdAndUpdate(
-        id,
-        updateData,
-        { new: true, runValidators: true }
-      )
+      const updatedReservation = await Reservation.findById(id)
         .populate('guestId', 'firstName lastName email phone')
         .populate('roomId', 'roomNumber roomType price')
         .lean();
 
-      if (!updatedReservation) {
-        ResponseUtil.error(res, 'Reservation not found', 404);
-        return;
-      }
-
       logger.info(`Updated reservation status to ${status} for ID: ${id}`);
       ResponseUtil.success(
         res,
@@ -486,6 +420,10 @@ export class ReservationController {
         'Reservation status updated successfully'
       );
     } catch (error: any) {
+      if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
+        return;
+      }
       logger.error('Error updating reservation status:', error);
       ResponseUtil.error(
         res,
@@ -535,6 +473,9 @@ export class ReservationController {
         { new: true, runValidators: true }
       ).lean();
 
+      // A deleted pending reservation must not keep its nights booked
+      await ReservationEngine.releaseReservationNights(id);
+
       logger.info(`Deleted reservation with ID: ${id}`);
       ResponseUtil.success(
         res,
@@ -550,4 +491,110 @@ export class ReservationController {
       );
     }
   }
+
+  // Price a stay night by night without booking it
+  static async getQuote(req: Request, res: Response): Promise<void> {
+    try {
+      const { roomId, checkInDate, checkOutDate, ratePlanId } = req.query;
+
+      if (!Types.ObjectId.isValid(roomId as string)) {
+        ResponseUtil.error(res, 'Invalid room ID format', 400);
+        return;
+      }
+
+      const quote = await PricingService.quote({
+        roomId: roomId as string,
+        checkInDate: checkInDate as string,
+        checkOutDate: checkOutDate as string,
+        ratePlanId: ratePlanId as string | undefined,
+      });
+
+      ResponseUtil.success(res, quote, 'Rate quote calculated successfully');
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
+        return;
+      }
+      logger.error('Error calculating rate quote:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to calculate rate quote',
+        500
+      );
+    }
+  }
+
+  // Export the reservations matching the given filters
+  static async exportReservations(req: Request, res: Response): Promise<void> {
+    try {
+      const file = await ExportService.exportList('reservations', req.body);
+
+      logger.info(`Reservations exported as ${req.body.format}`);
+      ResponseUtil.file(res, file.content, file.contentType, file.filename);
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
+        return;
+      }
+      logger.error('Error exporting reservations:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to export reservations',
+        500
+      );
+    }
+  }
+
+  // Hold a room while a guest completes checkout
+  static async createHold(req: Request, res: Response): Promise<void> {
+    try {
+      const { roomId, checkInDate, checkOutDate, ttlMinutes } = req.body;
+      const heldBy = (req as any).user?.id;
+
+      const hold = await ReservationEngine.createHold({
+        roomId,
+        checkInDate,
+        checkOutDate,
+        ttlMinutes,
+        heldBy,
+      });
+
+      logger.info(`Room ${roomId} held with hold ID: ${hold.holdId}`);
+      ResponseUtil.success(res, hold, 'Room held successfully', 201);
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        ResponseUtil.error(res, error.message, error.statusCode);
+        return;
+      }
+      logger.error('Error holding room:', error);
+      ResponseUtil.error(res, error.message || 'Failed to hold room', 500);
+    }
+  }
+
+  // Release a room hold before it expires
+  static async releaseHold(req: Request, res: Response): Promise<void> {
+    try {
+      const { holdId } = req.params;
+
+      const releasedNights = await ReservationEngine.releaseHold(holdId);
+      if (releasedNights === 0) {
+        ResponseUtil.error(res, 'Room hold not found or already expired', 404);
+        return;
+      }
+
+      logger.info(`Released room hold ${holdId} (${releasedNights} nights)`);
+      ResponseUtil.success(
+        res,
+        { holdId, releasedNights },
+        'Room hold released successfully'
+      );
+    } catch (error: any) {
+      logger.error('Error releasing room hold:', error);
+      ResponseUtil.error(
+        res,
+        error.message || 'Failed to release room hold',
+        500
+      );
+    }
+  }
 }
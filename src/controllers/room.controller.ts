@@ -3,6 +3,14 @@ import { ResponseUtil } from '../utils/response';
 import { RoomModel } from '../models/Room.model';
 import { logger } from '../utils';
 import { getAllRoomsSchema } from '../validations/room.validation';
+import { ImportService, RoomStatusService } from '../services';
+import {
+  ImportResource,
+  ImportStatus,
+  RoomStatusTrigger,
+} from '../types/models';
+import { HttpStatusCode } from '../types/api';
+import { AppError } from '../utils/errors';
 
 /**
  * Room Controller
@@ -205,6 +213,15 @@ export class RoomController {
       const { id } = req.params;
       const updateData = req.body;
 
+      // Status changes must follow the room status rules
+      if (updateData.status !== undefined) {
+        return ResponseUtil.error(
+          res,
+          'Use PATCH /rooms/:id/status to change the status of a room',
+          400
+        );
+      }
+
       // If updating room number, check for duplicates
       if (updateData.roomNumber) {
         const existingRoom = await RoomModel.findOne({
@@ -289,29 +306,75 @@ export class RoomController {
   async updateRoomStatus(req: Request, res: Response) {
     try {
       const { id } = req.params;
-      const { status } = req.body;
+      const { status, notes } = req.body;
+      const changedBy = (req as any).user?.id;
 
-      const room = await RoomModel.findByIdAndUpdate(
-        id,
-        { status },
-        { new: true }
-      );
-      if (!room) {
-        logger.error('Room not found', { id });
-        return ResponseUtil.error(res, 'Room not found', 404);
-      }
-      logger.info('Room status updated successfully', { roomId: id, status });
+      const room = await RoomStatusService.changeStatus(id, status, {
+        trigger: RoomStatusTrigger.MANUAL,
+        reason: notes,
+        changedBy,
+      });
+      logger.info('Room status updated successfully', {
+        roomId: id,
+        status,
+        changedBy,
+      });
       return ResponseUtil.success(
         res,
         room,
         'Room status updated successfully'
       );
     } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
       logger.error('Error updating room status', { error });
       return ResponseUtil.error(res, 'Internal server error', 500);
     }
   }
 
+  /**
+   * Get the status changes of a room, newest first
+   * @route GET /api/v1/rooms/:id/status-history
+   */
+  async getRoomStatusHistory(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const page = Number(req.query['page']);
+      const limit = Number(req.query['limit']);
+
+      const { changes, total } = await RoomStatusService.getHistory(
+        id,
+        page,
+        limit
+      );
+      const totalPages = Math.ceil(total / limit);
+
+      return ResponseUtil.success(
+        res,
+        changes,
+        'Room status history fetched successfully',
+        200,
+        {
+          pagination: {
+            currentPage: page,
+            totalPages,
+            totalItems: total,
+            itemsPerPage: limit,
+            hasNextPage: page < totalPages,
+            hasPrevPage: page > 1,
+          },
+        }
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error getting room status history', { error });
+      return ResponseUtil.error(res, 'Internal server error', 500);
+    }
+  }
+
   /**
    * Check room availability
    * @route GET /api/v1/rooms/availability
@@ -351,4 +414,69 @@ export class RoomController {
       return ResponseUtil.error(res, 'Internal server error', 500);
     }
   }
+
+  /**
+   * Import rooms from a CSV or JSON file
+   * @route POST /api/v1/rooms/import
+   */
+  async importRooms(req: Request, res: Response) {
+    try {
+      const log = await ImportService.importRecords(
+        ImportResource.ROOMS,
+        req.body,
+        (req as any).user?.id
+      );
+      logger.info('Room import processed', {
+        importId: log._id,
+        status: log.status,
+      });
+      if (log.status === ImportStatus.FAILED) {
+        return ResponseUtil.error(
+          res,
+          ImportService.describe(log),
+          HttpStatusCode.UNPROCESSABLE_ENTITY,
+          ImportService.rowErrors(log),
+          { importId: log._id }
+        );
+      }
+      return ResponseUtil.success(
+        res,
+        ImportService.summarize(log),
+        ImportService.describe(log),
+        log.status === ImportStatus.COMPLETED ? 201 : 200
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error importing rooms', { error });
+      return ResponseUtil.error(res, 'Internal server error', 500);
+    }
+  }
+
+  /**
+   * Download the log of a room import
+   * @route GET /api/v1/rooms/imports/:importId/log
+   */
+  async downloadImportLog(req: Request, res: Response) {
+    try {
+      const log = await ImportService.getLog(
+        ImportResource.ROOMS,
+        req.params['importId']
+      );
+      const file = ImportService.renderLog(log, req.query as any);
+      return ResponseUtil.file(
+        res,
+        file.content,
+        file.contentType,
+        file.filename
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error downloading room import log', { error });
+      return ResponseUtil.error(res, 'Internal server error', 500);
+    }
+  }
 }
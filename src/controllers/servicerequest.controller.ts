@@ -3,7 +3,17 @@ import { ResponseUtil } from '../utils/response';
 import { ServiceRequestModel } from '../models/ServiceRequest.model';
 import { logger } from '../utils';
 import { serviceRequestValidationSchemas } from '../validations/serviceRequest.validation';
-import { ServiceStatus } from '../types/models';
+import { ServiceStatus, UserRole } from '../types/models';
+import { FolioService, ShiftService } from '../services';
+import { AppError } from '../utils/errors';
+
+// Staff who carry out guest service requests
+const SERVICE_STAFF_ROLES = [
+  UserRole.MANAGER,
+  UserRole.RECEPTIONIST,
+  UserRole.HOUSEKEEPING,
+  UserRole.MAINTENANCE,
+];
 
 /**
  * Service Request Controller
@@ -250,6 +260,10 @@ export class ServiceRequestController {
         return ResponseUtil.error(res, 'Service request not found', 404);
       }
 
+      if (serviceRequest.status === ServiceStatus.COMPLETED) {
+        await this.postCharge(id);
+      }
+
       logger.info('Service request updated successfully', {
         serviceRequestId: serviceRequest._id,
       });
@@ -318,6 +332,15 @@ export class ServiceRequestController {
         );
       }
 
+      // Only staff on duty when the request is scheduled can take it
+      await ShiftService.assertOnDuty(
+        assignmentData.assignedTo,
+        SERVICE_STAFF_ROLES,
+        assignmentData.scheduledDate
+          ? new Date(assignmentData.scheduledDate)
+          : undefined
+      );
+
       // Update service request with assignment information
       const updatedServiceRequest = await ServiceRequestModel.findByIdAndUpdate(
         id,
@@ -343,6 +366,9 @@ export class ServiceRequestController {
         'Service request assigned successfully'
       );
     } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
       logger.error('Error assigning service request', { error });
       return ResponseUtil.error(res, 'Internal server error', 500);
     }
@@ -385,6 +411,10 @@ export class ServiceRequestController {
         .populate('roomId', 'roomNumber roomType')
         .populate('assignedStaffId', 'firstName lastName email');
 
+      if (statusData.status === ServiceStatus.COMPLETED) {
+        await this.postCharge(id);
+      }
+
       logger.info('Service request status updated successfully', {
         serviceRequestId: id,
         status: statusData.status,
@@ -442,6 +472,8 @@ export class ServiceRequestController {
         .populate('roomId', 'roomNumber roomType')
         .populate('assignedStaffId', 'firstName lastName email');
 
+      await this.postCharge(id);
+
       logger.info('Service request completed successfully', {
         serviceRequestId: id,
         actualCost: completionData.actualCost,
@@ -634,4 +666,16 @@ export class ServiceRequestController {
       return ResponseUtil.error(res, 'Internal server error', 500);
     }
   }
+
+  // Post the cost to the guest's bill; the night audit retries on failure
+  private async postCharge(serviceRequestId: string) {
+    try {
+      await FolioService.postServiceCharge(serviceRequestId);
+    } catch (error) {
+      logger.error('Error posting service charge to folio', {
+        serviceRequestId,
+        error,
+      });
+    }
+  }
 }
@@ -0,0 +1,82 @@
+import { Request, Response } from 'express';
+import { ResponseUtil } from '../utils/response';
+import { logger } from '../utils';
+import { AppError } from '../utils/errors';
+import { SettingsService } from '../services';
+import { SettingCategory } from '../types/models';
+
+export class SettingsController {
+  // Get all settings grouped by category
+  static async getSettings(req: Request, res: Response): Promise<void> {
+    try {
+      const category = req.query.category as SettingCategory | undefined;
+      const settings = await SettingsService.list(category);
+
+      ResponseUtil.success(res, settings, 'Settings retrieved successfully');
+    } catch (error) {
+      SettingsController.handleError(res, error, 'retrieve settings');
+    }
+  }
+
+  // Get setting by key
+  static async getSetting(req: Request, res: Response): Promise<void> {
+    try {
+      const setting = await SettingsService.getView(req.params.key);
+
+      ResponseUtil.success(res, setting, 'Setting retrieved successfully');
+    } catch (error) {
+      SettingsController.handleError(res, error, 'retrieve setting');
+    }
+  }
+
+  // Create a new setting
+  static async createSetting(req: Request, res: Response): Promise<void> {
+    try {
+      const setting = await SettingsService.create(req.body);
+
+      logger.info(`Setting ${setting.settingKey} created`, {
+        userId: (req as any).user?.id,
+      });
+      ResponseUtil.success(res, setting, 'Setting created successfully', 201);
+    } catch (error) {
+      SettingsController.handleError(res, error, 'create setting');
+    }
+  }
+
+  // Update the value or description of a setting
+  static async updateSetting(req: Request, res: Response): Promise<void> {
+    try {
+      const setting = await SettingsService.update(req.params.key, req.body);
+
+      logger.info(`Setting ${setting.settingKey} updated`, {
+        userId: (req as any).user?.id,
+      });
+      ResponseUtil.success(res, setting, 'Setting updated successfully');
+    } catch (error) {
+      SettingsController.handleError(res, error, 'update setting');
+    }
+  }
+
+  // Delete a setting; defined settings go back to their default
+  static async deleteSetting(req: Request, res: Response): Promise<void> {
+    try {
+      await SettingsService.remove(req.params.key);
+
+      logger.info(`Setting ${req.params.key.toUpperCase()} deleted`, {
+        userId: (req as any).user?.id,
+      });
+      ResponseUtil.success(res, null, 'Setting deleted successfully');
+    } catch (error) {
+      SettingsController.handleError(res, error, 'delete setting');
+    }
+  }
+
+  private static handleError(res: Response, error: unknown, action: string) {
+    if (error instanceof AppError) {
+      ResponseUtil.error(res, error.message, error.statusCode);
+      return;
+    }
+    logger.error(`Error trying to ${action}:`, error);
+    ResponseUtil.internalError(res, `Failed to ${action}`);
+  }
+}
@@ -0,0 +1,293 @@
+import { Request, Response } from 'express';
+import { ResponseUtil } from '../utils/response';
+import { logger } from '../utils';
+import { AppError } from '../utils/errors';
+import { ShiftService } from '../services';
+import { UserRole } from '../types/models';
+
+export class ShiftController {
+  // Get shift templates
+  static async getTemplates(req: Request, res: Response): Promise<void> {
+    try {
+      const includeInactive = req.query['includeInactive'] as
+        | boolean
+        | undefined;
+      const templates = await ShiftService.listTemplates(includeInactive);
+
+      ResponseUtil.success(
+        res,
+        templates,
+        'Shift templates retrieved successfully'
+      );
+    } catch (error) {
+      ShiftController.handleError(res, error, 'retrieve shift templates');
+    }
+  }
+
+  // Create a shift template
+  static async createTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const template = await ShiftService.createTemplate(req.body);
+
+      logger.info(`Shift template ${template.code} created`, {
+        userId: (req as any).user?.id,
+      });
+      ResponseUtil.success(
+        res,
+        template,
+        'Shift template created successfully',
+        201
+      );
+    } catch (error) {
+      ShiftController.handleError(res, error, 'create shift template');
+    }
+  }
+
+  // Update a shift template
+  static async updateTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const template = await ShiftService.updateTemplate(
+        req.params.id,
+        req.body
+      );
+
+      ResponseUtil.success(
+        res,
+        template,
+        'Shift template updated successfully'
+      );
+    } catch (error) {
+      ShiftController.handleError(res, error, 'update shift template');
+    }
+  }
+
+  // Deactivate a shift template
+  static async deleteTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const template = await ShiftService.deactivateTemplate(req.params.id);
+
+      ResponseUtil.success(
+        res,
+        template,
+        'Shift template deactivated successfully'
+      );
+    } catch (error) {
+      ShiftController.handleError(res, error, 'deactivate shift template');
+    }
+  }
+
+  // Get the roster of a week
+  static async getRoster(req: Request, res: Response): Promise<void> {
+    try {
+      const roster = await ShiftService.getWeek(
+        req.query['weekStart'] as unknown as Date,
+        req.query['role'] as UserRole | undefined
+      );
+
+      ResponseUtil.success(res, roster, 'Roster retrieved successfully');
+    } catch (error) {
+      ShiftController.handleError(res, error, 'retrieve roster');
+    }
+  }
+
+  // Replace the roster of a role for a week
+  static async setRoster(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.id;
+      const roster = await ShiftService.setWeek(req.body, userId);
+
+      logger.info(`Roster of ${roster.weekStart} saved`, {
+        role: roster.role,
+        shifts: req.body.entries.length,
+        userId,
+      });
+      ResponseUtil.success(res, roster, 'Roster saved successfully');
+    } catch (error) {
+      ShiftController.handleError(res, error, 'save roster');
+    }
+  }
+
+  // Get the staff on duty now, or at a given time
+  static async getOnDuty(req: Request, res: Response): Promise<void> {
+    try {
+      const role = req.query['role'] as UserRole | undefined;
+      const staff = await ShiftService.onDuty({
+        at: req.query['at'] as unknown as Date | undefined,
+        roles: role ? [role] : undefined,
+      });
+
+      ResponseUtil.success(res, staff, 'On-duty staff retrieved successfully');
+    } catch (error) {
+      ShiftController.handleError(res, error, 'retrieve on-duty staff');
+    }
+  }
+
+  // Get your own shifts and leave for a week
+  static async getMyWeek(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.id;
+      const roster = await ShiftService.getWeek(
+        req.query['weekStart'] as unknown as Date,
+        (req as any).user?.role
+      );
+
+      ResponseUtil.success(
+        res,
+        {
+          ...roster,
+          staff: roster.staff.filter(staff => staff.staffId === userId),
+        },
+        'Shifts retrieved successfully'
+      );
+    } catch (error) {
+      ShiftController.handleError(res, error, 'retrieve shifts');
+    }
+  }
+
+  // Clock in
+  static async clockIn(req: Request, res: Response): Promise<void> {
+    try {
+      const entry = await ShiftService.clockIn((req as any).user?.id);
+
+      ResponseUtil.success(res, entry, 'Clocked in successfully', 201);
+    } catch (error) {
+      ShiftController.handleError(res, error, 'clock in');
+    }
+  }
+
+  // Clock out
+  static async clockOut(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await ShiftService.clockOut((req as any).user?.id);
+
+      ResponseUtil.success(
+        res,
+        result,
+        `Clocked out after ${result.minutesWorked} minutes`
+      );
+    } catch (error) {
+      ShiftController.handleError(res, error, 'clock out');
+    }
+  }
+
+  // Get time clock entries
+  static async getClockEntries(req: Request, res: Response): Promise<void> {
+    try {
+      const filter = req.query as any;
+      const { entries, total } = await ShiftService.listClockEntries(filter);
+
+      ResponseUtil.paginated(
+        res,
+        entries,
+        total,
+        filter.page,
+        filter.limit,
+        'Time clock entries retrieved successfully'
+      );
+    } catch (error) {
+      ShiftController.handleError(res, error, 'retrieve time clock entries');
+    }
+  }
+
+  // Ask for leave
+  static async requestLeave(req: Request, res: Response): Promise<void> {
+    try {
+      const request = await ShiftService.requestLeave(
+        (req as any).user?.id,
+        req.body
+      );
+
+      ResponseUtil.success(res, request, 'Leave requested successfully', 201);
+    } catch (error) {
+      ShiftController.handleError(res, error, 'request leave');
+    }
+  }
+
+  // Get leave requests
+  static async getLeaveRequests(req: Request, res: Response): Promise<void> {
+    try {
+      const filter = req.query as any;
+      const { requests, total } = await ShiftService.listLeave(filter);
+
+      ResponseUtil.paginated(
+        res,
+        requests,
+        total,
+        filter.page,
+        filter.limit,
+        'Leave requests retrieved successfully'
+      );
+    } catch (error) {
+      ShiftController.handleError(res, error, 'retrieve leave requests');
+    }
+  }
+
+  // Get your own leave requests
+  static async getMyLeaveRequests(req: Request, res: Response): Promise<void> {
+    try {
+      const filter = req.query as any;
+      const { requests, total } = await ShiftService.listLeave({
+        ...filter,
+        staffId: (req as any).user?.id,
+      });
+
+      ResponseUtil.paginated(
+        res,
+        requests,
+        total,
+        filter.page,
+        filter.limit,
+        'Leave requests retrieved successfully'
+      );
+    } catch (error) {
+      ShiftController.handleError(res, error, 'retrieve leave requests');
+    }
+  }
+
+  // Approve or reject a leave request
+  static async reviewLeave(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.id;
+      const result = await ShiftService.reviewLeave(
+        req.params.id,
+        req.body,
+        userId
+      );
+
+      logger.info(`Leave request ${req.params.id} ${result.request.status}`, {
+        shiftsRemoved: result.shiftsRemoved,
+        userId,
+      });
+      ResponseUtil.success(
+        res,
+        result,
+        `Leave request ${result.request.status}`
+      );
+    } catch (error) {
+      ShiftController.handleError(res, error, 'review leave request');
+    }
+  }
+
+  // Cancel your own leave request
+  static async cancelLeave(req: Request, res: Response): Promise<void> {
+    try {
+      const request = await ShiftService.cancelLeave(
+        req.params.id,
+        (req as any).user?.id
+      );
+
+      ResponseUtil.success(res, request, 'Leave request cancelled');
+    } catch (error) {
+      ShiftController.handleError(res, error, 'cancel leave request');
+    }
+  }
+
+  private static handleError(res: Response, error: unknown, action: string) {
+    if (error instanceof AppError) {
+      ResponseUtil.error(res, error.message, error.statusCode);
+      return;
+    }
+    logger.error(`Error trying to ${action}:`, error);
+    ResponseUtil.internalError(res, `Failed to ${action}`);
+  }
+}
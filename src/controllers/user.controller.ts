@@ -1,7 +1,5 @@
 import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import crypto from 'crypto';
 import { ResponseUtil } from '../utils/response';
 import { UserModel } from '../models/User.model';
 import { logger } from '../utils';
@@ -9,7 +7,12 @@ import {
   userValidationSchemas,
   userRoleSchema,
 } from '../validations/user.validation';
-import { UserRole } from '../types/models';
+import { authValidationSchemas } from '../validations/auth.validation';
+import { commonValidationSchemas } from '../validations/common.validation';
+import { AuthService, ImportService, SessionContext } from '../services';
+import { AppError } from '../utils/errors';
+import { hasPermission } from '../middleware/permission.middleware';
+import { ImportResource, ImportStatus, UserRole } from '../types/models';
 import { HttpStatusCode } from '../types/api';
 
 /**
@@ -46,6 +49,9 @@ export class UserController {
         );
       }
 
+      // Self-registration always creates a guest; only user managers pick a role
+      const canAssignRole = hasPermission(req, 'user.manage');
+
       // Hash password
       const saltRounds = 12;
       const hashedPassword = await bcrypt.hash(password, saltRounds);
@@ -57,7 +63,7 @@ export class UserController {
         firstName,
         lastName,
         phone,
-        role: role || UserRole.GUEST,
+        role: (canAssignRole && role) || UserRole.GUEST,
       });
 
       logger.info('User registered successfully', { userId: user._id, email });
@@ -136,15 +142,10 @@ export class UserController {
       // Update last login
       await UserModel.findByIdAndUpdate(user._id, { lastLogin: new Date() });
 
-      // Generate JWT token
-      const token = jwt.sign(
-        {
-          userId: user._id,
-          email: user.email,
-          role: user.role,
-        },
-        process.env.JWT_SECRET || 'fallback-secret',
-        { expiresIn: '24h' }
+      // Start a session: short-lived access token plus rotating refresh token
+      const { token, refreshToken, expiresIn } = await AuthService.issueTokens(
+        user,
+        this.getSessionContext(req)
       );
 
       logger.info('User logged in successfully', { userId: user._id, email });
@@ -152,6 +153,8 @@ export class UserController {
         res,
         {
           token,
+          refreshToken,
+          expiresIn,
           user,
         },
         'Login successful'
@@ -162,6 +165,98 @@ export class UserController {
     }
   }
 
+  /**
+   * Exchange a refresh token for a new token pair
+   * @route POST /api/v1/users/refresh-token
+   */
+  async refreshToken(req: Request, res: Response) {
+    try {
+      const validation = authValidationSchemas.refreshToken.safeParse(req.body);
+      if (!validation.success) {
+        const validationErrors = validation.error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code,
+        }));
+        return ResponseUtil.validationError(res, validationErrors);
+      }
+
+      const tokens = await AuthService.rotateRefreshToken(
+        validation.data.refreshToken,
+        this.getSessionContext(req)
+      );
+
+      return ResponseUtil.success(res, tokens, 'Token refreshed successfully');
+    } catch (error) {
+      if (error instanceof AppError) {
+        logger.warn('Refresh token rejected', { reason: error.message });
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error refreshing token', { error });
+      return ResponseUtil.internalError(res, 'Failed to refresh token');
+    }
+  }
+
+  /**
+   * Logout the current session
+   * @route POST /api/v1/users/logout
+   */
+  async logout(req: Request, res: Response) {
+    try {
+      const validation = authValidationSchemas.logout.safeParse(req.body ?? {});
+      if (!validation.success) {
+        const validationErrors = validation.error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code,
+        }));
+        return ResponseUtil.validationError(res, validationErrors);
+      }
+
+      const { id: userId, sessionId } = (req as any).user;
+      const { refreshToken, logoutAllDevices } = validation.data;
+
+      if (logoutAllDevices) {
+        await AuthService.revokeAllSessions(userId);
+      } else if (refreshToken) {
+        const found = await AuthService.logout(userId, refreshToken);
+        if (!found) {
+          return ResponseUtil.badRequest(res, 'Invalid refresh token');
+        }
+      } else if (sessionId) {
+        await AuthService.revokeSession(sessionId);
+      }
+
+      logger.info('User logged out', { userId, logoutAllDevices });
+      return ResponseUtil.success(res, null, 'Logged out successfully');
+    } catch (error) {
+      logger.error('Error during logout', { error });
+      return ResponseUtil.internalError(res, 'Logout failed');
+    }
+  }
+
+  /**
+   * Logout every session of the current user
+   * @route POST /api/v1/users/logout-all
+   */
+  async logoutAll(req: Request, res: Response) {
+    try {
+      const userId = (req as any).user.id;
+
+      await AuthService.revokeAllSessions(userId);
+
+      logger.info('User logged out of all sessions', { userId });
+      return ResponseUtil.success(
+        res,
+        null,
+        'Logged out of all sessions successfully'
+      );
+    } catch (error) {
+      logger.error('Error during logout of all sessions', { error });
+      return ResponseUtil.internalError(res, 'Logout failed');
+    }
+  }
+
   /**
    * Get all users with filtering and pagination
    * @route GET /api/v1/users
@@ -453,6 +548,11 @@ export class UserController {
         return ResponseUtil.notFound(res, 'User not found');
       }
 
+      // A deactivated user must lose every open session immediately
+      if (!isActive) {
+        await AuthService.revokeAllSessions(id);
+      }
+
       const action = isActive ? 'activated' : 'deactivated';
       logger.info(`User ${action} successfully`, { userId: id, isActive });
       return ResponseUtil.success(res, user, `User ${action} successfully`);
@@ -473,6 +573,18 @@ export class UserController {
     try {
       const { id } = req.params;
 
+      // Only the account's owner may change its password
+      if ((req as any).user.id !== id) {
+        logger.warn('Password change for another account refused', {
+          userId: id,
+          requestedBy: (req as any).user.id,
+        });
+        return ResponseUtil.forbidden(
+          res,
+          'You can only change your own password'
+        );
+      }
+
       const validation = userValidationSchemas.changePassword.safeParse(
         req.body
       );
@@ -510,8 +622,9 @@ export class UserController {
       const saltRounds = 12;
       const hashedNewPassword = await bcrypt.hash(newPassword, saltRounds);
 
-      // Update password
+      // Update password and end every session issued with the old one
       await UserModel.findByIdAndUpdate(id, { password: hashedNewPassword });
+      await AuthService.revokeAllSessions(id);
 
       logger.info('Password changed successfully', { userId: id });
       return ResponseUtil.success(res, null, 'Password changed successfully');
@@ -541,35 +654,16 @@ export class UserController {
 
       const { email } = validation.data;
 
-      const user = await UserModel.findOne({ email });
-      if (!user) {
-        // Don't reveal if email exists or not for security
-        logger.warn('Password reset requested for non-existent email', {
-          email,
-        });
-        return ResponseUtil.success(
-          res,
-          null,
-          'If the email exists, a reset link has been sent'
-        );
-      }
-
-      // Generate reset token (in production, you'd send this via email)
-      const resetToken = crypto.randomBytes(32).toString('hex');
-      const resetTokenExpiry = new Date(Date.now() + 3600000); // 1 hour
-
-      // In a real application, you'd store this token in the database
-      // For now, we'll just log it
-      logger.info('Password reset token generated', {
-        userId: user._id,
+      // Same response whether or not the email exists, so accounts can't be probed
+      await AuthService.requestPasswordReset(
         email,
-        resetToken,
-        expiresAt: resetTokenExpiry,
-      });
+        this.getSessionContext(req)
+      );
 
+      logger.info('Password reset requested', { email });
       return ResponseUtil.success(
         res,
-        { resetToken }, // In production, don't return the token
+        null,
         'If the email exists, a reset link has been sent'
       );
     } catch (error) {
@@ -601,33 +695,16 @@ export class UserController {
 
       const { email, resetToken, newPassword } = validation.data;
 
-      // In a real application, you'd verify the token from the database
-      // For now, we'll just find the user by email and log the token
-      const user = await UserModel.findOne({ email });
-      if (!user) {
-        logger.warn('Password reset attempt with invalid email', {
-          email,
-          resetToken,
-        });
-        return ResponseUtil.badRequest(res, 'Invalid reset token or email');
-      }
-
-      // Log the reset token for verification (in production, verify against stored token)
-      logger.info('Password reset token received', {
-        userId: user._id,
-        resetToken,
-      });
+      // Verifies and consumes the single-use token, then ends every session
+      await AuthService.resetPassword(email, resetToken, newPassword);
 
-      // Hash new password
-      const saltRounds = 12;
-      const hashedPassword = await bcrypt.hash(newPassword, saltRounds);
-
-      // Update password
-      await UserModel.findByIdAndUpdate(user._id, { password: hashedPassword });
-
-      logger.info('Password reset successfully', { userId: user._id, email });
+      logger.info('Password reset successfully', { email });
       return ResponseUtil.success(res, null, 'Password reset successfully');
     } catch (error) {
+      if (error instanceof AppError) {
+        logger.warn('Password reset rejected', { reason: error.message });
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
       logger.error('Error resetting password', { error });
       return ResponseUtil.internalError(res, 'Failed to reset password');
     }
@@ -717,4 +794,106 @@ export class UserController {
       );
     }
   }
+
+  /**
+   * Import staff and guest accounts from a CSV or JSON file
+   * @route POST /api/v1/users/import
+   */
+  async importUsers(req: Request, res: Response) {
+    try {
+      const validation = commonValidationSchemas.import.safeParse(req.body);
+      if (!validation.success) {
+        const validationErrors = validation.error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code,
+        }));
+        return ResponseUtil.validationError(res, validationErrors);
+      }
+
+      const log = await ImportService.importRecords(
+        ImportResource.USERS,
+        validation.data,
+        (req as any).user?.id
+      );
+      logger.info('User import processed', {
+        importId: log._id,
+        status: log.status,
+      });
+      if (log.status === ImportStatus.FAILED) {
+        return ResponseUtil.error(
+          res,
+          ImportService.describe(log),
+          HttpStatusCode.UNPROCESSABLE_ENTITY,
+          ImportService.rowErrors(log),
+          { importId: log._id }
+        );
+      }
+      return ResponseUtil.success(
+        res,
+        ImportService.summarize(log),
+        ImportService.describe(log),
+        log.status === ImportStatus.COMPLETED
+          ? HttpStatusCode.CREATED
+          : HttpStatusCode.OK
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error importing users', { error });
+      return ResponseUtil.internalError(res, 'Failed to import users');
+    }
+  }
+
+  /**
+   * Download the log of a user import
+   * @route GET /api/v1/users/imports/:importId/log
+   */
+  async downloadImportLog(req: Request, res: Response) {
+    try {
+      const validation = commonValidationSchemas.importLogDownload.safeParse(
+        req.query
+      );
+      if (!validation.success) {
+        const validationErrors = validation.error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code,
+        }));
+        return ResponseUtil.validationError(res, validationErrors);
+      }
+
+      const log = await ImportService.getLog(
+        ImportResource.USERS,
+        req.params['importId']
+      );
+      const file = ImportService.renderLog(log, validation.data);
+      return ResponseUtil.file(
+        res,
+        file.content,
+        file.contentType,
+        file.filename
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        return ResponseUtil.error(res, error.message, error.statusCode);
+      }
+      logger.error('Error downloading user import log', { error });
+      return ResponseUtil.internalError(
+        res,
+        'Failed to download the import log'
+      );
+    }
+  }
+
+  /**
+   * Request details recorded with a new session
+   */
+  private getSessionContext(req: Request): SessionContext {
+    return {
+      ip: req.ip,
+      userAgent: req.get('user-agent'),
+    };
+  }
 }
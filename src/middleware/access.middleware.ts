@@ -0,0 +1,122 @@
+import {
+  Request,
+  Response,
+  NextFunction,
+  RequestHandler,
+  Router,
+} from 'express';
+import { accessPolicy, RoutePolicy } from '../config/accessPolicy.config';
+import { authMiddleware, optionalAuthMiddleware } from './auth.middleware';
+import { requirePermission } from './permission.middleware';
+
+// The parts of Express' internal router layers the guard relies on
+interface RouteLayer {
+  regexp: RegExp;
+  route?: {
+    path: string;
+    methods: Record<string, boolean>;
+  };
+}
+
+interface GuardedRoute {
+  regexp: RegExp;
+  methods: Record<string, boolean>;
+  guard: RequestHandler;
+}
+
+/**
+ * Access control middleware
+ * Applies the access policy matrix to a router. Mount it in front of the
+ * router it guards: app.use(path, authorize(path, router), router).
+ * Throws when a route of the router has no policy, or a policy names a
+ * route the router does not declare, so a gap fails at startup.
+ */
+export const authorize = (
+  mountPath: string,
+  router: Router
+): RequestHandler => {
+  const policies = accessPolicy[mountPath];
+  if (!policies) {
+    throw new Error(`No access policy defined for router ${mountPath}`);
+  }
+
+  const routes: GuardedRoute[] = [];
+  const declared = new Set<string>();
+  const missing: string[] = [];
+
+  for (const layer of router.stack as RouteLayer[]) {
+    if (!layer.route) {
+      continue;
+    }
+
+    for (const method of Object.keys(layer.route.methods)) {
+      const key = `${method.toUpperCase()} ${layer.route.path}`;
+      declared.add(key);
+
+      const policy = policies[key];
+      if (!policy) {
+        missing.push(key);
+        continue;
+      }
+
+      routes.push({
+        regexp: layer.regexp,
+        methods: { [method]: true },
+        guard: policyGuard(policy),
+      });
+    }
+  }
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing access policy for ${mountPath}: ${missing.join(', ')}`
+    );
+  }
+
+  const stale = Object.keys(policies).filter(key => !declared.has(key));
+  if (stale.length > 0) {
+    throw new Error(
+      `Access policy for ${mountPath} names unknown routes: ${stale.join(', ')}`
+    );
+  }
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const method = req.method.toLowerCase();
+
+    // Express answers HEAD with the matching GET route
+    const route = routes.find(
+      candidate =>
+        (candidate.methods[method] ||
+          (method === 'head' && candidate.methods.get)) &&
+        candidate.regexp.test(req.path)
+    );
+
+    // Unknown paths fall through to the router's 404 handling
+    if (!route) {
+      next();
+      return;
+    }
+
+    route.guard(req, res, next);
+  };
+};
+
+const policyGuard = (policy: RoutePolicy): RequestHandler => {
+  // Public routes still see the caller when a valid token is sent
+  if (policy === 'public') {
+    return (req, res, next) => {
+      void optionalAuthMiddleware(req, res, next);
+    };
+  }
+
+  if (policy === 'authenticated') {
+    return (req, res, next) => {
+      void authMiddleware(req, res, next);
+    };
+  }
+
+  const checkPermission = requirePermission(policy);
+  return (req, res, next) => {
+    void authMiddleware(req, res, () => checkPermission(req, res, next));
+  };
+};
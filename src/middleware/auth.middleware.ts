@@ -4,6 +4,9 @@ import { UserModel } from '../models/User.model';
 import { ResponseUtil } from '../utils/response';
 import { logger } from '../utils/logger';
 import { UserRole } from '../types/models';
+import { AuthService, AccessTokenPayload } from '../services/auth.service';
+import { PermissionService } from '../services/permission.service';
+import { Permission } from '../config/permissions.config';
 
 // Extend the Request interface locally
 interface AuthenticatedRequest extends Request {
@@ -13,6 +16,8 @@ interface AuthenticatedRequest extends Request {
     role: UserRole;
     firstName: string;
     lastName: string;
+    sessionId?: string;
+    permissions: Permission[];
   };
 }
 
@@ -42,7 +47,10 @@ export const authMiddleware = async (
     }
 
     // Verify JWT token
-    const decoded = jwt.verify(token, process.env.JWT_SECRET) as any;
+    const decoded = jwt.verify(
+      token,
+      process.env.JWT_SECRET
+    ) as AccessTokenPayload;
 
     // Find user by ID from token
     const user = await UserModel.findById(decoded.userId).select('-password');
@@ -58,6 +66,12 @@ export const authMiddleware = async (
       return;
     }
 
+    // Reject tokens from sessions that were logged out or revoked
+    if (!(await AuthService.isSessionActive(decoded, user))) {
+      ResponseUtil.error(res, 'Session has been revoked', 401);
+      return;
+    }
+
     // Attach user to request object
     req.user = {
       id: (user._id as any).toString(),
@@ -65,6 +79,8 @@ export const authMiddleware = async (
       role: user.role,
       firstName: user.firstName,
       lastName: user.lastName,
+      sessionId: decoded.sessionId,
+      permissions: await PermissionService.getEffectivePermissions(user),
     };
 
     next();
@@ -109,16 +125,25 @@ export const optionalAuthMiddleware = async (
       return;
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET) as any;
+    const decoded = jwt.verify(
+      token,
+      process.env.JWT_SECRET
+    ) as AccessTokenPayload;
     const user = await UserModel.findById(decoded.userId).select('-password');
 
-    if (user && user.isActive) {
+    if (
+      user &&
+      user.isActive &&
+      (await AuthService.isSessionActive(decoded, user))
+    ) {
       req.user = {
         id: (user._id as any).toString(),
         email: user.email,
         role: user.role,
         firstName: user.firstName,
         lastName: user.lastName,
+        sessionId: decoded.sessionId,
+        permissions: await PermissionService.getEffectivePermissions(user),
       };
     }
 
@@ -2,3 +2,5 @@ export * from './rateLimiter.middleware';
 export * from './validation.middleware';
 export * from './auth.middleware';
 export * from './role.middleware';
+export * from './permission.middleware';
+export * from './access.middleware';
@@ -0,0 +1,65 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ResponseUtil } from '../utils/response';
+import { logger } from '../utils/logger';
+import { Permission } from '../config/permissions.config';
+
+/**
+ * Permission-based access control middleware
+ * Checks the effective permissions attached by authMiddleware
+ */
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    permissions?: Permission[];
+  };
+}
+
+/**
+ * Whether the authenticated user holds a permission
+ */
+export const hasPermission = (
+  req: AuthenticatedRequest,
+  permission: Permission
+): boolean => {
+  return req.user?.permissions?.includes(permission) ?? false;
+};
+
+/**
+ * Require every listed permission
+ */
+export const requirePermission = (
+  ...permissions: Permission[]
+): RequestHandler => {
+  return (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): void => {
+    if (!req.user) {
+      ResponseUtil.error(res, 'Authentication required', 401);
+      return;
+    }
+
+    const missing = permissions.filter(
+      permission => !hasPermission(req, permission)
+    );
+    if (missing.length > 0) {
+      logger.warn('Access denied - missing permissions', {
+        userId: req.user.id,
+        missing,
+        path: req.path,
+        method: req.method,
+      });
+
+      ResponseUtil.error(
+        res,
+        `Access denied. Required permission(s): ${missing.join(', ')}`,
+        403
+      );
+      return;
+    }
+
+    next();
+  };
+};
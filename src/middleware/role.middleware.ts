@@ -1,7 +1,9 @@
-import { Request, Response, NextFunction } from 'express';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
 import { ResponseUtil } from '../utils/response';
 import { logger } from '../utils/logger';
 import { UserRole } from '../types/models';
+import { Permission } from '../config/permissions.config';
+import { hasPermission, requirePermission } from './permission.middleware';
 
 /**
  * Role-based access control middleware
@@ -13,6 +15,7 @@ interface AuthenticatedRequest extends Request {
   user?: {
     id: string;
     role: string;
+    permissions?: Permission[];
   };
 }
 
@@ -66,27 +69,37 @@ export const roleMiddleware = (allowedRoles: string[]) => {
 
 /**
  * Admin-only middleware
- * Shorthand for requiring admin role
+ * Shorthand for requiring the system.admin permission
  */
-export const adminOnly = roleMiddleware(['admin']);
+export const adminOnly: RequestHandler = requirePermission('system.admin');
 
 /**
  * Manager or Admin middleware
- * Shorthand for requiring manager or admin role
+ * Shorthand for requiring the system.management permission
  */
-export const managerOrAdmin = roleMiddleware(['manager', 'admin']);
+export const managerOrAdmin: RequestHandler =
+  requirePermission('system.management');
 
 /**
  * Staff or higher middleware
- * Shorthand for requiring staff, manager, or admin role
+ * Shorthand for requiring any staff role; rejects guests
  */
-export const staffOrHigher = roleMiddleware(['staff', 'manager', 'admin']);
+export const staffOrHigher = roleMiddleware([
+  UserRole.ADMIN,
+  UserRole.MANAGER,
+  UserRole.RECEPTIONIST,
+  UserRole.HOUSEKEEPING,
+  UserRole.MAINTENANCE,
+]);
 
 /**
  * Resource owner or admin middleware
- * Checks if user owns the resource or is an admin
+ * Checks if user owns the resource or holds the given permission
  */
-export const ownerOrAdmin = (resourceUserIdField = 'userId') => {
+export const ownerOrAdmin = (
+  resourceUserIdField = 'userId',
+  permission: Permission = 'system.admin'
+) => {
   return (
     req: AuthenticatedRequest,
     res: Response,
@@ -98,12 +111,10 @@ export const ownerOrAdmin = (resourceUserIdField = 'userId') => {
         return;
       }
 
-      const userRole = req.user.role;
       const userId = req.user.id;
 
-      // Admin can access any resource
-      // eslint-disable-next-line @typescript-eslint/no-unsafe-enum-comparison
-      if (userRole === UserRole.ADMIN) {
+      // Holders of the permission can access any resource
+      if (hasPermission(req, permission)) {
         next();
         return;
       }
@@ -117,7 +128,7 @@ export const ownerOrAdmin = (resourceUserIdField = 'userId') => {
         return;
       }
 
-      // User doesn't own the resource and is not admin
+      // User doesn't own the resource and lacks the permission
       ResponseUtil.error(
         res,
         'Access denied. You can only access your own resources.',
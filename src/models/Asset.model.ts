@@ -0,0 +1,76 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { Asset, AssetType } from '../types/models';
+
+export interface AssetDocument extends Asset, Document {}
+
+const assetSchema = new Schema(
+  {
+    assetTag: {
+      type: String,
+      required: [true, 'Asset tag is required'],
+      unique: true,
+      trim: true,
+      uppercase: true,
+      maxlength: [50, 'Asset tag cannot exceed 50 characters'],
+    },
+    assetType: {
+      type: String,
+      enum: Object.values(AssetType),
+      required: [true, 'Asset type is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Asset name is required'],
+      trim: true,
+      maxlength: [200, 'Name cannot exceed 200 characters'],
+    },
+    make: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Make cannot exceed 100 characters'],
+    },
+    modelNumber: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Model number cannot exceed 100 characters'],
+    },
+    serialNumber: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Serial number cannot exceed 100 characters'],
+    },
+    installDate: {
+      type: Date,
+    },
+    warrantyExpiry: {
+      type: Date,
+    },
+    roomId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Room',
+    },
+    location: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Location cannot exceed 200 characters'],
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Notes cannot exceed 1000 characters'],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+assetSchema.index({ roomId: 1 });
+assetSchema.index({ assetType: 1, isActive: 1 });
+
+export const AssetModel = mongoose.model<AssetDocument>('Asset', assetSchema);
@@ -1,6 +1,9 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import {
   Bill,
+  BillChargeType,
+  BillPaymentStatus,
+  FolioChargeType,
   PaymentStatus,
   PaymentMethod,
   ServiceStatus,
@@ -55,12 +58,214 @@ const additionalServiceSchema = new Schema(
   }
 );
 
+const routedChargeSchema = new Schema(
+  {
+    sourceBillId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Bill',
+      required: true,
+    },
+    chargeType: {
+      type: String,
+      enum: Object.values(BillChargeType),
+      required: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: [0, 'Routed amount cannot be negative'],
+    },
+    routedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    _id: false,
+    versionKey: false,
+  }
+);
+
+const lineTaxSchema = new Schema(
+  {
+    code: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+    },
+  },
+  {
+    _id: false,
+    versionKey: false,
+  }
+);
+
+const folioChargeSchema = new Schema(
+  {
+    chargeType: {
+      type: String,
+      enum: Object.values(FolioChargeType),
+      required: true,
+    },
+    description: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: [200, 'Description cannot exceed 200 characters'],
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      default: 1,
+      min: [1, 'Quantity must be at least 1'],
+    },
+    unitPrice: {
+      type: Number,
+      required: true,
+    },
+    // Negative only for adjustments
+    amount: {
+      type: Number,
+      required: true,
+    },
+    serviceDate: {
+      type: Date,
+      required: true,
+    },
+    // Check-out or service request the charge was posted from
+    sourceId: {
+      type: Schema.Types.ObjectId,
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Reason cannot exceed 500 characters'],
+    },
+    // Taxes are worked out once, when the line is posted
+    taxes: [lineTaxSchema],
+    taxAmount: {
+      type: Number,
+      default: 0,
+    },
+    taxedAt: {
+      type: Date,
+    },
+    routedToBillId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Bill',
+    },
+    taxesRoutedToBillId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Bill',
+    },
+    sourceBillId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Bill',
+    },
+    postedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    postedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    versionKey: false,
+  }
+);
+
+const paymentSchema = new Schema(
+  {
+    amount: {
+      type: Number,
+      required: true,
+      min: [0.01, 'Payment amount must be greater than 0'],
+    },
+    // Deposits carried over from a reservation may not record a method
+    paymentMethod: {
+      type: String,
+      enum: Object.values(PaymentMethod),
+      required: function (this: { isDeposit: boolean }) {
+        return !this.isDeposit;
+      },
+    },
+    reference: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Payment reference cannot exceed 100 characters'],
+    },
+    isDeposit: {
+      type: Boolean,
+      default: false,
+    },
+    status: {
+      type: String,
+      enum: Object.values(BillPaymentStatus),
+      default: BillPaymentStatus.POSTED,
+    },
+    // Sum of the credit notes issued against this payment
+    refundedAmount: {
+      type: Number,
+      default: 0,
+      min: [0, 'Refunded amount cannot be negative'],
+    },
+    receivedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    receivedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Notes cannot exceed 500 characters'],
+    },
+    voidedAt: {
+      type: Date,
+    },
+    voidedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    voidReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Void reason cannot exceed 500 characters'],
+    },
+  },
+  {
+    versionKey: false,
+  }
+);
+
+// Master bills aggregate a group's charges and have no single stay
+function isChildBill(this: BillDocument) {
+  return !this.isMasterBill;
+}
+
 const billSchema = new Schema(
   {
     reservationId: {
       type: Schema.Types.ObjectId,
       ref: 'Reservation',
-      required: true,
+      required: isChildBill,
     },
     guestId: {
       type: Schema.Types.ObjectId,
@@ -70,12 +275,12 @@ const billSchema = new Schema(
     roomId: {
       type: Schema.Types.ObjectId,
       ref: 'Room',
-      required: true,
+      required: isChildBill,
     },
     checkInId: {
       type: Schema.Types.ObjectId,
       ref: 'CheckIn',
-      required: true,
+      required: isChildBill,
     },
     checkOutId: {
       type: Schema.Types.ObjectId,
@@ -119,6 +324,51 @@ const billSchema = new Schema(
       type: String,
       enum: Object.values(PaymentMethod),
     },
+    groupBookingId: {
+      type: Schema.Types.ObjectId,
+      ref: 'GroupBooking',
+    },
+    isMasterBill: {
+      type: Boolean,
+      default: false,
+    },
+    masterBillId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Bill',
+    },
+    routedCharges: [routedChargeSchema],
+    // Folio lines; once a bill has any, its charge totals are derived from them
+    charges: [folioChargeSchema],
+    taxBreakdown: [lineTaxSchema],
+    adjustmentAmount: {
+      type: Number,
+      default: 0,
+    },
+    // Payment ledger; amountPaid and balanceDue are derived from it
+    payments: [paymentSchema],
+    amountPaid: {
+      type: Number,
+      default: 0,
+      min: [0, 'Amount paid cannot be negative'],
+    },
+    // Charges written off by credit notes; netAmount is what the guest owes
+    creditedAmount: {
+      type: Number,
+      default: 0,
+      min: [0, 'Credited amount cannot be negative'],
+    },
+    netAmount: {
+      type: Number,
+      default: function (this: BillDocument) {
+        return this.totalAmount;
+      },
+    },
+    balanceDue: {
+      type: Number,
+      default: function (this: BillDocument) {
+        return this.totalAmount;
+      },
+    },
   },
   {
     timestamps: true,
@@ -132,6 +382,9 @@ billSchema.index({ guestId: 1 });
 billSchema.index({ roomId: 1 });
 billSchema.index({ status: 1 });
 billSchema.index({ dueDate: 1 });
+billSchema.index({ groupBookingId: 1 });
+billSchema.index({ masterBillId: 1 });
+billSchema.index({ checkInId: 1 });
 billSchema.index({ createdAt: -1 });
 
 // Compound indexes for common queries
@@ -154,14 +407,22 @@ billSchema.virtual('subtotal').get(function (this: BillDocument) {
   return this.baseAmount + this.additionalServicesTotal;
 });
 
-// Virtual for grand total (subtotal + tax + service charges)
+// Virtual for grand total (subtotal + tax + service charges + adjustments)
 billSchema.virtual('grandTotal').get(function (this: BillDocument) {
-  return this.subtotal + this.taxAmount + this.serviceCharges;
+  return (
+    this.subtotal +
+    this.taxAmount +
+    this.serviceCharges +
+    (this.adjustmentAmount ?? 0)
+  );
 });
 
 // Virtual for overdue status
 billSchema.virtual('isOverdue').get(function (this: BillDocument) {
-  return this.status === PaymentStatus.PENDING && new Date() > this.dueDate;
+  return (
+    [PaymentStatus.PENDING, PaymentStatus.PARTIAL].includes(this.status) &&
+    new Date() > this.dueDate
+  );
 });
 
 // Ensure virtual fields are serialized
@@ -1,8 +1,69 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import { CheckIn } from '../types/models';
+import { CheckIn, RoomMoveCharge } from '../types/models';
 
 export interface CheckInDocument extends CheckIn, Document {}
 
+const roomMoveSchema = new Schema(
+  {
+    fromRoomId: {
+      type: String,
+      ref: 'Room',
+      required: true,
+    },
+    fromRoomNumber: {
+      type: String,
+      required: true,
+    },
+    toRoomId: {
+      type: String,
+      ref: 'Room',
+      required: true,
+    },
+    toRoomNumber: {
+      type: String,
+      required: true,
+    },
+    movedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    reason: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: [500, 'Reason cannot exceed 500 characters'],
+    },
+    charge: {
+      type: String,
+      enum: Object.values(RoomMoveCharge),
+      required: true,
+    },
+    rateDifference: {
+      type: Number,
+      required: true,
+    },
+    chargedAmount: {
+      type: Number,
+      required: true,
+    },
+    nights: {
+      type: Number,
+      required: true,
+      min: [0, 'Nights cannot be negative'],
+    },
+    maintenanceRequestId: {
+      type: String,
+      ref: 'MaintenanceRequest',
+    },
+    movedBy: {
+      type: String,
+      ref: 'User',
+    },
+  },
+  { _id: false }
+);
+
 const checkInSchema = new Schema<CheckInDocument>(
   {
     reservationId: {
@@ -47,6 +108,11 @@ const checkInSchema = new Schema<CheckInDocument>(
       trim: true,
       maxlength: [1000, 'Special instructions cannot exceed 1000 characters'],
     },
+    // Rooms the stay was moved from, oldest first
+    roomMoves: {
+      type: [roomMoveSchema],
+      default: [],
+    },
   },
   {
     timestamps: true,
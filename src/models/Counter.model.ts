@@ -0,0 +1,28 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { Counter } from '../types/models';
+
+export interface CounterDocument extends Counter, Document {}
+
+const counterSchema = new Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+    },
+    value: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+  },
+  {
+    versionKey: false,
+  }
+);
+
+export const CounterModel = mongoose.model<CounterDocument>(
+  'Counter',
+  counterSchema
+);
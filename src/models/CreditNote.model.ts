@@ -0,0 +1,79 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { CreditNote, PaymentMethod } from '../types/models';
+
+export interface CreditNoteDocument extends CreditNote, Document {}
+
+const creditNoteSchema = new Schema(
+  {
+    creditNoteNumber: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+    },
+    billId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Bill',
+      required: true,
+    },
+    // Ledger entry on the bill that the refund is taken from
+    paymentId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    guestId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: [0.01, 'Refund amount must be greater than 0'],
+    },
+    // Part of the refund that reduces the bill's charges; the rest returns
+    // an overpayment
+    creditedAmount: {
+      type: Number,
+      required: true,
+      min: [0, 'Credited amount cannot be negative'],
+    },
+    refundMethod: {
+      type: String,
+      enum: Object.values(PaymentMethod),
+      required: true,
+    },
+    reason: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: [500, 'Refund reason cannot exceed 500 characters'],
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Notes cannot exceed 500 characters'],
+    },
+    issuedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    issuedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Indexes for better query performance
+creditNoteSchema.index({ billId: 1, issuedAt: -1 });
+creditNoteSchema.index({ guestId: 1 });
+
+export const CreditNoteModel = mongoose.model<CreditNoteDocument>(
+  'CreditNote',
+  creditNoteSchema
+);
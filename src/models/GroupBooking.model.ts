@@ -0,0 +1,170 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import {
+  GroupBooking,
+  GroupBookingStatus,
+  BillChargeType,
+  RoomType,
+} from '../types/models';
+
+export interface GroupBookingDocument extends GroupBooking, Document {
+  totalRoomsBlocked: number;
+  totalRoomsPickedUp: number;
+}
+
+const allotmentSchema = new Schema(
+  {
+    roomType: {
+      type: String,
+      enum: Object.values(RoomType),
+      required: true,
+    },
+    roomsBlocked: {
+      type: Number,
+      required: true,
+      min: [1, 'At least one room must be blocked'],
+    },
+    roomsPickedUp: {
+      type: Number,
+      default: 0,
+      min: [0, 'Rooms picked up cannot be negative'],
+    },
+    roomIds: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'Room',
+      },
+    ],
+    ratePerNight: {
+      type: Number,
+      min: [0, 'Rate per night cannot be negative'],
+    },
+  },
+  {
+    _id: false,
+    versionKey: false,
+  }
+);
+
+const groupBookingSchema = new Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: [200, 'Group name cannot exceed 200 characters'],
+    },
+    groupCode: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+      uppercase: true,
+    },
+    contactGuestId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    arrivalDate: {
+      type: Date,
+      required: true,
+    },
+    departureDate: {
+      type: Date,
+      required: true,
+      validate: {
+        validator: function (this: GroupBookingDocument, value: Date) {
+          return value > this.arrivalDate;
+        },
+        message: 'Departure date must be after arrival date',
+      },
+    },
+    cutoffDate: {
+      type: Date,
+      required: true,
+      validate: {
+        validator: function (this: GroupBookingDocument, value: Date) {
+          return value <= this.arrivalDate;
+        },
+        message: 'Cutoff date cannot be after arrival date',
+      },
+    },
+    status: {
+      type: String,
+      enum: Object.values(GroupBookingStatus),
+      default: GroupBookingStatus.OPEN,
+      required: true,
+    },
+    allotments: {
+      type: [allotmentSchema],
+      validate: {
+        validator: (value: unknown[]) => value.length > 0,
+        message: 'At least one room allotment is required',
+      },
+    },
+    billingRoutes: [
+      {
+        type: String,
+        enum: Object.values(BillChargeType),
+      },
+    ],
+    masterBillId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Bill',
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Notes cannot exceed 1000 characters'],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    releasedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Indexes for better query performance
+groupBookingSchema.index({ contactGuestId: 1 });
+groupBookingSchema.index({ arrivalDate: 1 });
+groupBookingSchema.index({ createdAt: -1 });
+
+// Compound indexes for common queries
+groupBookingSchema.index({ status: 1, cutoffDate: 1 });
+
+// Virtual for total rooms blocked across allotments
+groupBookingSchema.virtual('totalRoomsBlocked').get(function (
+  this: GroupBookingDocument
+) {
+  return this.allotments.reduce(
+    (total, allotment) => total + allotment.roomsBlocked,
+    0
+  );
+});
+
+// Virtual for total rooms picked up from the block
+groupBookingSchema.virtual('totalRoomsPickedUp').get(function (
+  this: GroupBookingDocument
+) {
+  return this.allotments.reduce(
+    (total, allotment) => total + allotment.roomsPickedUp,
+    0
+  );
+});
+
+// Ensure virtual fields are serialized
+groupBookingSchema.set('toJSON', {
+  virtuals: true,
+});
+
+export const GroupBookingModel = mongoose.model<GroupBookingDocument>(
+  'GroupBooking',
+  groupBookingSchema
+);
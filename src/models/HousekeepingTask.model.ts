@@ -22,7 +22,6 @@ const housekeepingTaskSchema = new Schema(
     assignedStaffId: {
       type: Schema.Types.ObjectId,
       ref: 'User',
-      required: true,
     },
     taskType: {
       type: String,
@@ -53,6 +52,9 @@ const housekeepingTaskSchema = new Schema(
       default: Priority.MEDIUM,
       required: true,
     },
+    generationKey: {
+      type: String,
+    },
   },
   {
     timestamps: true,
@@ -75,6 +77,12 @@ housekeepingTaskSchema.index({ roomId: 1, status: 1 });
 housekeepingTaskSchema.index({ status: 1, scheduledDate: 1 });
 housekeepingTaskSchema.index({ priority: 1, scheduledDate: 1 });
 
+// Generating the board twice cannot create the same task twice
+housekeepingTaskSchema.index(
+  { generationKey: 1 },
+  { unique: true, sparse: true }
+);
+
 // Virtual for task duration
 housekeepingTaskSchema.virtual('duration').get(function () {
   if ((this as any).scheduledDate && (this as any).completedDate) {
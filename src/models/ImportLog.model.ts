@@ -0,0 +1,104 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import {
+  ImportLog,
+  ImportResource,
+  ImportRowAction,
+  ImportStatus,
+} from '../types/models';
+
+export interface ImportLogDocument extends ImportLog, Document {}
+
+const importRowSchema = new Schema(
+  {
+    row: {
+      type: Number,
+      required: true,
+    },
+    key: {
+      type: String,
+    },
+    action: {
+      type: String,
+      enum: Object.values(ImportRowAction),
+      required: true,
+    },
+    recordId: {
+      type: Schema.Types.ObjectId,
+    },
+    issues: [
+      {
+        _id: false,
+        field: { type: String, required: true },
+        message: { type: String, required: true },
+      },
+    ],
+  },
+  { _id: false }
+);
+
+const importLogSchema = new Schema(
+  {
+    resource: {
+      type: String,
+      enum: Object.values(ImportResource),
+      required: true,
+    },
+    format: {
+      type: String,
+      enum: ['csv', 'json'],
+      required: true,
+    },
+    dryRun: {
+      type: Boolean,
+      default: false,
+    },
+    overwriteExisting: {
+      type: Boolean,
+      default: false,
+    },
+    status: {
+      type: String,
+      enum: Object.values(ImportStatus),
+      required: true,
+    },
+    totalRows: {
+      type: Number,
+      default: 0,
+    },
+    created: {
+      type: Number,
+      default: 0,
+    },
+    updated: {
+      type: Number,
+      default: 0,
+    },
+    failed: {
+      type: Number,
+      default: 0,
+    },
+    rows: [importRowSchema],
+    backup: [Schema.Types.Mixed],
+    // Why a run that passed validation could not be written
+    error: {
+      type: String,
+    },
+    importedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Indexes for better query performance
+importLogSchema.index({ resource: 1, createdAt: -1 });
+importLogSchema.index({ importedBy: 1 });
+
+export const ImportLogModel = mongoose.model<ImportLogDocument>(
+  'ImportLog',
+  importLogSchema
+);
@@ -0,0 +1,67 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { LeaveRequest, LeaveStatus, LeaveType } from '../types/models';
+
+export interface LeaveRequestDocument extends LeaveRequest, Document {}
+
+const leaveRequestSchema = new Schema(
+  {
+    staffId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Staff member is required'],
+    },
+    leaveType: {
+      type: String,
+      enum: Object.values(LeaveType),
+      required: [true, 'Leave type is required'],
+    },
+    startDate: {
+      type: Date,
+      required: [true, 'Start date is required'],
+    },
+    endDate: {
+      type: Date,
+      required: [true, 'End date is required'],
+      validate: {
+        validator: function (this: { startDate: Date }, value: Date) {
+          return value >= this.startDate;
+        },
+        message: 'Leave cannot end before it starts',
+      },
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Reason cannot exceed 500 characters'],
+    },
+    status: {
+      type: String,
+      enum: Object.values(LeaveStatus),
+      default: LeaveStatus.PENDING,
+    },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    reviewedAt: {
+      type: Date,
+    },
+    reviewNotes: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Review notes cannot exceed 500 characters'],
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+leaveRequestSchema.index({ staffId: 1, startDate: 1 });
+leaveRequestSchema.index({ status: 1, startDate: 1 });
+
+export const LeaveRequestModel = mongoose.model<LeaveRequestDocument>(
+  'LeaveRequest',
+  leaveRequestSchema
+);
@@ -0,0 +1,95 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import {
+  MaintenanceCategory,
+  MaintenancePlan,
+  Priority,
+} from '../types/models';
+
+export interface MaintenancePlanDocument extends MaintenancePlan, Document {}
+
+const maintenancePlanSchema = new Schema(
+  {
+    title: {
+      type: String,
+      required: [true, 'Plan title is required'],
+      trim: true,
+      maxlength: [200, 'Title cannot exceed 200 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [2000, 'Description cannot exceed 2000 characters'],
+    },
+    category: {
+      type: String,
+      enum: Object.values(MaintenanceCategory),
+      required: [true, 'Category is required'],
+    },
+    roomId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Room',
+    },
+    assetId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Asset',
+    },
+    equipment: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Equipment cannot exceed 200 characters'],
+    },
+    intervalDays: {
+      type: Number,
+      required: [true, 'Interval is required'],
+      min: [1, 'Interval must be at least 1 day'],
+      max: [3650, 'Interval cannot exceed 3650 days'],
+    },
+    leadDays: {
+      type: Number,
+      default: 7,
+      min: [0, 'Lead time cannot be negative'],
+      max: [365, 'Lead time cannot exceed 365 days'],
+    },
+    checklist: [
+      {
+        type: String,
+        trim: true,
+        maxlength: [200, 'Checklist items cannot exceed 200 characters'],
+      },
+    ],
+    estimatedCost: {
+      type: Number,
+      min: [0, 'Estimated cost cannot be negative'],
+    },
+    priority: {
+      type: String,
+      enum: Object.values(Priority),
+      default: Priority.MEDIUM,
+    },
+    nextDueDate: {
+      type: Date,
+      required: [true, 'Next due date is required'],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+maintenancePlanSchema.index({ isActive: 1, nextDueDate: 1 });
+maintenancePlanSchema.index({ roomId: 1 });
+maintenancePlanSchema.index({ assetId: 1 });
+
+export const MaintenancePlanModel = mongoose.model<MaintenancePlanDocument>(
+  'MaintenancePlan',
+  maintenancePlanSchema
+);
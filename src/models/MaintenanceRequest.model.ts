@@ -69,11 +69,41 @@ const maintenanceRequestSchema = new Schema(
       type: Number,
       min: [0, 'Cost cannot be negative'],
     },
+    estimatedCost: {
+      type: Number,
+      min: [0, 'Estimated cost cannot be negative'],
+    },
     notes: {
       type: String,
       trim: true,
       maxlength: [1000, 'Notes cannot exceed 1000 characters'],
     },
+    assetId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Asset',
+    },
+    preventivePlanId: {
+      type: Schema.Types.ObjectId,
+      ref: 'MaintenancePlan',
+    },
+    dueDate: {
+      type: Date,
+    },
+    checklist: [
+      {
+        _id: false,
+        item: {
+          type: String,
+          required: true,
+          trim: true,
+          maxlength: [200, 'Checklist items cannot exceed 200 characters'],
+        },
+        done: {
+          type: Boolean,
+          default: false,
+        },
+      },
+    ],
   },
   {
     timestamps: true,
@@ -83,6 +113,7 @@ const maintenanceRequestSchema = new Schema(
 
 // Indexes for better query performance
 maintenanceRequestSchema.index({ roomId: 1 });
+maintenanceRequestSchema.index({ assetId: 1, createdAt: 1 });
 maintenanceRequestSchema.index({ reportedBy: 1 });
 maintenanceRequestSchema.index({ category: 1 });
 maintenanceRequestSchema.index({ priority: 1 });
@@ -96,6 +127,15 @@ maintenanceRequestSchema.index({ assignedTechnicianId: 1, status: 1 });
 maintenanceRequestSchema.index({ category: 1, status: 1 });
 maintenanceRequestSchema.index({ priority: 1, createdAt: 1 });
 
+// A plan raises one work order per due date
+maintenanceRequestSchema.index(
+  { preventivePlanId: 1, dueDate: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { preventivePlanId: { $exists: true } },
+  }
+);
+
 // Virtual for request age
 maintenanceRequestSchema.virtual('age').get(function () {
   const diffTime = Math.abs(
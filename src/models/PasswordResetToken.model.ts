@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { PasswordResetToken } from '../types/models';
+
+export interface PasswordResetTokenDocument
+  extends PasswordResetToken,
+    Document {}
+
+const passwordResetTokenSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+    },
+    requestedByIp: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Indexes for better query performance
+passwordResetTokenSchema.index({ userId: 1, usedAt: 1 });
+
+// Expired reset tokens are removed by MongoDB
+passwordResetTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const PasswordResetTokenModel =
+  mongoose.model<PasswordResetTokenDocument>(
+    'PasswordResetToken',
+    passwordResetTokenSchema
+  );
@@ -0,0 +1,177 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import {
+  RatePlan,
+  RatePlanType,
+  RateAdjustmentType,
+  RoomType,
+} from '../types/models';
+
+export interface RatePlanDocument extends RatePlan, Document {}
+
+const rateAdjustmentSchema = new Schema(
+  {
+    type: {
+      type: String,
+      enum: Object.values(RateAdjustmentType),
+      required: true,
+    },
+    value: {
+      type: Number,
+      required: true,
+    },
+  },
+  {
+    _id: false,
+    versionKey: false,
+  }
+);
+
+const seasonSchema = new Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    startDate: {
+      type: Date,
+      required: true,
+    },
+    endDate: {
+      type: Date,
+      required: true,
+      validate: {
+        validator: function (this: { startDate: Date }, value: Date) {
+          return value >= this.startDate;
+        },
+        message: 'Season end date cannot be before its start date',
+      },
+    },
+    rate: {
+      type: Number,
+      min: [0, 'Season rate cannot be negative'],
+    },
+    adjustment: rateAdjustmentSchema,
+    minLengthOfStay: {
+      type: Number,
+      min: [1, 'Minimum length of stay must be at least 1 night'],
+    },
+    closedToArrival: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    _id: false,
+    versionKey: false,
+  }
+);
+
+const dayOfWeekModifierSchema = new Schema(
+  {
+    dayOfWeek: {
+      type: Number,
+      required: true,
+      min: [0, 'Day of week must be between 0 (Sunday) and 6 (Saturday)'],
+      max: [6, 'Day of week must be between 0 (Sunday) and 6 (Saturday)'],
+    },
+    adjustment: {
+      type: rateAdjustmentSchema,
+      required: true,
+    },
+  },
+  {
+    _id: false,
+    versionKey: false,
+  }
+);
+
+const ratePlanSchema = new Schema(
+  {
+    code: {
+      type: String,
+      required: true,
+      trim: true,
+      uppercase: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: [100, 'Rate plan name cannot exceed 100 characters'],
+    },
+    type: {
+      type: String,
+      enum: Object.values(RatePlanType),
+      required: true,
+    },
+    roomType: {
+      type: String,
+      enum: Object.values(RoomType),
+      required: true,
+    },
+    baseRate: {
+      type: Number,
+      min: [0, 'Base rate cannot be negative'],
+    },
+    seasons: [seasonSchema],
+    dayOfWeekModifiers: [dayOfWeekModifierSchema],
+    minLengthOfStay: {
+      type: Number,
+      default: 1,
+      min: [1, 'Minimum length of stay must be at least 1 night'],
+    },
+    closedToArrivalDates: [
+      {
+        type: Date,
+      },
+    ],
+    isRefundable: {
+      type: Boolean,
+      default: true,
+    },
+    corporateAccount: {
+      type: String,
+      trim: true,
+    },
+    packageInclusions: [
+      {
+        type: String,
+        trim: true,
+      },
+    ],
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Description cannot exceed 500 characters'],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// A plan code is priced separately for each room type
+ratePlanSchema.index({ code: 1, roomType: 1 }, { unique: true });
+
+// Indexes for better query performance
+ratePlanSchema.index({ type: 1 });
+ratePlanSchema.index({ roomType: 1, isActive: 1 });
+
+// Non-refundable plans can never be refundable
+ratePlanSchema.pre('save', function (next) {
+  if (this.type === RatePlanType.NON_REFUNDABLE) {
+    this.isRefundable = false;
+  }
+  next();
+});
+
+export const RatePlanModel = mongoose.model<RatePlanDocument>(
+  'RatePlan',
+  ratePlanSchema
+);
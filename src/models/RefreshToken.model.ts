@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { RefreshToken } from '../types/models';
+
+export interface RefreshTokenDocument extends RefreshToken, Document {}
+
+const refreshTokenSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    // Every rotation of one login shares a family, so reuse revokes the session
+    familyId: {
+      type: String,
+      required: true,
+    },
+    tokenVersion: {
+      type: Number,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    replacedByHash: {
+      type: String,
+    },
+    createdByIp: {
+      type: String,
+      trim: true,
+    },
+    userAgent: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'User agent cannot exceed 500 characters'],
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Indexes for better query performance
+refreshTokenSchema.index({ userId: 1, revokedAt: 1 });
+refreshTokenSchema.index({ familyId: 1 });
+
+// Expired refresh tokens are removed by MongoDB
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RefreshTokenModel = mongoose.model<RefreshTokenDocument>(
+  'RefreshToken',
+  refreshTokenSchema
+);
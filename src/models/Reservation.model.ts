@@ -3,10 +3,33 @@ import {
   Reservation,
   ReservationStatus,
   ReservationSource,
+  PaymentMethod,
 } from '../types/models';
 
 export interface ReservationDocument extends Reservation, Document {}
 
+const nightlyRateSchema = new Schema(
+  {
+    date: {
+      type: Date,
+      required: true,
+    },
+    rate: {
+      type: Number,
+      required: true,
+      min: [0, 'Nightly rate cannot be negative'],
+    },
+    season: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    _id: false,
+    versionKey: false,
+  }
+);
+
 const reservationSchema = new Schema(
   {
     guestId: {
@@ -66,6 +89,15 @@ const reservationSchema = new Schema(
         message: 'Deposit amount cannot exceed total amount',
       },
     },
+    depositPaymentMethod: {
+      type: String,
+      enum: Object.values(PaymentMethod),
+    },
+    depositReference: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Deposit reference cannot exceed 100 characters'],
+    },
     specialRequests: {
       type: String,
       trim: true,
@@ -80,6 +112,15 @@ const reservationSchema = new Schema(
       type: Schema.Types.ObjectId,
       ref: 'Room',
     },
+    groupBookingId: {
+      type: Schema.Types.ObjectId,
+      ref: 'GroupBooking',
+    },
+    ratePlanId: {
+      type: Schema.Types.ObjectId,
+      ref: 'RatePlan',
+    },
+    nightlyRates: [nightlyRateSchema],
   },
   {
     timestamps: true,
@@ -93,6 +134,7 @@ reservationSchema.index({ roomId: 1 });
 reservationSchema.index({ status: 1 });
 reservationSchema.index({ checkInDate: 1 });
 reservationSchema.index({ checkOutDate: 1 });
+reservationSchema.index({ groupBookingId: 1 });
 reservationSchema.index({ createdAt: -1 });
 
 // Compound indexes for common queries
@@ -0,0 +1,33 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { RolePermission, UserRole } from '../types/models';
+import { PERMISSION_NAMES } from '../config/permissions.config';
+
+export interface RolePermissionDocument extends RolePermission, Document {}
+
+const rolePermissionSchema = new Schema(
+  {
+    role: {
+      type: String,
+      enum: Object.values(UserRole),
+      required: true,
+      unique: true,
+    },
+    permissions: {
+      type: [{ type: String, enum: PERMISSION_NAMES }],
+      default: [],
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+export const RolePermissionModel = mongoose.model<RolePermissionDocument>(
+  'RolePermission',
+  rolePermissionSchema
+);
@@ -56,6 +56,11 @@ const roomSchema = new Schema<RoomDocument>(
         type: String,
       },
     ],
+    deepCleanIntervalDays: {
+      type: Number,
+      min: [1, 'Deep clean interval must be at least 1 day'],
+      max: [365, 'Deep clean interval cannot exceed 365 days'],
+    },
     isActive: {
       type: Boolean,
       default: true,
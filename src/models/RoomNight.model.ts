@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { RoomNight, RoomNightStatus } from '../types/models';
+
+export interface RoomNightDocument extends RoomNight, Document {}
+
+const roomNightSchema = new Schema(
+  {
+    roomId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Room',
+      required: true,
+    },
+    date: {
+      type: Date,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(RoomNightStatus),
+      required: true,
+    },
+    reservationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Reservation',
+    },
+    groupBookingId: {
+      type: Schema.Types.ObjectId,
+      ref: 'GroupBooking',
+    },
+    holdId: {
+      type: String,
+      trim: true,
+    },
+    heldBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    expiresAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// One document per room per night: the unique index is what makes
+// concurrent bookings of the same night fail instead of double-booking
+roomNightSchema.index({ roomId: 1, date: 1 }, { unique: true });
+
+// Indexes for better query performance
+roomNightSchema.index({ reservationId: 1 });
+roomNightSchema.index({ groupBookingId: 1, status: 1 });
+roomNightSchema.index({ holdId: 1 });
+
+// Expired holds are removed by MongoDB; the engine also ignores them until then
+roomNightSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RoomNightModel = mongoose.model<RoomNightDocument>(
+  'RoomNight',
+  roomNightSchema
+);
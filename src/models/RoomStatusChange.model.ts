@@ -0,0 +1,57 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import {
+  RoomStatus,
+  RoomStatusChange,
+  RoomStatusTrigger,
+} from '../types/models';
+
+export interface RoomStatusChangeDocument extends RoomStatusChange, Document {}
+
+const roomStatusChangeSchema = new Schema<RoomStatusChangeDocument>(
+  {
+    roomId: {
+      type: String,
+      ref: 'Room',
+      required: true,
+    },
+    fromStatus: {
+      type: String,
+      enum: Object.values(RoomStatus),
+      required: true,
+    },
+    toStatus: {
+      type: String,
+      enum: Object.values(RoomStatus),
+      required: true,
+    },
+    trigger: {
+      type: String,
+      enum: Object.values(RoomStatusTrigger),
+      required: true,
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Reason cannot exceed 500 characters'],
+    },
+    sourceId: {
+      type: String,
+    },
+    changedBy: {
+      type: String,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Newest changes of a room first
+roomStatusChangeSchema.index({ roomId: 1, createdAt: -1 });
+
+export const RoomStatusChangeModel = mongoose.model<RoomStatusChangeDocument>(
+  'RoomStatusChange',
+  roomStatusChangeSchema
+);
@@ -0,0 +1,54 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ShiftTemplate, UserRole } from '../types/models';
+
+export interface ShiftTemplateDocument extends ShiftTemplate, Document {}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const shiftTemplateSchema = new Schema<ShiftTemplateDocument>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Shift name is required'],
+      trim: true,
+      maxlength: [100, 'Shift name cannot exceed 100 characters'],
+    },
+    code: {
+      type: String,
+      required: [true, 'Shift code is required'],
+      unique: true,
+      uppercase: true,
+      trim: true,
+      maxlength: [20, 'Shift code cannot exceed 20 characters'],
+    },
+    startTime: {
+      type: String,
+      required: [true, 'Start time is required'],
+      match: [TIME_PATTERN, 'Start time must be in HH:mm format'],
+    },
+    endTime: {
+      type: String,
+      required: [true, 'End time is required'],
+      match: [TIME_PATTERN, 'End time must be in HH:mm format'],
+    },
+    roles: [
+      {
+        type: String,
+        enum: Object.values(UserRole).filter(role => role !== UserRole.GUEST),
+      },
+    ],
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+export const ShiftTemplateModel = mongoose.model<ShiftTemplateDocument>(
+  'ShiftTemplate',
+  shiftTemplateSchema
+);
@@ -0,0 +1,59 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { StaffShift, UserRole } from '../types/models';
+
+export interface StaffShiftDocument extends StaffShift, Document {}
+
+const staffShiftSchema = new Schema(
+  {
+    staffId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Staff member is required'],
+    },
+    role: {
+      type: String,
+      enum: Object.values(UserRole),
+      required: true,
+    },
+    shiftTemplateId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ShiftTemplate',
+      required: [true, 'Shift template is required'],
+    },
+    date: {
+      type: Date,
+      required: [true, 'Shift date is required'],
+    },
+    startsAt: {
+      type: Date,
+      required: true,
+    },
+    endsAt: {
+      type: Date,
+      required: true,
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Notes cannot exceed 500 characters'],
+    },
+    scheduledBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Rosters are read a week at a time, and duty by the time a shift covers
+staffShiftSchema.index({ date: 1, role: 1 });
+staffShiftSchema.index({ staffId: 1, startsAt: 1 });
+staffShiftSchema.index({ startsAt: 1, endsAt: 1 });
+
+export const StaffShiftModel = mongoose.model<StaffShiftDocument>(
+  'StaffShift',
+  staffShiftSchema
+);
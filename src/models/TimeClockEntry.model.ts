@@ -0,0 +1,37 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { TimeClockEntry } from '../types/models';
+
+export interface TimeClockEntryDocument extends TimeClockEntry, Document {}
+
+const timeClockEntrySchema = new Schema(
+  {
+    staffId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    shiftId: {
+      type: Schema.Types.ObjectId,
+      ref: 'StaffShift',
+    },
+    clockInAt: {
+      type: Date,
+      required: true,
+    },
+    clockOutAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+timeClockEntrySchema.index({ staffId: 1, clockInAt: -1 });
+timeClockEntrySchema.index({ clockInAt: 1, clockOutAt: 1 });
+
+export const TimeClockEntryModel = mongoose.model<TimeClockEntryDocument>(
+  'TimeClockEntry',
+  timeClockEntrySchema
+);
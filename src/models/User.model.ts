@@ -1,5 +1,6 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { User, UserRole } from '../types/models';
+import { PERMISSION_NAMES } from '../config/permissions.config';
 
 export interface UserDocument extends User, Document {}
 
@@ -55,6 +56,25 @@ const userSchema = new Schema<UserDocument>(
     profileImage: {
       type: String,
     },
+    // Bumped to invalidate every access and refresh token issued before it
+    tokenVersion: {
+      type: Number,
+      default: 0,
+    },
+    // Per-user exceptions to the role's permission set
+    permissionGrants: {
+      type: [{ type: String, enum: PERMISSION_NAMES }],
+      default: [],
+    },
+    permissionDenials: {
+      type: [{ type: String, enum: PERMISSION_NAMES }],
+      default: [],
+    },
+    // Codes of the taxes this guest is exempt from, e.g. corporate accounts
+    taxExemptions: {
+      type: [{ type: String, trim: true, uppercase: true }],
+      default: [],
+    },
   },
   {
     timestamps: true,
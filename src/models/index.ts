@@ -1,6 +1,12 @@
 // User Management Models
 export { UserModel } from './User.model';
 export type { UserDocument } from './User.model';
+export { RefreshTokenModel } from './RefreshToken.model';
+export type { RefreshTokenDocument } from './RefreshToken.model';
+export { PasswordResetTokenModel } from './PasswordResetToken.model';
+export type { PasswordResetTokenDocument } from './PasswordResetToken.model';
+export { RolePermissionModel } from './RolePermission.model';
+export type { RolePermissionDocument } from './RolePermission.model';
 
 // Room Management Models
 export { RoomModel } from './Room.model';
@@ -13,16 +19,28 @@ export { CheckInModel } from './CheckIn.model';
 export type { CheckInDocument } from './CheckIn.model';
 export { CheckOutModel } from './CheckOut.model';
 export type { CheckOutDocument } from './CheckOut.model';
+export { RoomNightModel } from './RoomNight.model';
+export type { RoomNightDocument } from './RoomNight.model';
+export { GroupBookingModel } from './GroupBooking.model';
+export type { GroupBookingDocument } from './GroupBooking.model';
+export { RatePlanModel } from './RatePlan.model';
+export type { RatePlanDocument } from './RatePlan.model';
 
 // Billing and Invoicing Models
 export { BillModel } from './Bill.model';
 export type { BillDocument } from './Bill.model';
+export { CreditNoteModel } from './CreditNote.model';
+export type { CreditNoteDocument } from './CreditNote.model';
 
 // Housekeeping and Maintenance Models
 export { HousekeepingTaskModel } from './HousekeepingTask.model';
 export type { HousekeepingTaskDocument } from './HousekeepingTask.model';
 export { MaintenanceRequestModel } from './MaintenanceRequest.model';
 export type { MaintenanceRequestDocument } from './MaintenanceRequest.model';
+export { MaintenancePlanModel } from './MaintenancePlan.model';
+export type { MaintenancePlanDocument } from './MaintenancePlan.model';
+export { AssetModel } from './Asset.model';
+export type { AssetDocument } from './Asset.model';
 
 // Feedback and Guest Services Models
 export { FeedbackModel } from './Feedback.model';
@@ -33,9 +51,25 @@ export type { ServiceRequestDocument } from './ServiceRequest.model';
 // System Administration Models
 export { SystemSettingsModel } from './SystemSettings.model';
 export type { SystemSettingsDocument } from './SystemSettings.model';
+export { CounterModel } from './Counter.model';
+export type { CounterDocument } from './Counter.model';
 export { NotificationModel } from './Notification.model';
 export type { NotificationDocument } from './Notification.model';
 
 // Reporting and Analytics Models
 export { ReportModel } from './Report.model';
 export type { ReportDocument } from './Report.model';
+export { ImportLogModel } from './ImportLog.model';
+export type { ImportLogDocument } from './ImportLog.model';
+export { RoomStatusChangeModel } from './RoomStatusChange.model';
+export type { RoomStatusChangeDocument } from './RoomStatusChange.model';
+
+// Staff Scheduling Models
+export { ShiftTemplateModel } from './ShiftTemplate.model';
+export type { ShiftTemplateDocument } from './ShiftTemplate.model';
+export { StaffShiftModel } from './StaffShift.model';
+export type { StaffShiftDocument } from './StaffShift.model';
+export { LeaveRequestModel } from './LeaveRequest.model';
+export type { LeaveRequestDocument } from './LeaveRequest.model';
+export { TimeClockEntryModel } from './TimeClockEntry.model';
+export type { TimeClockEntryDocument } from './TimeClockEntry.model';
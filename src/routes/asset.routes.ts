@@ -0,0 +1,74 @@
+import { Router } from 'express';
+import { AssetController } from '../controllers/asset.controller';
+import { validate } from '../middleware/validation.middleware';
+import { assetValidationSchemas } from '../validations/asset.validation';
+
+const router: Router = Router();
+
+/**
+ * @route GET /api/assets
+ * @desc Get the asset register with pagination
+ * @access Private
+ */
+router.get(
+  '/',
+  validate({ query: assetValidationSchemas.assetFilter }),
+  (req, res) => {
+    void AssetController.getAll(req, res);
+  }
+);
+
+/**
+ * @route POST /api/assets
+ * @desc Register an asset
+ * @access Private
+ */
+router.post(
+  '/',
+  validate({ body: assetValidationSchemas.asset }),
+  (req, res) => {
+    void AssetController.create(req, res);
+  }
+);
+
+/**
+ * @route GET /api/assets/:id
+ * @desc Get an asset by ID
+ * @access Private
+ */
+router.get('/:id', (req, res) => {
+  void AssetController.getById(req, res);
+});
+
+/**
+ * @route GET /api/assets/:id/history
+ * @desc Get an asset's repair history, total cost and mean time between failures
+ * @access Private
+ */
+router.get('/:id/history', (req, res) => {
+  void AssetController.getHistory(req, res);
+});
+
+/**
+ * @route PUT /api/assets/:id
+ * @desc Update an asset
+ * @access Private
+ */
+router.put(
+  '/:id',
+  validate({ body: assetValidationSchemas.assetUpdate }),
+  (req, res) => {
+    void AssetController.update(req, res);
+  }
+);
+
+/**
+ * @route DELETE /api/assets/:id
+ * @desc Retire an asset
+ * @access Private
+ */
+router.delete('/:id', (req, res) => {
+  void AssetController.delete(req, res);
+});
+
+export { router as assetRoutes };
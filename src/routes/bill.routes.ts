@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { BillController } from '../controllers';
 import { validate } from '../middleware';
 import { billValidationSchemas } from '../validations/bill.validation';
+import { taxValidationSchemas } from '../validations/tax.validation';
+import { commonValidationSchemas } from '../validations/common.validation';
 
 const router: Router = Router();
 const billController: BillController = new BillController();
@@ -9,7 +11,7 @@ const billController: BillController = new BillController();
 /**
  * @route   GET /api/v1/bills
  * @desc    Get all bills with pagination, search, and filtering
- * @access  Public (can be changed to protected later)
+ * @access  Private (bill.read)
  * @query   page, limit, search, sortBy, sortOrder, status, paymentMethod, isOverdue, dateFrom, dateTo
  */
 router.get('/', validate(billValidationSchemas.billFilter), (req, res) => {
@@ -19,16 +21,76 @@ router.get('/', validate(billValidationSchemas.billFilter), (req, res) => {
 /**
  * @route   GET /api/v1/bills/overdue
  * @desc    Get all overdue bills
- * @access  Public (can be changed to protected later)
+ * @access  Private (bill.read)
  */
 router.get('/overdue', (req, res) => {
   void billController.getOverdueBills(req, res);
 });
 
+/**
+ * @route   POST /api/v1/bills/export
+ * @desc    Export bills as JSON, an XLSX workbook or a PDF
+ * @access  Private (bill.read)
+ * @body    format, filters, fields, includeInactive
+ */
+router.post(
+  '/export',
+  validate({ body: commonValidationSchemas.export }),
+  (req, res) => {
+    void billController.exportBills(req, res);
+  }
+);
+
+/**
+ * @route   GET /api/v1/bills/tax-rules
+ * @desc    Get the tax rules applied to folio charges
+ * @access  Private (bill.read)
+ */
+router.get('/tax-rules', (req, res) => {
+  void billController.getTaxRules(req, res);
+});
+
+/**
+ * @route   PUT /api/v1/bills/tax-rules
+ * @desc    Replace the tax rules; charges already posted keep their taxes
+ * @access  Private (tax.manage)
+ * @body    rules
+ */
+router.put(
+  '/tax-rules',
+  validate({ body: taxValidationSchemas.taxRules }),
+  (req, res) => {
+    void billController.updateTaxRules(req, res);
+  }
+);
+
+/**
+ * @route   POST /api/v1/bills/folio
+ * @desc    Open the folio of a check-in and post the nights so far
+ * @access  Private (bill.manage)
+ * @body    checkInId
+ */
+router.post(
+  '/folio',
+  validate({ body: billValidationSchemas.openFolio }),
+  (req, res) => {
+    void billController.openFolio(req, res);
+  }
+);
+
+/**
+ * @route   POST /api/v1/bills/night-audit
+ * @desc    Post outstanding room nights and service charges of all stays
+ * @access  Private (bill.manage)
+ */
+router.post('/night-audit', (req, res) => {
+  void billController.runNightAudit(req, res);
+});
+
 /**
  * @route   GET /api/v1/bills/guest/:guestId
  * @desc    Get all bills for a specific guest
- * @access  Public (can be changed to protected later)
+ * @access  Private (bill.read)
  * @param   guestId - MongoDB ObjectId of the guest
  */
 router.get('/guest/:guestId', (req, res) => {
@@ -38,7 +100,7 @@ router.get('/guest/:guestId', (req, res) => {
 /**
  * @route   GET /api/v1/bills/reservation/:reservationId
  * @desc    Get all bills for a specific reservation
- * @access  Public (can be changed to protected later)
+ * @access  Private (bill.read)
  * @param   reservationId - MongoDB ObjectId of the reservation
  */
 router.get('/reservation/:reservationId', (req, res) => {
@@ -48,7 +110,7 @@ router.get('/reservation/:reservationId', (req, res) => {
 /**
  * @route   GET /api/v1/bills/:id
  * @desc    Get a single bill by ID
- * @access  Public (can be changed to protected later)
+ * @access  Private (bill.read)
  * @param   id - MongoDB ObjectId
  */
 router.get('/:id', (req, res) => {
@@ -57,8 +119,8 @@ router.get('/:id', (req, res) => {
 
 /**
  * @route   POST /api/v1/bills
- * @desc    Create a new bill
- * @access  Public (can be changed to protected later)
+ * @desc    Create a bill by hand; the total is computed on the server
+ * @access  Private (bill.manage)
  * @body    reservationId, guestId, roomId, baseAmount, taxAmount, serviceCharges, additionalServices, dueDate
  */
 router.post('/', validate(billValidationSchemas.bill), (req, res) => {
@@ -67,38 +129,148 @@ router.post('/', validate(billValidationSchemas.bill), (req, res) => {
 
 /**
  * @route   POST /api/v1/bills/:id/payment
- * @desc    Process payment for a bill
- * @access  Public (can be changed to protected later)
+ * @desc    Record a payment against a bill
+ * @access  Private (bill.payment)
  * @param   id - MongoDB ObjectId
- * @body    paymentMethod
+ * @body    amount, paymentMethod, reference, notes
  */
 router.post(
   '/:id/payment',
-  validate(billValidationSchemas.billPayment),
+  validate({ body: billValidationSchemas.billPayment }),
   (req, res) => {
     void billController.processPayment(req, res);
   }
 );
 
+/**
+ * @route   GET /api/v1/bills/:id/payments
+ * @desc    Get the payment ledger of a bill, including voided payments
+ * @access  Private (bill.read)
+ * @param   id - MongoDB ObjectId
+ */
+router.get('/:id/payments', (req, res) => {
+  void billController.getPayments(req, res);
+});
+
+/**
+ * @route   POST /api/v1/bills/:id/payments/:paymentId/void
+ * @desc    Void a payment; it stays in the ledger with the reason
+ * @access  Private (bill.payment.void)
+ * @param   id - MongoDB ObjectId, paymentId - ledger entry ObjectId
+ * @body    reason
+ */
+router.post(
+  '/:id/payments/:paymentId/void',
+  validate({ body: billValidationSchemas.voidPayment }),
+  (req, res) => {
+    void billController.voidPayment(req, res);
+  }
+);
+
+/**
+ * @route   POST /api/v1/bills/:id/deposit
+ * @desc    Record a deposit taken for the bill's reservation
+ * @access  Private (bill.payment)
+ * @param   id - MongoDB ObjectId
+ * @body    amount, paymentMethod, reference, notes
+ */
+router.post(
+  '/:id/deposit',
+  validate({ body: billValidationSchemas.billPayment }),
+  (req, res) => {
+    void billController.recordDeposit(req, res);
+  }
+);
+
 /**
  * @route   POST /api/v1/bills/:id/refund
- * @desc    Process refund for a bill
- * @access  Public (can be changed to protected later)
+ * @desc    Refund part or all of a payment and issue a credit note
+ * @access  Private (bill.refund)
  * @param   id - MongoDB ObjectId
- * @body    refundAmount, refundReason
+ * @body    paymentId, amount, reason, refundMethod, notes
  */
 router.post(
   '/:id/refund',
-  validate(billValidationSchemas.billRefund),
+  validate({ body: billValidationSchemas.billRefund }),
   (req, res) => {
     void billController.processRefund(req, res);
   }
 );
 
+/**
+ * @route   GET /api/v1/bills/:id/credit-notes
+ * @desc    Get the credit notes issued against a bill
+ * @access  Private (bill.read)
+ * @param   id - MongoDB ObjectId
+ */
+router.get('/:id/credit-notes', (req, res) => {
+  void billController.getCreditNotes(req, res);
+});
+
+/**
+ * @route   GET /api/v1/bills/:id/invoice.pdf
+ * @desc    Download the invoice of a bill as a PDF
+ * @access  Private (bill.read)
+ * @param   id - MongoDB ObjectId of the bill
+ */
+router.get('/:id/invoice.pdf', (req, res) => {
+  void billController.downloadInvoice(req, res);
+});
+
+/**
+ * @route   GET /api/v1/bills/:id/charges
+ * @desc    Get the folio lines of a bill
+ * @access  Private (bill.read)
+ * @param   id - MongoDB ObjectId
+ */
+router.get('/:id/charges', (req, res) => {
+  void billController.getCharges(req, res);
+});
+
+/**
+ * @route   POST /api/v1/bills/:id/room-charges
+ * @desc    Post the room charges of the nights of the stay so far
+ * @access  Private (bill.manage)
+ * @param   id - MongoDB ObjectId
+ */
+router.post('/:id/room-charges', (req, res) => {
+  void billController.postRoomCharges(req, res);
+});
+
+/**
+ * @route   POST /api/v1/bills/:id/minibar
+ * @desc    Post minibar consumption to a bill
+ * @access  Private (bill.manage)
+ * @param   id - MongoDB ObjectId
+ * @body    items[] - itemName, quantity, unitPrice
+ */
+router.post(
+  '/:id/minibar',
+  validate({ body: billValidationSchemas.minibar }),
+  (req, res) => {
+    void billController.postMinibar(req, res);
+  }
+);
+
+/**
+ * @route   POST /api/v1/bills/:id/adjustments
+ * @desc    Post a charge adjustment; negative amounts reduce the bill
+ * @access  Private (bill.adjust)
+ * @param   id - MongoDB ObjectId
+ * @body    amount, description, reason
+ */
+router.post(
+  '/:id/adjustments',
+  validate({ body: billValidationSchemas.adjustment }),
+  (req, res) => {
+    void billController.postAdjustment(req, res);
+  }
+);
+
 /**
  * @route   PUT /api/v1/bills/:id
  * @desc    Update a bill by ID
- * @access  Public (can be changed to protected later)
+ * @access  Private (bill.manage)
  * @param   id - MongoDB ObjectId
  * @body    Any bill fields to update
  */
@@ -109,7 +281,7 @@ router.put('/:id', validate(billValidationSchemas.billUpdate), (req, res) => {
 /**
  * @route   DELETE /api/v1/bills/:id
  * @desc    Delete a bill by ID
- * @access  Public (can be changed to protected later)
+ * @access  Private (bill.delete)
  * @param   id - MongoDB ObjectId
  */
 router.delete('/:id', (req, res) => {
@@ -9,7 +9,7 @@ const checkInController: CheckInController = new CheckInController();
 /**
  * @route   GET /api/v1/checkins
  * @desc    Get all check-in records with pagination, search, and filtering
- * @access  Public (can be changed to protected later)
+ * @access  Private (checkin.read)
  * @query   page, limit, search, sortBy, sortOrder, status, roomId, guestId, dateFrom, dateTo
  */
 router.get(
@@ -23,7 +23,7 @@ router.get(
 /**
  * @route   GET /api/v1/checkins/stats
  * @desc    Get check-in statistics
- * @access  Public (can be changed to protected later)
+ * @access  Private (checkin.read)
  */
 router.get('/stats', (req, res) => {
   void checkInController.getCheckInStats(req, res);
@@ -32,7 +32,7 @@ router.get('/stats', (req, res) => {
 /**
  * @route   GET /api/v1/checkins/active
  * @desc    Get active check-ins (checked in but not checked out)
- * @access  Public (can be changed to protected later)
+ * @access  Private (checkin.read)
  */
 router.get('/active', (req, res) => {
   void checkInController.getActiveCheckIns(req, res);
@@ -41,7 +41,7 @@ router.get('/active', (req, res) => {
 /**
  * @route   GET /api/v1/checkins/:id
  * @desc    Get a single check-in record by ID
- * @access  Public (can be changed to protected later)
+ * @access  Private (checkin.read)
  * @param   id - MongoDB ObjectId
  */
 router.get(
@@ -55,7 +55,7 @@ router.get(
 /**
  * @route   POST /api/v1/checkins
  * @desc    Create a new check-in record
- * @access  Public (can be changed to protected later)
+ * @access  Private (checkin.manage)
  * @body    reservationId, roomId, guestId, assignedRoomNumber, specialInstructions
  */
 router.post('/', validate(checkInValidationSchemas.checkIn), (req, res) => {
@@ -65,7 +65,7 @@ router.post('/', validate(checkInValidationSchemas.checkIn), (req, res) => {
 /**
  * @route   POST /api/v1/checkins/:id/complete
  * @desc    Complete check-in process
- * @access  Public (can be changed to protected later)
+ * @access  Private (checkin.manage)
  * @param   id - MongoDB ObjectId
  * @body    checkInTime, keyIssued, welcomePackDelivered, specialInstructions
  */
@@ -77,10 +77,25 @@ router.post(
   }
 );
 
+/**
+ * @route   POST /api/v1/checkins/:id/move
+ * @desc    Move a stay in progress to another room
+ * @access  Private (checkin.manage)
+ * @param   id - MongoDB ObjectId
+ * @body    toRoomId, reason, charge?, maintenance?
+ */
+router.post(
+  '/:id/move',
+  validate({ body: checkInValidationSchemas.roomMove }),
+  (req, res) => {
+    void checkInController.moveRoom(req, res);
+  }
+);
+
 /**
  * @route   PUT /api/v1/checkins/:id
  * @desc    Update a check-in record by ID
- * @access  Public (can be changed to protected later)
+ * @access  Private (checkin.manage)
  * @param   id - MongoDB ObjectId
  * @body    assignedRoomNumber?, checkInTime?, keyIssued?, welcomePackDelivered?, specialInstructions?
  */
@@ -95,7 +110,7 @@ router.put(
 /**
  * @route   DELETE /api/v1/checkins/:id
  * @desc    Delete a check-in record by ID
- * @access  Public (can be changed to protected later)
+ * @access  Private (checkin.delete)
  * @param   id - MongoDB ObjectId
  */
 router.delete(
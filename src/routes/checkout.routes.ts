@@ -9,7 +9,7 @@ const checkOutController: CheckOutController = new CheckOutController();
 /**
  * @route   GET /api/v1/checkouts
  * @desc    Get all check-out records with pagination, search, and filtering
- * @access  Public (can be changed to protected later)
+ * @access  Private (checkout.read)
  * @query   page, limit, search, sortBy, sortOrder, status, paymentStatus, roomId, guestId, dateFrom, dateTo
  */
 router.get(
@@ -23,7 +23,7 @@ router.get(
 /**
  * @route   GET /api/v1/checkouts/stats
  * @desc    Get check-out statistics
- * @access  Public (can be changed to protected later)
+ * @access  Private (checkout.read)
  */
 router.get('/stats', (req, res) => {
   void checkOutController.getCheckOutStats(req, res);
@@ -32,7 +32,7 @@ router.get('/stats', (req, res) => {
 /**
  * @route   GET /api/v1/checkouts/pending
  * @desc    Get pending check-outs (due for check-out today)
- * @access  Public (can be changed to protected later)
+ * @access  Private (checkout.read)
  */
 router.get('/pending', (req, res) => {
   void checkOutController.getPendingCheckOuts(req, res);
@@ -41,7 +41,7 @@ router.get('/pending', (req, res) => {
 /**
  * @route   GET /api/v1/checkouts/:id
  * @desc    Get a single check-out record by ID
- * @access  Public (can be changed to protected later)
+ * @access  Private (checkout.read)
  * @param   id - MongoDB ObjectId
  */
 router.get(
@@ -55,7 +55,7 @@ router.get(
 /**
  * @route   POST /api/v1/checkouts
  * @desc    Create a new check-out record
- * @access  Public (can be changed to protected later)
+ * @access  Private (checkout.manage)
  * @body    checkInId, finalBillAmount, paymentStatus, feedback, rating
  */
 router.post('/', validate(checkOutValidationSchemas.checkOut), (req, res) => {
@@ -65,7 +65,7 @@ router.post('/', validate(checkOutValidationSchemas.checkOut), (req, res) => {
 /**
  * @route   POST /api/v1/checkouts/:id/complete
  * @desc    Complete check-out process
- * @access  Public (can be changed to protected later)
+ * @access  Private (checkout.manage)
  * @param   id - MongoDB ObjectId
  * @body    checkOutTime, finalBillAmount, paymentStatus, feedback, rating
  */
@@ -79,19 +79,23 @@ router.post(
 
 /**
  * @route   POST /api/v1/checkouts/:id/late-fee
- * @desc    Process late fee for check-out
- * @access  Public (can be changed to protected later)
+ * @desc    Post a late check-out fee to the stay's bill
+ * @access  Private (checkout.manage)
  * @param   id - MongoDB ObjectId
  * @body    lateFeeAmount, reason
  */
-router.post('/:id/late-fee', (req, res) => {
-  void checkOutController.processLateFee(req, res);
-});
+router.post(
+  '/:id/late-fee',
+  validate({ body: checkOutValidationSchemas.lateFee }),
+  (req, res) => {
+    void checkOutController.processLateFee(req, res);
+  }
+);
 
 /**
  * @route   PUT /api/v1/checkouts/:id
  * @desc    Update a check-out record by ID
- * @access  Public (can be changed to protected later)
+ * @access  Private (checkout.manage)
  * @param   id - MongoDB ObjectId
  * @body    checkOutTime?, finalBillAmount?, paymentStatus?, feedback?, rating?
  */
@@ -106,7 +110,7 @@ router.put(
 /**
  * @route   DELETE /api/v1/checkouts/:id
  * @desc    Delete a check-out record by ID
- * @access  Public (can be changed to protected later)
+ * @access  Private (checkout.delete)
  * @param   id - MongoDB ObjectId
  */
 router.delete(
@@ -0,0 +1,69 @@
+import { Router, type Router as ExpressRouter } from 'express';
+import { GroupBookingController } from '../controllers/groupbooking.controller';
+import { validate } from '../middleware';
+import { groupBookingValidationSchemas } from '../validations/groupBooking.validation';
+
+const router: ExpressRouter = Router();
+
+// GET /api/group-bookings - Get all group bookings with pagination and filters
+router.get(
+  '/',
+  validate({ query: groupBookingValidationSchemas.groupBookingFilter }),
+  (req, res) => {
+    void GroupBookingController.getAllGroupBookings(req, res);
+  }
+);
+
+// POST /api/group-bookings - Create group booking and block its rooms
+router.post(
+  '/',
+  validate({ body: groupBookingValidationSchemas.groupBooking }),
+  (req, res) => {
+    void GroupBookingController.createGroupBooking(req, res);
+  }
+);
+
+// POST /api/group-bookings/release-expired - Release blocks past their cutoff date
+router.post('/release-expired', (req, res) => {
+  void GroupBookingController.releaseExpiredBlocks(req, res);
+});
+
+// GET /api/group-bookings/:id - Get group booking with its reservations
+router.get('/:id', (req, res) => {
+  void GroupBookingController.getGroupBookingById(req, res);
+});
+
+// POST /api/group-bookings/:id/rooming-list - Create reservations from a rooming list
+router.post(
+  '/:id/rooming-list',
+  validate({ body: groupBookingValidationSchemas.roomingList }),
+  (req, res) => {
+    void GroupBookingController.addRoomingList(req, res);
+  }
+);
+
+// POST /api/group-bookings/:id/release - Release unused rooms in the block
+router.post('/:id/release', (req, res) => {
+  void GroupBookingController.releaseGroupBlock(req, res);
+});
+
+// PATCH /api/group-bookings/:id/cancel - Cancel group booking
+router.patch('/:id/cancel', (req, res) => {
+  void GroupBookingController.cancelGroupBooking(req, res);
+});
+
+// GET /api/group-bookings/:id/master-bill - Get the group master bill
+router.get('/:id/master-bill', (req, res) => {
+  void GroupBookingController.getMasterBill(req, res);
+});
+
+// POST /api/group-bookings/:id/master-bill/route - Route child bill charges to the master bill
+router.post(
+  '/:id/master-bill/route',
+  validate({ body: groupBookingValidationSchemas.masterBillRouting }),
+  (req, res) => {
+    void GroupBookingController.routeToMasterBill(req, res);
+  }
+);
+
+export { router as groupBookingRoutes };
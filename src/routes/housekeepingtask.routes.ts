@@ -1,7 +1,9 @@
 import { Router } from 'express';
 import { HousekeepingTaskController } from '../controllers/housekeepingtask.controller';
+import { BulkController } from '../controllers/bulk.controller';
 import { validate } from '../middleware';
 import { housekeepingValidationSchemas } from '../validations/housekeeping.validation';
+import { commonValidationSchemas } from '../validations/common.validation';
 
 const router: Router = Router();
 const housekeepingTaskController = new HousekeepingTaskController();
@@ -23,6 +25,14 @@ router.get('/overdue', (req, res) => {
   void housekeepingTaskController.getOverdueHousekeepingTasks(req, res);
 });
 
+router.get(
+  '/board',
+  validate({ query: housekeepingValidationSchemas.boardQuery }),
+  (req, res) => {
+    void housekeepingTaskController.getBoard(req, res);
+  }
+);
+
 router.get('/room/:roomId', (req, res) => {
   void housekeepingTaskController.getHousekeepingTasksByRoom(req, res);
 });
@@ -44,6 +54,28 @@ router.post(
   }
 );
 
+router.post(
+  '/bulk',
+  validate({ body: commonValidationSchemas.bulkOperation }),
+  BulkController.handler('housekeeping')
+);
+
+router.post(
+  '/generate',
+  validate({ body: housekeepingValidationSchemas.boardGeneration }),
+  (req, res) => {
+    void housekeepingTaskController.generateBoard(req, res);
+  }
+);
+
+router.post(
+  '/auto-assign',
+  validate({ body: housekeepingValidationSchemas.autoAssign }),
+  (req, res) => {
+    void housekeepingTaskController.autoAssignHousekeepingTasks(req, res);
+  }
+);
+
 router.post(
   '/:id/assign',
   validate(housekeepingValidationSchemas.taskAssignment),
@@ -1,31 +1,47 @@
 import { testRoutes } from './test.routes';
 import { roomRoutes } from './room.routes';
 import { userRoutes } from './user.routes';
+import { permissionRoutes } from './permission.routes';
+import { meRoutes } from './me.routes';
 import { reservationRoutes } from './reservation.routes';
+import { groupBookingRoutes } from './groupbooking.routes';
+import { ratePlanRoutes } from './rateplan.routes';
 import { billRoutes } from './bill.routes';
 import { checkInRoutes } from './checkin.routes';
 import { checkOutRoutes } from './checkout.routes';
 import { serviceRequestRoutes } from './servicerequest.routes';
 import { housekeepingTaskRoutes } from './housekeepingtask.routes';
 import { maintenanceRequestRoutes } from './maintenancerequest.routes';
+import { maintenancePlanRoutes } from './maintenanceplan.routes';
+import { assetRoutes } from './asset.routes';
 import { feedbackRoutes } from './feedback.routes';
 import notificationRoutes from './notification.routes';
 import { reportRoutes } from './report.routes';
 import { inventoryRoutes } from './inventory.routes';
+import { settingsRoutes } from './settings.routes';
+import { shiftRoutes } from './shift.routes';
 
 export {
   testRoutes,
   roomRoutes,
   userRoutes,
+  permissionRoutes,
+  meRoutes,
   reservationRoutes,
+  groupBookingRoutes,
+  ratePlanRoutes,
   billRoutes,
   checkInRoutes,
   checkOutRoutes,
   serviceRequestRoutes,
   housekeepingTaskRoutes,
   maintenanceRequestRoutes,
+  maintenancePlanRoutes,
+  assetRoutes,
   feedbackRoutes,
   notificationRoutes,
   reportRoutes,
   inventoryRoutes,
+  settingsRoutes,
+  shiftRoutes,
 };
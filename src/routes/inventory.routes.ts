@@ -2,84 +2,61 @@
 /* eslint-disable @typescript-eslint/no-misused-promises */
 import { Router } from 'express';
 import { InventoryController } from '../controllers/inventory.controller';
-import { authMiddleware } from '../middleware/auth.middleware';
-import { roleMiddleware } from '../middleware/role.middleware';
-import { UserRole } from '../types/models';
+import { BulkController } from '../controllers/bulk.controller';
 import { validate } from '../middleware';
 import { inventoryValidationSchemas } from '../validations/inventory.validation';
+import { commonValidationSchemas } from '../validations/common.validation';
 
 const router: Router = Router();
 
-// Apply authentication middleware to all routes
-router.use(authMiddleware);
-
 // Inventory Item Management Routes
-// Only managers and admins can create, update, and delete inventory items
 router.post(
   '/items',
-  roleMiddleware([UserRole.MANAGER, UserRole.ADMIN]),
   validate(inventoryValidationSchemas.inventoryItem),
   InventoryController.createItem
 );
 
-router.get(
-  '/items',
-  roleMiddleware([
-    UserRole.MANAGER,
-    UserRole.ADMIN,
-    UserRole.HOUSEKEEPING,
-    UserRole.MAINTENANCE,
-  ]),
-  InventoryController.getAllItems
+router.get('/items', InventoryController.getAllItems);
+
+router.get('/items/search', InventoryController.searchItems);
+
+router.post(
+  '/items/export',
+  validate({ body: commonValidationSchemas.export }),
+  InventoryController.exportItems
 );
 
-router.get(
-  '/items/search',
-  roleMiddleware([
-    UserRole.MANAGER,
-    UserRole.ADMIN,
-    UserRole.HOUSEKEEPING,
-    UserRole.MAINTENANCE,
-  ]),
-  InventoryController.searchItems
+router.post(
+  '/items/import',
+  validate({ body: commonValidationSchemas.import }),
+  InventoryController.importItems
 );
 
 router.get(
-  '/items/:id',
-  roleMiddleware([
-    UserRole.MANAGER,
-    UserRole.ADMIN,
-    UserRole.HOUSEKEEPING,
-    UserRole.MAINTENANCE,
-  ]),
-  InventoryController.getItemById
+  '/items/imports/:importId/log',
+  validate({ query: commonValidationSchemas.importLogDownload }),
+  InventoryController.downloadImportLog
 );
 
+router.post(
+  '/items/bulk',
+  validate({ body: commonValidationSchemas.bulkOperation }),
+  BulkController.handler('inventory')
+);
+
+router.get('/items/:id', InventoryController.getItemById);
+
 router.put(
   '/items/:id',
-  roleMiddleware([UserRole.MANAGER, UserRole.ADMIN]),
   validate(inventoryValidationSchemas.inventoryItemUpdate),
   InventoryController.updateItem
 );
 
-router.delete(
-  '/items/:id',
-  roleMiddleware([UserRole.ADMIN]),
-  InventoryController.deleteItem
-);
+router.delete('/items/:id', InventoryController.deleteItem);
 
 // Inventory Statistics and Reports
-// Only managers and admins can view statistics
-router.get(
-  '/stats',
-  roleMiddleware([UserRole.MANAGER, UserRole.ADMIN]),
-  InventoryController.getInventoryStats
-);
+router.get('/stats', InventoryController.getInventoryStats);
 
-router.get(
-  '/alerts/low-stock',
-  roleMiddleware([UserRole.MANAGER, UserRole.ADMIN, UserRole.HOUSEKEEPING]),
-  InventoryController.getLowStockAlerts
-);
+router.get('/alerts/low-stock', InventoryController.getLowStockAlerts);
 
 export { router as inventoryRoutes };
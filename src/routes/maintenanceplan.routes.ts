@@ -0,0 +1,91 @@
+import { Router } from 'express';
+import { MaintenancePlanController } from '../controllers/maintenanceplan.controller';
+import { validate } from '../middleware/validation.middleware';
+import { maintenancePlanValidationSchemas } from '../validations/maintenancePlan.validation';
+
+const router: Router = Router();
+
+/**
+ * @route GET /api/maintenance-plans
+ * @desc Get preventive maintenance plans with pagination
+ * @access Private
+ */
+router.get(
+  '/',
+  validate({ query: maintenancePlanValidationSchemas.maintenancePlanFilter }),
+  (req, res) => {
+    void MaintenancePlanController.getAll(req, res);
+  }
+);
+
+/**
+ * @route POST /api/maintenance-plans
+ * @desc Create a preventive maintenance plan
+ * @access Private
+ */
+router.post(
+  '/',
+  validate({ body: maintenancePlanValidationSchemas.maintenancePlan }),
+  (req, res) => {
+    void MaintenancePlanController.create(req, res);
+  }
+);
+
+/**
+ * @route POST /api/maintenance-plans/generate
+ * @desc Raise work orders for plans coming due; run daily
+ * @access Private
+ */
+router.post(
+  '/generate',
+  validate({ body: maintenancePlanValidationSchemas.preventiveGeneration }),
+  (req, res) => {
+    void MaintenancePlanController.generate(req, res);
+  }
+);
+
+/**
+ * @route GET /api/maintenance-plans/compliance
+ * @desc Get on-time, late and overdue preventive work per plan
+ * @access Private
+ */
+router.get(
+  '/compliance',
+  validate({ query: maintenancePlanValidationSchemas.complianceQuery }),
+  (req, res) => {
+    void MaintenancePlanController.getCompliance(req, res);
+  }
+);
+
+/**
+ * @route GET /api/maintenance-plans/:id
+ * @desc Get a preventive maintenance plan by ID
+ * @access Private
+ */
+router.get('/:id', (req, res) => {
+  void MaintenancePlanController.getById(req, res);
+});
+
+/**
+ * @route PUT /api/maintenance-plans/:id
+ * @desc Update a preventive maintenance plan
+ * @access Private
+ */
+router.put(
+  '/:id',
+  validate({ body: maintenancePlanValidationSchemas.maintenancePlanUpdate }),
+  (req, res) => {
+    void MaintenancePlanController.update(req, res);
+  }
+);
+
+/**
+ * @route DELETE /api/maintenance-plans/:id
+ * @desc Deactivate a preventive maintenance plan
+ * @access Private
+ */
+router.delete('/:id', (req, res) => {
+  void MaintenancePlanController.delete(req, res);
+});
+
+export { router as maintenancePlanRoutes };
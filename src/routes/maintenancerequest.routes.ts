@@ -1,7 +1,9 @@
 import { Router } from 'express';
 import { MaintenanceRequestController } from '../controllers/maintenancerequest.controller';
+import { BulkController } from '../controllers/bulk.controller';
 import { validate } from '../middleware/validation.middleware';
 import { maintenanceValidationSchemas } from '../validations/maintenance.validation';
+import { commonValidationSchemas } from '../validations/common.validation';
 
 const router: Router = Router();
 
@@ -20,6 +22,17 @@ router.post(
   }
 );
 
+/**
+ * @route POST /api/maintenance-requests/bulk
+ * @desc Update or delete many maintenance requests at once
+ * @access Private (maintenance.manage to update, maintenance.delete to delete)
+ */
+router.post(
+  '/bulk',
+  validate({ body: commonValidationSchemas.bulkOperation }),
+  BulkController.handler('maintenance')
+);
+
 /**
  * @route GET /api/maintenance-requests
  * @desc Get all maintenance requests with pagination
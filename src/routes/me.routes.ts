@@ -0,0 +1,92 @@
+import { Router, type Router as ExpressRouter } from 'express';
+import { MeController } from '../controllers/me.controller';
+import { validate } from '../middleware';
+import { meValidationSchemas } from '../validations/me.validation';
+
+const router: ExpressRouter = Router();
+
+// GET /api/me - Get my profile
+router.get('/', (req, res) => {
+  void MeController.getProfile(req, res);
+});
+
+// GET /api/me/reservations - Get my reservations
+router.get(
+  '/reservations',
+  validate({ query: meValidationSchemas.reservationsFilter }),
+  (req, res) => {
+    void MeController.getReservations(req, res);
+  }
+);
+
+// GET /api/me/reservations/:id - Get one of my reservations
+router.get('/reservations/:id', (req, res) => {
+  void MeController.getReservationById(req, res);
+});
+
+// GET /api/me/stay - Get my current stay
+router.get('/stay', (req, res) => {
+  void MeController.getStay(req, res);
+});
+
+// GET /api/me/folio - Get my bills and outstanding balance
+router.get(
+  '/folio',
+  validate({ query: meValidationSchemas.folioFilter }),
+  (req, res) => {
+    void MeController.getFolio(req, res);
+  }
+);
+
+// GET /api/me/service-requests - Get my service requests
+router.get(
+  '/service-requests',
+  validate({ query: meValidationSchemas.serviceRequestsFilter }),
+  (req, res) => {
+    void MeController.getServiceRequests(req, res);
+  }
+);
+
+// POST /api/me/service-requests - Request a service for my room
+router.post(
+  '/service-requests',
+  validate({ body: meValidationSchemas.serviceRequest }),
+  (req, res) => {
+    void MeController.createServiceRequest(req, res);
+  }
+);
+
+// GET /api/me/feedback - Get my feedback
+router.get('/feedback', (req, res) => {
+  void MeController.getFeedback(req, res);
+});
+
+// POST /api/me/feedback - Leave feedback on one of my stays
+router.post(
+  '/feedback',
+  validate({ body: meValidationSchemas.feedback }),
+  (req, res) => {
+    void MeController.createFeedback(req, res);
+  }
+);
+
+// GET /api/me/notifications - Get my notifications
+router.get(
+  '/notifications',
+  validate({ query: meValidationSchemas.notificationsFilter }),
+  (req, res) => {
+    void MeController.getNotifications(req, res);
+  }
+);
+
+// PATCH /api/me/notifications/read-all - Mark all my notifications as read
+router.patch('/notifications/read-all', (req, res) => {
+  void MeController.markAllNotificationsRead(req, res);
+});
+
+// PATCH /api/me/notifications/:id/read - Mark one of my notifications as read
+router.patch('/notifications/:id/read', (req, res) => {
+  void MeController.markNotificationRead(req, res);
+});
+
+export { router as meRoutes };
@@ -49,13 +49,9 @@ router.get('/unread-count/:recipientId', (req, res) => {
 });
 
 // Mark all notifications as read for specific recipient
-router.patch(
-  '/mark-all-read/:recipientId',
-  // roleMiddleware(['user', 'manager', 'admin']),
-  (req, res) => {
-    void NotificationController.markAllAsRead(req, res);
-  }
-);
+router.patch('/mark-all-read/:recipientId', (req, res) => {
+  void NotificationController.markAllAsRead(req, res);
+});
 
 // Bulk operations
 router.patch('/mark-as-read', (req, res) => {
@@ -0,0 +1,51 @@
+import { Router, type Router as ExpressRouter } from 'express';
+import { PermissionController } from '../controllers/permission.controller';
+import { validate } from '../middleware';
+import { permissionValidationSchemas } from '../validations/permission.validation';
+
+const router: ExpressRouter = Router();
+
+// GET /api/permissions - List the permission catalogue
+router.get('/', (req, res) => {
+  PermissionController.getPermissions(req, res);
+});
+
+// GET /api/permissions/roles - List the permission set of every role
+router.get('/roles', (req, res) => {
+  void PermissionController.getRoles(req, res);
+});
+
+// GET /api/permissions/roles/:role - Get the permission set of a role
+router.get('/roles/:role', (req, res) => {
+  void PermissionController.getRole(req, res);
+});
+
+// PUT /api/permissions/roles/:role - Replace the permission set of a role
+router.put(
+  '/roles/:role',
+  validate({ body: permissionValidationSchemas.rolePermissions }),
+  (req, res) => {
+    void PermissionController.updateRole(req, res);
+  }
+);
+
+// DELETE /api/permissions/roles/:role - Reset a role to its default permissions
+router.delete('/roles/:role', (req, res) => {
+  void PermissionController.resetRole(req, res);
+});
+
+// GET /api/permissions/users/:userId - Get a user's grants, denials and effective permissions
+router.get('/users/:userId', (req, res) => {
+  void PermissionController.getUserPermissions(req, res);
+});
+
+// PUT /api/permissions/users/:userId - Replace a user's grants and denials
+router.put(
+  '/users/:userId',
+  validate({ body: permissionValidationSchemas.userPermissionOverrides }),
+  (req, res) => {
+    void PermissionController.updateUserPermissions(req, res);
+  }
+);
+
+export { router as permissionRoutes };
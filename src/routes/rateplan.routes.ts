@@ -0,0 +1,45 @@
+import { Router, type Router as ExpressRouter } from 'express';
+import { RatePlanController } from '../controllers/rateplan.controller';
+import { validate } from '../middleware';
+import { ratePlanValidationSchemas } from '../validations/ratePlan.validation';
+
+const router: ExpressRouter = Router();
+
+// GET /api/rate-plans - Get all rate plans with filters
+router.get(
+  '/',
+  validate({ query: ratePlanValidationSchemas.ratePlanFilter }),
+  (req, res) => {
+    void RatePlanController.getAllRatePlans(req, res);
+  }
+);
+
+// GET /api/rate-plans/:id - Get rate plan by ID
+router.get('/:id', (req, res) => {
+  void RatePlanController.getRatePlanById(req, res);
+});
+
+// POST /api/rate-plans - Create new rate plan
+router.post(
+  '/',
+  validate({ body: ratePlanValidationSchemas.ratePlan }),
+  (req, res) => {
+    void RatePlanController.createRatePlan(req, res);
+  }
+);
+
+// PUT /api/rate-plans/:id - Update rate plan
+router.put(
+  '/:id',
+  validate({ body: ratePlanValidationSchemas.ratePlanUpdate }),
+  (req, res) => {
+    void RatePlanController.updateRatePlan(req, res);
+  }
+);
+
+// DELETE /api/rate-plans/:id - Deactivate rate plan
+router.delete('/:id', (req, res) => {
+  void RatePlanController.deleteRatePlan(req, res);
+});
+
+export { router as ratePlanRoutes };
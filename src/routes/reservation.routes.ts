@@ -2,13 +2,14 @@ import { Router, type Router as ExpressRouter } from 'express';
 import { ReservationController } from '../controllers/reservation.controller';
 import { validate } from '../middleware';
 import { reservationValidationSchemas } from '../validations/reservation.validation';
+import { commonValidationSchemas } from '../validations/common.validation';
 
 const router: ExpressRouter = Router();
 
 // GET /api/reservations - Get all reservations with pagination, search, and filters
 router.get(
   '/',
-  validate(reservationValidationSchemas.reservationFilter),
+  validate({ query: reservationValidationSchemas.reservationFilter }),
   (req, res) => {
     void ReservationController.getAllReservations(req, res);
   }
@@ -17,12 +18,44 @@ router.get(
 // GET /api/reservations/availability - Check room availability
 router.get(
   '/availability',
-  validate(reservationValidationSchemas.reservationAvailability),
+  validate({ query: reservationValidationSchemas.reservationAvailability }),
   (req, res) => {
     void ReservationController.checkAvailability(req, res);
   }
 );
 
+// GET /api/reservations/quote - Price a stay night by night from its rate plan
+router.get(
+  '/quote',
+  validate({ query: reservationValidationSchemas.reservationQuote }),
+  (req, res) => {
+    void ReservationController.getQuote(req, res);
+  }
+);
+
+// POST /api/reservations/export - Export reservations as JSON, XLSX or PDF
+router.post(
+  '/export',
+  validate({ body: commonValidationSchemas.export }),
+  (req, res) => {
+    void ReservationController.exportReservations(req, res);
+  }
+);
+
+// POST /api/reservations/holds - Hold a room while the guest completes checkout
+router.post(
+  '/holds',
+  validate({ body: reservationValidationSchemas.reservationHold }),
+  (req, res) => {
+    void ReservationController.createHold(req, res);
+  }
+);
+
+// DELETE /api/reservations/holds/:holdId - Release a room hold
+router.delete('/holds/:holdId', (req, res) => {
+  void ReservationController.releaseHold(req, res);
+});
+
 // GET /api/reservations/:id - Get reservation by ID
 router.get('/:id', (req, res) => {
   void ReservationController.getReservationById(req, res);
@@ -31,7 +64,7 @@ router.get('/:id', (req, res) => {
 // POST /api/reservations - Create new reservation
 router.post(
   '/',
-  validate(reservationValidationSchemas.reservation),
+  validate({ body: reservationValidationSchemas.reservation }),
   (req, res) => {
     void ReservationController.createReservation(req, res);
   }
@@ -40,7 +73,7 @@ router.post(
 // PUT /api/reservations/:id - Update reservation
 router.put(
   '/:id',
-  validate(reservationValidationSchemas.reservationUpdate),
+  validate({ body: reservationValidationSchemas.reservationUpdate }),
   (req, res) => {
     void ReservationController.updateReservation(req, res);
   }
@@ -54,7 +87,7 @@ router.patch('/:id/status', (req, res) => {
 // PATCH /api/reservations/:id/confirm - Confirm reservation
 router.patch(
   '/:id/confirm',
-  validate(reservationValidationSchemas.reservationConfirmation),
+  validate({ body: reservationValidationSchemas.reservationConfirmation }),
   (req, res) => {
     void ReservationController.confirmReservation(req, res);
   }
@@ -63,16 +96,7 @@ router.patch(
 // PATCH /api/reservations/:id/cancel - Cancel reservation
 router.patch(
   '/:id/cancel',
-  validate(reservationValidationSchemas.reservationCancellation),
-  (req, res) => {
-    void ReservationController.cancelReservation(req, res);
-  }
-);
-
-// PATCH /api/reservations/:id/cancel - Cancel reservation
-router.patch(
-  '/:id/cancel',
-  validate(reservationValidationSchemas.reservationCancellation),
+  validate({ body: reservationValidationSchemas.reservationCancellation }),
   (req, res) => {
     void ReservationController.cancelReservation(req, res);
   }
@@ -81,7 +105,7 @@ router.patch(
 // DELETE /api/reservations/:id - Soft delete reservation
 router.delete(
   '/:id',
-  validate(reservationValidationSchemas.deleteReservation),
+  validate({ body: reservationValidationSchemas.deleteReservation }),
   (req, res) => {
     void ReservationController.deleteReservation(req, res);
   }
@@ -1,10 +1,11 @@
 import { Router } from 'express';
-import { RoomController } from '../controllers';
+import { RoomController, BulkController } from '../controllers';
 import { validate } from '../middleware';
 import {
   roomValidationSchemas,
   getAllRoomsSchema,
 } from '../validations/room.validation';
+import { commonValidationSchemas } from '../validations/common.validation';
 
 const router: Router = Router();
 const roomController: RoomController = new RoomController();
@@ -12,7 +13,7 @@ const roomController: RoomController = new RoomController();
 /**
  * @route   GET /api/v1/rooms
  * @desc    Get all rooms with pagination, search and filters
- * @access  Public (can be changed to protected later)
+ * @access  Public
  * @query   page, limit, search, sortBy, sortOrder, roomType, status, floor, minPrice, maxPrice
  */
 router.get('/', validate(getAllRoomsSchema), (req, res) => {
@@ -22,7 +23,7 @@ router.get('/', validate(getAllRoomsSchema), (req, res) => {
 /**
  * @route   GET /api/v1/rooms/availability
  * @desc    Check room availability
- * @access  Public (can be changed to protected later)
+ * @access  Public
  * @query   checkIn, checkOut, roomType
  */
 router.get(
@@ -36,7 +37,7 @@ router.get(
 /**
  * @route   GET /api/v1/rooms/number/:roomNumber
  * @desc    Get a room by room number
- * @access  Public (can be changed to protected later)
+ * @access  Public
  * @param   roomNumber - Room number
  */
 router.get('/number/:roomNumber', (req, res) => {
@@ -46,7 +47,7 @@ router.get('/number/:roomNumber', (req, res) => {
 /**
  * @route   GET /api/v1/rooms/:id
  * @desc    Get a single room by ID
- * @access  Public (can be changed to protected later)
+ * @access  Public
  * @param   id - MongoDB ObjectId
  */
 router.get('/:id', (req, res) => {
@@ -56,17 +57,57 @@ router.get('/:id', (req, res) => {
 /**
  * @route   POST /api/v1/rooms
  * @desc    Create a new room
- * @access  Public (can be changed to protected later)
+ * @access  Private (room.manage)
  * @body    roomNumber, roomType, floor, capacity, pricePerNight, amenities, description, images
  */
 router.post('/', validate(roomValidationSchemas.room), (req, res) => {
   void roomController.createRoom(req, res);
 });
 
+/**
+ * @route   POST /api/v1/rooms/import
+ * @desc    Import rooms from a CSV or JSON file, or validate it (dry run)
+ * @access  Private (room.manage)
+ * @body    format, data, delimiter, overwrite, backup, validateOnly
+ */
+router.post(
+  '/import',
+  validate({ body: commonValidationSchemas.import }),
+  (req, res) => {
+    void roomController.importRooms(req, res);
+  }
+);
+
+/**
+ * @route   GET /api/v1/rooms/imports/:importId/log
+ * @desc    Download the log of a room import
+ * @access  Private (room.manage)
+ * @query   format (csv or json), delimiter, bom
+ */
+router.get(
+  '/imports/:importId/log',
+  validate({ query: commonValidationSchemas.importLogDownload }),
+  (req, res) => {
+    void roomController.downloadImportLog(req, res);
+  }
+);
+
+/**
+ * @route   POST /api/v1/rooms/bulk
+ * @desc    Update, delete, activate or deactivate many rooms at once
+ * @access  Private (room.manage)
+ * @body    ids, operation, data, atomic
+ */
+router.post(
+  '/bulk',
+  validate({ body: commonValidationSchemas.bulkOperation }),
+  BulkController.handler('rooms')
+);
+
 /**
  * @route   PUT /api/v1/rooms/:id
  * @desc    Update a room by ID
- * @access  Public (can be changed to protected later)
+ * @access  Private (room.manage)
  * @param   id - MongoDB ObjectId
  * @body    Any room fields to update
  */
@@ -80,23 +121,38 @@ router.put(
 
 /**
  * @route   PATCH /api/v1/rooms/:id/status
- * @desc    Update room status
- * @access  Public (can be changed to protected later)
+ * @desc    Update room status; only legal transitions are accepted
+ * @access  Private (room.status.update)
  * @param   id - MongoDB ObjectId
- * @body    status
+ * @body    status, notes
  */
 router.patch(
   '/:id/status',
-  validate(roomValidationSchemas.roomStatusUpdate),
+  validate({ body: roomValidationSchemas.roomStatusUpdate }),
   (req, res) => {
     void roomController.updateRoomStatus(req, res);
   }
 );
 
+/**
+ * @route   GET /api/v1/rooms/:id/status-history
+ * @desc    Get the status changes of a room, newest first
+ * @access  Private (room.status.update)
+ * @param   id - MongoDB ObjectId
+ * @query   page, limit
+ */
+router.get(
+  '/:id/status-history',
+  validate({ query: roomValidationSchemas.roomStatusHistory }),
+  (req, res) => {
+    void roomController.getRoomStatusHistory(req, res);
+  }
+);
+
 /**
  * @route   DELETE /api/v1/rooms/:id
  * @desc    Delete a room by ID (soft delete)
- * @access  Public (can be changed to protected later)
+ * @access  Private (room.manage)
  * @param   id - MongoDB ObjectId
  */
 router.delete('/:id', (req, res) => {
@@ -0,0 +1,45 @@
+import { Router, type Router as ExpressRouter } from 'express';
+import { SettingsController } from '../controllers/settings.controller';
+import { validate } from '../middleware';
+import { settingsValidationSchemas } from '../validations/settings.validation';
+
+const router: ExpressRouter = Router();
+
+// GET /api/settings - Get all settings grouped by category
+router.get(
+  '/',
+  validate({ query: settingsValidationSchemas.settingFilter }),
+  (req, res) => {
+    void SettingsController.getSettings(req, res);
+  }
+);
+
+// GET /api/settings/:key - Get setting by key
+router.get('/:key', (req, res) => {
+  void SettingsController.getSetting(req, res);
+});
+
+// POST /api/settings - Create new setting
+router.post(
+  '/',
+  validate({ body: settingsValidationSchemas.setting }),
+  (req, res) => {
+    void SettingsController.createSetting(req, res);
+  }
+);
+
+// PUT /api/settings/:key - Update setting value or description
+router.put(
+  '/:key',
+  validate({ body: settingsValidationSchemas.settingUpdate }),
+  (req, res) => {
+    void SettingsController.updateSetting(req, res);
+  }
+);
+
+// DELETE /api/settings/:key - Delete setting, restoring its default
+router.delete('/:key', (req, res) => {
+  void SettingsController.deleteSetting(req, res);
+});
+
+export { router as settingsRoutes };
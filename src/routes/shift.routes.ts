@@ -0,0 +1,138 @@
+import { Router, type Router as ExpressRouter } from 'express';
+import { ShiftController } from '../controllers/shift.controller';
+import { validate } from '../middleware';
+import { shiftValidationSchemas } from '../validations/shift.validation';
+
+const router: ExpressRouter = Router();
+
+// GET /api/shifts/templates - Get shift templates
+router.get(
+  '/templates',
+  validate({ query: shiftValidationSchemas.shiftTemplateFilter }),
+  (req, res) => {
+    void ShiftController.getTemplates(req, res);
+  }
+);
+
+// POST /api/shifts/templates - Create shift template
+router.post(
+  '/templates',
+  validate({ body: shiftValidationSchemas.shiftTemplate }),
+  (req, res) => {
+    void ShiftController.createTemplate(req, res);
+  }
+);
+
+// PUT /api/shifts/templates/:id - Update shift template
+router.put(
+  '/templates/:id',
+  validate({ body: shiftValidationSchemas.shiftTemplateUpdate }),
+  (req, res) => {
+    void ShiftController.updateTemplate(req, res);
+  }
+);
+
+// DELETE /api/shifts/templates/:id - Deactivate shift template
+router.delete('/templates/:id', (req, res) => {
+  void ShiftController.deleteTemplate(req, res);
+});
+
+// GET /api/shifts/roster - Get the roster of a week
+router.get(
+  '/roster',
+  validate({ query: shiftValidationSchemas.rosterQuery }),
+  (req, res) => {
+    void ShiftController.getRoster(req, res);
+  }
+);
+
+// PUT /api/shifts/roster - Replace the roster of a role for a week
+router.put(
+  '/roster',
+  validate({ body: shiftValidationSchemas.rosterWeek }),
+  (req, res) => {
+    void ShiftController.setRoster(req, res);
+  }
+);
+
+// GET /api/shifts/on-duty - Get staff on duty now or at a time
+router.get(
+  '/on-duty',
+  validate({ query: shiftValidationSchemas.onDutyQuery }),
+  (req, res) => {
+    void ShiftController.getOnDuty(req, res);
+  }
+);
+
+// GET /api/shifts/mine - Get your own shifts and leave for a week
+router.get(
+  '/mine',
+  validate({ query: shiftValidationSchemas.rosterQuery.omit({ role: true }) }),
+  (req, res) => {
+    void ShiftController.getMyWeek(req, res);
+  }
+);
+
+// POST /api/shifts/clock-in - Clock in
+router.post('/clock-in', (req, res) => {
+  void ShiftController.clockIn(req, res);
+});
+
+// POST /api/shifts/clock-out - Clock out
+router.post('/clock-out', (req, res) => {
+  void ShiftController.clockOut(req, res);
+});
+
+// GET /api/shifts/clock-entries - Get time clock entries
+router.get(
+  '/clock-entries',
+  validate({ query: shiftValidationSchemas.clockEntryFilter }),
+  (req, res) => {
+    void ShiftController.getClockEntries(req, res);
+  }
+);
+
+// POST /api/shifts/leave - Ask for leave
+router.post(
+  '/leave',
+  validate({ body: shiftValidationSchemas.leaveRequest }),
+  (req, res) => {
+    void ShiftController.requestLeave(req, res);
+  }
+);
+
+// GET /api/shifts/leave - Get leave requests
+router.get(
+  '/leave',
+  validate({ query: shiftValidationSchemas.leaveFilter }),
+  (req, res) => {
+    void ShiftController.getLeaveRequests(req, res);
+  }
+);
+
+// GET /api/shifts/leave/mine - Get your own leave requests
+router.get(
+  '/leave/mine',
+  validate({
+    query: shiftValidationSchemas.leaveFilter.omit({ staffId: true }),
+  }),
+  (req, res) => {
+    void ShiftController.getMyLeaveRequests(req, res);
+  }
+);
+
+// PATCH /api/shifts/leave/:id/review - Approve or reject a leave request
+router.patch(
+  '/leave/:id/review',
+  validate({ body: shiftValidationSchemas.leaveReview }),
+  (req, res) => {
+    void ShiftController.reviewLeave(req, res);
+  }
+);
+
+// PATCH /api/shifts/leave/:id/cancel - Cancel your own leave request
+router.patch('/leave/:id/cancel', (req, res) => {
+  void ShiftController.cancelLeave(req, res);
+});
+
+export { router as shiftRoutes };
@@ -15,7 +15,7 @@ const testController: TestController = new TestController();
 /**
  * @route   GET /api/v1/tests
  * @desc    Get all test records with pagination and search
- * @access  Public (can be changed to protected later)
+ * @access  Private (test.manage)
  * @query   page, limit, search, sortBy, sortOrder
  */
 router.get('/', validate(getAllTestsSchema), (req, res) => {
@@ -25,7 +25,7 @@ router.get('/', validate(getAllTestsSchema), (req, res) => {
 /**
  * @route   GET /api/v1/tests/:id
  * @desc    Get a single test record by ID
- * @access  Public (can be changed to protected later)
+ * @access  Private (test.manage)
  * @param   id - MongoDB ObjectId
  */
 router.get('/:id', validate(getTestByIdSchema), (req, res) => {
@@ -35,7 +35,7 @@ router.get('/:id', validate(getTestByIdSchema), (req, res) => {
 /**
  * @route   POST /api/v1/tests
  * @desc    Create a new test record
- * @access  Public (can be changed to protected later)
+ * @access  Private (test.manage)
  * @body    firstName, lastName
  */
 router.post('/', validate(createTestSchema), (req, res) => {
@@ -45,7 +45,7 @@ router.post('/', validate(createTestSchema), (req, res) => {
 /**
  * @route   PUT /api/v1/tests/:id
  * @desc    Update a test record by ID
- * @access  Public (can be changed to protected later)
+ * @access  Private (test.manage)
  * @param   id - MongoDB ObjectId
  * @body    firstName?, lastName? (at least one required)
  */
@@ -56,7 +56,7 @@ router.put('/:id', validate(updateTestSchema), (req, res) => {
 /**
  * @route   DELETE /api/v1/tests/:id
  * @desc    Delete a test record by ID
- * @access  Public (can be changed to protected later)
+ * @access  Private (test.manage)
  * @param   id - MongoDB ObjectId
  */
 router.delete('/:id', validate(deleteTestSchema), (req, res) => {
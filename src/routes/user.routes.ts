@@ -1,5 +1,8 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { UserController } from '../controllers/user.controller';
+import { BulkController } from '../controllers/bulk.controller';
+import { validate } from '../middleware';
+import { commonValidationSchemas } from '../validations/common.validation';
 
 const router: Router = Router();
 const userController = new UserController();
@@ -30,9 +33,38 @@ router.post(
  * @body    email, password
  */
 router.post('/login', asyncHandler(userController.login.bind(userController)));
+/**
+ * @route   POST /api/v1/users/refresh-token
+ * @desc    Rotate a refresh token and issue a new access token
+ * @access  Public
+ * @body    refreshToken
+ */
+router.post(
+  '/refresh-token',
+  asyncHandler(userController.refreshToken.bind(userController))
+);
+/**
+ * @route   POST /api/v1/users/logout
+ * @desc    Logout the current session
+ * @access  Private
+ * @body    refreshToken (optional), logoutAllDevices (optional)
+ */
+router.post(
+  '/logout',
+  asyncHandler(userController.logout.bind(userController))
+);
+/**
+ * @route   POST /api/v1/users/logout-all
+ * @desc    Logout every session of the current user
+ * @access  Private
+ */
+router.post(
+  '/logout-all',
+  asyncHandler(userController.logoutAll.bind(userController))
+);
 /**
  * @route   POST /api/v1/users/forgot-password
- * @desc    Forgot password
+ * @desc    Email a password reset link
  * @access  Public
  * @body    email
  */
@@ -42,9 +74,9 @@ router.post(
 );
 /**
  * @route   POST /api/v1/users/reset-password
- * @desc    Reset password
+ * @desc    Reset password with a single-use emailed token
  * @access  Public
- * @body    token, password
+ * @body    email, resetToken, newPassword, confirmPassword
  */
 router.post(
   '/reset-password',
@@ -53,14 +85,45 @@ router.post(
 /**
  * @route   GET /api/v1/users
  * @desc    Get all users
- * @access  Public
+ * @access  Private (user.read)
  * @query   page, limit, search, sortBy, sortOrder
  */
 router.get('/', asyncHandler(userController.getAllUsers.bind(userController)));
+/**
+ * @route   POST /api/v1/users/import
+ * @desc    Import user accounts from a CSV or JSON file, or validate it (dry run)
+ * @access  Private (user.manage)
+ * @body    format, data, delimiter, overwrite, backup, validateOnly
+ */
+router.post(
+  '/import',
+  asyncHandler(userController.importUsers.bind(userController))
+);
+/**
+ * @route   GET /api/v1/users/imports/:importId/log
+ * @desc    Download the log of a user import
+ * @access  Private (user.manage)
+ * @query   format (csv or json), delimiter, bom
+ */
+router.get(
+  '/imports/:importId/log',
+  asyncHandler(userController.downloadImportLog.bind(userController))
+);
+/**
+ * @route   POST /api/v1/users/bulk
+ * @desc    Update, delete, activate or deactivate many users at once
+ * @access  Private (user.manage)
+ * @body    ids, operation, data, atomic
+ */
+router.post(
+  '/bulk',
+  validate({ body: commonValidationSchemas.bulkOperation }),
+  BulkController.handler('users')
+);
 /**
  * @route   GET /api/v1/users/search
  * @desc    Search users
- * @access  Public
+ * @access  Private (user.read)
  * @query   page, limit, search, sortBy, sortOrder
  */
 router.get(
@@ -70,7 +133,7 @@ router.get(
 /**
  * @route   GET /api/v1/users/role/:role
  * @desc    Get users by role
- * @access  Public
+ * @access  Private (user.read)
  * @query   page, limit, search, sortBy, sortOrder
  */
 router.get(
@@ -80,7 +143,7 @@ router.get(
 /**
  * @route   GET /api/v1/users/:id
  * @desc    Get user by ID
- * @access  Public
+ * @access  Private (user.read)
  * @query   page, limit, search, sortBy, sortOrder
  */
 router.get(
@@ -90,7 +153,7 @@ router.get(
 /**
  * @route   PUT /api/v1/users/:id
  * @desc    Update user
- * @access  Public
+ * @access  Private (user.manage)
  * @query   page, limit, search, sortBy, sortOrder
  */
 router.put(
@@ -100,7 +163,7 @@ router.put(
 /**
  * @route   DELETE /api/v1/users/:id
  * @desc    Delete user
- * @access  Public
+ * @access  Private (user.manage)
  * @query   page, limit, search, sortBy, sortOrder
  */
 router.delete(
@@ -110,7 +173,7 @@ router.delete(
 /**
  * @route   PATCH /api/v1/users/:id/status
  * @desc    Toggle user status
- * @access  Public
+ * @access  Private (user.manage)
  * @query   page, limit, search, sortBy, sortOrder
  */
 router.patch(
@@ -120,8 +183,8 @@ router.patch(
 /**
  * @route   PATCH /api/v1/users/:id/change-password
  * @desc    Change user password
- * @access  Public
- * @query   page, limit, search, sortBy, sortOrder
+ * @access  Private (the account's owner)
+ * @body    currentPassword, newPassword
  */
 router.patch(
   '/:id/change-password',
@@ -130,7 +193,7 @@ router.patch(
 /**
  * @route   GET /api/v1/users/:id/profile
  * @desc    Get user profile
- * @access  Public
+ * @access  Private (user.read)
  * @query   page, limit, search, sortBy, sortOrder
  */
 router.get(
@@ -12,26 +12,38 @@ import {
   healthCheckLimiter,
   databaseConnection,
 } from './config';
+import { authorize } from './middleware';
+import { GroupBookingService } from './services';
 import {
   testRoutes,
   roomRoutes,
   userRoutes,
+  permissionRoutes,
+  meRoutes,
   reservationRoutes,
+  groupBookingRoutes,
+  ratePlanRoutes,
   billRoutes,
   checkInRoutes,
   checkOutRoutes,
   serviceRequestRoutes,
   housekeepingTaskRoutes,
   maintenanceRequestRoutes,
+  maintenancePlanRoutes,
+  assetRoutes,
   feedbackRoutes,
   notificationRoutes,
   reportRoutes,
   inventoryRoutes,
+  settingsRoutes,
+  shiftRoutes,
 } from './routes';
 
 const PROJECT_VERSION = process.env.PROJECT_VERSION || 'v1';
 const PROJECT_NAME = process.env.PROJECT_NAME || 'LuxuryStay HMS';
 const PORT = process.env.PORT || 4000;
+// How often group blocks past their cutoff date are released
+const BLOCK_RELEASE_INTERVAL_MS = 60 * 60 * 1000;
 
 /**
  * Create and configure the Express application
@@ -43,30 +55,39 @@ export function createApp(): express.Application {
   app.use(helmet());
   app.use(cors());
   app.use(morgan('combined'));
-  app.use(express.json());
+  // Large enough for bulk import files sent in the body
+  app.use(express.json({ limit: '10mb' }));
   app.use(express.urlencoded({ extended: true }));
 
   // Apply global rate limiting to all routes
   app.use(generalLimiter);
 
-  // Endpoints
-  app.use(`/api/${PROJECT_VERSION}/tests`, testRoutes);
-  app.use(`/api/${PROJECT_VERSION}/users`, userRoutes);
-  app.use(`/api/${PROJECT_VERSION}/rooms`, roomRoutes);
-  app.use(`/api/${PROJECT_VERSION}/reservations`, reservationRoutes);
-  app.use(`/api/${PROJECT_VERSION}/bills`, billRoutes);
-  app.use(`/api/${PROJECT_VERSION}/checkins`, checkInRoutes);
-  app.use(`/api/${PROJECT_VERSION}/checkouts`, checkOutRoutes);
-  app.use(`/api/${PROJECT_VERSION}/service-requests`, serviceRequestRoutes);
-  app.use(`/api/${PROJECT_VERSION}/housekeeping-tasks`, housekeepingTaskRoutes);
-  app.use(
-    `/api/${PROJECT_VERSION}/maintenance-requests`,
-    maintenanceRequestRoutes
-  );
-  app.use(`/api/${PROJECT_VERSION}/feedback`, feedbackRoutes);
-  app.use(`/api/${PROJECT_VERSION}/notifications`, notificationRoutes);
-  app.use(`/api/${PROJECT_VERSION}/reports`, reportRoutes);
-  app.use(`/api/${PROJECT_VERSION}/inventory`, inventoryRoutes);
+  // Endpoints, each behind its access policy
+  const mount = (path: string, router: express.Router): void => {
+    app.use(`/api/${PROJECT_VERSION}${path}`, authorize(path, router), router);
+  };
+  mount('/tests', testRoutes);
+  mount('/users', userRoutes);
+  mount('/permissions', permissionRoutes);
+  mount('/me', meRoutes);
+  mount('/rooms', roomRoutes);
+  mount('/reservations', reservationRoutes);
+  mount('/group-bookings', groupBookingRoutes);
+  mount('/rate-plans', ratePlanRoutes);
+  mount('/bills', billRoutes);
+  mount('/checkins', checkInRoutes);
+  mount('/checkouts', checkOutRoutes);
+  mount('/service-requests', serviceRequestRoutes);
+  mount('/housekeeping-tasks', housekeepingTaskRoutes);
+  mount('/maintenance-requests', maintenanceRequestRoutes);
+  mount('/maintenance-plans', maintenancePlanRoutes);
+  mount('/assets', assetRoutes);
+  mount('/feedback', feedbackRoutes);
+  mount('/notifications', notificationRoutes);
+  mount('/reports', reportRoutes);
+  mount('/inventory', inventoryRoutes);
+  mount('/settings', settingsRoutes);
+  mount('/shifts', shiftRoutes);
 
   // Health check endpoint with specific rate limiting
   app.get('/health', healthCheckLimiter, (req, res) => {
@@ -82,6 +103,25 @@ export function createApp(): express.Application {
   return app;
 }
 
+/**
+ * Release group blocks past their cutoff date now and then every hour
+ */
+function scheduleBlockRelease(): void {
+  const release = async (): Promise<void> => {
+    try {
+      const released = await GroupBookingService.releaseExpiredBlocks();
+      if (released.length > 0) {
+        logger.info(`Released ${released.length} expired group block(s)`);
+      }
+    } catch (error) {
+      logger.error('Failed to release expired group blocks:', error);
+    }
+  };
+
+  void release();
+  setInterval(() => void release(), BLOCK_RELEASE_INTERVAL_MS).unref();
+}
+
 /**
  * Start the server
  */
@@ -92,6 +132,7 @@ export async function startServer(
   try {
     // Initialize database connection
     await databaseConnection.connect();
+    scheduleBlockRelease();
 
     app.listen(PORT, () => {
       logger.info(`🚀 Server is running on port ${PORT}`);
@@ -0,0 +1,301 @@
+import { Types } from 'mongoose';
+import { AssetDocument, AssetModel } from '../models/Asset.model';
+import {
+  MaintenanceRequestDocument,
+  MaintenanceRequestModel,
+} from '../models/MaintenanceRequest.model';
+import { RoomModel } from '../models/Room.model';
+import { AppError } from '../utils/errors';
+import { DAY_MS } from '../utils/dates';
+import { HttpStatusCode } from '../types/api';
+import { AssetType, TaskStatus } from '../types/models';
+
+export interface AssetInput {
+  assetTag: string;
+  assetType: AssetType;
+  name: string;
+  make?: string;
+  modelNumber?: string;
+  serialNumber?: string;
+  installDate?: Date;
+  warrantyExpiry?: Date;
+  roomId?: string;
+  location?: string;
+  notes?: string;
+  isActive?: boolean;
+}
+
+export interface AssetFilter {
+  assetType?: AssetType;
+  roomId?: string;
+  // Matches the asset tag, name, make, model number or serial number
+  search?: string;
+  underWarranty?: boolean;
+  includeInactive?: boolean;
+  page: number;
+  limit: number;
+}
+
+export interface MaintenanceTarget {
+  roomId?: string;
+  assetId?: string;
+}
+
+export interface AssetHistorySummary {
+  requests: number;
+  // Corrective work: requests not raised by a preventive plan
+  failures: number;
+  preventive: number;
+  open: number;
+  totalCost: number;
+  repairCost: number;
+  preventiveCost: number;
+  firstFailureAt?: Date;
+  lastFailureAt?: Date;
+  // Average days between failures; null until there are two
+  meanTimeBetweenFailuresDays: number | null;
+  underWarranty: boolean;
+}
+
+export interface AssetHistory {
+  asset: AssetDocument;
+  summary: AssetHistorySummary;
+  history: MaintenanceRequestDocument[];
+}
+
+const OPEN_STATUSES = [
+  TaskStatus.PENDING,
+  TaskStatus.ASSIGNED,
+  TaskStatus.IN_PROGRESS,
+];
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const roundCost = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Asset Service
+ * The register of equipment the hotel maintains, such as minibar fridges,
+ * air conditioners and boilers. Maintenance requests and plans can point at
+ * an asset, which gives each asset its repair history, what it has cost and
+ * how often it fails.
+ */
+export class AssetService {
+  static async list(
+    filter: AssetFilter
+  ): Promise<{ assets: AssetDocument[]; total: number }> {
+    const query: Record<string, unknown> = {};
+    if (!filter.includeInactive) query['isActive'] = true;
+    if (filter.assetType) query['assetType'] = filter.assetType;
+    if (filter.roomId) query['roomId'] = filter.roomId;
+    if (filter.search) {
+      const pattern = { $regex: escapeRegex(filter.search), $options: 'i' };
+      query['$or'] = [
+        'assetTag',
+        'name',
+        'make',
+        'modelNumber',
+        'serialNumber',
+      ].map(field => ({ [field]: pattern }));
+    }
+    if (filter.underWarranty !== undefined) {
+      query['warrantyExpiry'] = filter.underWarranty
+        ? { $gte: new Date() }
+        : { $not: { $gte: new Date() } };
+    }
+
+    const [assets, total] = await Promise.all([
+      AssetModel.find(query)
+        .populate('roomId', 'roomNumber floor')
+        .sort({ assetTag: 1 })
+        .skip((filter.page - 1) * filter.limit)
+        .limit(filter.limit),
+      AssetModel.countDocuments(query),
+    ]);
+
+    return { assets, total };
+  }
+
+  static async get(id: string): Promise<AssetDocument> {
+    const asset = Types.ObjectId.isValid(id)
+      ? await AssetModel.findById(id).populate('roomId', 'roomNumber floor')
+      : null;
+    if (!asset) {
+      throw new AppError('Asset not found', HttpStatusCode.NOT_FOUND);
+    }
+    return asset;
+  }
+
+  static async create(input: AssetInput): Promise<AssetDocument> {
+    this.assertPlacement(input.roomId, input.location);
+    this.assertDates(input.installDate, input.warrantyExpiry);
+    if (input.roomId) await this.assertRoom(input.roomId);
+    await this.assertTagFree(input.assetTag);
+
+    return AssetModel.create(input);
+  }
+
+  static async update(
+    id: string,
+    changes: Partial<AssetInput>
+  ): Promise<AssetDocument> {
+    const asset = Types.ObjectId.isValid(id)
+      ? await AssetModel.findById(id)
+      : null;
+    if (!asset) {
+      throw new AppError('Asset not found', HttpStatusCode.NOT_FOUND);
+    }
+
+    this.assertPlacement(
+      changes.roomId !== undefined ? changes.roomId : asset.roomId?.toString(),
+      changes.location !== undefined ? changes.location : asset.location
+    );
+    this.assertDates(
+      changes.installDate ?? asset.installDate,
+      changes.warrantyExpiry ?? asset.warrantyExpiry
+    );
+    if (changes.roomId) await this.assertRoom(changes.roomId);
+    if (changes.assetTag && changes.assetTag.toUpperCase() !== asset.assetTag) {
+      await this.assertTagFree(changes.assetTag);
+    }
+
+    asset.set(changes);
+    return asset.save();
+  }
+
+  // Retire an asset; its history is kept
+  static async deactivate(id: string): Promise<AssetDocument> {
+    const asset = Types.ObjectId.isValid(id)
+      ? await AssetModel.findByIdAndUpdate(
+          id,
+          { isActive: false },
+          { new: true }
+        )
+      : null;
+    if (!asset) {
+      throw new AppError('Asset not found', HttpStatusCode.NOT_FOUND);
+    }
+    return asset;
+  }
+
+  /**
+   * Every maintenance request of an asset, newest first, with its cost and
+   * failure record. Failures are the corrective requests that were not
+   * cancelled, and the mean time between failures is the average gap between
+   * when they were reported.
+   */
+  static async history(id: string): Promise<AssetHistory> {
+    const asset = await this.get(id);
+    const history = await MaintenanceRequestModel.find({ assetId: asset._id })
+      .populate('reportedBy', 'firstName lastName')
+      .populate('assignedTechnicianId', 'firstName lastName')
+      .sort({ createdAt: -1 });
+
+    const summary: AssetHistorySummary = {
+      requests: history.length,
+      failures: 0,
+      preventive: 0,
+      open: 0,
+      totalCost: 0,
+      repairCost: 0,
+      preventiveCost: 0,
+      meanTimeBetweenFailuresDays: null,
+      underWarranty:
+        !!asset.warrantyExpiry && asset.warrantyExpiry.getTime() >= Date.now(),
+    };
+    const failureTimes: number[] = [];
+
+    for (const request of history) {
+      if (OPEN_STATUSES.includes(request.status)) summary.open++;
+      if (request.status === TaskStatus.CANCELLED) continue;
+
+      const cost = request.cost ?? 0;
+      summary.totalCost += cost;
+      if (request.preventivePlanId) {
+        summary.preventive++;
+        summary.preventiveCost += cost;
+      } else {
+        summary.failures++;
+        summary.repairCost += cost;
+        failureTimes.push(request.createdAt.getTime());
+      }
+    }
+
+    summary.totalCost = roundCost(summary.totalCost);
+    summary.repairCost = roundCost(summary.repairCost);
+    summary.preventiveCost = roundCost(summary.preventiveCost);
+    if (failureTimes.length > 0) {
+      const first = Math.min(...failureTimes);
+      const last = Math.max(...failureTimes);
+      summary.firstFailureAt = new Date(first);
+      summary.lastFailureAt = new Date(last);
+      if (failureTimes.length > 1) {
+        summary.meanTimeBetweenFailuresDays =
+          Math.round(
+            ((last - first) / (failureTimes.length - 1) / DAY_MS) * 10
+          ) / 10;
+      }
+    }
+
+    return { asset, summary, history };
+  }
+
+  /**
+   * Check the room and asset of a maintenance request or plan. The asset
+   * must be in service, and the room defaults to the asset's room; naming a
+   * different room is refused.
+   */
+  static async resolveTarget(
+    roomId?: string,
+    assetId?: string
+  ): Promise<MaintenanceTarget> {
+    if (!assetId) return { roomId };
+
+    const asset = Types.ObjectId.isValid(assetId)
+      ? await AssetModel.findById(assetId)
+      : null;
+    if (!asset) {
+      throw new AppError('Asset not found', HttpStatusCode.NOT_FOUND);
+    }
+    if (!asset.isActive) {
+      throw new AppError(`Asset ${asset.assetTag} is retired`);
+    }
+
+    const assetRoomId = asset.roomId ? String(asset.roomId) : undefined;
+    if (roomId && assetRoomId && roomId !== assetRoomId) {
+      throw new AppError(`Asset ${asset.assetTag} is not in this room`);
+    }
+    return { roomId: roomId ?? assetRoomId, assetId };
+  }
+
+  private static assertPlacement(roomId?: string, location?: string): void {
+    if (!roomId && !location) {
+      throw new AppError('An asset needs a room or a location');
+    }
+  }
+
+  private static assertDates(installDate?: Date, warrantyExpiry?: Date): void {
+    if (installDate && warrantyExpiry && warrantyExpiry < installDate) {
+      throw new AppError('Warranty expiry cannot be before the install date');
+    }
+  }
+
+  private static async assertRoom(roomId: string): Promise<void> {
+    if (
+      !Types.ObjectId.isValid(roomId) ||
+      !(await RoomModel.exists({ _id: roomId }))
+    ) {
+      throw new AppError('Room not found', HttpStatusCode.NOT_FOUND);
+    }
+  }
+
+  private static async assertTagFree(assetTag: string): Promise<void> {
+    if (await AssetModel.exists({ assetTag: assetTag.trim().toUpperCase() })) {
+      throw new AppError(
+        `Asset tag ${assetTag} is already in use`,
+        HttpStatusCode.CONFLICT
+      );
+    }
+  }
+}
@@ -0,0 +1,302 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import {
+  RefreshTokenModel,
+  RefreshTokenDocument,
+} from '../models/RefreshToken.model';
+import { PasswordResetTokenModel } from '../models/PasswordResetToken.model';
+import { UserModel, UserDocument } from '../models/User.model';
+import { authConfig } from '../config/auth.config';
+import { mailConfig } from '../config/mail.config';
+import { MailService } from './mail.service';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { DAY_MS } from '../utils/dates';
+import { HttpStatusCode } from '../types/api';
+
+export interface SessionContext {
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: string;
+}
+
+// Claims carried by every access token
+export interface AccessTokenPayload {
+  userId: string;
+  email: string;
+  role: string;
+  tokenVersion: number;
+  sessionId: string;
+}
+
+/**
+ * Auth Service
+ * Issues short-lived access tokens and rotating refresh tokens. Refresh
+ * tokens are stored hashed; presenting a rotated token again revokes the
+ * whole session, and bumping User.tokenVersion revokes every session.
+ */
+export class AuthService {
+  /**
+   * Start a new session for a user
+   */
+  static async issueTokens(
+    user: UserDocument,
+    context: SessionContext = {}
+  ): Promise<SessionTokens> {
+    return AuthService.createSession(user, crypto.randomUUID(), context);
+  }
+
+  /**
+   * Exchange a refresh token for a new access and refresh token pair
+   */
+  static async rotateRefreshToken(
+    refreshToken: string,
+    context: SessionContext = {}
+  ): Promise<SessionTokens> {
+    const tokenHash = AuthService.hashToken(refreshToken);
+    const stored = await RefreshTokenModel.findOne({ tokenHash });
+
+    if (!stored) {
+      throw AuthService.unauthorized('Invalid refresh token');
+    }
+
+    if (stored.revokedAt) {
+      // A rotated token came back: assume it was stolen and end the session
+      await AuthService.revokeSession(stored.familyId);
+      throw AuthService.unauthorized('Invalid refresh token');
+    }
+
+    if (stored.expiresAt <= new Date()) {
+      throw AuthService.unauthorized('Refresh token expired');
+    }
+
+    const user = await UserModel.findById(stored.userId);
+    if (!user || !user.isActive || user.tokenVersion !== stored.tokenVersion) {
+      await AuthService.revokeSession(stored.familyId);
+      throw AuthService.unauthorized('Session has been revoked');
+    }
+
+    const tokens = await AuthService.createSession(
+      user,
+      stored.familyId,
+      context
+    );
+
+    // Retire the old token atomically; losing the race counts as reuse
+    const retired = await RefreshTokenModel.findOneAndUpdate(
+      { _id: stored._id, revokedAt: { $exists: false } },
+      {
+        $set: {
+          revokedAt: new Date(),
+          replacedByHash: AuthService.hashToken(tokens.refreshToken),
+        },
+      }
+    );
+    if (!retired) {
+      await AuthService.revokeSession(stored.familyId);
+      throw AuthService.unauthorized('Invalid refresh token');
+    }
+
+    return tokens;
+  }
+
+  /**
+   * End the session a refresh token belongs to
+   * @returns whether a session owned by the user was found
+   */
+  static async logout(userId: string, refreshToken: string): Promise<boolean> {
+    const stored = await RefreshTokenModel.findOne({
+      tokenHash: AuthService.hashToken(refreshToken),
+      userId,
+    });
+    if (!stored) {
+      return false;
+    }
+
+    await AuthService.revokeSession(stored.familyId);
+    return true;
+  }
+
+  /**
+   * End a session by its id (the sessionId claim of an access token)
+   */
+  static async revokeSession(sessionId: string): Promise<void> {
+    await RefreshTokenModel.updateMany(
+      { familyId: sessionId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    );
+  }
+
+  /**
+   * End every session of a user, including already-issued access tokens
+   */
+  static async revokeAllSessions(userId: string): Promise<void> {
+    await UserModel.findByIdAndUpdate(userId, { $inc: { tokenVersion: 1 } });
+    await RefreshTokenModel.updateMany(
+      { userId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    );
+  }
+
+  /**
+   * Check that an access token's session is still live
+   */
+  static async isSessionActive(
+    payload: AccessTokenPayload,
+    user: UserDocument
+  ): Promise<boolean> {
+    if ((payload.tokenVersion ?? 0) !== (user.tokenVersion ?? 0)) {
+      return false;
+    }
+
+    // Tokens issued before sessions existed carry no session id
+    if (!payload.sessionId) {
+      return true;
+    }
+
+    const live = await RefreshTokenModel.exists({
+      familyId: payload.sessionId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    });
+    return live !== null;
+  }
+
+  /**
+   * Email a single-use reset link; unknown or inactive emails are ignored
+   * so the response never reveals which accounts exist. The mail is sent in
+   * the background for the same reason: a slow or failing transport must not
+   * change the response for registered emails.
+   */
+  static async requestPasswordReset(
+    email: string,
+    context: SessionContext = {}
+  ): Promise<void> {
+    const user = await UserModel.findOne({ email: email.toLowerCase() });
+    if (!user || !user.isActive) {
+      return;
+    }
+
+    // Only the most recent link works
+    await PasswordResetTokenModel.updateMany(
+      { userId: user._id, usedAt: { $exists: false } },
+      { $set: { usedAt: new Date() } }
+    );
+
+    const resetToken = crypto.randomBytes(32).toString('hex');
+    await PasswordResetTokenModel.create({
+      userId: user._id,
+      tokenHash: AuthService.hashToken(resetToken),
+      expiresAt: new Date(
+        Date.now() + authConfig.passwordResetTtlMinutes * 60 * 1000
+      ),
+      requestedByIp: context.ip,
+    });
+
+    const resetUrl = `${mailConfig.frontendUrl}/reset-password?token=${resetToken}&email=${encodeURIComponent(user.email)}`;
+    void MailService.send({
+      to: user.email,
+      subject: 'Reset your LuxuryStay password',
+      text:
+        `Hello ${user.firstName},\n\n` +
+        `Use the link below to reset your password. It expires in ` +
+        `${authConfig.passwordResetTtlMinutes} minutes and can be used once.\n\n` +
+        `${resetUrl}\n\n` +
+        `If you did not request a password reset, you can ignore this email.`,
+    }).catch(error => {
+      logger.error('Failed to send password reset email', {
+        userId: String(user._id),
+        error,
+      });
+    });
+  }
+
+  /**
+   * Consume a reset token and set a new password, ending every session
+   */
+  static async resetPassword(
+    email: string,
+    resetToken: string,
+    newPassword: string
+  ): Promise<void> {
+    const user = await UserModel.findOne({ email: email.toLowerCase() });
+    if (!user || !user.isActive) {
+      throw new AppError('Invalid or expired reset token');
+    }
+
+    // Mark the token used atomically so it cannot be redeemed twice
+    const consumed = await PasswordResetTokenModel.findOneAndUpdate(
+      {
+        userId: user._id,
+        tokenHash: AuthService.hashToken(resetToken),
+        usedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+      },
+      { $set: { usedAt: new Date() } }
+    );
+    if (!consumed) {
+      throw new AppError('Invalid or expired reset token');
+    }
+
+    const saltRounds = 12;
+    const hashedPassword = await bcrypt.hash(newPassword, saltRounds);
+    await UserModel.findByIdAndUpdate(user._id, { password: hashedPassword });
+    await AuthService.revokeAllSessions(String(user._id));
+  }
+
+  private static async createSession(
+    user: UserDocument,
+    sessionId: string,
+    context: SessionContext
+  ): Promise<SessionTokens> {
+    const refreshToken = crypto.randomBytes(48).toString('base64url');
+
+    const record: Partial<RefreshTokenDocument> = {
+      userId: String(user._id),
+      tokenHash: AuthService.hashToken(refreshToken),
+      familyId: sessionId,
+      tokenVersion: user.tokenVersion ?? 0,
+      expiresAt: new Date(Date.now() + authConfig.refreshTokenTtlDays * DAY_MS),
+      createdByIp: context.ip,
+      userAgent: context.userAgent,
+    };
+    await RefreshTokenModel.create(record);
+
+    const payload: AccessTokenPayload = {
+      userId: String(user._id),
+      email: user.email,
+      role: user.role,
+      tokenVersion: user.tokenVersion ?? 0,
+      sessionId,
+    };
+
+    const token = jwt.sign(
+      payload,
+      process.env.JWT_SECRET || 'fallback-secret',
+      {
+        expiresIn:
+          authConfig.accessTokenExpiresIn as jwt.SignOptions['expiresIn'],
+      }
+    );
+
+    return {
+      token,
+      refreshToken,
+      expiresIn: authConfig.accessTokenExpiresIn,
+    };
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private static unauthorized(message: string): AppError {
+    return new AppError(message, HttpStatusCode.UNAUTHORIZED);
+  }
+}
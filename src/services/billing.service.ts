@@ -0,0 +1,465 @@
+import { ClientSession, Types } from 'mongoose';
+import { BillModel, BillDocument } from '../models/Bill.model';
+import {
+  CreditNoteModel,
+  CreditNoteDocument,
+} from '../models/CreditNote.model';
+import { TaxService } from './tax.service';
+import { AppError } from '../utils/errors';
+import { roundCurrency } from '../utils/money';
+import { nextSequence } from '../utils/sequence';
+import { runInTransaction } from '../utils/transaction';
+import { HttpStatusCode } from '../types/api';
+import {
+  BillPaymentStatus,
+  FolioChargeType,
+  LineTax,
+  PaymentMethod,
+  PaymentStatus,
+} from '../types/models';
+
+export interface PaymentRequest {
+  amount: number;
+  paymentMethod: PaymentMethod;
+  reference?: string;
+  notes?: string;
+}
+
+export interface RefundRequest {
+  paymentId: string;
+  amount: number;
+  reason: string;
+  refundMethod?: PaymentMethod;
+  notes?: string;
+}
+
+export interface RefundResult {
+  bill: BillDocument;
+  creditNote: CreditNoteDocument;
+}
+
+// Derived on the server, never set directly
+const DERIVED_FIELDS = [
+  'totalAmount',
+  'taxAmount',
+  'taxBreakdown',
+  'charges',
+  'adjustmentAmount',
+  'payments',
+  'amountPaid',
+  'creditedAmount',
+  'netAmount',
+  'balanceDue',
+  'paidDate',
+];
+
+/**
+ * Billing Service
+ * Keeps each bill's payment ledger. Payments are appended, never edited;
+ * voiding marks an entry instead of removing it. Refunds are taken from a
+ * specific payment and documented by a numbered credit note. The amount
+ * paid, balance and PaymentStatus are always derived from the ledger.
+ */
+export class BillingService {
+  /**
+   * Create a bill
+   * The amounts given become folio lines, taxed by the configured rules.
+   */
+  static async createBill(
+    billData: Record<string, unknown>
+  ): Promise<BillDocument> {
+    return runInTransaction(async session => {
+      const fields = Object.entries(billData).filter(
+        ([field]) => !DERIVED_FIELDS.includes(field)
+      );
+      const bill = new BillModel({
+        ...Object.fromEntries(fields),
+        taxAmount: 0,
+      });
+
+      BillingService.itemiseOpeningAmounts(bill, false);
+      await TaxService.applyTaxes(bill, session);
+      BillingService.recalculate(bill);
+      await bill.save({ session });
+      return bill;
+    });
+  }
+
+  /**
+   * Update bill fields other than the ledger, re-deriving the balance
+   */
+  static async updateBill(
+    billId: string,
+    updateData: Record<string, unknown>
+  ): Promise<BillDocument> {
+    return runInTransaction(async session => {
+      const bill = await BillingService.loadBill(billId, session);
+
+      const fields = Object.entries(updateData).filter(
+        ([field]) => !DERIVED_FIELDS.includes(field)
+      );
+
+      bill.set(Object.fromEntries(fields));
+      BillingService.recalculate(bill);
+      await bill.save({ session });
+      return bill;
+    });
+  }
+
+  /**
+   * Post a payment to the ledger
+   */
+  static async recordPayment(
+    billId: string,
+    payment: PaymentRequest,
+    staffId?: string
+  ): Promise<BillDocument> {
+    return BillingService.postPayment(billId, payment, false, staffId);
+  }
+
+  /**
+   * Post a deposit taken for the bill's reservation to the ledger
+   */
+  static async recordDeposit(
+    billId: string,
+    payment: PaymentRequest,
+    staffId?: string
+  ): Promise<BillDocument> {
+    return BillingService.postPayment(billId, payment, true, staffId);
+  }
+
+  private static async postPayment(
+    billId: string,
+    payment: PaymentRequest,
+    isDeposit: boolean,
+    staffId?: string
+  ): Promise<BillDocument> {
+    return runInTransaction(async session => {
+      const bill = await BillingService.loadBill(billId, session);
+      BillingService.ensureOpen(bill);
+      if (isDeposit && !bill.reservationId) {
+        throw new AppError('Deposits can only be taken on reservation bills');
+      }
+
+      const amount = roundCurrency(payment.amount);
+      if (amount > bill.balanceDue) {
+        throw new AppError(
+          `Payment exceeds the outstanding balance of ${bill.balanceDue}`
+        );
+      }
+
+      bill.payments.push({
+        ...payment,
+        amount,
+        isDeposit,
+        status: BillPaymentStatus.POSTED,
+        refundedAmount: 0,
+        receivedBy: staffId,
+        receivedAt: new Date(),
+      });
+      bill.paymentMethod = payment.paymentMethod;
+
+      BillingService.recalculate(bill);
+      await bill.save({ session });
+      return bill;
+    });
+  }
+
+  /**
+   * Void a posted payment, keeping it in the ledger for the audit trail
+   */
+  static async voidPayment(
+    billId: string,
+    paymentId: string,
+    reason: string,
+    staffId?: string
+  ): Promise<BillDocument> {
+    return runInTransaction(async session => {
+      const bill = await BillingService.loadBill(billId, session);
+
+      const payment = bill.payments.find(
+        entry => String(entry._id) === paymentId
+      );
+      if (!payment) {
+        throw new AppError('Payment not found', HttpStatusCode.NOT_FOUND);
+      }
+      if (payment.status === BillPaymentStatus.VOIDED) {
+        throw new AppError('Payment is already voided');
+      }
+      if (payment.refundedAmount > 0) {
+        throw new AppError('Payment has refunds and cannot be voided');
+      }
+
+      payment.status = BillPaymentStatus.VOIDED;
+      payment.voidedAt = new Date();
+      payment.voidedBy = staffId;
+      payment.voidReason = reason;
+
+      BillingService.recalculate(bill);
+      await bill.save({ session });
+      return bill;
+    });
+  }
+
+  /**
+   * Refund part or all of a payment and issue a credit note for it
+   * The refund first returns any overpayment; the rest is credited against
+   * the bill's charges, lowering its net amount.
+   */
+  static async refundPayment(
+    billId: string,
+    refund: RefundRequest,
+    staffId?: string
+  ): Promise<RefundResult> {
+    return runInTransaction(async session => {
+      const bill = await BillingService.loadBill(billId, session);
+
+      const payment = bill.payments.find(
+        entry => String(entry._id) === refund.paymentId
+      );
+      if (!payment) {
+        throw new AppError('Payment not found', HttpStatusCode.NOT_FOUND);
+      }
+      if (payment.status === BillPaymentStatus.VOIDED) {
+        throw new AppError('Voided payments cannot be refunded');
+      }
+
+      const amount = roundCurrency(refund.amount);
+      const refundable = roundCurrency(payment.amount - payment.refundedAmount);
+      if (amount > refundable) {
+        throw new AppError(
+          `Refund exceeds the refundable amount of ${refundable} on this payment`
+        );
+      }
+
+      const refundMethod = refund.refundMethod ?? payment.paymentMethod;
+      if (!refundMethod) {
+        throw new AppError('Refund method is required for this payment');
+      }
+
+      BillingService.recalculate(bill);
+      const overpaid = Math.max(0, bill.amountPaid - bill.netAmount);
+      const creditedAmount = roundCurrency(amount - Math.min(amount, overpaid));
+
+      payment.refundedAmount = roundCurrency(payment.refundedAmount + amount);
+      bill.creditedAmount = roundCurrency(bill.creditedAmount + creditedAmount);
+      BillingService.recalculate(bill);
+      await bill.save({ session });
+
+      const sequence = await nextSequence('creditNote', session);
+      const [creditNote] = await CreditNoteModel.create(
+        [
+          {
+            creditNoteNumber: `CN-${String(sequence).padStart(6, '0')}`,
+            billId: bill._id,
+            paymentId: payment._id,
+            guestId: bill.guestId,
+            amount,
+            creditedAmount,
+            refundMethod,
+            reason: refund.reason,
+            notes: refund.notes,
+            issuedBy: staffId,
+          },
+        ],
+        { session }
+      );
+
+      return { bill, creditNote };
+    });
+  }
+
+  /**
+   * Credit notes issued against a bill, oldest first
+   */
+  static async getCreditNotes(billId: string): Promise<CreditNoteDocument[]> {
+    if (!Types.ObjectId.isValid(billId)) {
+      throw new AppError('Invalid bill ID format');
+    }
+    return CreditNoteModel.find({ billId })
+      .populate('issuedBy', 'firstName lastName email')
+      .sort({ issuedAt: 1 });
+  }
+
+  /**
+   * Derive the total from the charges, then amount paid, balance and
+   * status from the ledger
+   */
+  static recalculate(bill: BillDocument): void {
+    BillingService.computeTotals(bill);
+
+    // Bills settled before the ledger existed have no entries to derive from
+    if (
+      bill.payments.length === 0 &&
+      bill.status === PaymentStatus.PAID &&
+      bill.paidDate
+    ) {
+      bill.amountPaid = bill.totalAmount;
+      bill.netAmount = bill.totalAmount;
+      bill.balanceDue = 0;
+      return;
+    }
+
+    const amountPaid = roundCurrency(
+      bill.payments
+        .filter(payment => payment.status === BillPaymentStatus.POSTED)
+        .reduce(
+          (total, payment) =>
+            total + payment.amount - (payment.refundedAmount ?? 0),
+          0
+        )
+    );
+
+    bill.amountPaid = amountPaid;
+    bill.netAmount = roundCurrency(
+      Math.max(0, bill.totalAmount - (bill.creditedAmount ?? 0))
+    );
+    bill.balanceDue = roundCurrency(Math.max(0, bill.netAmount - amountPaid));
+
+    if (bill.status === PaymentStatus.CANCELLED) {
+      return;
+    }
+
+    if (bill.creditedAmount > 0 && bill.netAmount === 0) {
+      bill.status = PaymentStatus.REFUNDED;
+      return;
+    }
+
+    if (amountPaid > 0 && bill.balanceDue === 0) {
+      bill.status = PaymentStatus.PAID;
+      bill.paidDate = bill.paidDate ?? new Date();
+      return;
+    }
+
+    bill.paidDate = undefined;
+    if (amountPaid > 0) {
+      bill.status = PaymentStatus.PARTIAL;
+    } else if (bill.dueDate < new Date()) {
+      bill.status = PaymentStatus.OVERDUE;
+    } else {
+      bill.status = PaymentStatus.PENDING;
+    }
+  }
+
+  /**
+   * Turn the amounts of a bill entered by hand into folio lines
+   * Once a bill has lines its totals are derived from them, so the amounts
+   * must become lines before the first one is added. Amounts that already
+   * include their tax keep it as a tax line instead of being taxed again.
+   */
+  static itemiseOpeningAmounts(bill: BillDocument, alreadyTaxed = true): void {
+    if (bill.charges.length > 0) {
+      return;
+    }
+
+    const postedAt = bill.createdAt ?? new Date();
+    const taxedAt = alreadyTaxed ? postedAt : undefined;
+    const opening: [FolioChargeType, string, number][] = [
+      [FolioChargeType.ROOM, 'Room charges', bill.baseAmount],
+      [FolioChargeType.SERVICE, 'Service charges', bill.serviceCharges],
+    ];
+    for (const [chargeType, description, amount] of opening) {
+      if (amount > 0) {
+        bill.charges.push({
+          chargeType,
+          description,
+          quantity: 1,
+          unitPrice: amount,
+          amount,
+          serviceDate: postedAt,
+          taxedAt,
+          postedAt,
+        });
+      }
+    }
+
+    if (alreadyTaxed && bill.taxAmount > 0) {
+      bill.charges.push({
+        chargeType: FolioChargeType.TAX,
+        description: 'Taxes',
+        quantity: 1,
+        unitPrice: 0,
+        amount: 0,
+        serviceDate: postedAt,
+        taxes: [{ code: 'TAX', name: 'Tax', amount: bill.taxAmount }],
+        taxAmount: bill.taxAmount,
+        taxedAt,
+        postedAt,
+      });
+    }
+  }
+
+  // Lines routed to a master bill, or whose taxes were, no longer count here
+  private static computeTotals(bill: BillDocument): void {
+    if (bill.charges.length > 0) {
+      const lines = bill.charges.filter(charge => !charge.routedToBillId);
+      const taxedLines = lines.filter(charge => !charge.taxesRoutedToBillId);
+      const sum = (types: FolioChargeType[]) =>
+        roundCurrency(
+          lines
+            .filter(charge => types.includes(charge.chargeType))
+            .reduce((total, charge) => total + charge.amount, 0)
+        );
+
+      bill.baseAmount = sum([FolioChargeType.ROOM]);
+      bill.serviceCharges = sum([
+        FolioChargeType.SERVICE,
+        FolioChargeType.LATE_FEE,
+        FolioChargeType.MINIBAR,
+      ]);
+      bill.adjustmentAmount = sum([FolioChargeType.ADJUSTMENT]);
+
+      const breakdown = new Map<string, LineTax>();
+      for (const tax of taxedLines.flatMap(charge => charge.taxes ?? [])) {
+        const entry = breakdown.get(tax.code);
+        breakdown.set(tax.code, {
+          code: tax.code,
+          name: tax.name,
+          amount: roundCurrency((entry?.amount ?? 0) + tax.amount),
+        });
+      }
+      bill.taxBreakdown = [...breakdown.values()];
+      bill.taxAmount = roundCurrency(
+        taxedLines.reduce((total, charge) => total + (charge.taxAmount ?? 0), 0)
+      );
+    }
+
+    bill.totalAmount = roundCurrency(
+      Math.max(
+        0,
+        bill.baseAmount +
+          bill.taxAmount +
+          bill.serviceCharges +
+          (bill.adjustmentAmount ?? 0) +
+          bill.additionalServicesTotal
+      )
+    );
+  }
+
+  private static async loadBill(
+    billId: string,
+    session: ClientSession
+  ): Promise<BillDocument> {
+    if (!Types.ObjectId.isValid(billId)) {
+      throw new AppError('Invalid bill ID format');
+    }
+
+    const bill = await BillModel.findById(billId).session(session);
+    if (!bill) {
+      throw new AppError('Bill not found', HttpStatusCode.NOT_FOUND);
+    }
+    return bill;
+  }
+
+  private static ensureOpen(bill: BillDocument): void {
+    if (bill.status === PaymentStatus.CANCELLED) {
+      throw new AppError('Bill is cancelled');
+    }
+    if (bill.status === PaymentStatus.PAID) {
+      throw new AppError('Bill is already paid');
+    }
+    if (bill.status === PaymentStatus.REFUNDED) {
+      throw new AppError('Bill has been fully refunded');
+    }
+  }
+}
@@ -0,0 +1,440 @@
+import { ClientSession, Model } from 'mongoose';
+import { z } from 'zod';
+import { Permission } from '../config/permissions.config';
+import { HousekeepingTaskModel } from '../models/HousekeepingTask.model';
+import { InventoryItemModel } from '../models/InventoryItem.model';
+import { InventoryTransactionModel } from '../models/InventoryTransaction.model';
+import { MaintenanceRequestModel } from '../models/MaintenanceRequest.model';
+import { RoomModel } from '../models/Room.model';
+import { UserModel } from '../models/User.model';
+import { InventoryTransactionType, TaskStatus } from '../types/models';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { runInTransaction } from '../utils/transaction';
+import { housekeepingValidationSchemas } from '../validations/housekeeping.validation';
+import { inventoryValidationSchemas } from '../validations/inventory.validation';
+import { maintenanceValidationSchemas } from '../validations/maintenance.validation';
+import { roomValidationSchemas } from '../validations/room.validation';
+import { userValidationSchemas } from '../validations/user.validation';
+import { AuthService } from './auth.service';
+import { RoomStatusService } from './roomStatus.service';
+
+export type BulkResource =
+  | 'rooms'
+  | 'users'
+  | 'inventory'
+  | 'housekeeping'
+  | 'maintenance';
+
+export type BulkOperation = 'delete' | 'update' | 'activate' | 'deactivate';
+
+export interface BulkRequest {
+  ids: string[];
+  operation: BulkOperation;
+  data?: Record<string, unknown>;
+  // All items or none: the first failure rolls back the others
+  atomic: boolean;
+}
+
+export interface BulkItemResult {
+  id: string;
+  success: boolean;
+  message: string;
+}
+
+export interface BulkResult {
+  operation: BulkOperation;
+  atomic: boolean;
+  // False when an atomic operation was rolled back
+  applied: boolean;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BulkItemResult[];
+}
+
+interface BulkLayout {
+  label: string;
+  model: Model<any>;
+  // Permission of the matching single-item route, per operation; operations
+  // without one are not supported
+  permissions: Partial<Record<BulkOperation, Permission>>;
+  // Fields an update may set; fields that must stay unique are left out
+  updateSchema: z.ZodType<Record<string, unknown>>;
+  // Model fields from validated update data
+  toUpdate?: (data: Record<string, unknown>) => Record<string, unknown>;
+  // Delete one record; the result says how
+  remove: (record: any, session?: ClientSession) => Promise<string>;
+  afterUpdate?: (
+    previous: Record<string, unknown>,
+    record: any,
+    session: ClientSession | undefined,
+    userId?: string
+  ) => Promise<void>;
+  // Side effects outside the database, once the changes are kept
+  afterCommit?: (operation: BulkOperation, ids: string[]) => Promise<void>;
+}
+
+const hardDelete = async (
+  record: any,
+  session?: ClientSession
+): Promise<string> => {
+  await record.deleteOne({ session });
+  return 'Deleted';
+};
+
+const softDelete = async (
+  record: any,
+  session?: ClientSession
+): Promise<string> => {
+  record.isActive = false;
+  await record.save({ session });
+  return 'Deactivated';
+};
+
+const BULK_LAYOUTS: Record<BulkResource, BulkLayout> = {
+  rooms: {
+    label: 'Room',
+    model: RoomModel,
+    permissions: {
+      update: 'room.manage',
+      delete: 'room.manage',
+      activate: 'room.manage',
+      deactivate: 'room.manage',
+    },
+    // Status changes follow the room status rules, one room at a time
+    updateSchema: roomValidationSchemas.roomUpdate.omit({
+      roomNumber: true,
+      status: true,
+    }),
+    remove: softDelete,
+  },
+  users: {
+    label: 'User',
+    model: UserModel,
+    permissions: {
+      update: 'user.manage',
+      delete: 'user.manage',
+      activate: 'user.manage',
+      deactivate: 'user.manage',
+    },
+    updateSchema: userValidationSchemas.userUpdate.omit({ email: true }),
+    remove: hardDelete,
+    // Deactivated and deleted users lose every open session
+    afterCommit: async (operation, ids) => {
+      if (operation === 'deactivate' || operation === 'delete') {
+        await Promise.all(ids.map(id => AuthService.revokeAllSessions(id)));
+      }
+    },
+  },
+  inventory: {
+    label: 'Inventory item',
+    model: InventoryItemModel,
+    permissions: {
+      update: 'inventory.manage',
+      delete: 'inventory.delete',
+      activate: 'inventory.manage',
+      deactivate: 'inventory.manage',
+    },
+    updateSchema: inventoryValidationSchemas.inventoryItemUpdate,
+    // Items with stock movements are kept for the ledger
+    remove: async (item, session) => {
+      const transactions = await InventoryTransactionModel.countDocuments({
+        itemId: item._id,
+      }).session(session ?? null);
+      return transactions > 0
+        ? softDelete(item, session)
+        : hardDelete(item, session);
+    },
+    afterUpdate: async (previous, item, session, userId) => {
+      const previousQuantity = previous['quantity'] as number;
+      if (item.quantity === previousQuantity) {
+        return;
+      }
+      const difference = Math.abs(item.quantity - previousQuantity);
+      await InventoryTransactionModel.create(
+        [
+          {
+            itemId: item._id,
+            transactionType: InventoryTransactionType.ADJUSTMENT,
+            quantity: difference,
+            unitPrice: item.unitPrice,
+            totalAmount: difference * item.unitPrice,
+            reference: 'Bulk adjustment',
+            performedBy: userId,
+            notes: `Quantity adjusted from ${previousQuantity} to ${item.quantity}`,
+            previousQuantity,
+            newQuantity: item.quantity,
+          },
+        ],
+        { session }
+      );
+    },
+  },
+  housekeeping: {
+    label: 'Housekeeping task',
+    model: HousekeepingTaskModel,
+    permissions: {
+      update: 'housekeeping.manage',
+      delete: 'housekeeping.delete',
+    },
+    updateSchema: housekeepingValidationSchemas.housekeepingTaskUpdate,
+    remove: hardDelete,
+    afterUpdate: async (previous, task, session, userId) => {
+      if (previous['status'] !== TaskStatus.COMPLETED) {
+        await RoomStatusService.afterHousekeepingTask(task, userId, session);
+      }
+    },
+  },
+  maintenance: {
+    label: 'Maintenance request',
+    model: MaintenanceRequestModel,
+    permissions: {
+      update: 'maintenance.manage',
+      delete: 'maintenance.delete',
+    },
+    // Linking an asset checks its room, one request at a time
+    updateSchema: maintenanceValidationSchemas.maintenanceRequestUpdate.omit({
+      assetId: true,
+    }),
+    // Same field names as the single-item update
+    toUpdate: ({ maintenanceType, assignedTo, ...data }) => ({
+      ...data,
+      ...(maintenanceType !== undefined && { category: maintenanceType }),
+      ...(assignedTo !== undefined && { assignedTechnicianId: assignedTo }),
+    }),
+    remove: hardDelete,
+  },
+};
+
+// Thrown inside an atomic run to roll it back once an item has failed
+class BulkRollback extends Error {}
+
+/**
+ * Bulk Service
+ * Applies one operation to many records of a list, reporting the outcome of
+ * each item. Each item goes through the same checks as its single-item
+ * route; in atomic mode the first failure rolls back every change.
+ */
+export class BulkService {
+  /**
+   * The permission an operation needs, the same as its single-item route
+   */
+  static permissionFor(
+    resource: BulkResource,
+    operation: BulkOperation
+  ): Permission {
+    const layout = BULK_LAYOUTS[resource];
+    const permission = layout.permissions[operation];
+    if (!permission) {
+      throw new AppError(
+        `${layout.label}s cannot be ${operation}d in bulk. Supported operations: ${Object.keys(layout.permissions).join(', ')}`
+      );
+    }
+    return permission;
+  }
+
+  /**
+   * Apply an operation to every listed record
+   */
+  static async apply(
+    resource: BulkResource,
+    request: BulkRequest,
+    userId?: string
+  ): Promise<BulkResult> {
+    const layout = BULK_LAYOUTS[resource];
+    BulkService.permissionFor(resource, request.operation);
+    const ids = [...new Set(request.ids)];
+    const data = BulkService.updateData(layout, request);
+
+    let results: BulkItemResult[];
+    let applied = true;
+
+    if (request.atomic) {
+      results = await BulkService.findMissing(layout, ids);
+      if (results.some(result => !result.success)) {
+        applied = false;
+      } else {
+        try {
+          await runInTransaction(async session => {
+            results = [];
+            for (const id of ids) {
+              const result = await BulkService.applyOne(
+                layout,
+                id,
+                request.operation,
+                data,
+                userId,
+                session
+              );
+              results.push(result);
+              if (!result.success) {
+                throw new BulkRollback();
+              }
+            }
+          });
+        } catch (error) {
+          if (!(error instanceof BulkRollback)) {
+            throw error;
+          }
+          applied = false;
+          const attempted = new Set(results.map(result => result.id));
+          results = results
+            .map(result =>
+              result.success
+                ? {
+                    ...result,
+                    success: false,
+                    message: 'Rolled back because another item failed',
+                  }
+                : result
+            )
+            .concat(
+              ids
+                .filter(id => !attempted.has(id))
+                .map(id => ({
+                  id,
+                  success: false,
+                  message: 'Not attempted because another item failed',
+                }))
+            );
+        }
+      }
+    } else {
+      results = [];
+      for (const id of ids) {
+        results.push(
+          await BulkService.applyOne(
+            layout,
+            id,
+            request.operation,
+            data,
+            userId
+          )
+        );
+      }
+    }
+
+    const succeeded = results.filter(result => result.success);
+    if (layout.afterCommit && succeeded.length > 0) {
+      await layout.afterCommit(
+        request.operation,
+        succeeded.map(result => result.id)
+      );
+    }
+
+    return {
+      operation: request.operation,
+      atomic: request.atomic,
+      applied,
+      total: ids.length,
+      succeeded: succeeded.length,
+      failed: ids.length - succeeded.length,
+      results,
+    };
+  }
+
+  // Validated model fields for an update, checked once for every item
+  private static updateData(
+    layout: BulkLayout,
+    request: BulkRequest
+  ): Record<string, unknown> {
+    if (request.operation !== 'update') {
+      return {};
+    }
+
+    const parsed = layout.updateSchema.safeParse(request.data ?? {});
+    if (!parsed.success) {
+      throw new AppError(
+        `Invalid update data: ${parsed.error.issues
+          .map(issue => `${issue.path.join('.') || 'data'}: ${issue.message}`)
+          .join('; ')}`
+      );
+    }
+    // Partial schemas still fill in defaults, which must not overwrite the
+    // fields the caller left out
+    const given = Object.fromEntries(
+      Object.entries(parsed.data).filter(
+        ([field]) => field in (request.data ?? {})
+      )
+    );
+    const data = layout.toUpdate ? layout.toUpdate(given) : given;
+    if (Object.keys(data).length === 0) {
+      throw new AppError('An update needs at least one field to change');
+    }
+    return data;
+  }
+
+  // In atomic mode every record must exist before anything is changed
+  private static async findMissing(
+    layout: BulkLayout,
+    ids: string[]
+  ): Promise<BulkItemResult[]> {
+    const found = await layout.model
+      .find({ _id: { $in: ids } })
+      .select('_id')
+      .lean<{ _id: unknown }[]>();
+    const foundIds = new Set(found.map(record => String(record._id)));
+
+    return ids.map(id =>
+      foundIds.has(id)
+        ? { id, success: true, message: 'Found' }
+        : { id, success: false, message: `${layout.label} not found` }
+    );
+  }
+
+  private static async applyOne(
+    layout: BulkLayout,
+    id: string,
+    operation: BulkOperation,
+    data: Record<string, unknown>,
+    userId?: string,
+    session?: ClientSession
+  ): Promise<BulkItemResult> {
+    try {
+      const record = await layout.model.findById(id).session(session ?? null);
+      if (!record) {
+        return { id, success: false, message: `${layout.label} not found` };
+      }
+
+      switch (operation) {
+        case 'delete':
+          return {
+            id,
+            success: true,
+            message: await layout.remove(record, session),
+          };
+        case 'activate':
+        case 'deactivate':
+          record.isActive = operation === 'activate';
+          await record.save({ session });
+          return {
+            id,
+            success: true,
+            message: operation === 'activate' ? 'Activated' : 'Deactivated',
+          };
+        default: {
+          const previous = record.toObject();
+          record.set(data);
+          await record.save({ session });
+          await layout.afterUpdate?.(previous, record, session, userId);
+          return { id, success: true, message: 'Updated' };
+        }
+      }
+    } catch (error) {
+      if (
+        error instanceof AppError ||
+        (error as Error).name === 'ValidationError'
+      ) {
+        return { id, success: false, message: (error as Error).message };
+      }
+      logger.error('Bulk operation failed for an item', {
+        label: layout.label,
+        id,
+        operation,
+        error,
+      });
+      return { id, success: false, message: `Failed to ${operation} item` };
+    }
+  }
+}
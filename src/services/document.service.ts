@@ -0,0 +1,666 @@
+import { Types } from 'mongoose';
+import { hotelConfig } from '../config/hotel.config';
+import { BillModel } from '../models/Bill.model';
+import { CreditNoteModel } from '../models/CreditNote.model';
+import { ReportDocument } from '../models/Report.model';
+import { AppError } from '../utils/errors';
+import { PdfDocument } from '../utils/pdf';
+import { columns, DocumentTable, tabulate, TableColumn } from '../utils/table';
+import { XlsxCellFormat, XlsxWorkbook } from '../utils/xlsx';
+import { HttpStatusCode } from '../types/api';
+import { BillPaymentStatus, ReportType } from '../types/models';
+
+type Row = Record<string, any>;
+
+interface ReportSection {
+  key: string;
+  title: string;
+  columns: TableColumn[];
+}
+
+/**
+ * A stored report laid out as a summary and tables, ready to be written
+ * in any download format
+ */
+export interface TabularReport {
+  title: string;
+  generatedDate: Date;
+  summary: [string, unknown][];
+  tables: DocumentTable[];
+}
+
+const { text, number, money, date, person } = columns;
+const count = number('Count', 'count');
+
+const REPORT_LAYOUTS: Record<
+  ReportType,
+  { title: string; sections: ReportSection[] }
+> = {
+  [ReportType.OCCUPANCY]: {
+    title: 'Occupancy Report',
+    sections: [
+      {
+        key: 'dailyOccupancy',
+        title: 'Daily occupancy',
+        columns: [
+          text('Date', '_id'),
+          number('Occupied rooms', 'occupiedRooms'),
+        ],
+      },
+      {
+        key: 'reservations',
+        title: 'Reservations',
+        columns: [
+          date('Check-in', 'checkInDate'),
+          date('Check-out', 'checkOutDate'),
+          text('Room', 'roomId.roomNumber'),
+          number('Guests', 'numberOfGuests'),
+          text('Status', 'status'),
+          money('Amount', 'totalAmount'),
+        ],
+      },
+    ],
+  },
+  [ReportType.REVENUE]: {
+    title: 'Revenue Report',
+    sections: [
+      {
+        key: 'revenueByPeriod',
+        title: 'Revenue by period',
+        columns: [
+          text('Period', '_id'),
+          number('Bills', 'billCount'),
+          money('Revenue', 'totalRevenue'),
+        ],
+      },
+      {
+        key: 'bills',
+        title: 'Bills',
+        columns: [
+          date('Date', 'createdAt'),
+          text('Status', 'status'),
+          money('Total', 'totalAmount'),
+          money('Paid', 'amountPaid'),
+          money('Balance', 'balanceDue'),
+        ],
+      },
+    ],
+  },
+  [ReportType.GUEST_FEEDBACK]: {
+    title: 'Guest Feedback Report',
+    sections: [
+      {
+        key: 'ratingDistribution',
+        title: 'Rating distribution',
+        columns: [text('Rating', '_id'), count],
+      },
+      {
+        key: 'categoryBreakdown',
+        title: 'By category',
+        columns: [
+          text('Category', '_id'),
+          count,
+          number('Average rating', 'avgRating'),
+        ],
+      },
+      {
+        key: 'feedback',
+        title: 'Feedback',
+        columns: [
+          date('Date', 'createdAt'),
+          text('Category', 'category'),
+          number('Rating', 'rating'),
+          text('Room', 'roomId.roomNumber'),
+          text('Comment', 'comment', { weight: 3 }),
+        ],
+      },
+    ],
+  },
+  [ReportType.MAINTENANCE]: {
+    title: 'Maintenance Report',
+    sections: [
+      {
+        key: 'statusBreakdown',
+        title: 'By status',
+        columns: [text('Status', '_id'), count],
+      },
+      {
+        key: 'categoryBreakdown',
+        title: 'By category',
+        columns: [
+          text('Category', '_id'),
+          count,
+          money('Average cost', 'avgCost'),
+        ],
+      },
+      {
+        key: 'priorityBreakdown',
+        title: 'By priority',
+        columns: [text('Priority', '_id'), count],
+      },
+      {
+        key: 'requests',
+        title: 'Requests',
+        columns: [
+          date('Date', 'createdAt'),
+          text('Title', 'title', { weight: 2.5 }),
+          text('Category', 'category'),
+          text('Priority', 'priority'),
+          text('Status', 'status'),
+          money('Cost', 'cost'),
+        ],
+      },
+    ],
+  },
+  [ReportType.HOUSEKEEPING]: {
+    title: 'Housekeeping Report',
+    sections: [
+      {
+        key: 'tasksByType',
+        title: 'By task type',
+        columns: [text('Task type', '_id'), count],
+      },
+      {
+        key: 'tasksByStatus',
+        title: 'By status',
+        columns: [text('Status', '_id'), count],
+      },
+      {
+        key: 'staffPerformance',
+        title: 'Staff performance',
+        columns: [
+          text('Staff ID', '_id', { weight: 2 }),
+          number('Completed tasks', 'completedTasks'),
+          number('Average hours', 'avgCompletionTime'),
+        ],
+      },
+      {
+        key: 'tasks',
+        title: 'Tasks',
+        columns: [
+          date('Scheduled', 'scheduledDate'),
+          text('Room', 'roomId.roomNumber'),
+          text('Task type', 'taskType', { weight: 1.5 }),
+          person('Assigned to', 'assignedStaffId'),
+          text('Status', 'status'),
+          date('Completed', 'completedDate'),
+        ],
+      },
+    ],
+  },
+  [ReportType.STAFF_PERFORMANCE]: {
+    title: 'Staff Performance Report',
+    sections: [
+      {
+        key: 'staff',
+        title: 'Staff',
+        columns: [
+          text('First name', 'firstName'),
+          text('Last name', 'lastName'),
+          text('Email', 'email', { weight: 2 }),
+          text('Role', 'role'),
+          text('Active', 'isActive'),
+        ],
+      },
+      {
+        key: 'taskCompletion',
+        title: 'Task completion',
+        columns: [
+          text('Staff ID', '_id', { weight: 2 }),
+          number('Tasks', 'totalTasks'),
+          number('Completed', 'completedTasks'),
+        ],
+      },
+      {
+        key: 'ratings',
+        title: 'Staff ratings',
+        columns: [
+          number('Average rating', 'avgRating'),
+          number('Ratings', 'totalRatings'),
+        ],
+      },
+    ],
+  },
+};
+
+const humanize = (key: string): string => {
+  const words = key
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/_/g, ' ')
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const formatDate = (date: Date | undefined): string =>
+  date ? new Date(date).toISOString().slice(0, 10) : '';
+
+const formatMoney = (value: number): string =>
+  value.toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+/**
+ * Document Service
+ * Renders bills and stored reports as downloadable documents.
+ */
+export class DocumentService {
+  /**
+   * Text of a table value as printed in a document
+   */
+  static formatValue(value: unknown, format?: XlsxCellFormat): string {
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (value instanceof Date) {
+      return formatDate(value);
+    }
+    if (typeof value === 'number') {
+      if (format === 'currency') {
+        return formatMoney(value);
+      }
+      return Number.isInteger(value) ? String(value) : value.toFixed(2);
+    }
+    if (typeof value === 'boolean') {
+      return value ? 'Yes' : 'No';
+    }
+    if (value instanceof Types.ObjectId) {
+      return value.toHexString();
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => DocumentService.formatValue(item)).join(', ');
+    }
+    if (value && typeof value === 'object') {
+      return Object.entries(value)
+        .map(([key, item]) => `${key}: ${DocumentService.formatValue(item)}`)
+        .join(', ');
+    }
+    return '';
+  }
+
+  /**
+   * Lay out a stored report as its summary and the tables of its type
+   */
+  static tabulateReport(report: ReportDocument): TabularReport {
+    const layout = REPORT_LAYOUTS[report.reportType];
+    const data: Row = report.data ?? {};
+
+    const summary = Object.entries(data.summary ?? {})
+      .filter(([, value]) => value !== undefined)
+      .flatMap(([key, value]): [string, unknown][] =>
+        key === 'period' && value && typeof value === 'object'
+          ? [
+              ['Period start', (value as Row).startDate],
+              ['Period end', (value as Row).endDate],
+            ]
+          : [[humanize(key), value]]
+      );
+
+    const tables = layout.sections
+      .filter(section => Array.isArray(data[section.key]))
+      .map(section =>
+        tabulate(section.title, section.columns, data[section.key] as Row[])
+      );
+
+    return {
+      title: layout.title,
+      generatedDate: report.generatedDate,
+      summary,
+      tables,
+    };
+  }
+
+  /**
+   * Render a stored report as a PDF
+   */
+  static renderReportPdf(report: ReportDocument): Buffer {
+    const { title, generatedDate, summary, tables } =
+      DocumentService.tabulateReport(report);
+    return DocumentService.writePdf(title, generatedDate, summary, tables);
+  }
+
+  /**
+   * Render a stored report as an XLSX workbook
+   * A summary sheet comes first, then one sheet per table of the report.
+   */
+  static renderReportXlsx(report: ReportDocument): Buffer {
+    const { title, generatedDate, summary, tables } =
+      DocumentService.tabulateReport(report);
+
+    const workbook = new XlsxWorkbook();
+    workbook.addSheet({
+      name: 'Summary',
+      columns: [{ header: 'Item' }, { header: 'Value' }],
+      rows: [
+        ['Report', title],
+        ['Generated', generatedDate],
+        ...summary.map(([label, value]) => [
+          label,
+          DocumentService.cellValue(value),
+        ]),
+      ],
+    });
+    DocumentService.addSheets(workbook, tables);
+    return workbook.toBuffer();
+  }
+
+  /**
+   * Render a list of records as a PDF
+   */
+  static renderListPdf(table: DocumentTable): Buffer {
+    return DocumentService.writePdf(table.title, new Date(), [], [table]);
+  }
+
+  /**
+   * Render a list of records as a single-sheet XLSX workbook
+   */
+  static renderListXlsx(table: DocumentTable): Buffer {
+    const workbook = new XlsxWorkbook();
+    DocumentService.addSheets(workbook, [table]);
+    return workbook.toBuffer();
+  }
+
+  /**
+   * Render the invoice of a bill as a PDF
+   * Lists the folio lines still on the bill with their taxes, the tax
+   * breakdown, payments and credit notes.
+   */
+  static async renderInvoice(billId: string): Promise<Buffer> {
+    if (!Types.ObjectId.isValid(billId)) {
+      throw new AppError('Invalid bill ID format');
+    }
+
+    const [bill, creditNotes] = await Promise.all([
+      BillModel.findById(billId)
+        .populate('guestId', 'firstName lastName email phone')
+        .populate('roomId', 'roomNumber roomType')
+        .populate('reservationId', 'checkInDate checkOutDate'),
+      CreditNoteModel.find({ billId }).sort({ issuedAt: 1 }),
+    ]);
+    if (!bill) {
+      throw new AppError('Bill not found', HttpStatusCode.NOT_FOUND);
+    }
+
+    const guest = bill.guestId as unknown as Row | null;
+    const room = bill.roomId as unknown as Row | null;
+    const reservation = bill.reservationId as unknown as Row | null;
+    const currency = hotelConfig.currency;
+    const doc = DocumentService.createDocument(`Invoice ${bill._id}`);
+
+    doc.text('INVOICE', { size: 18, bold: true });
+    doc.moveDown(6);
+
+    const top = doc.y;
+    doc.keyValues(
+      [
+        ['Invoice no.', String(bill._id).toUpperCase()],
+        ['Date', formatDate(bill.createdAt)],
+        ['Due date', formatDate(bill.dueDate)],
+        ['Status', humanize(bill.status)],
+      ],
+      { width: 220, align: 'right' }
+    );
+    const bottom = doc.y;
+
+    doc.moveDown(top - bottom);
+    doc.text('Bill to', { bold: true });
+    if (guest) {
+      doc.text(`${guest.firstName} ${guest.lastName}`);
+      doc.text([guest.email, guest.phone].filter(Boolean).join(' | '));
+    }
+    if (room) {
+      doc.text(`Room ${room.roomNumber} (${humanize(room.roomType ?? '')})`);
+    }
+    if (reservation) {
+      doc.text(
+        `Stay ${formatDate(reservation.checkInDate)} to ${formatDate(
+          reservation.checkOutDate
+        )}`
+      );
+    }
+    doc.moveDown(Math.max(bottom - doc.y, 0) + 16);
+
+    const lines = bill.charges.filter(charge => !charge.routedToBillId);
+    const rows: string[][] = lines.map(charge => [
+      formatDate(charge.serviceDate),
+      charge.description,
+      String(charge.quantity),
+      formatMoney(charge.unitPrice),
+      charge.taxesRoutedToBillId
+        ? 'routed'
+        : formatMoney(charge.taxAmount ?? 0),
+      formatMoney(charge.amount),
+    ]);
+    if (bill.charges.length === 0) {
+      const opening: [string, number][] = [
+        ['Room charges', bill.baseAmount],
+        ['Service charges', bill.serviceCharges],
+      ];
+      for (const [description, total] of opening) {
+        if (total > 0) {
+          rows.push([
+            formatDate(bill.createdAt),
+            description,
+            '1',
+            formatMoney(total),
+            '',
+            formatMoney(total),
+          ]);
+        }
+      }
+    }
+    for (const service of bill.additionalServices) {
+      rows.push([
+        formatDate(service.serviceDate),
+        service.serviceName,
+        String(service.quantity),
+        formatMoney(service.unitPrice),
+        '',
+        formatMoney(service.totalPrice),
+      ]);
+    }
+
+    doc.text('Charges', { size: 12, bold: true });
+    doc.moveDown(4);
+    doc.table(
+      [
+        { header: 'Date', weight: 1.1 },
+        { header: 'Description', weight: 3 },
+        { header: 'Qty', weight: 0.6, align: 'right' },
+        { header: 'Unit price', align: 'right' },
+        { header: 'Tax', align: 'right' },
+        { header: `Amount (${currency})`, weight: 1.3, align: 'right' },
+      ],
+      rows
+    );
+    const routedCount = bill.charges.length - lines.length;
+    if (routedCount > 0) {
+      doc.moveDown(4);
+      doc.text(
+        `${routedCount} charge(s) were moved to the group's master bill.`,
+        { size: 9, gray: 0.35 }
+      );
+    }
+    doc.moveDown(10);
+
+    const totals: [string, string][] = [
+      ['Room charges', formatMoney(bill.baseAmount)],
+      ['Service charges', formatMoney(bill.serviceCharges)],
+    ];
+    if (bill.additionalServices.length > 0) {
+      totals.push([
+        'Additional services',
+        formatMoney(bill.additionalServicesTotal),
+      ]);
+    }
+    if (bill.adjustmentAmount) {
+      totals.push(['Adjustments', formatMoney(bill.adjustmentAmount)]);
+    }
+    if (bill.taxBreakdown.length > 0) {
+      for (const tax of bill.taxBreakdown) {
+        totals.push([`${tax.name} (${tax.code})`, formatMoney(tax.amount)]);
+      }
+    } else if (bill.taxAmount > 0) {
+      totals.push(['Tax', formatMoney(bill.taxAmount)]);
+    }
+    totals.push([`Total (${currency})`, formatMoney(bill.totalAmount)]);
+    if (bill.creditedAmount > 0) {
+      totals.push(['Credited', formatMoney(-bill.creditedAmount)]);
+      totals.push(['Net amount', formatMoney(bill.netAmount)]);
+    }
+    totals.push(['Paid', formatMoney(bill.amountPaid)]);
+    totals.push([`Balance due (${currency})`, formatMoney(bill.balanceDue)]);
+    doc.keyValues(totals, { width: 240, align: 'right' });
+    doc.moveDown(16);
+
+    if (bill.payments.length > 0) {
+      doc.ensureSpace(60);
+      doc.text('Payments', { size: 12, bold: true });
+      doc.moveDown(4);
+      doc.table(
+        [
+          { header: 'Date', weight: 1.1 },
+          { header: 'Method', weight: 1.4 },
+          { header: 'Reference', weight: 1.6 },
+          { header: 'Status' },
+          { header: 'Refunded', align: 'right' },
+          { header: 'Amount', align: 'right' },
+        ],
+        bill.payments.map(payment => [
+          formatDate(payment.receivedAt),
+          payment.isDeposit ? 'Deposit' : humanize(payment.paymentMethod ?? ''),
+          payment.reference ?? '',
+          humanize(payment.status),
+          payment.refundedAmount ? formatMoney(payment.refundedAmount) : '',
+          payment.status === BillPaymentStatus.VOIDED
+            ? `(${formatMoney(payment.amount)})`
+            : formatMoney(payment.amount),
+        ])
+      );
+      doc.moveDown(16);
+    }
+
+    if (creditNotes.length > 0) {
+      doc.ensureSpace(60);
+      doc.text('Credit notes', { size: 12, bold: true });
+      doc.moveDown(4);
+      doc.table(
+        [
+          { header: 'Number', weight: 1.2 },
+          { header: 'Date', weight: 1.1 },
+          { header: 'Reason', weight: 3 },
+          { header: 'Amount', align: 'right' },
+        ],
+        creditNotes.map(note => [
+          note.creditNoteNumber,
+          formatDate(note.issuedAt),
+          note.reason,
+          formatMoney(note.amount),
+        ])
+      );
+    }
+
+    return doc.toBuffer();
+  }
+
+  // Title, summary and tables under the letterhead
+  private static writePdf(
+    title: string,
+    generatedDate: Date,
+    summary: [string, unknown][],
+    tables: DocumentTable[]
+  ): Buffer {
+    const doc = DocumentService.createDocument(title);
+
+    doc.text(title, { size: 18, bold: true });
+    doc.text(`Generated ${formatDate(generatedDate)}`, { gray: 0.35 });
+    doc.moveDown(12);
+
+    if (summary.length > 0) {
+      doc.text('Summary', { size: 12, bold: true });
+      doc.moveDown(4);
+      doc.keyValues(
+        summary.map(([label, value]) => [
+          label,
+          DocumentService.formatValue(value),
+        ]),
+        { width: 280 }
+      );
+      doc.moveDown(12);
+    }
+
+    for (const table of tables) {
+      doc.ensureSpace(60);
+      doc.text(table.title, { size: 12, bold: true });
+      doc.moveDown(4);
+      if (table.rows.length === 0) {
+        doc.text('No entries', { gray: 0.35 });
+      } else {
+        doc.table(
+          table.columns.map(column => ({
+            header: column.label,
+            align: column.align,
+            weight: column.weight,
+          })),
+          table.rows.map(row =>
+            row.map((value, index) =>
+              DocumentService.formatValue(value, table.columns[index].format)
+            )
+          )
+        );
+      }
+      doc.moveDown(14);
+    }
+
+    return doc.toBuffer();
+  }
+
+  private static addSheets(
+    workbook: XlsxWorkbook,
+    tables: DocumentTable[]
+  ): void {
+    for (const table of tables) {
+      workbook.addSheet({
+        name: table.title,
+        columns: table.columns.map(column => ({
+          header: column.label,
+          format: column.format,
+        })),
+        rows: table.rows.map(row =>
+          row.map(value => DocumentService.cellValue(value))
+        ),
+      });
+    }
+  }
+
+  // Dates, numbers and booleans stay typed; anything else becomes text
+  private static cellValue(value: unknown): unknown {
+    return value instanceof Date ||
+      typeof value === 'number' ||
+      typeof value === 'boolean'
+      ? value
+      : DocumentService.formatValue(value);
+  }
+
+  // A document with the hotel letterhead at the top of every page
+  private static createDocument(title: string): PdfDocument {
+    return new PdfDocument({
+      title,
+      author: hotelConfig.name,
+      header: doc => {
+        doc.text(hotelConfig.name, { size: 16, bold: true });
+        const details = [
+          hotelConfig.address,
+          [hotelConfig.phone, hotelConfig.email].filter(Boolean).join(' | '),
+          hotelConfig.taxId ? `Tax ID ${hotelConfig.taxId}` : '',
+        ].filter(Boolean);
+        for (const line of details) {
+          doc.text(line, { size: 9, gray: 0.35 });
+        }
+        doc.moveDown(6);
+        doc.rule();
+        doc.moveDown(16);
+      },
+    });
+  }
+}
@@ -0,0 +1,273 @@
+import { Model } from 'mongoose';
+import { Readable } from 'stream';
+import { BillModel } from '../models/Bill.model';
+import { InventoryItemModel } from '../models/InventoryItem.model';
+import { ReservationModel } from '../models/Reservation.model';
+import { DocumentService } from './document.service';
+import { AppError } from '../utils/errors';
+import { createCsvStream, CSV_CONTENT_TYPE, CsvDelimiter } from '../utils/csv';
+import { columns, tabulate, TableColumn } from '../utils/table';
+import { XLSX_CONTENT_TYPE } from '../utils/xlsx';
+
+export type ExportResource = 'bills' | 'reservations' | 'inventory';
+
+export interface ExportRequest {
+  format: 'json' | 'csv' | 'excel' | 'pdf';
+  filters?: Record<string, unknown>;
+  fields?: string[];
+  includeInactive: boolean;
+  delimiter?: CsvDelimiter;
+  bom?: boolean;
+}
+
+export interface ExportFile {
+  content: Buffer | string | Readable;
+  contentType: string;
+  filename: string;
+}
+
+interface ExportLayout {
+  title: string;
+  model: Model<any>;
+  populate?: [string, string][];
+  sort: Record<string, 1 | -1>;
+  // Fields that may be filtered on, by equality or a list of values
+  filterable: string[];
+  // Columns by the field name callers select them with
+  columns: Record<string, TableColumn>;
+}
+
+// Larger lists should be narrowed down with filters
+export const EXPORT_ROW_LIMIT = 10000;
+
+const { text, number, money, date, person } = columns;
+
+const EXPORT_LAYOUTS: Record<ExportResource, ExportLayout> = {
+  bills: {
+    title: 'Bills',
+    model: BillModel,
+    populate: [
+      ['guestId', 'firstName lastName email'],
+      ['roomId', 'roomNumber'],
+    ],
+    sort: { createdAt: -1 },
+    filterable: [
+      'status',
+      'guestId',
+      'roomId',
+      'paymentMethod',
+      'groupBookingId',
+      'isMasterBill',
+    ],
+    columns: {
+      _id: text('Bill ID', '_id', { weight: 2 }),
+      createdAt: date('Date', 'createdAt'),
+      guest: person('Guest', 'guestId'),
+      room: text('Room', 'roomId.roomNumber'),
+      status: text('Status', 'status'),
+      dueDate: date('Due date', 'dueDate'),
+      totalAmount: money('Total', 'totalAmount'),
+      taxAmount: money('Tax', 'taxAmount'),
+      amountPaid: money('Paid', 'amountPaid'),
+      creditedAmount: money('Credited', 'creditedAmount'),
+      balanceDue: money('Balance', 'balanceDue'),
+    },
+  },
+  reservations: {
+    title: 'Reservations',
+    model: ReservationModel,
+    populate: [
+      ['guestId', 'firstName lastName email'],
+      ['roomId', 'roomNumber'],
+    ],
+    sort: { checkInDate: -1 },
+    filterable: [
+      'status',
+      'source',
+      'guestId',
+      'roomId',
+      'groupBookingId',
+      'ratePlanId',
+    ],
+    columns: {
+      _id: text('Reservation ID', '_id', { weight: 2 }),
+      guest: person('Guest', 'guestId'),
+      room: text('Room', 'roomId.roomNumber'),
+      checkInDate: date('Check-in', 'checkInDate'),
+      checkOutDate: date('Check-out', 'checkOutDate'),
+      numberOfGuests: number('Guests', 'numberOfGuests'),
+      status: text('Status', 'status'),
+      source: text('Source', 'source'),
+      totalAmount: money('Amount', 'totalAmount'),
+      depositAmount: money('Deposit', 'depositAmount'),
+      createdAt: date('Booked', 'createdAt'),
+    },
+  },
+  inventory: {
+    title: 'Inventory Items',
+    model: InventoryItemModel,
+    sort: { name: 1 },
+    filterable: ['type', 'status', 'category', 'supplier', 'location'],
+    columns: {
+      sku: text('SKU', 'sku'),
+      name: text('Name', 'name', { weight: 2 }),
+      category: text('Category', 'category'),
+      type: text('Type', 'type'),
+      status: text('Status', 'status'),
+      quantity: number('Quantity', 'quantity'),
+      minQuantity: number('Min quantity', 'minQuantity'),
+      unitPrice: money('Unit price', 'unitPrice'),
+      totalValue: money('Total value', 'totalValue'),
+      supplier: text('Supplier', 'supplier'),
+      location: text('Location', 'location'),
+      expiryDate: date('Expiry', 'expiryDate'),
+      lastRestocked: date('Last restocked', 'lastRestocked'),
+    },
+  },
+};
+
+const isScalar = (value: unknown): value is string | number | boolean =>
+  ['string', 'number', 'boolean'].includes(typeof value);
+
+/**
+ * Export Service
+ * Writes the records of a list endpoint to a downloadable file, with the
+ * columns and filters chosen by the caller.
+ */
+export class ExportService {
+  /**
+   * Export the records of a list as CSV, JSON, an XLSX workbook or a PDF
+   * CSV is streamed from a database cursor, so it has no row limit.
+   */
+  static async exportList(
+    resource: ExportResource,
+    request: ExportRequest
+  ): Promise<ExportFile> {
+    const layout = EXPORT_LAYOUTS[resource];
+    const selected = ExportService.selectColumns(layout, request.fields);
+    const filter = ExportService.buildFilter(layout, request);
+    const filename = `${resource}_${new Date().toISOString().slice(0, 10)}`;
+
+    if (request.format === 'csv') {
+      const cursor = ExportService.find(layout, filter).cursor();
+      const rows = (async function* () {
+        for await (const record of cursor) {
+          yield Object.fromEntries(
+            selected.map(([name, column]) => [name, column.value(record)])
+          );
+        }
+      })();
+
+      return {
+        content: createCsvStream(
+          rows,
+          selected.map(([name]) => name),
+          { delimiter: request.delimiter, bom: request.bom }
+        ),
+        contentType: CSV_CONTENT_TYPE,
+        filename: `${filename}.csv`,
+      };
+    }
+
+    const total = await layout.model.countDocuments(filter);
+    if (total > EXPORT_ROW_LIMIT) {
+      throw new AppError(
+        `Exports are limited to ${EXPORT_ROW_LIMIT} rows, this one has ${total}; narrow it down with filters or export as CSV`
+      );
+    }
+
+    const records = await ExportService.find(layout, filter);
+    const table = tabulate(
+      layout.title,
+      selected.map(([, column]) => column),
+      records
+    );
+
+    switch (request.format) {
+      case 'excel':
+        return {
+          content: DocumentService.renderListXlsx(table),
+          contentType: XLSX_CONTENT_TYPE,
+          filename: `${filename}.xlsx`,
+        };
+      case 'pdf':
+        return {
+          content: DocumentService.renderListPdf(table),
+          contentType: 'application/pdf',
+          filename: `${filename}.pdf`,
+        };
+      default:
+        return {
+          content: JSON.stringify(
+            table.rows.map(row =>
+              Object.fromEntries(
+                selected.map(([name], index) => [name, row[index]])
+              )
+            ),
+            null,
+            2
+          ),
+          contentType: 'application/json',
+          filename: `${filename}.json`,
+        };
+    }
+  }
+
+  private static find(layout: ExportLayout, filter: Record<string, unknown>) {
+    let query = layout.model.find(filter).sort(layout.sort);
+    for (const [path, select] of layout.populate ?? []) {
+      query = query.populate(path, select);
+    }
+    return query.lean<Record<string, unknown>[]>();
+  }
+
+  // All columns unless the caller picked some, in the order picked
+  private static selectColumns(
+    layout: ExportLayout,
+    fields: string[] | undefined
+  ): [string, TableColumn][] {
+    if (!fields || fields.length === 0) {
+      return Object.entries(layout.columns);
+    }
+
+    const unknown = fields.filter(name => !(name in layout.columns));
+    if (unknown.length > 0) {
+      throw new AppError(
+        `Unknown export fields: ${unknown.join(', ')}. Available fields: ${Object.keys(
+          layout.columns
+        ).join(', ')}`
+      );
+    }
+    return fields.map(name => [name, layout.columns[name]]);
+  }
+
+  // Only known fields with plain values, so filters cannot carry operators
+  private static buildFilter(
+    layout: ExportLayout,
+    request: ExportRequest
+  ): Record<string, unknown> {
+    const filter: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(request.filters ?? {})) {
+      if (!layout.filterable.includes(key)) {
+        throw new AppError(
+          `Cannot filter ${layout.title.toLowerCase()} by ${key}. Filterable fields: ${layout.filterable.join(', ')}`
+        );
+      }
+      if (Array.isArray(value) && value.every(isScalar)) {
+        filter[key] = { $in: value };
+      } else if (isScalar(value)) {
+        filter[key] = value;
+      } else {
+        throw new AppError(
+          `Filter ${key} must be a string, number, boolean or a list of them`
+        );
+      }
+    }
+
+    if (!request.includeInactive && layout.model.schema.path('isActive')) {
+      filter['isActive'] = true;
+    }
+    return filter;
+  }
+}
@@ -0,0 +1,717 @@
+import { ClientSession, Types } from 'mongoose';
+import { BillModel, BillDocument } from '../models/Bill.model';
+import { CheckInModel, CheckInDocument } from '../models/CheckIn.model';
+import { CheckOutModel } from '../models/CheckOut.model';
+import { GroupBookingModel } from '../models/GroupBooking.model';
+import {
+  ReservationModel,
+  ReservationDocument,
+} from '../models/Reservation.model';
+import { ServiceRequestModel } from '../models/ServiceRequest.model';
+import { BillingService } from './billing.service';
+import { TaxService } from './tax.service';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { DAY_MS, getStayNights, startOfUtcDay } from '../utils/dates';
+import { roundCurrency } from '../utils/money';
+import { runInTransaction } from '../utils/transaction';
+import { HttpStatusCode } from '../types/api';
+import {
+  BillChargeType,
+  FolioCharge,
+  FolioChargeType,
+  LineTax,
+  PaymentStatus,
+  RoomMove,
+  RoomMoveCharge,
+  ServiceStatus,
+} from '../types/models';
+
+export interface MinibarItem {
+  itemName: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface AdjustmentRequest {
+  amount: number;
+  description: string;
+  reason: string;
+}
+
+export interface NightAuditResult {
+  checkIns: number;
+  roomCharges: number;
+  serviceCharges: number;
+  failed: string[];
+}
+
+// Group billing route that moves each kind of folio line to the master bill
+const ROUTED_AS: Partial<Record<FolioChargeType, BillChargeType>> = {
+  [FolioChargeType.ROOM]: BillChargeType.ROOM,
+  [FolioChargeType.SERVICE]: BillChargeType.SERVICE_CHARGE,
+  [FolioChargeType.LATE_FEE]: BillChargeType.SERVICE_CHARGE,
+  [FolioChargeType.MINIBAR]: BillChargeType.SERVICE_CHARGE,
+};
+
+type NewCharge = Omit<FolioCharge, 'postedAt'>;
+
+/**
+ * Folio Service
+ * Posts charges to the bill of a stay as they happen: each night of an
+ * active check-in, completed service requests with a cost, late fees and
+ * minibar usage, plus staff adjustments. Posting is idempotent, so the
+ * night audit can be re-run to catch up on anything missed.
+ */
+export class FolioService {
+  /**
+   * Open (or find) the bill of a check-in and post the nights so far
+   * After check-out this posts any nights before departure day still missing.
+   */
+  static async openFolio(checkInId: string): Promise<BillDocument> {
+    return runInTransaction(async session => {
+      const checkIn = await FolioService.loadCheckIn(checkInId, session);
+      const { bill, reservation } = await FolioService.findFolio(
+        checkIn,
+        session
+      );
+
+      FolioService.addRoomCharges(
+        bill,
+        checkIn,
+        reservation,
+        FolioService.lastChargeableNight(checkIn)
+      );
+      await FolioService.saveFolio(bill, session);
+      return bill;
+    });
+  }
+
+  /**
+   * Post the room charges of every night of the stay that has started
+   */
+  static async postRoomCharges(billId: string): Promise<BillDocument> {
+    return runInTransaction(async session => {
+      const bill = await FolioService.loadBill(billId, session);
+      if (!bill.checkInId) {
+        throw new AppError('Bill is not linked to a check-in');
+      }
+
+      const checkIn = await FolioService.loadCheckIn(
+        String(bill.checkInId),
+        session
+      );
+      const reservation = await FolioService.loadReservation(checkIn, session);
+
+      FolioService.addRoomCharges(
+        bill,
+        checkIn,
+        reservation,
+        FolioService.lastChargeableNight(checkIn)
+      );
+      await FolioService.saveFolio(bill, session);
+      return bill;
+    });
+  }
+
+  /**
+   * Post a completed service request with a cost to the guest's stay
+   * Returns null when the guest has no stay in progress to charge.
+   */
+  static async postServiceCharge(
+    serviceRequestId: string
+  ): Promise<BillDocument | null> {
+    return runInTransaction(async session => {
+      const serviceRequest =
+        await ServiceRequestModel.findById(serviceRequestId).session(session);
+      if (!serviceRequest) {
+        throw new AppError(
+          'Service request not found',
+          HttpStatusCode.NOT_FOUND
+        );
+      }
+      if (
+        serviceRequest.status !== ServiceStatus.COMPLETED ||
+        !serviceRequest.cost
+      ) {
+        return null;
+      }
+
+      const checkIn = await CheckInModel.findOne({
+        guestId: serviceRequest.guestId,
+        checkOutTime: { $exists: false },
+      })
+        .sort({ checkInTime: -1 })
+        .session(session);
+      if (!checkIn) {
+        return null;
+      }
+
+      const { bill } = await FolioService.findFolio(checkIn, session);
+      if (
+        FolioService.addServiceCharge(bill, {
+          _id: String(serviceRequest._id),
+          serviceType: serviceRequest.serviceType,
+          description: serviceRequest.description,
+          cost: serviceRequest.cost,
+          completedDate: serviceRequest.completedDate,
+        })
+      ) {
+        await FolioService.saveFolio(bill, session);
+      }
+      return bill;
+    });
+  }
+
+  /**
+   * Post the late check-out fee of a check-out; one per check-out
+   */
+  static async postLateFee(
+    checkOutId: string,
+    amount: number,
+    reason: string | undefined,
+    staffId?: string
+  ): Promise<BillDocument> {
+    return runInTransaction(async session => {
+      const checkOut =
+        await CheckOutModel.findById(checkOutId).session(session);
+      if (!checkOut) {
+        throw new AppError('Check-out not found', HttpStatusCode.NOT_FOUND);
+      }
+
+      const checkIn = await FolioService.loadCheckIn(
+        String(checkOut.checkInId),
+        session
+      );
+      const { bill } = await FolioService.findFolio(checkIn, session);
+
+      const alreadyPosted = bill.charges.some(
+        charge =>
+          charge.chargeType === FolioChargeType.LATE_FEE &&
+          String(charge.sourceId) === checkOutId
+      );
+      if (alreadyPosted) {
+        throw new AppError(
+          'A late fee has already been posted for this check-out',
+          HttpStatusCode.CONFLICT
+        );
+      }
+
+      FolioService.addCharge(bill, {
+        chargeType: FolioChargeType.LATE_FEE,
+        description: reason || 'Late check-out fee',
+        quantity: 1,
+        unitPrice: roundCurrency(amount),
+        amount: roundCurrency(amount),
+        serviceDate: new Date(),
+        sourceId: checkOutId,
+        postedBy: staffId,
+      });
+      await FolioService.saveFolio(bill, session);
+      return bill;
+    });
+  }
+
+  /**
+   * Post minibar consumption to a bill
+   */
+  static async postMinibar(
+    billId: string,
+    items: MinibarItem[],
+    staffId?: string
+  ): Promise<BillDocument> {
+    return runInTransaction(async session => {
+      const bill = await FolioService.loadBill(billId, session);
+
+      const serviceDate = new Date();
+      for (const item of items) {
+        FolioService.addCharge(bill, {
+          chargeType: FolioChargeType.MINIBAR,
+          description: item.itemName,
+          quantity: item.quantity,
+          unitPrice: roundCurrency(item.unitPrice),
+          amount: roundCurrency(item.quantity * item.unitPrice),
+          serviceDate,
+          postedBy: staffId,
+        });
+      }
+
+      await FolioService.saveFolio(bill, session);
+      return bill;
+    });
+  }
+
+  /**
+   * Post a staff adjustment; negative amounts reduce the bill
+   */
+  static async postAdjustment(
+    billId: string,
+    adjustment: AdjustmentRequest,
+    staffId?: string
+  ): Promise<BillDocument> {
+    return runInTransaction(async session => {
+      const bill = await FolioService.loadBill(billId, session);
+
+      const amount = roundCurrency(adjustment.amount);
+      if (bill.grandTotal + amount < 0) {
+        throw new AppError('Adjustment would make the bill total negative');
+      }
+
+      FolioService.addCharge(bill, {
+        chargeType: FolioChargeType.ADJUSTMENT,
+        description: adjustment.description,
+        quantity: 1,
+        unitPrice: amount,
+        amount,
+        serviceDate: new Date(),
+        reason: adjustment.reason,
+        postedBy: staffId,
+      });
+      await FolioService.saveFolio(bill, session);
+      return bill;
+    });
+  }
+
+  /**
+   * Post the rate difference of a room move to the stay's bill, within the
+   * move's transaction; a complimentary move is posted at no charge so the
+   * folio still shows it. The bill follows the stay to its new room.
+   */
+  static async postRoomMove(
+    checkIn: CheckInDocument,
+    move: RoomMove,
+    session: ClientSession
+  ): Promise<BillDocument> {
+    const { bill } = await FolioService.findFolio(checkIn, session);
+    bill.roomId = checkIn.roomId;
+
+    if (bill.grandTotal + move.chargedAmount < 0) {
+      throw new AppError('Room move would make the bill total negative');
+    }
+
+    const nights = `${move.nights} night${move.nights === 1 ? '' : 's'}`;
+    FolioService.addCharge(bill, {
+      chargeType: FolioChargeType.ADJUSTMENT,
+      description:
+        move.charge === RoomMoveCharge.COMPLIMENTARY
+          ? `Complimentary move from room ${move.fromRoomNumber} to ${move.toRoomNumber} (${nights}, ${move.rateDifference.toFixed(2)} waived)`
+          : `Room move from ${move.fromRoomNumber} to ${move.toRoomNumber}: rate difference for ${nights}`,
+      quantity: 1,
+      unitPrice: move.chargedAmount,
+      amount: move.chargedAmount,
+      serviceDate: move.movedAt,
+      sourceId: String(checkIn._id),
+      reason: move.reason,
+      postedBy: move.movedBy,
+    });
+    await FolioService.saveFolio(bill, session);
+    return bill;
+  }
+
+  /**
+   * Rate of one night of a reservation: its quoted rate, else an even share
+   * of the total
+   */
+  static nightlyRate(
+    reservation: ReservationDocument,
+    night: Date,
+    nightCount: number
+  ): number {
+    const quoted = reservation.nightlyRates?.find(
+      entry => startOfUtcDay(entry.date).getTime() === night.getTime()
+    );
+    return roundCurrency(
+      quoted ? quoted.rate : reservation.totalAmount / nightCount
+    );
+  }
+
+  /**
+   * Post outstanding room nights and service charges of every stay in progress
+   * Each stay is posted in its own transaction so one failure does not
+   * hold back the rest.
+   */
+  static async runNightAudit(
+    asOf: Date = new Date()
+  ): Promise<NightAuditResult> {
+    const result: NightAuditResult = {
+      checkIns: 0,
+      roomCharges: 0,
+      serviceCharges: 0,
+      failed: [],
+    };
+    const throughNight = startOfUtcDay(asOf);
+
+    const activeCheckIns = await CheckInModel.find({
+      checkOutTime: { $exists: false },
+    }).select('_id');
+
+    for (const { _id } of activeCheckIns) {
+      let reservationId: string | undefined;
+      try {
+        await runInTransaction(async session => {
+          const checkIn = await FolioService.loadCheckIn(String(_id), session);
+          reservationId = String(checkIn.reservationId);
+          const { bill, reservation } = await FolioService.findFolio(
+            checkIn,
+            session
+          );
+
+          const roomCharges = FolioService.addRoomCharges(
+            bill,
+            checkIn,
+            reservation,
+            throughNight
+          );
+
+          const serviceRequests = await ServiceRequestModel.find({
+            guestId: checkIn.guestId,
+            status: ServiceStatus.COMPLETED,
+            cost: { $gt: 0 },
+            completedDate: { $gte: checkIn.checkInTime },
+          }).session(session);
+          let serviceCharges = 0;
+          for (const serviceRequest of serviceRequests) {
+            const posted = FolioService.addServiceCharge(bill, {
+              _id: String(serviceRequest._id),
+              serviceType: serviceRequest.serviceType,
+              description: serviceRequest.description,
+              cost: serviceRequest.cost,
+              completedDate: serviceRequest.completedDate,
+            });
+            if (posted) serviceCharges++;
+          }
+
+          await FolioService.saveFolio(bill, session);
+          result.roomCharges += roomCharges;
+          result.serviceCharges += serviceCharges;
+        });
+        result.checkIns++;
+      } catch (error) {
+        logger.error('Night audit failed for a check-in', {
+          checkInId: String(_id),
+          reservationId,
+          error,
+        });
+        result.failed.push(String(_id));
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Move the lines of the routed charge types onto a master bill
+   * The lines stay on the child bill, marked as routed, for its history;
+   * their taxes go with them. When taxes are routed, the taxes of the lines
+   * left behind move as a single tax line. Returns the amount moved per
+   * charge type.
+   */
+  static routeLines(
+    bill: BillDocument,
+    masterBill: BillDocument,
+    routes: BillChargeType[]
+  ): Map<BillChargeType, number> {
+    BillingService.itemiseOpeningAmounts(bill);
+    BillingService.itemiseOpeningAmounts(masterBill);
+
+    const moved = new Map<BillChargeType, number>();
+    const addMoved = (chargeType: BillChargeType, amount: number) =>
+      moved.set(
+        chargeType,
+        roundCurrency((moved.get(chargeType) ?? 0) + amount)
+      );
+
+    for (const charge of bill.charges) {
+      const routeType = ROUTED_AS[charge.chargeType];
+      if (charge.routedToBillId || !routeType || !routes.includes(routeType)) {
+        continue;
+      }
+
+      charge.routedToBillId = String(masterBill._id);
+      masterBill.charges.push({
+        chargeType: charge.chargeType,
+        description: charge.description,
+        quantity: charge.quantity,
+        unitPrice: charge.unitPrice,
+        amount: charge.amount,
+        serviceDate: charge.serviceDate,
+        sourceId: charge.sourceId,
+        taxes: charge.taxesRoutedToBillId ? [] : charge.taxes,
+        taxAmount: charge.taxesRoutedToBillId ? 0 : charge.taxAmount,
+        taxedAt: charge.taxedAt,
+        sourceBillId: String(bill._id),
+        postedBy: charge.postedBy,
+        postedAt: charge.postedAt,
+      });
+      addMoved(routeType, charge.amount);
+    }
+
+    if (routes.includes(BillChargeType.TAX)) {
+      const taxes = new Map<string, LineTax>();
+      for (const charge of bill.charges) {
+        if (
+          charge.routedToBillId ||
+          charge.taxesRoutedToBillId ||
+          !charge.taxAmount
+        ) {
+          continue;
+        }
+
+        charge.taxesRoutedToBillId = String(masterBill._id);
+        for (const tax of charge.taxes ?? []) {
+          const entry = taxes.get(tax.code);
+          taxes.set(tax.code, {
+            ...tax,
+            amount: roundCurrency((entry?.amount ?? 0) + tax.amount),
+          });
+        }
+        addMoved(BillChargeType.TAX, charge.taxAmount);
+      }
+
+      if (taxes.size > 0) {
+        const taxLines = [...taxes.values()];
+        const postedAt = new Date();
+        masterBill.charges.push({
+          chargeType: FolioChargeType.TAX,
+          description: 'Taxes',
+          quantity: 1,
+          unitPrice: 0,
+          amount: 0,
+          serviceDate: postedAt,
+          taxes: taxLines,
+          taxAmount: roundCurrency(
+            taxLines.reduce((total, tax) => total + tax.amount, 0)
+          ),
+          taxedAt: postedAt,
+          sourceBillId: String(bill._id),
+          postedAt,
+        });
+      }
+    }
+
+    return moved;
+  }
+
+  // Bill of the check-in's reservation, opened if missing
+  private static async findFolio(
+    checkIn: CheckInDocument,
+    session: ClientSession
+  ): Promise<{ bill: BillDocument; reservation: ReservationDocument }> {
+    const reservation = await FolioService.loadReservation(checkIn, session);
+
+    let bill = await BillModel.findOne({
+      reservationId: checkIn.reservationId,
+      isMasterBill: { $ne: true },
+    }).session(session);
+
+    if (!bill) {
+      bill = new BillModel({
+        reservationId: checkIn.reservationId,
+        guestId: checkIn.guestId,
+        roomId: checkIn.roomId,
+        checkInId: checkIn._id,
+        baseAmount: 0,
+        taxAmount: 0,
+        serviceCharges: 0,
+        additionalServices: [],
+        totalAmount: 0,
+        dueDate: reservation.checkOutDate,
+      });
+    } else if (!bill.checkInId) {
+      bill.checkInId = String(checkIn._id);
+    }
+
+    return { bill, reservation };
+  }
+
+  // Returns the number of nights posted
+  private static addRoomCharges(
+    bill: BillDocument,
+    checkIn: CheckInDocument,
+    reservation: ReservationDocument,
+    throughNight: Date
+  ): number {
+    // Room charges entered by hand already cover the stay
+    const enteredByHand =
+      bill.charges.length === 0
+        ? bill.baseAmount > 0
+        : bill.charges.some(
+            charge =>
+              charge.chargeType === FolioChargeType.ROOM && !charge.sourceId
+          );
+    if (enteredByHand) {
+      return 0;
+    }
+
+    const nights = getStayNights(
+      reservation.checkInDate,
+      reservation.checkOutDate
+    );
+    const posted = new Set(
+      bill.charges
+        .filter(
+          charge =>
+            charge.chargeType === FolioChargeType.ROOM &&
+            String(charge.sourceId) === String(checkIn._id)
+        )
+        .map(charge => startOfUtcDay(charge.serviceDate).getTime())
+    );
+
+    let count = 0;
+    for (const night of nights) {
+      if (night > throughNight || posted.has(night.getTime())) {
+        continue;
+      }
+
+      const rate = FolioService.nightlyRate(reservation, night, nights.length);
+      FolioService.addCharge(bill, {
+        chargeType: FolioChargeType.ROOM,
+        description: `Room charge for ${night.toISOString().slice(0, 10)}`,
+        quantity: 1,
+        unitPrice: rate,
+        amount: rate,
+        serviceDate: night,
+        sourceId: String(checkIn._id),
+      });
+      count++;
+    }
+    return count;
+  }
+
+  // Returns whether the service request was newly posted
+  private static addServiceCharge(
+    bill: BillDocument,
+    serviceRequest: {
+      _id: string;
+      serviceType: string;
+      description: string;
+      cost?: number;
+      completedDate?: Date;
+    }
+  ): boolean {
+    const alreadyPosted = bill.charges.some(
+      charge =>
+        charge.chargeType === FolioChargeType.SERVICE &&
+        String(charge.sourceId) === serviceRequest._id
+    );
+    if (alreadyPosted || !serviceRequest.cost) {
+      return false;
+    }
+
+    const amount = roundCurrency(serviceRequest.cost);
+    const serviceName = serviceRequest.serviceType.replace(/_/g, ' ');
+    FolioService.addCharge(bill, {
+      chargeType: FolioChargeType.SERVICE,
+      description: `${serviceName}: ${serviceRequest.description}`.slice(
+        0,
+        200
+      ),
+      quantity: 1,
+      unitPrice: amount,
+      amount,
+      serviceDate: serviceRequest.completedDate ?? new Date(),
+      sourceId: serviceRequest._id,
+    });
+    return true;
+  }
+
+  private static addCharge(bill: BillDocument, charge: NewCharge): void {
+    if (
+      bill.status === PaymentStatus.CANCELLED ||
+      bill.status === PaymentStatus.REFUNDED
+    ) {
+      throw new AppError(`Cannot post charges to a ${bill.status} bill`);
+    }
+
+    BillingService.itemiseOpeningAmounts(bill);
+    bill.charges.push({ ...charge, postedAt: new Date() });
+  }
+
+  // Taxes new lines, then routes them to the group master bill if the
+  // group asks for it
+  private static async saveFolio(
+    bill: BillDocument,
+    session: ClientSession
+  ): Promise<void> {
+    await TaxService.applyTaxes(bill, session);
+
+    if (bill.masterBillId && bill.groupBookingId) {
+      const [group, masterBill] = await Promise.all([
+        GroupBookingModel.findById(bill.groupBookingId).session(session),
+        BillModel.findById(bill.masterBillId).session(session),
+      ]);
+
+      if (group && masterBill) {
+        const moved = FolioService.routeLines(
+          bill,
+          masterBill,
+          group.billingRoutes
+        );
+        for (const [chargeType, amount] of moved) {
+          masterBill.routedCharges?.push({
+            sourceBillId: String(bill._id),
+            chargeType,
+            description: 'Charges posted after routing',
+            amount,
+            routedAt: new Date(),
+          });
+        }
+        BillingService.recalculate(masterBill);
+        await masterBill.save({ session });
+      }
+    }
+
+    BillingService.recalculate(bill);
+    await bill.save({ session });
+  }
+
+  // Nights up to today; after check-out, the nights before departure day
+  private static lastChargeableNight(checkIn: CheckInDocument): Date {
+    return checkIn.checkOutTime
+      ? new Date(startOfUtcDay(checkIn.checkOutTime).getTime() - DAY_MS)
+      : startOfUtcDay(new Date());
+  }
+
+  private static async loadBill(
+    billId: string,
+    session: ClientSession
+  ): Promise<BillDocument> {
+    if (!Types.ObjectId.isValid(billId)) {
+      throw new AppError('Invalid bill ID format');
+    }
+
+    const bill = await BillModel.findById(billId).session(session);
+    if (!bill) {
+      throw new AppError('Bill not found', HttpStatusCode.NOT_FOUND);
+    }
+    return bill;
+  }
+
+  private static async loadCheckIn(
+    checkInId: string,
+    session: ClientSession
+  ): Promise<CheckInDocument> {
+    if (!Types.ObjectId.isValid(checkInId)) {
+      throw new AppError('Invalid check-in ID format');
+    }
+
+    const checkIn = await CheckInModel.findById(checkInId).session(session);
+    if (!checkIn) {
+      throw new AppError('Check-in not found', HttpStatusCode.NOT_FOUND);
+    }
+    return checkIn;
+  }
+
+  private static async loadReservation(
+    checkIn: CheckInDocument,
+    session: ClientSession
+  ): Promise<ReservationDocument> {
+    const reservation = await ReservationModel.findById(
+      checkIn.reservationId
+    ).session(session);
+    if (!reservation) {
+      throw new AppError('Reservation not found', HttpStatusCode.NOT_FOUND);
+    }
+    return reservation;
+  }
+}
@@ -0,0 +1,444 @@
+import { ClientSession } from 'mongoose';
+import {
+  GroupBookingModel,
+  GroupBookingDocument,
+} from '../models/GroupBooking.model';
+import {
+  ReservationModel,
+  ReservationDocument,
+} from '../models/Reservation.model';
+import { BillModel, BillDocument } from '../models/Bill.model';
+import { ReservationEngine } from './reservationEngine.service';
+import { PricingService } from './pricing.service';
+import { BillingService } from './billing.service';
+import { FolioService } from './folio.service';
+import { AppError } from '../utils/errors';
+import { runInTransaction } from '../utils/transaction';
+import { HttpStatusCode } from '../types/api';
+import {
+  BillChargeType,
+  GroupAllotment,
+  GroupBooking,
+  GroupBookingStatus,
+  PaymentStatus,
+  ReservationSource,
+  ReservationStatus,
+  RoomingListEntry,
+} from '../types/models';
+
+export interface GroupBookingRequest
+  extends Omit<
+    GroupBooking,
+    'status' | 'allotments' | 'masterBillId' | 'releasedAt'
+  > {
+  allotments: Pick<
+    GroupAllotment,
+    'roomType' | 'roomsBlocked' | 'ratePerNight'
+  >[];
+}
+
+/**
+ * Group Booking Service
+ * Manages room blocks for groups: allotments are held as BLOCKED room nights
+ * until the rooming list picks them up or the cutoff date releases them.
+ */
+export class GroupBookingService {
+  /**
+   * Create a group and block its allotments in one transaction
+   */
+  static async createGroup(
+    data: GroupBookingRequest
+  ): Promise<GroupBookingDocument> {
+    return ReservationEngine.withConflictMapping(() =>
+      runInTransaction(async session => {
+        const group = new GroupBookingModel({
+          ...data,
+          status: GroupBookingStatus.OPEN,
+          allotments: [],
+        });
+
+        for (const allotment of data.allotments) {
+          const roomIds = await ReservationEngine.blockRooms(
+            String(group._id),
+            allotment.roomType,
+            allotment.roomsBlocked,
+            data.arrivalDate,
+            data.departureDate,
+            session
+          );
+          group.allotments.push({
+            ...allotment,
+            roomsPickedUp: 0,
+            roomIds,
+          });
+        }
+
+        await group.save({ session });
+        return group;
+      })
+    );
+  }
+
+  /**
+   * Create child reservations from a rooming list
+   * The whole list is booked or none of it is.
+   */
+  static async addRoomingList(
+    id: string,
+    entries: RoomingListEntry[]
+  ): Promise<ReservationDocument[]> {
+    return ReservationEngine.withConflictMapping(() =>
+      runInTransaction(async session => {
+        const group = await GroupBookingService.loadGroup(id, session);
+        GroupBookingService.ensureOpen(group);
+
+        if (new Date() > group.cutoffDate) {
+          throw new AppError(
+            'Rooming list cannot be changed after the cutoff date'
+          );
+        }
+
+        const reservations: ReservationDocument[] = [];
+
+        for (const entry of entries) {
+          const allotment = group.allotments.find(
+            item => item.roomType === entry.roomType
+          );
+          if (!allotment) {
+            throw new AppError(
+              `Group has no ${entry.roomType} rooms in its block`
+            );
+          }
+          if (allotment.roomsPickedUp >= allotment.roomsBlocked) {
+            throw new AppError(
+              `All ${entry.roomType} rooms in the block are already picked up`,
+              HttpStatusCode.CONFLICT
+            );
+          }
+
+          const checkInDate = entry.checkInDate ?? group.arrivalDate;
+          const checkOutDate = entry.checkOutDate ?? group.departureDate;
+          if (
+            checkInDate < group.arrivalDate ||
+            checkOutDate > group.departureDate
+          ) {
+            throw new AppError(
+              'Rooming list stays must fall within the group dates'
+            );
+          }
+
+          const reservation = new ReservationModel({
+            guestId: entry.guestId,
+            checkInDate,
+            checkOutDate,
+            numberOfGuests: entry.numberOfGuests,
+            specialRequests: entry.specialRequests,
+            status: ReservationStatus.CONFIRMED,
+            source: ReservationSource.PHONE,
+            groupBookingId: group._id,
+            totalAmount: 0,
+          });
+
+          const roomId = await ReservationEngine.bookFromBlock(
+            String(group._id),
+            allotment.roomIds.map(roomIdValue => String(roomIdValue)),
+            reservation,
+            session
+          );
+
+          await GroupBookingService.priceChild(
+            reservation,
+            roomId,
+            allotment.ratePerNight,
+            session
+          );
+
+          await reservation.save({ session });
+          allotment.roomsPickedUp += 1;
+          reservations.push(reservation);
+        }
+
+        await group.save({ session });
+        return reservations;
+      })
+    );
+  }
+
+  /**
+   * Release a group's unused blocked rooms back to general inventory
+   */
+  static async releaseUnusedRooms(id: string): Promise<GroupBookingDocument> {
+    return runInTransaction(async session => {
+      const group = await GroupBookingService.loadGroup(id, session);
+      GroupBookingService.ensureOpen(group);
+
+      await ReservationEngine.releaseBlock(String(group._id), session);
+      group.status = GroupBookingStatus.RELEASED;
+      group.releasedAt = new Date();
+      await group.save({ session });
+      return group;
+    });
+  }
+
+  /**
+   * Release the blocks of every open group whose cutoff date has passed
+   * @returns ids of the released groups
+   */
+  static async releaseExpiredBlocks(): Promise<string[]> {
+    const groups = await GroupBookingModel.find({
+      status: GroupBookingStatus.OPEN,
+      cutoffDate: { $lt: new Date() },
+    }).select('_id');
+
+    const released: string[] = [];
+    for (const group of groups) {
+      await GroupBookingService.releaseUnusedRooms(String(group._id));
+      released.push(String(group._id));
+    }
+    return released;
+  }
+
+  /**
+   * Cancel a group, its child reservations and its remaining block
+   */
+  static async cancelGroup(id: string): Promise<GroupBookingDocument> {
+    return runInTransaction(async session => {
+      const group = await GroupBookingService.loadGroup(id, session);
+      if (group.status === GroupBookingStatus.CANCELLED) {
+        throw new AppError('Group booking is already cancelled');
+      }
+
+      const children = await ReservationModel.find({
+        groupBookingId: group._id,
+        status: {
+          $in: [ReservationStatus.PENDING, ReservationStatus.CONFIRMED],
+        },
+      }).session(session);
+
+      for (const reservation of children) {
+        reservation.status = ReservationStatus.CANCELLED;
+        await ReservationEngine.releaseReservationNights(
+          String(reservation._id),
+          session
+        );
+        await reservation.save({ session });
+      }
+
+      await ReservationEngine.releaseBlock(String(group._id), session);
+      group.status = GroupBookingStatus.CANCELLED;
+      await group.save({ session });
+      return group;
+    });
+  }
+
+  /**
+   * Move the group's billing-route charges from child bills onto its master bill
+   */
+  static async routeChildBills(
+    id: string,
+    billIds: string[]
+  ): Promise<BillDocument> {
+    return runInTransaction(async session => {
+      const group = await GroupBookingService.loadGroup(id, session);
+      if (group.billingRoutes.length === 0) {
+        throw new AppError('Group has no billing routes to the master bill');
+      }
+
+      const masterBill = await GroupBookingService.getOrCreateMasterBill(
+        group,
+        session
+      );
+
+      const childBills = await BillModel.find({ _id: { $in: billIds } })
+        .populate('reservationId', 'groupBookingId')
+        .session(session);
+
+      if (childBills.length !== billIds.length) {
+        throw new AppError('Bill not found', HttpStatusCode.NOT_FOUND);
+      }
+
+      for (const bill of childBills) {
+        const reservation = bill.reservationId as unknown as {
+          groupBookingId?: unknown;
+        } | null;
+        if (String(reservation?.groupBookingId) !== String(group._id)) {
+          throw new AppError(
+            `Bill ${String(bill._id)} does not belong to this group`
+          );
+        }
+        if (bill.masterBillId) {
+          throw new AppError(
+            `Bill ${String(bill._id)} is already routed to a master bill`,
+            HttpStatusCode.CONFLICT
+          );
+        }
+        if (bill.status === PaymentStatus.PAID) {
+          throw new AppError(
+            `Bill ${String(bill._id)} is already paid and cannot be routed`
+          );
+        }
+
+        GroupBookingService.moveCharges(bill, masterBill, group.billingRoutes);
+        BillingService.recalculate(bill);
+        bill.set({ groupBookingId: group._id, masterBillId: masterBill._id });
+        await bill.save({ session });
+      }
+
+      BillingService.recalculate(masterBill);
+      await masterBill.save({ session });
+      return masterBill;
+    });
+  }
+
+  /**
+   * Get a group's master bill, if one has been opened
+   */
+  static async getMasterBill(id: string): Promise<BillDocument | null> {
+    const group = await GroupBookingModel.findById(id);
+    if (!group) {
+      throw new AppError('Group booking not found', HttpStatusCode.NOT_FOUND);
+    }
+    if (!group.masterBillId) {
+      return null;
+    }
+    return BillModel.findById(group.masterBillId).populate(
+      'routedCharges.sourceBillId',
+      'reservationId roomId totalAmount status'
+    );
+  }
+
+  /**
+   * Move the routed charge types of a child bill onto the master bill
+   * Room charges, service charges and taxes move as folio lines; totals
+   * are recomputed when the bills are saved.
+   */
+  private static moveCharges(
+    bill: BillDocument,
+    masterBill: BillDocument,
+    routes: BillChargeType[]
+  ): void {
+    const routedAt = new Date();
+
+    const route = (
+      chargeType: BillChargeType,
+      description: string,
+      amount: number
+    ) => {
+      if (amount <= 0) return;
+      masterBill.routedCharges?.push({
+        sourceBillId: String(bill._id),
+        chargeType,
+        description,
+        amount,
+        routedAt,
+      });
+    };
+
+    const moved = FolioService.routeLines(bill, masterBill, routes);
+    route(
+      BillChargeType.ROOM,
+      'Room charges',
+      moved.get(BillChargeType.ROOM) ?? 0
+    );
+    route(
+      BillChargeType.SERVICE_CHARGE,
+      'Service charges',
+      moved.get(BillChargeType.SERVICE_CHARGE) ?? 0
+    );
+    route(BillChargeType.TAX, 'Taxes', moved.get(BillChargeType.TAX) ?? 0);
+    if (routes.includes(BillChargeType.ADDITIONAL_SERVICES)) {
+      for (const service of bill.additionalServices) {
+        route(
+          BillChargeType.ADDITIONAL_SERVICES,
+          service.serviceName,
+          service.totalPrice
+        );
+      }
+      masterBill.additionalServices.push(...bill.additionalServices);
+      bill.additionalServices = [];
+    }
+  }
+
+  private static async getOrCreateMasterBill(
+    group: GroupBookingDocument,
+    session: ClientSession
+  ): Promise<BillDocument> {
+    if (group.masterBillId) {
+      const existing = await BillModel.findById(group.masterBillId).session(
+        session
+      );
+      if (existing) return existing;
+    }
+
+    const masterBill = new BillModel({
+      guestId: group.contactGuestId,
+      groupBookingId: group._id,
+      isMasterBill: true,
+      baseAmount: 0,
+      taxAmount: 0,
+      serviceCharges: 0,
+      additionalServices: [],
+      totalAmount: 0,
+      dueDate: group.departureDate,
+      routedCharges: [],
+    });
+
+    group.masterBillId = String(masterBill._id);
+    await group.save({ session });
+    return masterBill;
+  }
+
+  /**
+   * Price a child reservation at the block rate, or the room's default plan
+   * Group stays are not subject to rate plan restrictions.
+   */
+  private static async priceChild(
+    reservation: ReservationDocument,
+    roomId: string,
+    ratePerNight: number | undefined,
+    session: ClientSession
+  ): Promise<void> {
+    if (typeof ratePerNight === 'number') {
+      const nights = ReservationEngine.getStayNights(
+        reservation.checkInDate,
+        reservation.checkOutDate
+      ).map(date => ({ date, rate: ratePerNight }));
+      reservation.set({
+        nightlyRates: nights,
+        totalAmount: ratePerNight * nights.length,
+      });
+      return;
+    }
+
+    const quote = await PricingService.quote(
+      {
+        roomId,
+        checkInDate: reservation.checkInDate,
+        checkOutDate: reservation.checkOutDate,
+      },
+      { session, enforceRestrictions: false }
+    );
+    reservation.set({
+      ratePlanId: quote.ratePlanId,
+      nightlyRates: quote.nights,
+      totalAmount: quote.totalAmount,
+    });
+  }
+
+  private static ensureOpen(group: GroupBookingDocument): void {
+    if (group.status !== GroupBookingStatus.OPEN) {
+      throw new AppError(`Group booking is ${group.status}`);
+    }
+  }
+
+  private static async loadGroup(
+    id: string,
+    session: ClientSession
+  ): Promise<GroupBookingDocument> {
+    const group = await GroupBookingModel.findById(id).session(session);
+    if (!group) {
+      throw new AppError('Group booking not found', HttpStatusCode.NOT_FOUND);
+    }
+    return group;
+  }
+}
@@ -0,0 +1,454 @@
+import { housekeepingConfig } from '../config/housekeeping.config';
+import {
+  HousekeepingTaskDocument,
+  HousekeepingTaskModel,
+} from '../models/HousekeepingTask.model';
+import { RoomDocument, RoomModel } from '../models/Room.model';
+import { UserModel } from '../models/User.model';
+import { ShiftService } from './shift.service';
+import { AppError } from '../utils/errors';
+import { DAY_MS, startOfUtcDay } from '../utils/dates';
+import {
+  HousekeepingTaskType,
+  Priority,
+  RoomType,
+  TaskStatus,
+  UserRole,
+} from '../types/models';
+
+export interface AutoAssignRequest {
+  date?: Date;
+  // Attendants to share the work between; everyone on shift if empty
+  staffIds?: string[];
+  // Also move pending tasks that are already assigned
+  reassign: boolean;
+  // Work out the board without saving it
+  preview: boolean;
+}
+
+export interface BoardTask {
+  taskId: string;
+  roomId: string;
+  roomNumber?: string;
+  floor?: number;
+  roomType?: RoomType;
+  taskType: HousekeepingTaskType;
+  priority: Priority;
+  status: TaskStatus;
+  credits: number;
+  // Why auto-assignment gave the task to the attendant
+  reason?: string;
+}
+
+export interface BoardAttendant {
+  staffId: string;
+  name: string;
+  credits: number;
+  floors: number[];
+  tasks: BoardTask[];
+}
+
+export interface HousekeepingBoard {
+  date: string;
+  totalCredits: number;
+  // Even share of the credits per attendant
+  targetCredits: number;
+  attendants: BoardAttendant[];
+  unassigned: BoardTask[];
+}
+
+export interface AutoAssignResult {
+  board: HousekeepingBoard;
+  assigned: number;
+  preview: boolean;
+}
+
+interface Attendant {
+  staffId: string;
+  name: string;
+  credits: number;
+  floors: Set<number>;
+  rooms: Set<string>;
+}
+
+const PRIORITY_RANK: Record<Priority, number> = {
+  [Priority.URGENT]: 0,
+  [Priority.HIGH]: 1,
+  [Priority.MEDIUM]: 2,
+  [Priority.LOW]: 3,
+};
+
+// Tasks still to do on the board of a day
+const OPEN_STATUSES = [TaskStatus.PENDING, TaskStatus.IN_PROGRESS];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Housekeeping Assignment Service
+ * Spreads a day's housekeeping tasks across the attendants on shift that
+ * day. Each task is worth credits by its type and room type. Tasks are
+ * placed in priority order, each with an attendant already in the room or
+ * on the floor while they are under their even share, else with the least
+ * loaded attendant. Every placement says why it was made, so supervisors
+ * can adjust the board.
+ */
+export class HousekeepingAssignmentService {
+  /**
+   * Workload credits of a task in a room
+   */
+  static credits(taskType: HousekeepingTaskType, roomType?: RoomType): number {
+    return round(
+      housekeepingConfig.taskCredits[taskType] *
+        (roomType ? housekeepingConfig.roomTypeWeights[roomType] : 1)
+    );
+  }
+
+  /**
+   * The open tasks of a day, grouped by attendant
+   */
+  static async getBoard(date: Date = new Date()): Promise<HousekeepingBoard> {
+    const { day, tasks, rooms } =
+      await HousekeepingAssignmentService.loadDay(date);
+    const staffIds = [
+      ...new Set(
+        tasks
+          .filter(task => task.assignedStaffId)
+          .map(task => String(task.assignedStaffId))
+      ),
+    ];
+    const staff = await UserModel.find({ _id: { $in: staffIds } }).select(
+      'firstName lastName'
+    );
+
+    return HousekeepingAssignmentService.toBoard(
+      day,
+      tasks,
+      rooms,
+      new Map(
+        staff.map(user => [
+          String(user._id),
+          `${user.firstName} ${user.lastName}`,
+        ])
+      ),
+      new Map(
+        tasks.map(task => [
+          String(task._id),
+          task.assignedStaffId ? String(task.assignedStaffId) : undefined,
+        ])
+      ),
+      new Map()
+    );
+  }
+
+  /**
+   * Assign the open tasks of a day across attendants by workload and floor
+   */
+  static async autoAssign(
+    request: AutoAssignRequest
+  ): Promise<AutoAssignResult> {
+    const date = request.date ?? new Date();
+    const staff = await HousekeepingAssignmentService.loadStaff(
+      date,
+      request.staffIds
+    );
+    const { day, tasks, rooms } =
+      await HousekeepingAssignmentService.loadDay(date);
+
+    const attendants = new Map<string, Attendant>(
+      staff.map(user => [
+        String(user._id),
+        {
+          staffId: String(user._id),
+          name: `${user.firstName} ${user.lastName}`,
+          credits: 0,
+          floors: new Set(),
+          rooms: new Set(),
+        },
+      ])
+    );
+    const creditsOf = (task: HousekeepingTaskDocument) =>
+      HousekeepingAssignmentService.credits(
+        task.taskType,
+        rooms.get(String(task.roomId))?.roomType
+      );
+    const assignments = new Map<string, string | undefined>();
+    const reasons = new Map<string, string>();
+
+    // Work already started, or kept, stays with its attendant
+    const toPlace: HousekeepingTaskDocument[] = [];
+    for (const task of tasks) {
+      const staffId = task.assignedStaffId
+        ? String(task.assignedStaffId)
+        : undefined;
+      const movable =
+        task.status === TaskStatus.PENDING && (!staffId || request.reassign);
+      if (movable) {
+        toPlace.push(task);
+        continue;
+      }
+      assignments.set(String(task._id), staffId);
+      const attendant = staffId ? attendants.get(staffId) : undefined;
+      if (attendant) {
+        HousekeepingAssignmentService.take(
+          attendant,
+          task,
+          rooms,
+          creditsOf(task)
+        );
+      }
+    }
+
+    const fixedCredits = [...attendants.values()].reduce(
+      (total, attendant) => total + attendant.credits,
+      0
+    );
+    const placeCredits = toPlace.reduce(
+      (total, task) => total + creditsOf(task),
+      0
+    );
+    const target = round((fixedCredits + placeCredits) / attendants.size);
+
+    for (const task of HousekeepingAssignmentService.sortTasks(
+      toPlace,
+      rooms
+    )) {
+      const credits = creditsOf(task);
+      const roomId = String(task.roomId);
+      const floor = rooms.get(roomId)?.floor;
+      const byLoad = [...attendants.values()].sort(
+        (a, b) => a.credits - b.credits || a.floors.size - b.floors.size
+      );
+      // Taking the task leaves the attendant nearer their share than not
+      const hasRoom = (attendant: Attendant) =>
+        attendant.credits + credits / 2 <= target;
+
+      let attendant = byLoad.find(
+        candidate => candidate.rooms.has(roomId) && hasRoom(candidate)
+      );
+      let reason = `Already has room ${rooms.get(roomId)?.roomNumber ?? roomId}`;
+      if (!attendant && floor !== undefined) {
+        attendant = byLoad.find(
+          candidate => candidate.floors.has(floor) && hasRoom(candidate)
+        );
+        reason = `Already working floor ${floor}`;
+      }
+      if (!attendant) {
+        attendant = byLoad[0];
+        reason =
+          floor === undefined ||
+          attendant.floors.size === 0 ||
+          attendant.floors.has(floor)
+            ? 'Least loaded attendant'
+            : `Least loaded attendant, adds floor ${floor}`;
+      }
+
+      reasons.set(
+        String(task._id),
+        `${reason} (${round(attendant.credits)} of ${target} credits before)`
+      );
+      assignments.set(String(task._id), attendant.staffId);
+      HousekeepingAssignmentService.take(attendant, task, rooms, credits);
+    }
+
+    let assigned = 0;
+    const changed = toPlace.filter(
+      task =>
+        assignments.get(String(task._id)) !==
+        (task.assignedStaffId ? String(task.assignedStaffId) : undefined)
+    );
+    if (!request.preview && changed.length > 0) {
+      // Tasks started meanwhile are left to whoever started them
+      const result = await HousekeepingTaskModel.bulkWrite(
+        changed.map(task => ({
+          updateOne: {
+            filter: { _id: task._id, status: TaskStatus.PENDING },
+            update: {
+              $set: { assignedStaffId: assignments.get(String(task._id)) },
+            },
+          },
+        })),
+        { ordered: false }
+      );
+      assigned = result.modifiedCount;
+    } else if (request.preview) {
+      assigned = changed.length;
+    }
+
+    const names = new Map(
+      [...attendants.values()].map(({ staffId, name }) => [staffId, name])
+    );
+    const others = [...assignments.values()].filter(
+      (staffId): staffId is string => !!staffId && !names.has(staffId)
+    );
+    if (others.length > 0) {
+      const users = await UserModel.find({ _id: { $in: others } }).select(
+        'firstName lastName'
+      );
+      for (const user of users) {
+        names.set(String(user._id), `${user.firstName} ${user.lastName}`);
+      }
+    }
+
+    return {
+      board: HousekeepingAssignmentService.toBoard(
+        day,
+        tasks,
+        rooms,
+        names,
+        assignments,
+        reasons,
+        target
+      ),
+      assigned,
+      preview: request.preview,
+    };
+  }
+
+  // Housekeepers on shift on a day, all of them or the ones asked for
+  private static async loadStaff(date: Date, staffIds?: string[]) {
+    const onShift = await ShiftService.onShift(date, [UserRole.HOUSEKEEPING]);
+    if (!staffIds?.length) {
+      if (onShift.length === 0) {
+        throw new AppError('No housekeeping staff are on shift that day');
+      }
+      return onShift;
+    }
+
+    const rostered = new Set(onShift.map(user => String(user._id)));
+    const missing = [...new Set(staffIds)].filter(id => !rostered.has(id));
+    if (missing.length > 0) {
+      throw new AppError(
+        `Not housekeeping staff on shift that day: ${missing.join(', ')}`
+      );
+    }
+    return onShift.filter(user => staffIds.includes(String(user._id)));
+  }
+
+  // Open tasks scheduled on the day of a date, with their rooms
+  private static async loadDay(date: Date) {
+    const day = startOfUtcDay(date);
+    const tasks = await HousekeepingTaskModel.find({
+      scheduledDate: { $gte: day, $lt: new Date(day.getTime() + DAY_MS) },
+      status: { $in: OPEN_STATUSES },
+    });
+    const roomDocs = await RoomModel.find({
+      _id: { $in: tasks.map(task => task.roomId) },
+    }).select('roomNumber floor roomType');
+    const rooms = new Map<string, RoomDocument>(
+      roomDocs.map(room => [String(room._id), room])
+    );
+    return { day, tasks, rooms };
+  }
+
+  private static take(
+    attendant: Attendant,
+    task: HousekeepingTaskDocument,
+    rooms: Map<string, RoomDocument>,
+    credits: number
+  ): void {
+    const roomId = String(task.roomId);
+    const floor = rooms.get(roomId)?.floor;
+    attendant.credits += credits;
+    attendant.rooms.add(roomId);
+    if (floor !== undefined) {
+      attendant.floors.add(floor);
+    }
+  }
+
+  // Priority first, then floor by floor along the corridor
+  private static sortTasks(
+    tasks: HousekeepingTaskDocument[],
+    rooms: Map<string, RoomDocument>
+  ): HousekeepingTaskDocument[] {
+    const roomOf = (task: HousekeepingTaskDocument) =>
+      rooms.get(String(task.roomId));
+    return [...tasks].sort(
+      (a, b) =>
+        PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+        (roomOf(a)?.floor ?? 0) - (roomOf(b)?.floor ?? 0) ||
+        (roomOf(a)?.roomNumber ?? '').localeCompare(
+          roomOf(b)?.roomNumber ?? '',
+          undefined,
+          { numeric: true }
+        )
+    );
+  }
+
+  private static toBoard(
+    day: Date,
+    tasks: HousekeepingTaskDocument[],
+    rooms: Map<string, RoomDocument>,
+    names: Map<string, string>,
+    assignments: Map<string, string | undefined>,
+    reasons: Map<string, string>,
+    target?: number
+  ): HousekeepingBoard {
+    const attendants = new Map<string, BoardAttendant>(
+      [...names].map(([staffId, name]) => [
+        staffId,
+        { staffId, name, credits: 0, floors: [], tasks: [] },
+      ])
+    );
+    const unassigned: BoardTask[] = [];
+    let totalCredits = 0;
+
+    for (const task of HousekeepingAssignmentService.sortTasks(tasks, rooms)) {
+      const taskId = String(task._id);
+      const room = rooms.get(String(task.roomId));
+      const entry: BoardTask = {
+        taskId,
+        roomId: String(task.roomId),
+        roomNumber: room?.roomNumber,
+        floor: room?.floor,
+        roomType: room?.roomType,
+        taskType: task.taskType,
+        priority: task.priority,
+        status: task.status,
+        credits: HousekeepingAssignmentService.credits(
+          task.taskType,
+          room?.roomType
+        ),
+        reason: reasons.get(taskId),
+      };
+      totalCredits += entry.credits;
+
+      const staffId = assignments.get(taskId);
+      if (!staffId) {
+        unassigned.push(entry);
+        continue;
+      }
+      let attendant = attendants.get(staffId);
+      if (!attendant) {
+        attendant = {
+          staffId,
+          name: 'Unknown staff',
+          credits: 0,
+          floors: [],
+          tasks: [],
+        };
+        attendants.set(staffId, attendant);
+      }
+      attendant.tasks.push(entry);
+      attendant.credits = round(attendant.credits + entry.credits);
+      if (
+        entry.floor !== undefined &&
+        !attendant.floors.includes(entry.floor)
+      ) {
+        attendant.floors.push(entry.floor);
+      }
+    }
+
+    const board = [...attendants.values()];
+    for (const attendant of board) {
+      attendant.floors.sort((a, b) => a - b);
+    }
+    return {
+      date: day.toISOString().slice(0, 10),
+      totalCredits: round(totalCredits),
+      targetCredits:
+        target ?? (board.length > 0 ? round(totalCredits / board.length) : 0),
+      attendants: board,
+      unassigned,
+    };
+  }
+}
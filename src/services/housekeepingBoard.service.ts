@@ -0,0 +1,237 @@
+import { housekeepingConfig } from '../config/housekeeping.config';
+import { CheckInModel } from '../models/CheckIn.model';
+import { CheckOutModel } from '../models/CheckOut.model';
+import { HousekeepingTaskModel } from '../models/HousekeepingTask.model';
+import { ReservationModel } from '../models/Reservation.model';
+import { RoomModel } from '../models/Room.model';
+import { getSetting } from './settings.service';
+import { DAY_MS, startOfUtcDay } from '../utils/dates';
+import { HousekeepingTaskType, Priority, TaskStatus } from '../types/models';
+
+export interface HousekeepingBoardResult {
+  date: string;
+  created: number;
+  // Tasks already on the board for the day
+  skipped: number;
+  byType: Partial<Record<HousekeepingTaskType, number>>;
+}
+
+interface PlannedTask {
+  roomId: string;
+  taskType: HousekeepingTaskType;
+  priority: Priority;
+  notes: string;
+}
+
+export const LINEN_CHANGE_NIGHTS_SETTING = 'HOUSEKEEPING_LINEN_CHANGE_NIGHTS';
+export const DEEP_CLEAN_DAYS_SETTING = 'HOUSEKEEPING_DEEP_CLEAN_DAYS';
+
+const dayKey = (day: Date) => day.toISOString().slice(0, 10);
+
+/**
+ * Housekeeping Board Service
+ * Builds a day's housekeeping tasks from stays and rooms: a daily clean of
+ * every occupied room, a departure clean and inspection of every room that
+ * checks out, linen changes every few nights of a stay and deep cleans of
+ * vacant rooms at their interval. Generated tasks are keyed by day, room and
+ * type, so building the board again only adds what is missing.
+ */
+export class HousekeepingBoardService {
+  /**
+   * Generate the tasks of a day; today when no day is given
+   */
+  static async generate(
+    date: Date = new Date()
+  ): Promise<HousekeepingBoardResult> {
+    const day = startOfUtcDay(date);
+    const nextDay = new Date(day.getTime() + DAY_MS);
+
+    const planned = [
+      ...(await HousekeepingBoardService.planStays(day, nextDay)),
+      ...(await HousekeepingBoardService.planDeepCleans(day, nextDay)),
+    ];
+
+    // Tasks already scheduled for the day, generated or entered by hand
+    const existing = await HousekeepingTaskModel.find({
+      scheduledDate: { $gte: day, $lt: nextDay },
+      status: { $ne: TaskStatus.CANCELLED },
+    }).select('roomId taskType');
+    const scheduled = new Set(
+      existing.map(task => `${String(task.roomId)}:${task.taskType}`)
+    );
+    const missing = planned.filter(
+      task => !scheduled.has(`${task.roomId}:${task.taskType}`)
+    );
+
+    const scheduledDate = new Date(
+      day.getTime() + housekeepingConfig.boardStartHour * 60 * 60 * 1000
+    );
+    const result = missing.length
+      ? await HousekeepingTaskModel.bulkWrite(
+          missing.map(task => {
+            const generationKey = `${dayKey(day)}:${task.roomId}:${task.taskType}`;
+            return {
+              updateOne: {
+                filter: { generationKey },
+                update: {
+                  $setOnInsert: {
+                    ...task,
+                    generationKey,
+                    scheduledDate,
+                    status: TaskStatus.PENDING,
+                  },
+                },
+                upsert: true,
+              },
+            };
+          }),
+          { ordered: false }
+        )
+      : undefined;
+
+    const byType: Partial<Record<HousekeepingTaskType, number>> = {};
+    for (const index of Object.keys(result?.upsertedIds ?? {})) {
+      const { taskType } = missing[Number(index)];
+      byType[taskType] = (byType[taskType] ?? 0) + 1;
+    }
+
+    return {
+      date: dayKey(day),
+      created: result?.upsertedCount ?? 0,
+      skipped: planned.length - (result?.upsertedCount ?? 0),
+      byType,
+    };
+  }
+
+  // Cleans, inspections and linen changes of rooms with a stay that day
+  private static async planStays(
+    day: Date,
+    nextDay: Date
+  ): Promise<PlannedTask[]> {
+    const [stays, checkOuts, linenNights] = await Promise.all([
+      CheckInModel.find({
+        checkOutTime: { $exists: false },
+        checkInTime: { $lt: nextDay },
+      }).select('roomId reservationId checkInTime'),
+      CheckOutModel.find({
+        checkOutTime: { $gte: day, $lt: nextDay },
+      }).select('roomId'),
+      getSetting<number>(LINEN_CHANGE_NIGHTS_SETTING),
+    ]);
+
+    const reservations = await ReservationModel.find({
+      _id: { $in: stays.map(stay => stay.reservationId) },
+    }).select('checkOutDate');
+    const departureDays = new Map(
+      reservations.map(reservation => [
+        String(reservation._id),
+        startOfUtcDay(reservation.checkOutDate).getTime(),
+      ])
+    );
+
+    const departures = new Set(checkOuts.map(({ roomId }) => String(roomId)));
+    const stayovers = new Map<string, number>();
+    for (const stay of stays) {
+      const roomId = String(stay.roomId);
+      if (departureDays.get(String(stay.reservationId)) === day.getTime()) {
+        departures.add(roomId);
+      } else {
+        const nights = Math.round(
+          (day.getTime() - startOfUtcDay(stay.checkInTime).getTime()) / DAY_MS
+        );
+        stayovers.set(roomId, nights);
+      }
+    }
+
+    const planned: PlannedTask[] = [];
+    for (const roomId of departures) {
+      planned.push(
+        {
+          roomId,
+          taskType: HousekeepingTaskType.DEPARTURE_CLEANING,
+          priority: Priority.HIGH,
+          notes: 'Departure clean',
+        },
+        {
+          roomId,
+          taskType: HousekeepingTaskType.INSPECTION,
+          priority: Priority.HIGH,
+          notes: 'Inspect after the departure clean',
+        }
+      );
+    }
+    for (const [roomId, nights] of stayovers) {
+      // Rooms are made up before arrival, so the first clean is the next day
+      if (departures.has(roomId) || nights < 1) {
+        continue;
+      }
+      planned.push({
+        roomId,
+        taskType: HousekeepingTaskType.DAILY_CLEANING,
+        priority: Priority.MEDIUM,
+        notes: `Stayover clean, night ${nights + 1}`,
+      });
+      if (nights % linenNights === 0) {
+        planned.push({
+          roomId,
+          taskType: HousekeepingTaskType.LINEN_CHANGE,
+          priority: Priority.LOW,
+          notes: `Linen change after ${nights} nights`,
+        });
+      }
+    }
+    return planned;
+  }
+
+  // Deep cleans of vacant rooms whose interval has passed since the last one
+  private static async planDeepCleans(
+    day: Date,
+    nextDay: Date
+  ): Promise<PlannedTask[]> {
+    const [rooms, occupied, lastDeepCleans, defaultInterval] =
+      await Promise.all([
+        RoomModel.find({ isActive: true }).select(
+          'deepCleanIntervalDays createdAt'
+        ),
+        CheckInModel.distinct('roomId', {
+          checkOutTime: { $exists: false },
+          checkInTime: { $lt: nextDay },
+        }),
+        HousekeepingTaskModel.aggregate<{ _id: unknown; last: Date }>([
+          {
+            $match: {
+              taskType: HousekeepingTaskType.DEEP_CLEANING,
+              status: { $ne: TaskStatus.CANCELLED },
+            },
+          },
+          { $group: { _id: '$roomId', last: { $max: '$scheduledDate' } } },
+        ]),
+        getSetting<number>(DEEP_CLEAN_DAYS_SETTING),
+      ]);
+
+    const occupiedRooms = new Set(occupied.map(roomId => String(roomId)));
+    const lastDeepClean = new Map(
+      lastDeepCleans.map(({ _id, last }) => [String(_id), last])
+    );
+
+    return rooms
+      .filter(room => {
+        const roomId = String(room._id);
+        if (occupiedRooms.has(roomId)) {
+          return false;
+        }
+        // A room never deep cleaned counts from when it was added
+        const since = startOfUtcDay(
+          lastDeepClean.get(roomId) ?? room.createdAt
+        );
+        const interval = room.deepCleanIntervalDays ?? defaultInterval;
+        return day.getTime() - since.getTime() >= interval * DAY_MS;
+      })
+      .map(room => ({
+        roomId: String(room._id),
+        taskType: HousekeepingTaskType.DEEP_CLEANING,
+        priority: Priority.LOW,
+        notes: 'Scheduled deep clean',
+      }));
+  }
+}
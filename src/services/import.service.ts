@@ -0,0 +1,572 @@
+import bcrypt from 'bcryptjs';
+import { ClientSession, isValidObjectId, Model } from 'mongoose';
+import { z } from 'zod';
+import { ImportLogDocument, ImportLogModel } from '../models/ImportLog.model';
+import { InventoryItemModel } from '../models/InventoryItem.model';
+import { InventoryTransactionModel } from '../models/InventoryTransaction.model';
+import { RoomModel } from '../models/Room.model';
+import { UserModel } from '../models/User.model';
+import {
+  ImportResource,
+  ImportRowAction,
+  ImportRowResult,
+  ImportStatus,
+  InventoryTransactionType,
+} from '../types/models';
+import { ValidationError } from '../types/api';
+import { AppError } from '../utils/errors';
+import {
+  createCsvStream,
+  CSV_CONTENT_TYPE,
+  CsvDelimiter,
+  parseCsvRecords,
+} from '../utils/csv';
+import { runInTransaction } from '../utils/transaction';
+import { inventoryItemSchema } from '../validations/inventory.validation';
+import { roomSchema } from '../validations/room.validation';
+import { userSchema } from '../validations/user.validation';
+import { ExportFile } from './export.service';
+
+type ImportRecord = Record<string, unknown>;
+
+export interface ImportRequest {
+  format: 'csv' | 'json';
+  data: string | ImportRecord[];
+  delimiter?: CsvDelimiter;
+  overwrite: boolean;
+  backup: boolean;
+  validateOnly: boolean;
+}
+
+export interface ImportLogDownload {
+  format: 'csv' | 'json';
+  delimiter?: CsvDelimiter;
+  bom?: boolean;
+}
+
+interface ImportLayout {
+  label: string;
+  model: Model<any>;
+  schema: z.ZodObject<z.ZodRawShape>;
+  // Unique field that tells whether a row is a new record or an existing one
+  key: string;
+  // Fields for a new record, from a validated row
+  prepare?: (data: ImportRecord) => Promise<ImportRecord>;
+  // Fields an overwrite leaves as they are
+  keep?: string[];
+  afterWrite?: (
+    record: any,
+    previous: ImportRecord | undefined,
+    session: ClientSession,
+    importedBy?: string
+  ) => Promise<void>;
+}
+
+// A validated row and what importing it will do
+interface PlannedRow {
+  result: ImportRowResult;
+  data: ImportRecord;
+}
+
+// Larger files should be split up
+export const IMPORT_ROW_LIMIT = 5000;
+
+const PASSWORD_SALT_ROUNDS = 12;
+
+const IMPORT_LAYOUTS: Record<ImportResource, ImportLayout> = {
+  [ImportResource.ROOMS]: {
+    label: 'Room',
+    model: RoomModel,
+    schema: roomSchema,
+    key: 'roomNumber',
+    // Existing rooms change status through the room status rules
+    keep: ['status'],
+  },
+  [ImportResource.USERS]: {
+    label: 'User',
+    model: UserModel,
+    schema: userSchema
+      .omit({ lastLogin: true })
+      .extend({ email: userSchema.shape.email.trim().toLowerCase() }),
+    key: 'email',
+    prepare: async data => ({
+      ...data,
+      password: await bcrypt.hash(
+        data['password'] as string,
+        PASSWORD_SALT_ROUNDS
+      ),
+    }),
+    // Existing accounts keep their password
+    keep: ['password'],
+  },
+  [ImportResource.INVENTORY]: {
+    label: 'Inventory item',
+    model: InventoryItemModel,
+    // Worked out from quantity and unit price when the item is saved
+    schema: inventoryItemSchema.omit({ totalValue: true }),
+    key: 'sku',
+    // Stock changes are recorded like any other, so the ledger adds up
+    afterWrite: async (item, previous, session, importedBy) => {
+      const previousQuantity = (previous?.['quantity'] as number) ?? 0;
+      if (previous && previousQuantity === item.quantity) {
+        return;
+      }
+      await InventoryTransactionModel.create(
+        [
+          {
+            itemId: item._id,
+            transactionType: previous
+              ? InventoryTransactionType.ADJUSTMENT
+              : InventoryTransactionType.IN,
+            quantity: Math.abs(item.quantity - previousQuantity),
+            unitPrice: item.unitPrice,
+            totalAmount:
+              Math.abs(item.quantity - previousQuantity) * item.unitPrice,
+            reference: previous ? 'Import' : 'Initial stock',
+            performedBy: importedBy,
+            notes: previous ? 'Quantity overwritten by import' : 'Imported',
+            previousQuantity,
+            newQuantity: item.quantity,
+          },
+        ],
+        { session }
+      );
+    },
+  },
+};
+
+// Zod wrappers that only make a field optional or give it a default
+const WRAPPER_TYPES = ['optional', 'default', 'prefault', 'nullable'];
+
+const fieldSchema = (schema: z.ZodType): z.ZodType => {
+  let current = schema;
+  while (WRAPPER_TYPES.includes(current.def.type)) {
+    current = (current.def as unknown as { innerType: z.ZodType }).innerType;
+  }
+  return current;
+};
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Import Service
+ * Creates or overwrites records in bulk from a CSV or JSON file. Every row
+ * is checked against the same schema as the single-record endpoint; a real
+ * run writes all rows in one transaction, or none of them if any is invalid.
+ * Each run leaves an import log that can be downloaded.
+ */
+export class ImportService {
+  /**
+   * Validate the rows of an import file and, unless it is a dry run, write
+   * them
+   */
+  static async importRecords(
+    resource: ImportResource,
+    request: ImportRequest,
+    importedBy?: string
+  ): Promise<ImportLogDocument> {
+    const layout = IMPORT_LAYOUTS[resource];
+    const records = ImportService.readRecords(request);
+    const { planned, rows } = await ImportService.planRows(
+      layout,
+      records,
+      request.overwrite
+    );
+
+    const log = new ImportLogModel({
+      resource,
+      format: request.format,
+      dryRun: request.validateOnly,
+      overwriteExisting: request.overwrite,
+      totalRows: records.length,
+      rows,
+      importedBy,
+    });
+    ImportService.count(log);
+
+    if (request.validateOnly) {
+      log.status = ImportStatus.VALIDATED;
+    } else if (log.failed > 0) {
+      log.status = ImportStatus.REJECTED;
+    } else {
+      await ImportService.write(layout, planned, request, log, importedBy);
+    }
+
+    await log.save();
+    return log;
+  }
+
+  /**
+   * An import log of the given resource
+   */
+  static async getLog(
+    resource: ImportResource,
+    importId: string
+  ): Promise<ImportLogDocument> {
+    const log = isValidObjectId(importId)
+      ? await ImportLogModel.findOne({ _id: importId, resource })
+      : null;
+    if (!log) {
+      throw new AppError('Import log not found', 404);
+    }
+    return log;
+  }
+
+  /**
+   * An import log as a file: one CSV line per row of the import, or the
+   * whole log, backup included, as JSON
+   */
+  static renderLog(
+    log: ImportLogDocument,
+    options: ImportLogDownload
+  ): ExportFile {
+    const filename = `import_${log.resource}_${log._id}`;
+
+    if (options.format === 'json') {
+      return {
+        content: JSON.stringify(log.toJSON(), null, 2),
+        contentType: 'application/json',
+        filename: `${filename}.json`,
+      };
+    }
+
+    const rows = log.rows.map(row => ({
+      row: row.row,
+      key: row.key,
+      action: row.action,
+      recordId: row.recordId,
+      issues: row.issues
+        .map(issue => `${issue.field}: ${issue.message}`)
+        .join('; '),
+    }));
+    return {
+      content: createCsvStream(
+        rows,
+        ['row', 'key', 'action', 'recordId', 'issues'],
+        { delimiter: options.delimiter, bom: options.bom }
+      ),
+      contentType: CSV_CONTENT_TYPE,
+      filename: `${filename}.csv`,
+    };
+  }
+
+  /**
+   * The outcome of an import for an API response, without the backup
+   */
+  static summarize(log: ImportLogDocument) {
+    return {
+      _id: log._id,
+      resource: log.resource,
+      status: log.status,
+      dryRun: log.dryRun,
+      overwriteExisting: log.overwriteExisting,
+      totalRows: log.totalRows,
+      created: log.created,
+      updated: log.updated,
+      failed: log.failed,
+      error: log.error,
+      rows: log.rows,
+      createdAt: log.createdAt,
+    };
+  }
+
+  /**
+   * The issues of every row of an import, as response errors
+   */
+  static rowErrors(log: ImportLogDocument): ValidationError[] {
+    return log.rows.flatMap(row =>
+      row.issues.map(issue => ({
+        field: `rows.${row.row}.${issue.field}`,
+        message: issue.message,
+      }))
+    );
+  }
+
+  /**
+   * A one-line description of the outcome of an import
+   */
+  static describe(log: ImportLogDocument): string {
+    const counts = `${log.created} to create, ${log.updated} to update, ${log.failed} invalid`;
+    switch (log.status) {
+      case ImportStatus.VALIDATED:
+        return `Import validated: ${counts}`;
+      case ImportStatus.REJECTED:
+        return `Import rejected, nothing was written: ${log.failed} of ${log.totalRows} rows are invalid`;
+      case ImportStatus.FAILED:
+        return `Import failed, nothing was written: ${log.error}`;
+      default:
+        return `Import completed: ${log.created} created, ${log.updated} updated`;
+    }
+  }
+
+  private static readRecords(request: ImportRequest): ImportRecord[] {
+    let records: unknown;
+    try {
+      if (request.format === 'csv') {
+        records = parseCsvRecords(request.data as string, request.delimiter);
+      } else {
+        records =
+          typeof request.data === 'string'
+            ? JSON.parse(request.data)
+            : request.data;
+      }
+    } catch (error) {
+      throw new AppError(
+        `Import data is not valid ${request.format.toUpperCase()}: ${(error as Error).message}`
+      );
+    }
+
+    if (
+      !Array.isArray(records) ||
+      !records.every(
+        record =>
+          record !== null &&
+          typeof record === 'object' &&
+          !Array.isArray(record)
+      )
+    ) {
+      throw new AppError('Import data must be a list of records');
+    }
+    if (records.length === 0) {
+      throw new AppError('No records to import');
+    }
+    if (records.length > IMPORT_ROW_LIMIT) {
+      throw new AppError(
+        `Imports are limited to ${IMPORT_ROW_LIMIT} rows, this one has ${records.length}; split it into several files`
+      );
+    }
+    return records as ImportRecord[];
+  }
+
+  // Validate every row, then work out which rows create and which update
+  private static async planRows(
+    layout: ImportLayout,
+    records: ImportRecord[],
+    overwrite: boolean
+  ): Promise<{ planned: PlannedRow[]; rows: ImportRowResult[] }> {
+    const rows: ImportRowResult[] = [];
+    const planned: PlannedRow[] = [];
+    const firstRowByKey = new Map<string, number>();
+
+    records.forEach((record, index) => {
+      const row = index + 1;
+      const parsed = layout.schema.safeParse(
+        ImportService.coerce(layout.schema, record)
+      );
+      if (!parsed.success) {
+        const key = record[layout.key];
+        rows.push({
+          row,
+          key: typeof key === 'string' ? key : undefined,
+          action: ImportRowAction.INVALID,
+          issues: parsed.error.issues.map(issue => ({
+            field: issue.path.join('.') || 'row',
+            message: issue.message,
+          })),
+        });
+        return;
+      }
+
+      const key = String(parsed.data[layout.key]);
+      const result: ImportRowResult = {
+        row,
+        key,
+        action: ImportRowAction.CREATE,
+        issues: [],
+      };
+      const firstRow = firstRowByKey.get(key);
+      if (firstRow) {
+        result.action = ImportRowAction.INVALID;
+        result.issues.push({
+          field: layout.key,
+          message: `Same ${layout.key} as row ${firstRow}`,
+        });
+      } else {
+        firstRowByKey.set(key, row);
+        planned.push({ result, data: parsed.data });
+      }
+      rows.push(result);
+    });
+
+    const existing = await layout.model
+      .find({ [layout.key]: { $in: planned.map(plan => plan.result.key) } })
+      .select(layout.key)
+      .lean<ImportRecord[]>();
+    const existingKeys = new Set(
+      existing.map(record => String(record[layout.key]))
+    );
+
+    const writable = planned.filter(plan => {
+      if (!existingKeys.has(plan.result.key!)) {
+        return true;
+      }
+      if (overwrite) {
+        plan.result.action = ImportRowAction.UPDATE;
+        return true;
+      }
+      plan.result.action = ImportRowAction.INVALID;
+      plan.result.issues.push({
+        field: layout.key,
+        message: `${layout.label} ${plan.result.key} already exists; import with overwrite to update it`,
+      });
+      return false;
+    });
+
+    return { planned: writable, rows };
+  }
+
+  // Write every planned row in one transaction; on failure nothing is kept
+  private static async write(
+    layout: ImportLayout,
+    planned: PlannedRow[],
+    request: ImportRequest,
+    log: ImportLogDocument,
+    importedBy?: string
+  ): Promise<void> {
+    // Hashing passwords is slow, so it is done once, before the transaction
+    for (const plan of planned) {
+      if (plan.result.action === ImportRowAction.CREATE && layout.prepare) {
+        plan.data = await layout.prepare(plan.data);
+      }
+    }
+
+    const backup: ImportRecord[] = [];
+    // The row being written when the transaction failed
+    let current: PlannedRow | undefined;
+    try {
+      await runInTransaction(async session => {
+        backup.length = 0;
+
+        for (const plan of planned) {
+          current = plan;
+          if (plan.result.action === ImportRowAction.CREATE) {
+            const [record] = await layout.model.create([plan.data], {
+              session,
+            });
+            plan.result.recordId = String(record._id);
+            await layout.afterWrite?.(record, undefined, session, importedBy);
+            continue;
+          }
+
+          const record = await layout.model
+            .findOne({ [layout.key]: plan.result.key })
+            .session(session);
+          if (!record) {
+            throw new AppError(
+              `${layout.label} ${plan.result.key} was deleted during the import`
+            );
+          }
+          const previous = record.toObject() as ImportRecord;
+          const data = { ...plan.data };
+          for (const field of layout.keep ?? []) {
+            delete data[field];
+          }
+          // Kept fields do not change, so they are left out of the backup
+          if (request.backup) {
+            backup.push(
+              Object.fromEntries(
+                Object.entries(previous).filter(
+                  ([field]) => !layout.keep?.includes(field)
+                )
+              )
+            );
+          }
+          record.set(data);
+          await record.save({ session });
+          plan.result.recordId = String(record._id);
+          await layout.afterWrite?.(record, previous, session, importedBy);
+        }
+      });
+      log.backup = backup;
+      log.status = ImportStatus.COMPLETED;
+    } catch (error) {
+      for (const plan of planned) {
+        delete plan.result.recordId;
+      }
+      log.status = ImportStatus.FAILED;
+      log.error = (error as Error).message;
+      current?.result.issues.push({
+        field: layout.key,
+        message: log.error,
+      });
+    }
+
+    const results = new Map(
+      planned.map(plan => [plan.result.row, plan.result])
+    );
+    log.rows = log.rows.map(row => results.get(row.row) ?? row);
+  }
+
+  private static count(log: ImportLogDocument): void {
+    const count = (action: ImportRowAction) =>
+      log.rows.filter(row => row.action === action).length;
+    log.created = count(ImportRowAction.CREATE);
+    log.updated = count(ImportRowAction.UPDATE);
+    log.failed = count(ImportRowAction.INVALID);
+  }
+
+  // CSV fields are all text, and JSON has no dates, so values are converted
+  // to the type their field expects before validation
+  private static coerce(
+    schema: z.ZodObject<z.ZodRawShape>,
+    record: ImportRecord
+  ): ImportRecord {
+    const coerced: ImportRecord = { ...record };
+
+    for (const [name, field] of Object.entries(schema.shape)) {
+      const value = record[name];
+      const target = fieldSchema(field as z.ZodType);
+
+      if (target instanceof z.ZodObject && typeof value === 'object') {
+        coerced[name] =
+          value === null
+            ? value
+            : ImportService.coerce(target, value as ImportRecord);
+        continue;
+      }
+      if (typeof value !== 'string') {
+        continue;
+      }
+
+      const text = value.trim();
+      switch (target.def.type) {
+        case 'number':
+          if (text !== '' && Number.isFinite(Number(text))) {
+            coerced[name] = Number(text);
+          }
+          break;
+        case 'boolean':
+          if (/^(true|yes|1)$/i.test(text)) {
+            coerced[name] = true;
+          } else if (/^(false|no|0)$/i.test(text)) {
+            coerced[name] = false;
+          }
+          break;
+        case 'date':
+          if (!Number.isNaN(Date.parse(text))) {
+            coerced[name] = new Date(text);
+          }
+          break;
+        case 'array':
+          // A JSON list, or values separated by semicolons or pipes
+          coerced[name] = text.startsWith('[')
+            ? parseJson(text)
+            : text
+                .split(/[;|]/)
+                .map(item => item.trim())
+                .filter(Boolean);
+          break;
+        case 'object':
+          coerced[name] = parseJson(text);
+          break;
+      }
+    }
+    return coerced;
+  }
+}
@@ -0,0 +1,118 @@
+export { ReservationEngine } from './reservationEngine.service';
+export type { StayRequest, HoldRequest } from './reservationEngine.service';
+export { GroupBookingService } from './groupBooking.service';
+export type { GroupBookingRequest } from './groupBooking.service';
+export { PricingService, DEFAULT_RATE_PLAN_SETTING } from './pricing.service';
+export type { PricingRequest } from './pricing.service';
+export { BillingService } from './billing.service';
+export type {
+  PaymentRequest,
+  RefundRequest,
+  RefundResult,
+} from './billing.service';
+export { TaxService, TAX_RULES_SETTING } from './tax.service';
+export { FolioService } from './folio.service';
+export type {
+  MinibarItem,
+  AdjustmentRequest,
+  NightAuditResult,
+} from './folio.service';
+export { DocumentService } from './document.service';
+export type { TabularReport } from './document.service';
+export { ExportService, EXPORT_ROW_LIMIT } from './export.service';
+export type {
+  ExportResource,
+  ExportRequest,
+  ExportFile,
+} from './export.service';
+export { ImportService, IMPORT_ROW_LIMIT } from './import.service';
+export type { ImportRequest, ImportLogDownload } from './import.service';
+export { BulkService } from './bulk.service';
+export type {
+  BulkResource,
+  BulkOperation,
+  BulkRequest,
+  BulkItemResult,
+  BulkResult,
+} from './bulk.service';
+export { AuthService } from './auth.service';
+export type {
+  SessionContext,
+  SessionTokens,
+  AccessTokenPayload,
+} from './auth.service';
+export { PermissionService } from './permission.service';
+export type {
+  RolePermissionSet,
+  UserPermissionOverrides,
+  UserPermissionSummary,
+} from './permission.service';
+export {
+  MailService,
+  ConsoleMailTransport,
+  FileMailTransport,
+} from './mail.service';
+export type { MailMessage, MailTransport } from './mail.service';
+export {
+  SettingsService,
+  SETTING_DEFINITIONS,
+  getSetting,
+} from './settings.service';
+export type {
+  SettingView,
+  SettingInput,
+  SettingChanges,
+} from './settings.service';
+export { RoomMoveService } from './roomMove.service';
+export type { RoomMoveRequest, RoomMoveResult } from './roomMove.service';
+export { RoomStatusService } from './roomStatus.service';
+export type {
+  RoomStatusContext,
+  RoomStatusHistory,
+} from './roomStatus.service';
+export {
+  HousekeepingBoardService,
+  LINEN_CHANGE_NIGHTS_SETTING,
+  DEEP_CLEAN_DAYS_SETTING,
+} from './housekeepingBoard.service';
+export type { HousekeepingBoardResult } from './housekeepingBoard.service';
+export { HousekeepingAssignmentService } from './housekeepingAssignment.service';
+export type {
+  AutoAssignRequest,
+  AutoAssignResult,
+  HousekeepingBoard,
+  BoardAttendant,
+  BoardTask,
+} from './housekeepingAssignment.service';
+export { ShiftService, STAFF_ROLES } from './shift.service';
+export { MaintenancePlanService } from './maintenancePlan.service';
+export { AssetService } from './asset.service';
+export type {
+  AssetInput,
+  AssetFilter,
+  MaintenanceTarget,
+  AssetHistorySummary,
+  AssetHistory,
+} from './asset.service';
+export type {
+  MaintenancePlanInput,
+  MaintenancePlanFilter,
+  PreventiveGenerationResult,
+  PreventiveCompliance,
+  OverduePreventiveWork,
+  PlanCompliance,
+  PreventiveComplianceReport,
+} from './maintenancePlan.service';
+export type {
+  ShiftTemplateInput,
+  RosterEntry,
+  RosterWeekRequest,
+  RosterStaff,
+  RosterWeek,
+  LeaveInput,
+  LeaveFilter,
+  LeaveReview,
+  ClockEntryFilter,
+  OnDutyStaff,
+  OnDutyQuery,
+} from './shift.service';
@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { mailConfig } from '../config/mail.config';
+import { logger } from '../utils/logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * A mail delivery backend; register others (SMTP, SES...) with
+ * MailService.useTransport
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Logs every message instead of sending it
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+
+  send(message: MailMessage & { from: string }): Promise<void> {
+    logger.info('Mail message', {
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Writes every message to a JSON file, one file per message
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto
+      .randomBytes(4)
+      .toString('hex')}.json`;
+    const filePath = path.join(this.directory, fileName);
+
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({ ...message, date: new Date() }, null, 2)
+    );
+    logger.info('Mail message written to file', {
+      to: message.to,
+      subject: message.subject,
+      filePath,
+    });
+  }
+}
+
+/**
+ * Mail Service
+ * Sends mail through the transport selected by MAIL_TRANSPORT
+ */
+export class MailService {
+  private static transport: MailTransport | null = null;
+
+  /**
+   * Replace the active transport
+   */
+  static useTransport(transport: MailTransport): void {
+    MailService.transport = transport;
+  }
+
+  static async send(message: MailMessage): Promise<void> {
+    await MailService.getTransport().send({
+      ...message,
+      from: mailConfig.from,
+    });
+  }
+
+  private static getTransport(): MailTransport {
+    if (!MailService.transport) {
+      MailService.transport =
+        mailConfig.transport === 'file'
+          ? new FileMailTransport(mailConfig.fileDirectory)
+          : new ConsoleMailTransport();
+    }
+    return MailService.transport;
+  }
+}
@@ -0,0 +1,444 @@
+import { Types } from 'mongoose';
+import {
+  MaintenancePlanDocument,
+  MaintenancePlanModel,
+} from '../models/MaintenancePlan.model';
+import {
+  MaintenanceRequestDocument,
+  MaintenanceRequestModel,
+} from '../models/MaintenanceRequest.model';
+import { RoomModel } from '../models/Room.model';
+import { AssetService } from './asset.service';
+import { AppError } from '../utils/errors';
+import { DAY_MS, startOfUtcDay } from '../utils/dates';
+import { HttpStatusCode } from '../types/api';
+import { MaintenanceCategory, Priority, TaskStatus } from '../types/models';
+
+export interface MaintenancePlanInput {
+  title: string;
+  description?: string;
+  category: MaintenanceCategory;
+  roomId?: string;
+  assetId?: string;
+  equipment?: string;
+  intervalDays: number;
+  leadDays?: number;
+  checklist?: string[];
+  estimatedCost?: number;
+  priority?: Priority;
+  nextDueDate: Date;
+  isActive?: boolean;
+}
+
+export interface MaintenancePlanFilter {
+  category?: MaintenanceCategory;
+  roomId?: string;
+  assetId?: string;
+  includeInactive?: boolean;
+  page: number;
+  limit: number;
+}
+
+export interface PreventiveGenerationResult {
+  asOf: string;
+  created: number;
+  // Work orders that already existed for a due date
+  skipped: number;
+  requests: MaintenanceRequestDocument[];
+}
+
+export interface PreventiveCompliance {
+  total: number;
+  onTime: number;
+  late: number;
+  overdue: number;
+  upcoming: number;
+  cancelled: number;
+  // Share of due work done on time; null while nothing has fallen due
+  complianceRate: number | null;
+}
+
+export interface OverduePreventiveWork {
+  requestId: string;
+  planId: string;
+  title: string;
+  category: MaintenanceCategory;
+  roomId?: string;
+  dueDate: Date;
+  daysOverdue: number;
+  status: TaskStatus;
+}
+
+export interface PlanCompliance extends PreventiveCompliance {
+  planId: string;
+  title: string;
+  category: MaintenanceCategory;
+  nextDueDate: Date;
+  isActive: boolean;
+}
+
+export interface PreventiveComplianceReport {
+  summary: PreventiveCompliance;
+  plans: PlanCompliance[];
+  overdue: OverduePreventiveWork[];
+}
+
+type PreventiveOutcome = Exclude<
+  keyof PreventiveCompliance,
+  'total' | 'complianceRate'
+>;
+
+const emptyCompliance = (): PreventiveCompliance => ({
+  total: 0,
+  onTime: 0,
+  late: 0,
+  overdue: 0,
+  upcoming: 0,
+  cancelled: 0,
+  complianceRate: null,
+});
+
+/**
+ * Maintenance Plan Service
+ * Recurring preventive work, such as an HVAC filter every 90 days or a
+ * yearly boiler service. Each due date gets one work order, raised the
+ * plan's lead days ahead of it. Work done by the end of the due day is on
+ * time; open work past it is overdue.
+ */
+export class MaintenancePlanService {
+  static async list(
+    filter: MaintenancePlanFilter
+  ): Promise<{ plans: MaintenancePlanDocument[]; total: number }> {
+    const query: Record<string, unknown> = {};
+    if (!filter.includeInactive) query['isActive'] = true;
+    if (filter.category) query['category'] = filter.category;
+    if (filter.roomId) query['roomId'] = filter.roomId;
+    if (filter.assetId) query['assetId'] = filter.assetId;
+
+    const [plans, total] = await Promise.all([
+      MaintenancePlanModel.find(query)
+        .populate('roomId', 'roomNumber floor')
+        .sort({ nextDueDate: 1 })
+        .skip((filter.page - 1) * filter.limit)
+        .limit(filter.limit),
+      MaintenancePlanModel.countDocuments(query),
+    ]);
+
+    return { plans, total };
+  }
+
+  static async get(id: string): Promise<MaintenancePlanDocument> {
+    const plan = await MaintenancePlanModel.findById(id)
+      .populate('roomId', 'roomNumber floor')
+      .populate('assetId', 'assetTag assetType name');
+    if (!plan) {
+      throw new AppError(
+        'Maintenance plan not found',
+        HttpStatusCode.NOT_FOUND
+      );
+    }
+    return plan;
+  }
+
+  static async create(
+    input: MaintenancePlanInput,
+    createdBy?: string
+  ): Promise<MaintenancePlanDocument> {
+    this.assertTarget(input.roomId, input.equipment, input.assetId);
+    if (input.roomId) await this.assertRoom(input.roomId);
+    const target = await AssetService.resolveTarget(
+      input.roomId,
+      input.assetId
+    );
+
+    return MaintenancePlanModel.create({
+      ...input,
+      ...target,
+      nextDueDate: startOfUtcDay(input.nextDueDate),
+      createdBy,
+    });
+  }
+
+  static async update(
+    id: string,
+    changes: Partial<MaintenancePlanInput>
+  ): Promise<MaintenancePlanDocument> {
+    const plan = await MaintenancePlanModel.findById(id);
+    if (!plan) {
+      throw new AppError(
+        'Maintenance plan not found',
+        HttpStatusCode.NOT_FOUND
+      );
+    }
+
+    const roomId =
+      changes.roomId !== undefined ? changes.roomId : plan.roomId?.toString();
+    const equipment =
+      changes.equipment !== undefined ? changes.equipment : plan.equipment;
+    const assetId =
+      changes.assetId !== undefined
+        ? changes.assetId
+        : plan.assetId?.toString();
+    this.assertTarget(roomId, equipment, assetId);
+    if (changes.roomId) await this.assertRoom(changes.roomId);
+    // A new asset brings its room unless one is given
+    const target =
+      changes.assetId || changes.roomId
+        ? await AssetService.resolveTarget(
+            changes.assetId ? changes.roomId : roomId,
+            assetId
+          )
+        : {};
+
+    plan.set({
+      ...changes,
+      ...target,
+      ...(changes.nextDueDate && {
+        nextDueDate: startOfUtcDay(changes.nextDueDate),
+      }),
+    });
+    return plan.save();
+  }
+
+  static async deactivate(id: string): Promise<MaintenancePlanDocument> {
+    const plan = await MaintenancePlanModel.findByIdAndUpdate(
+      id,
+      { isActive: false },
+      { new: true }
+    );
+    if (!plan) {
+      throw new AppError(
+        'Maintenance plan not found',
+        HttpStatusCode.NOT_FOUND
+      );
+    }
+    return plan;
+  }
+
+  /**
+   * Raise the work orders of active plans whose due date is within their
+   * lead days. Plans move forward on a fixed schedule, so a late service
+   * does not push the following ones back; periods missed while a plan sat
+   * idle are skipped rather than raised in a batch. Safe to run repeatedly.
+   */
+  static async generateDue(
+    reportedBy: string,
+    asOf: Date = new Date()
+  ): Promise<PreventiveGenerationResult> {
+    const today = startOfUtcDay(asOf);
+    const plans = await MaintenancePlanModel.find({
+      isActive: true,
+      $expr: {
+        $lte: [
+          {
+            $subtract: ['$nextDueDate', { $multiply: ['$leadDays', DAY_MS] }],
+          },
+          today,
+        ],
+      },
+    }).lean();
+
+    const requests: MaintenanceRequestDocument[] = [];
+    let skipped = 0;
+
+    for (const plan of plans) {
+      let dueDate = startOfUtcDay(plan.nextDueDate);
+
+      // Catch up to the latest due date that has been reached
+      const intervalMs = plan.intervalDays * DAY_MS;
+      while (dueDate.getTime() + intervalMs <= today.getTime()) {
+        dueDate = new Date(dueDate.getTime() + intervalMs);
+      }
+
+      const existing = await MaintenanceRequestModel.exists({
+        preventivePlanId: plan._id,
+        dueDate,
+      });
+      if (existing) {
+        skipped++;
+      } else {
+        requests.push(
+          await MaintenanceRequestModel.create({
+            roomId: plan.roomId,
+            assetId: plan.assetId,
+            reportedBy,
+            title: plan.title,
+            description: this.describe(plan),
+            category: plan.category,
+            priority: plan.priority,
+            status: TaskStatus.PENDING,
+            estimatedCost: plan.estimatedCost,
+            estimatedCompletionDate: dueDate,
+            preventivePlanId: plan._id,
+            dueDate,
+            checklist: plan.checklist.map(item => ({ item, done: false })),
+          })
+        );
+      }
+
+      await MaintenancePlanModel.updateOne(
+        { _id: plan._id, nextDueDate: plan.nextDueDate },
+        { nextDueDate: new Date(dueDate.getTime() + intervalMs) }
+      );
+    }
+
+    return {
+      asOf: today.toISOString().slice(0, 10),
+      created: requests.length,
+      skipped,
+      requests,
+    };
+  }
+
+  /**
+   * Compliance of all preventive work orders, for the maintenance statistics
+   */
+  static async complianceSummary(): Promise<PreventiveCompliance> {
+    const summary = emptyCompliance();
+    const requests = await MaintenanceRequestModel.find({
+      preventivePlanId: { $exists: true },
+    })
+      .select('status dueDate actualCompletionDate')
+      .lean();
+
+    const today = startOfUtcDay(new Date());
+    for (const request of requests) {
+      this.count(summary, this.outcome(request, today));
+    }
+    this.rate(summary);
+
+    return summary;
+  }
+
+  /**
+   * Compliance per plan, with the open work past its due date
+   */
+  static async complianceReport(filter: {
+    from?: Date;
+    to?: Date;
+    category?: MaintenanceCategory;
+  }): Promise<PreventiveComplianceReport> {
+    const planQuery: Record<string, unknown> = {};
+    if (filter.category) planQuery['category'] = filter.category;
+    const plans = await MaintenancePlanModel.find(planQuery).sort({
+      title: 1,
+    });
+
+    const dueDate: Record<string, Date> = {};
+    if (filter.from) dueDate['$gte'] = startOfUtcDay(filter.from);
+    if (filter.to) dueDate['$lte'] = startOfUtcDay(filter.to);
+    const requests = await MaintenanceRequestModel.find({
+      preventivePlanId: { $in: plans.map(plan => plan._id) },
+      ...(Object.keys(dueDate).length > 0 && { dueDate }),
+    })
+      .select('preventivePlanId roomId status dueDate actualCompletionDate')
+      .sort({ dueDate: 1 });
+
+    const today = startOfUtcDay(new Date());
+    const summary = emptyCompliance();
+    const byPlan = new Map<string, PlanCompliance>(
+      plans.map(plan => [
+        plan.id,
+        {
+          planId: plan.id,
+          title: plan.title,
+          category: plan.category,
+          nextDueDate: plan.nextDueDate,
+          isActive: plan.isActive,
+          ...emptyCompliance(),
+        },
+      ])
+    );
+    const overdue: OverduePreventiveWork[] = [];
+
+    for (const request of requests) {
+      const planCompliance = byPlan.get(String(request.preventivePlanId));
+      if (!planCompliance) continue;
+
+      const outcome = this.outcome(request, today);
+      this.count(summary, outcome);
+      this.count(planCompliance, outcome);
+
+      if (outcome === 'overdue' && request.dueDate) {
+        overdue.push({
+          requestId: request.id,
+          planId: planCompliance.planId,
+          title: planCompliance.title,
+          category: planCompliance.category,
+          roomId: request.roomId ? String(request.roomId) : undefined,
+          dueDate: request.dueDate,
+          daysOverdue: Math.round(
+            (today.getTime() - startOfUtcDay(request.dueDate).getTime()) /
+              DAY_MS
+          ),
+          status: request.status,
+        });
+      }
+    }
+
+    this.rate(summary);
+    byPlan.forEach(planCompliance => this.rate(planCompliance));
+    overdue.sort((a, b) => b.daysOverdue - a.daysOverdue);
+
+    return { summary, plans: Array.from(byPlan.values()), overdue };
+  }
+
+  private static outcome(
+    request: Pick<
+      MaintenanceRequestDocument,
+      'status' | 'dueDate' | 'actualCompletionDate'
+    >,
+    today: Date
+  ): PreventiveOutcome {
+    if (request.status === TaskStatus.CANCELLED) return 'cancelled';
+
+    const due = request.dueDate ? startOfUtcDay(request.dueDate) : today;
+    if (request.status === TaskStatus.COMPLETED) {
+      const completedAt = request.actualCompletionDate ?? today;
+      return completedAt.getTime() < due.getTime() + DAY_MS ? 'onTime' : 'late';
+    }
+    return due.getTime() < today.getTime() ? 'overdue' : 'upcoming';
+  }
+
+  private static count(
+    compliance: PreventiveCompliance,
+    outcome: PreventiveOutcome
+  ): void {
+    compliance.total++;
+    compliance[outcome]++;
+  }
+
+  private static rate(compliance: PreventiveCompliance): void {
+    const due = compliance.onTime + compliance.late + compliance.overdue;
+    compliance.complianceRate =
+      due > 0 ? Math.round((compliance.onTime / due) * 1000) / 10 : null;
+  }
+
+  private static describe(
+    plan: Pick<MaintenancePlanDocument, 'description' | 'equipment'>
+  ): string {
+    const lines = ['Preventive maintenance'];
+    if (plan.equipment) lines[0] += ` of ${plan.equipment}`;
+    if (plan.description) lines.push(plan.description);
+    return lines.join('\n');
+  }
+
+  private static assertTarget(
+    roomId?: string,
+    equipment?: string,
+    assetId?: string
+  ): void {
+    if (!roomId && !equipment && !assetId) {
+      throw new AppError('A plan needs a room, an asset or equipment');
+    }
+  }
+
+  private static async assertRoom(roomId: string): Promise<void> {
+    if (
+      !Types.ObjectId.isValid(roomId) ||
+      !(await RoomModel.exists({ _id: roomId }))
+    ) {
+      throw new AppError('Room not found', HttpStatusCode.NOT_FOUND);
+    }
+  }
+}
@@ -0,0 +1,220 @@
+import { RolePermissionModel } from '../models/RolePermission.model';
+import { UserModel } from '../models/User.model';
+import { authConfig } from '../config/auth.config';
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  Permission,
+  PERMISSIONS,
+  PERMISSION_NAMES,
+} from '../config/permissions.config';
+import { AppError } from '../utils/errors';
+import { HttpStatusCode } from '../types/api';
+import { User, UserRole } from '../types/models';
+
+export interface RolePermissionSet {
+  role: UserRole;
+  permissions: Permission[];
+  isDefault: boolean;
+}
+
+export interface UserPermissionOverrides {
+  grants: Permission[];
+  denials: Permission[];
+}
+
+export interface UserPermissionSummary extends UserPermissionOverrides {
+  userId: string;
+  role: UserRole;
+  effective: Permission[];
+}
+
+type PermissionSubject = Pick<User, 'role'> &
+  Partial<Pick<User, 'permissionGrants' | 'permissionDenials'>>;
+
+/**
+ * Permission Service
+ * Resolves what a user may do: their role's permission set, plus per-user
+ * grants, minus per-user denials. Admins always hold every permission.
+ * Customised role sets are stored in the database and cached briefly.
+ */
+export class PermissionService {
+  private static roleCache: {
+    loadedAt: number;
+    sets: Map<UserRole, Permission[]>;
+  } | null = null;
+
+  /**
+   * The permission catalogue
+   */
+  static listPermissions(): { name: Permission; description: string }[] {
+    return PERMISSION_NAMES.map(name => ({
+      name,
+      description: PERMISSIONS[name],
+    }));
+  }
+
+  /**
+   * Permission sets of every role
+   */
+  static async listRoles(): Promise<RolePermissionSet[]> {
+    const sets = await PermissionService.loadRoleSets();
+    return Object.values(UserRole).map(role =>
+      PermissionService.describeRole(role, sets)
+    );
+  }
+
+  static async getRole(role: UserRole): Promise<RolePermissionSet> {
+    const sets = await PermissionService.loadRoleSets();
+    return PermissionService.describeRole(role, sets);
+  }
+
+  /**
+   * Replace the permission set of a role
+   */
+  static async setRolePermissions(
+    role: UserRole,
+    permissions: Permission[],
+    updatedBy?: string
+  ): Promise<RolePermissionSet> {
+    PermissionService.ensureEditableRole(role);
+
+    await RolePermissionModel.findOneAndUpdate(
+      { role },
+      { $set: { permissions: [...new Set(permissions)], updatedBy } },
+      { upsert: true, runValidators: true }
+    );
+    PermissionService.invalidateCache();
+
+    return PermissionService.getRole(role);
+  }
+
+  /**
+   * Restore the default permission set of a role
+   */
+  static async resetRolePermissions(
+    role: UserRole
+  ): Promise<RolePermissionSet> {
+    PermissionService.ensureEditableRole(role);
+
+    await RolePermissionModel.deleteOne({ role });
+    PermissionService.invalidateCache();
+
+    return PermissionService.getRole(role);
+  }
+
+  /**
+   * Role permissions plus grants, minus denials
+   */
+  static async getEffectivePermissions(
+    user: PermissionSubject
+  ): Promise<Permission[]> {
+    if (user.role === UserRole.ADMIN) {
+      return [...PERMISSION_NAMES];
+    }
+
+    const sets = await PermissionService.loadRoleSets();
+    const denied = new Set(user.permissionDenials ?? []);
+    const effective = new Set([
+      ...(sets.get(user.role) ?? []),
+      ...((user.permissionGrants ?? []) as Permission[]),
+    ]);
+
+    return PERMISSION_NAMES.filter(
+      name => effective.has(name) && !denied.has(name)
+    );
+  }
+
+  static async getUserPermissions(
+    userId: string
+  ): Promise<UserPermissionSummary> {
+    const user = await UserModel.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', HttpStatusCode.NOT_FOUND);
+    }
+
+    return {
+      userId: String(user._id),
+      role: user.role,
+      grants: (user.permissionGrants ?? []) as Permission[],
+      denials: (user.permissionDenials ?? []) as Permission[],
+      effective: await PermissionService.getEffectivePermissions(user),
+    };
+  }
+
+  /**
+   * Replace a user's grants and denials
+   */
+  static async setUserOverrides(
+    userId: string,
+    overrides: UserPermissionOverrides
+  ): Promise<UserPermissionSummary> {
+    const user = await UserModel.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', HttpStatusCode.NOT_FOUND);
+    }
+    if (user.role === UserRole.ADMIN) {
+      throw new AppError('Admins always hold every permission');
+    }
+
+    const grants = [...new Set(overrides.grants)];
+    const denials = [...new Set(overrides.denials)];
+    if (grants.some(name => denials.includes(name))) {
+      throw new AppError('A permission cannot be both granted and denied');
+    }
+
+    user.permissionGrants = grants;
+    user.permissionDenials = denials;
+    await user.save();
+
+    return PermissionService.getUserPermissions(userId);
+  }
+
+  /**
+   * Drop cached role sets so the next check reads them again
+   */
+  static invalidateCache(): void {
+    PermissionService.roleCache = null;
+  }
+
+  private static async loadRoleSets(): Promise<Map<UserRole, Permission[]>> {
+    const cache = PermissionService.roleCache;
+    if (
+      cache &&
+      Date.now() - cache.loadedAt < authConfig.permissionCacheTtlSeconds * 1000
+    ) {
+      return cache.sets;
+    }
+
+    const sets = new Map<UserRole, Permission[]>(
+      Object.entries(DEFAULT_ROLE_PERMISSIONS) as [UserRole, Permission[]][]
+    );
+    const customised = await RolePermissionModel.find().lean();
+    for (const entry of customised) {
+      if (entry.role !== UserRole.ADMIN) {
+        sets.set(entry.role, entry.permissions as Permission[]);
+      }
+    }
+
+    PermissionService.roleCache = { loadedAt: Date.now(), sets };
+    return sets;
+  }
+
+  private static describeRole(
+    role: UserRole,
+    sets: Map<UserRole, Permission[]>
+  ): RolePermissionSet {
+    const permissions = sets.get(role) ?? [];
+    // Customised sets are loaded as new arrays, defaults are shared
+    return {
+      role,
+      permissions,
+      isDefault: permissions === DEFAULT_ROLE_PERMISSIONS[role],
+    };
+  }
+
+  private static ensureEditableRole(role: UserRole): void {
+    if (role === UserRole.ADMIN) {
+      throw new AppError('The admin role always holds every permission');
+    }
+  }
+}
@@ -0,0 +1,204 @@
+import { ClientSession } from 'mongoose';
+import { RatePlanModel, RatePlanDocument } from '../models/RatePlan.model';
+import { RoomModel } from '../models/Room.model';
+import { AppError } from '../utils/errors';
+import { getStayNights, startOfUtcDay } from '../utils/dates';
+import { roundCurrency } from '../utils/money';
+import { HttpStatusCode } from '../types/api';
+import { getSetting } from './settings.service';
+import {
+  NightlyRate,
+  RateAdjustment,
+  RateAdjustmentType,
+  RateQuote,
+  RateSeason,
+  RoomType,
+} from '../types/models';
+
+// ROOM_RATES setting naming the plan used when a booking does not pick one
+export const DEFAULT_RATE_PLAN_SETTING = 'DEFAULT_RATE_PLAN_CODE';
+
+export interface PricingRequest {
+  roomId: string;
+  checkInDate: Date | string;
+  checkOutDate: Date | string;
+  ratePlanId?: string;
+}
+
+interface PricingOptions {
+  session?: ClientSession;
+  enforceRestrictions?: boolean;
+}
+
+/**
+ * Pricing Service
+ * Prices a stay night by night from the rate plan of the room's type. Rooms
+ * whose type has no default plan are priced at Room.pricePerNight.
+ */
+export class PricingService {
+  /**
+   * Compute the nightly breakdown and total for a stay
+   */
+  static async quote(
+    request: PricingRequest,
+    options: PricingOptions = {}
+  ): Promise<RateQuote> {
+    const session = options.session ?? null;
+    const nights = getStayNights(request.checkInDate, request.checkOutDate);
+
+    const room = await RoomModel.findById(request.roomId).session(session);
+    if (!room || !room.isActive) {
+      throw new AppError('Room not found', HttpStatusCode.NOT_FOUND);
+    }
+
+    const plan = await PricingService.resolveRatePlan(
+      room.roomType,
+      request.ratePlanId,
+      session
+    );
+
+    if (!plan) {
+      const breakdown = nights.map(date => ({
+        date,
+        rate: room.pricePerNight,
+      }));
+      return {
+        nights: breakdown,
+        totalAmount: PricingService.sum(breakdown),
+      };
+    }
+
+    if (options.enforceRestrictions !== false) {
+      PricingService.checkRestrictions(plan, nights);
+    }
+
+    const breakdown = nights.map(date =>
+      PricingService.priceNight(plan, room.pricePerNight, date)
+    );
+
+    return {
+      ratePlanId: String(plan._id),
+      ratePlanCode: plan.code,
+      nights: breakdown,
+      totalAmount: PricingService.sum(breakdown),
+    };
+  }
+
+  /**
+   * Price a single night: season rate, then season and day-of-week adjustments
+   */
+  static priceNight(
+    plan: RatePlanDocument,
+    roomRate: number,
+    date: Date
+  ): NightlyRate {
+    const season = PricingService.findSeason(plan, date);
+
+    let rate = season?.rate ?? plan.baseRate ?? roomRate;
+    if (season?.adjustment) {
+      rate = PricingService.applyAdjustment(rate, season.adjustment);
+    }
+
+    const modifier = plan.dayOfWeekModifiers.find(
+      item => item.dayOfWeek === date.getUTCDay()
+    );
+    if (modifier) {
+      rate = PricingService.applyAdjustment(rate, modifier.adjustment);
+    }
+
+    return {
+      date,
+      rate: roundCurrency(Math.max(0, rate)),
+      season: season?.name,
+    };
+  }
+
+  /**
+   * Enforce minimum length of stay and closed-to-arrival on the arrival night
+   */
+  private static checkRestrictions(
+    plan: RatePlanDocument,
+    nights: Date[]
+  ): void {
+    const arrival = nights[0];
+    const arrivalSeason = PricingService.findSeason(plan, arrival);
+
+    const minLengthOfStay =
+      arrivalSeason?.minLengthOfStay ?? plan.minLengthOfStay;
+    if (nights.length < minLengthOfStay) {
+      throw new AppError(
+        `Rate plan ${plan.code} requires a minimum stay of ${minLengthOfStay} night(s)`
+      );
+    }
+
+    const closedToArrival =
+      arrivalSeason?.closedToArrival ||
+      plan.closedToArrivalDates.some(
+        date => startOfUtcDay(date).getTime() === arrival.getTime()
+      );
+    if (closedToArrival) {
+      throw new AppError(
+        `Rate plan ${plan.code} is closed to arrival on ${arrival.toISOString().slice(0, 10)}`
+      );
+    }
+  }
+
+  /**
+   * Find the season covering a night; the latest-starting season wins
+   */
+  private static findSeason(
+    plan: RatePlanDocument,
+    date: Date
+  ): RateSeason | undefined {
+    return plan.seasons
+      .filter(
+        season =>
+          startOfUtcDay(season.startDate) <= date &&
+          date <= startOfUtcDay(season.endDate)
+      )
+      .sort((a, b) => b.startDate.getTime() - a.startDate.getTime())[0];
+  }
+
+  private static async resolveRatePlan(
+    roomType: RoomType,
+    ratePlanId: string | undefined,
+    session: ClientSession | null
+  ): Promise<RatePlanDocument | null> {
+    if (ratePlanId) {
+      const plan = await RatePlanModel.findById(ratePlanId).session(session);
+      if (!plan || !plan.isActive) {
+        throw new AppError('Rate plan not found', HttpStatusCode.NOT_FOUND);
+      }
+      if (plan.roomType !== roomType) {
+        throw new AppError(
+          `Rate plan ${plan.code} does not apply to ${roomType} rooms`
+        );
+      }
+      return plan;
+    }
+
+    const code = await getSetting<string>(DEFAULT_RATE_PLAN_SETTING);
+
+    return RatePlanModel.findOne({
+      code: code.toUpperCase(),
+      roomType,
+      isActive: true,
+    }).session(session);
+  }
+
+  private static applyAdjustment(
+    rate: number,
+    adjustment: RateAdjustment
+  ): number {
+    if (adjustment.type === RateAdjustmentType.PERCENTAGE) {
+      return rate * (1 + adjustment.value / 100);
+    }
+    return rate + adjustment.value;
+  }
+
+  private static sum(nights: NightlyRate[]): number {
+    return roundCurrency(
+      nights.reduce((total, night) => total + night.rate, 0)
+    );
+  }
+}
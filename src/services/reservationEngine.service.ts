@@ -0,0 +1,743 @@
+import crypto from 'crypto';
+import { ClientSession, FilterQuery } from 'mongoose';
+import {
+  ReservationModel,
+  ReservationDocument,
+} from '../models/Reservation.model';
+import { RoomNightModel, RoomNightDocument } from '../models/RoomNight.model';
+import { RoomModel } from '../models/Room.model';
+import {
+  GroupBookingModel,
+  GroupBookingDocument,
+} from '../models/GroupBooking.model';
+import { PricingService } from './pricing.service';
+import { getSetting } from './settings.service';
+import { AppError, isDuplicateKeyError } from '../utils/errors';
+import { runInTransaction } from '../utils/transaction';
+import { DAY_MS, getStayNights } from '../utils/dates';
+import { HttpStatusCode } from '../types/api';
+import {
+  GroupBookingStatus,
+  INVENTORY_HOLDING_STATUSES,
+  Reservation,
+  ReservationStatus,
+  RoomHold,
+  RoomNightStatus,
+  RoomType,
+} from '../types/models';
+
+export interface StayRequest {
+  roomId: string;
+  checkInDate: Date | string;
+  checkOutDate: Date | string;
+}
+
+export interface HoldRequest extends StayRequest {
+  heldBy?: string;
+  ttlMinutes?: number;
+}
+
+// Set by the engine, never by an update
+const DERIVED_FIELDS = ['status', 'totalAmount', 'nightlyRates'];
+
+interface ConflictOptions {
+  excludeReservationId?: string;
+  excludeHoldId?: string;
+  session?: ClientSession;
+}
+
+/**
+ * Reservation Engine
+ * Keeps per-room, per-night inventory in step with reservations. Every write
+ * runs in a transaction and relies on the unique (roomId, date) index of
+ * RoomNight, so two agents booking the same night cannot both succeed.
+ */
+export class ReservationEngine {
+  /**
+   * Get the nights (UTC midnight) covered by a stay, check-out day excluded
+   */
+  static getStayNights(
+    checkInDate: Date | string,
+    checkOutDate: Date | string
+  ): Date[] {
+    return getStayNights(checkInDate, checkOutDate);
+  }
+
+  /**
+   * Check whether a reservation status keeps its nights out of inventory
+   */
+  static holdsInventory(status: ReservationStatus | string): boolean {
+    return INVENTORY_HOLDING_STATUSES.includes(status as ReservationStatus);
+  }
+
+  /**
+   * Find booked, blocked or actively held nights that overlap a stay
+   */
+  static async findConflicts(
+    stay: StayRequest,
+    options: ConflictOptions = {}
+  ): Promise<RoomNightDocument[]> {
+    const nights = ReservationEngine.getStayNights(
+      stay.checkInDate,
+      stay.checkOutDate
+    );
+
+    const query: FilterQuery<RoomNightDocument> = {
+      roomId: stay.roomId,
+      date: { $in: nights },
+      ...ReservationEngine.unavailableNightFilter(),
+    };
+
+    if (options.excludeReservationId) {
+      query.reservationId = { $ne: options.excludeReservationId };
+    }
+    if (options.excludeHoldId) {
+      query.holdId = { $ne: options.excludeHoldId };
+    }
+
+    return RoomNightModel.find(query)
+      .sort({ date: 1 })
+      .session(options.session ?? null);
+  }
+
+  /**
+   * Place a short, expiring hold on a room while a guest completes checkout
+   */
+  static async createHold(request: HoldRequest): Promise<RoomHold> {
+    const nights = ReservationEngine.getStayNights(
+      request.checkInDate,
+      request.checkOutDate
+    );
+    const [defaultTtl, maxTtl] = await Promise.all([
+      getSetting<number>('RESERVATION_HOLD_TTL_MINUTES'),
+      getSetting<number>('RESERVATION_MAX_HOLD_TTL_MINUTES'),
+    ]);
+    const ttlMinutes = Math.min(request.ttlMinutes ?? defaultTtl, maxTtl);
+    const holdId = crypto.randomUUID();
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+    await ReservationEngine.withConflictMapping(() =>
+      runInTransaction(async session => {
+        await ReservationEngine.ensureRoomBookable(request.roomId, session);
+        await ReservationEngine.claimNights(
+          request.roomId,
+          nights,
+          {
+            status: RoomNightStatus.HELD,
+            holdId,
+            heldBy: request.heldBy,
+            expiresAt,
+          },
+          session
+        );
+      })
+    );
+
+    return {
+      holdId,
+      roomId: request.roomId,
+      checkInDate: nights[0],
+      checkOutDate: new Date(nights[nights.length - 1].getTime() + DAY_MS),
+      expiresAt,
+    };
+  }
+
+  /**
+   * Release a hold before it expires
+   * @returns number of nights released
+   */
+  static async releaseHold(holdId: string): Promise<number> {
+    const result = await RoomNightModel.deleteMany({
+      holdId,
+      status: RoomNightStatus.HELD,
+    });
+    return result.deletedCount;
+  }
+
+  /**
+   * Create a reservation and book its nights in one transaction
+   * When a holdId is given, the held nights are converted instead of claimed.
+   * The total is always priced server-side from the rate plan.
+   */
+  static async createReservation(
+    data: Partial<Reservation>,
+    holdId?: string
+  ): Promise<ReservationDocument> {
+    return ReservationEngine.withConflictMapping(() =>
+      runInTransaction(async session => {
+        const reservation = new ReservationModel(data);
+        await ReservationEngine.ensureRoomBookable(
+          reservation.roomId.toString(),
+          session
+        );
+        await ReservationEngine.applyPricing(reservation, session);
+
+        if (ReservationEngine.holdsInventory(reservation.status)) {
+          if (holdId) {
+            await ReservationEngine.convertHold(holdId, reservation, session);
+          } else {
+            await ReservationEngine.bookNights(reservation, session);
+          }
+        }
+
+        await reservation.save({ session });
+        return reservation;
+      })
+    );
+  }
+
+  /**
+   * Modify a reservation, moving its nights when the room or dates change
+   * Status changes go through updateStatus/cancelReservation instead, and
+   * totals are re-priced rather than taken from the update.
+   */
+  static async modifyReservation(
+    id: string,
+    updates: Partial<Reservation>
+  ): Promise<ReservationDocument> {
+    const changes = Object.fromEntries(
+      Object.entries(updates).filter(
+        ([field]) => !DERIVED_FIELDS.includes(field)
+      )
+    );
+
+    return ReservationEngine.withConflictMapping(() =>
+      runInTransaction(async session => {
+        const reservation = await ReservationEngine.loadReservation(
+          id,
+          session
+        );
+
+        reservation.set(changes);
+
+        const stayChanged =
+          reservation.isModified('roomId') ||
+          reservation.isModified('checkInDate') ||
+          reservation.isModified('checkOutDate');
+
+        if (
+          stayChanged &&
+          ReservationEngine.holdsInventory(reservation.status)
+        ) {
+          if (reservation.isModified('roomId')) {
+            await ReservationEngine.ensureRoomBookable(
+              reservation.roomId.toString(),
+              session
+            );
+          }
+          await ReservationEngine.syncInventory(reservation, session);
+        }
+
+        // Group reservations keep their negotiated block rate
+        if (
+          (stayChanged || reservation.isModified('ratePlanId')) &&
+          !reservation.groupBookingId
+        ) {
+          await ReservationEngine.applyPricing(reservation, session);
+        }
+
+        await reservation.save({ session });
+        return reservation;
+      })
+    );
+  }
+
+  /**
+   * Cancel a reservation and return its nights to inventory
+   */
+  static async cancelReservation(id: string): Promise<ReservationDocument> {
+    return runInTransaction(async session => {
+      const reservation = await ReservationEngine.loadReservation(id, session);
+
+      if (
+        [ReservationStatus.CANCELLED, ReservationStatus.CHECKED_OUT].includes(
+          reservation.status
+        )
+      ) {
+        throw new AppError('Reservation is already cancelled or completed');
+      }
+
+      reservation.status = ReservationStatus.CANCELLED;
+      await ReservationEngine.syncInventory(reservation, session);
+      await reservation.save({ session });
+      return reservation;
+    });
+  }
+
+  /**
+   * Change a reservation status, releasing or re-booking nights as needed
+   */
+  static async updateStatus(
+    id: string,
+    status: ReservationStatus
+  ): Promise<ReservationDocument> {
+    return ReservationEngine.withConflictMapping(() =>
+      runInTransaction(async session => {
+        const reservation = await ReservationEngine.loadReservation(
+          id,
+          session
+        );
+        const wasHolding = ReservationEngine.holdsInventory(reservation.status);
+
+        reservation.status = status;
+
+        if (wasHolding !== ReservationEngine.holdsInventory(status)) {
+          await ReservationEngine.syncInventory(reservation, session);
+        }
+
+        await reservation.save({ session });
+        return reservation;
+      })
+    );
+  }
+
+  /**
+   * Release every night booked by a reservation
+   * Nights picked up from a group block that is still open go back to the
+   * block, and the group's pickup count drops by one.
+   */
+  static async releaseReservationNights(
+    reservationId: string,
+    session?: ClientSession
+  ): Promise<number> {
+    let reblocked = 0;
+
+    const blockNight = await RoomNightModel.findOne({
+      reservationId,
+      groupBookingId: { $exists: true },
+    }).session(session ?? null);
+    const group = blockNight
+      ? await ReservationEngine.loadOpenGroup(
+          String(blockNight.groupBookingId),
+          session
+        )
+      : null;
+
+    if (blockNight && group) {
+      const result = await RoomNightModel.updateMany(
+        { reservationId, groupBookingId: group._id },
+        {
+          $set: { status: RoomNightStatus.BLOCKED },
+          $unset: { reservationId: 1 },
+        },
+        { session }
+      );
+      reblocked = result.modifiedCount;
+
+      const allotment = ReservationEngine.findAllotment(
+        group,
+        String(blockNight.roomId)
+      );
+      if (allotment && allotment.roomsPickedUp > 0) {
+        allotment.roomsPickedUp -= 1;
+        await group.save({ session });
+      }
+    }
+
+    const result = await RoomNightModel.deleteMany(
+      { reservationId },
+      { session }
+    );
+    return reblocked + result.deletedCount;
+  }
+
+  /**
+   * Move the given nights of a reservation to another room
+   * Nights already slept stay on the room they were slept in.
+   */
+  static async moveNights(
+    reservationId: string,
+    roomId: string,
+    nights: Date[],
+    session: ClientSession
+  ): Promise<void> {
+    await RoomNightModel.deleteMany(
+      { reservationId, date: { $in: nights } },
+      { session }
+    );
+    await ReservationEngine.claimNights(
+      roomId,
+      nights,
+      { status: RoomNightStatus.BOOKED, reservationId },
+      session
+    );
+  }
+
+  /**
+   * Block free rooms of one type for a group over the given nights
+   * @returns ids of the blocked rooms
+   */
+  static async blockRooms(
+    groupBookingId: string,
+    roomType: RoomType,
+    count: number,
+    checkInDate: Date | string,
+    checkOutDate: Date | string,
+    session: ClientSession
+  ): Promise<string[]> {
+    const nights = ReservationEngine.getStayNights(checkInDate, checkOutDate);
+
+    const rooms = await RoomModel.find({ roomType, isActive: true })
+      .sort({ roomNumber: 1 })
+      .session(session);
+
+    const takenRoomIds = await RoomNightModel.distinct('roomId', {
+      roomId: { $in: rooms.map(room => room._id) },
+      date: { $in: nights },
+      ...ReservationEngine.unavailableNightFilter(),
+    }).session(session);
+    const taken = new Set(takenRoomIds.map(id => String(id)));
+
+    const roomIds = rooms
+      .map(room => String(room._id))
+      .filter(id => !taken.has(id))
+      .slice(0, count);
+
+    if (roomIds.length < count) {
+      throw new AppError(
+        `Only ${roomIds.length} ${roomType} room(s) are available for the group dates`,
+        HttpStatusCode.CONFLICT
+      );
+    }
+
+    for (const roomId of roomIds) {
+      await ReservationEngine.claimNights(
+        roomId,
+        nights,
+        { status: RoomNightStatus.BLOCKED, groupBookingId },
+        session
+      );
+    }
+
+    return roomIds;
+  }
+
+  /**
+   * Book a reservation onto one of a group's blocked rooms
+   * The reservation's roomId is set to the room that was picked up.
+   */
+  static async bookFromBlock(
+    groupBookingId: string,
+    roomIds: string[],
+    reservation: ReservationDocument,
+    session: ClientSession
+  ): Promise<string> {
+    const nights = ReservationEngine.getStayNights(
+      reservation.checkInDate,
+      reservation.checkOutDate
+    );
+
+    for (const roomId of roomIds) {
+      if (
+        await ReservationEngine.claimBlockedNights(
+          groupBookingId,
+          roomId,
+          nights,
+          reservation,
+          session
+        )
+      ) {
+        reservation.set({ roomId });
+        return roomId;
+      }
+    }
+
+    throw new AppError(
+      'No blocked room of this type covers the requested stay',
+      HttpStatusCode.CONFLICT
+    );
+  }
+
+  /**
+   * Return a group's unused blocked nights to general inventory
+   * @returns number of nights released
+   */
+  static async releaseBlock(
+    groupBookingId: string,
+    session?: ClientSession
+  ): Promise<number> {
+    const result = await RoomNightModel.deleteMany(
+      { groupBookingId, status: RoomNightStatus.BLOCKED },
+      { session }
+    );
+    return result.deletedCount;
+  }
+
+  /**
+   * Turn unique index violations on RoomNight into a 409
+   */
+  static async withConflictMapping<T>(work: () => Promise<T>): Promise<T> {
+    try {
+      return await work();
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        throw new AppError(
+          'Room is not available for the selected dates',
+          HttpStatusCode.CONFLICT
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Rebuild a reservation's nights from its current room, dates and status
+   */
+  private static async syncInventory(
+    reservation: ReservationDocument,
+    session: ClientSession
+  ): Promise<void> {
+    await ReservationEngine.releaseReservationNights(
+      String(reservation._id),
+      session
+    );
+
+    if (!ReservationEngine.holdsInventory(reservation.status)) {
+      return;
+    }
+
+    if (
+      reservation.groupBookingId &&
+      (await ReservationEngine.pickUpFromBlock(reservation, session))
+    ) {
+      return;
+    }
+
+    await ReservationEngine.bookNights(reservation, session);
+  }
+
+  /**
+   * Book a group reservation back onto its room in the group's open block
+   * @returns false when the room is not in the block, the block is fully
+   * picked up or its blocked nights do not cover the stay
+   */
+  private static async pickUpFromBlock(
+    reservation: ReservationDocument,
+    session: ClientSession
+  ): Promise<boolean> {
+    const group = await ReservationEngine.loadOpenGroup(
+      String(reservation.groupBookingId),
+      session
+    );
+    const allotment = group
+      ? ReservationEngine.findAllotment(group, reservation.roomId.toString())
+      : undefined;
+
+    if (
+      !group ||
+      !allotment ||
+      allotment.roomsPickedUp >= allotment.roomsBlocked
+    ) {
+      return false;
+    }
+
+    const claimed = await ReservationEngine.claimBlockedNights(
+      String(group._id),
+      reservation.roomId.toString(),
+      ReservationEngine.getStayNights(
+        reservation.checkInDate,
+        reservation.checkOutDate
+      ),
+      reservation,
+      session
+    );
+    if (!claimed) {
+      return false;
+    }
+
+    allotment.roomsPickedUp += 1;
+    await group.save({ session });
+    return true;
+  }
+
+  /**
+   * Book a room's blocked nights for a reservation if they cover every night
+   */
+  private static async claimBlockedNights(
+    groupBookingId: string,
+    roomId: string,
+    nights: Date[],
+    reservation: ReservationDocument,
+    session: ClientSession
+  ): Promise<boolean> {
+    const filter = {
+      groupBookingId,
+      roomId,
+      status: RoomNightStatus.BLOCKED,
+      date: { $in: nights },
+    };
+
+    const blockedNights =
+      await RoomNightModel.countDocuments(filter).session(session);
+    if (blockedNights !== nights.length) {
+      return false;
+    }
+
+    await RoomNightModel.updateMany(
+      filter,
+      {
+        $set: {
+          status: RoomNightStatus.BOOKED,
+          reservationId: reservation._id,
+        },
+      },
+      { session }
+    );
+    return true;
+  }
+
+  private static async loadOpenGroup(
+    groupBookingId: string,
+    session?: ClientSession
+  ): Promise<GroupBookingDocument | null> {
+    return GroupBookingModel.findOne({
+      _id: groupBookingId,
+      status: GroupBookingStatus.OPEN,
+    }).session(session ?? null);
+  }
+
+  private static findAllotment(group: GroupBookingDocument, roomId: string) {
+    return group.allotments.find(allotment =>
+      allotment.roomIds.some(id => String(id) === roomId)
+    );
+  }
+
+  private static async applyPricing(
+    reservation: ReservationDocument,
+    session: ClientSession
+  ): Promise<void> {
+    const quote = await PricingService.quote(
+      {
+        roomId: reservation.roomId.toString(),
+        checkInDate: reservation.checkInDate,
+        checkOutDate: reservation.checkOutDate,
+        ratePlanId: reservation.ratePlanId?.toString(),
+      },
+      { session }
+    );
+
+    reservation.set({
+      ratePlanId: quote.ratePlanId,
+      nightlyRates: quote.nights,
+      totalAmount: quote.totalAmount,
+    });
+  }
+
+  private static async bookNights(
+    reservation: ReservationDocument,
+    session: ClientSession
+  ): Promise<void> {
+    const nights = ReservationEngine.getStayNights(
+      reservation.checkInDate,
+      reservation.checkOutDate
+    );
+
+    await ReservationEngine.claimNights(
+      reservation.roomId.toString(),
+      nights,
+      { status: RoomNightStatus.BOOKED, reservationId: reservation._id },
+      session
+    );
+  }
+
+  private static async convertHold(
+    holdId: string,
+    reservation: ReservationDocument,
+    session: ClientSession
+  ): Promise<void> {
+    const nights = ReservationEngine.getStayNights(
+      reservation.checkInDate,
+      reservation.checkOutDate
+    );
+
+    const result = await RoomNightModel.updateMany(
+      {
+        holdId,
+        roomId: reservation.roomId,
+        status: RoomNightStatus.HELD,
+        expiresAt: { $gt: new Date() },
+        date: { $in: nights },
+      },
+      {
+        $set: {
+          status: RoomNightStatus.BOOKED,
+          reservationId: reservation._id,
+        },
+        $unset: { holdId: 1, heldBy: 1, expiresAt: 1 },
+      },
+      { session }
+    );
+
+    if (result.modifiedCount !== nights.length) {
+      throw new AppError(
+        'Room hold has expired or does not cover the requested stay',
+        HttpStatusCode.CONFLICT
+      );
+    }
+
+    // Drop any held nights outside the booked stay
+    await RoomNightModel.deleteMany({ holdId }, { session });
+  }
+
+  /**
+   * Insert nights for a room, clearing expired holds on them first
+   */
+  private static async claimNights(
+    roomId: string,
+    nights: Date[],
+    fields: Record<string, unknown>,
+    session: ClientSession
+  ): Promise<void> {
+    await RoomNightModel.deleteMany(
+      {
+        roomId,
+        date: { $in: nights },
+        status: RoomNightStatus.HELD,
+        expiresAt: { $lte: new Date() },
+      },
+      { session }
+    );
+
+    await RoomNightModel.insertMany(
+      nights.map(date => ({ roomId, date, ...fields })),
+      { session, ordered: true }
+    );
+  }
+
+  private static async ensureRoomBookable(
+    roomId: string,
+    session: ClientSession
+  ): Promise<void> {
+    const room = await RoomModel.findById(roomId).session(session);
+    if (!room || !room.isActive) {
+      throw new AppError('Room not found', HttpStatusCode.NOT_FOUND);
+    }
+  }
+
+  private static async loadReservation(
+    id: string,
+    session: ClientSession
+  ): Promise<ReservationDocument> {
+    const reservation = await ReservationModel.findById(id).session(session);
+    if (!reservation) {
+      throw new AppError('Reservation not found', HttpStatusCode.NOT_FOUND);
+    }
+    return reservation;
+  }
+
+  /**
+   * Nights that take a room out of inventory; expired holds do not count
+   */
+  private static unavailableNightFilter() {
+    return {
+      $or: [
+        {
+          status: {
+            $in: [RoomNightStatus.BOOKED, RoomNightStatus.BLOCKED],
+          },
+        },
+        { status: RoomNightStatus.HELD, expiresAt: { $gt: new Date() } },
+      ],
+    };
+  }
+}
@@ -0,0 +1,237 @@
+import { Types } from 'mongoose';
+import { BillDocument } from '../models/Bill.model';
+import { CheckInModel, CheckInDocument } from '../models/CheckIn.model';
+import {
+  MaintenanceRequestModel,
+  MaintenanceRequestDocument,
+} from '../models/MaintenanceRequest.model';
+import { ReservationModel } from '../models/Reservation.model';
+import { RoomModel } from '../models/Room.model';
+import { FolioService } from './folio.service';
+import { PricingService } from './pricing.service';
+import { ReservationEngine } from './reservationEngine.service';
+import { RoomStatusService } from './roomStatus.service';
+import { AppError } from '../utils/errors';
+import { getStayNights, startOfUtcDay } from '../utils/dates';
+import { roundCurrency } from '../utils/money';
+import { runInTransaction } from '../utils/transaction';
+import { HttpStatusCode } from '../types/api';
+import {
+  MaintenanceCategory,
+  Priority,
+  RoomMove,
+  RoomMoveCharge,
+  RoomStatus,
+  RoomStatusTrigger,
+} from '../types/models';
+
+export interface RoomMoveRequest {
+  toRoomId: string;
+  reason: string;
+  charge: RoomMoveCharge;
+  // Raise a maintenance request for the room the guest leaves
+  maintenance?: {
+    title: string;
+    description: string;
+    category: MaintenanceCategory;
+    priority: Priority;
+  };
+}
+
+export interface RoomMoveResult {
+  checkIn: CheckInDocument;
+  move: RoomMove;
+  bill: BillDocument;
+  maintenanceRequest?: MaintenanceRequestDocument;
+}
+
+/**
+ * Room Move Service
+ * Moves a stay in progress to another room: the nights left move with it,
+ * the old room goes to cleaning (or maintenance, for an urgent request) and
+ * the new one is occupied, and the rate
+ * difference of the nights left is posted to the folio or waived. Each move
+ * is kept on the check-in.
+ */
+export class RoomMoveService {
+  /**
+   * Move an active stay to another room from tonight on
+   */
+  static async moveStay(
+    checkInId: string,
+    request: RoomMoveRequest,
+    staffId?: string
+  ): Promise<RoomMoveResult> {
+    if (!Types.ObjectId.isValid(checkInId)) {
+      throw new AppError('Invalid check-in ID format');
+    }
+    if (!Types.ObjectId.isValid(request.toRoomId)) {
+      throw new AppError('Invalid room ID format');
+    }
+
+    return ReservationEngine.withConflictMapping(() =>
+      runInTransaction(async session => {
+        const checkIn = await CheckInModel.findById(checkInId).session(session);
+        if (!checkIn) {
+          throw new AppError('Check-in not found', HttpStatusCode.NOT_FOUND);
+        }
+        if (checkIn.checkOutTime) {
+          throw new AppError('Only a stay in progress can be moved');
+        }
+        if (String(checkIn.roomId) === request.toRoomId) {
+          throw new AppError('The guest is already in this room');
+        }
+
+        const [fromRoom, toRoom, reservation] = await Promise.all([
+          RoomModel.findById(checkIn.roomId).session(session),
+          RoomModel.findById(request.toRoomId).session(session),
+          ReservationModel.findById(checkIn.reservationId).session(session),
+        ]);
+        if (!fromRoom) {
+          throw new AppError(
+            'Current room not found',
+            HttpStatusCode.NOT_FOUND
+          );
+        }
+        if (!toRoom || !toRoom.isActive) {
+          throw new AppError('Room not found', HttpStatusCode.NOT_FOUND);
+        }
+        if (toRoom.status !== RoomStatus.AVAILABLE) {
+          throw new AppError(
+            `Room ${toRoom.roomNumber} is ${toRoom.status.replace(/_/g, ' ')}`,
+            HttpStatusCode.CONFLICT
+          );
+        }
+        if (!reservation) {
+          throw new AppError('Reservation not found', HttpStatusCode.NOT_FOUND);
+        }
+
+        // Tonight and the nights after it; nights slept stay with the old room
+        const stayNights = getStayNights(
+          reservation.checkInDate,
+          reservation.checkOutDate
+        );
+        const tonight = startOfUtcDay(new Date()).getTime();
+        const nights = stayNights.filter(night => night.getTime() >= tonight);
+
+        if (
+          nights.length > 0 &&
+          ReservationEngine.holdsInventory(reservation.status)
+        ) {
+          await ReservationEngine.moveNights(
+            String(reservation._id),
+            String(toRoom._id),
+            nights,
+            session
+          );
+        }
+
+        let rateDifference = 0;
+        if (nights.length > 0) {
+          // A rate plan only applies to its own room type
+          const quote = await PricingService.quote(
+            {
+              roomId: String(toRoom._id),
+              checkInDate: nights[0],
+              checkOutDate: reservation.checkOutDate,
+              ratePlanId:
+                toRoom.roomType === fromRoom.roomType
+                  ? reservation.ratePlanId?.toString()
+                  : undefined,
+            },
+            { session, enforceRestrictions: false }
+          );
+          rateDifference = roundCurrency(
+            quote.nights.reduce(
+              (total, { date, rate }) =>
+                total +
+                rate -
+                FolioService.nightlyRate(
+                  reservation,
+                  startOfUtcDay(date),
+                  stayNights.length
+                ),
+              0
+            )
+          );
+        }
+
+        let maintenanceRequest: MaintenanceRequestDocument | undefined;
+        if (request.maintenance) {
+          [maintenanceRequest] = await MaintenanceRequestModel.create(
+            [
+              {
+                ...request.maintenance,
+                roomId: fromRoom._id,
+                reportedBy: staffId,
+              },
+            ],
+            { session }
+          );
+        }
+
+        const move: RoomMove = {
+          fromRoomId: String(fromRoom._id),
+          fromRoomNumber: fromRoom.roomNumber,
+          toRoomId: String(toRoom._id),
+          toRoomNumber: toRoom.roomNumber,
+          movedAt: new Date(),
+          reason: request.reason,
+          charge: request.charge,
+          rateDifference,
+          chargedAmount:
+            request.charge === RoomMoveCharge.COMPLIMENTARY
+              ? 0
+              : rateDifference,
+          nights: nights.length,
+          maintenanceRequestId: maintenanceRequest
+            ? String(maintenanceRequest._id)
+            : undefined,
+          movedBy: staffId,
+        };
+
+        checkIn.roomId = move.toRoomId;
+        checkIn.assignedRoomNumber = toRoom.roomNumber;
+        checkIn.roomMoves = [...(checkIn.roomMoves ?? []), move];
+        reservation.roomId = move.toRoomId;
+        await checkIn.save({ session });
+        await reservation.save({ session });
+
+        const statusContext = {
+          trigger: RoomStatusTrigger.ROOM_MOVE,
+          reason: request.reason,
+          sourceId: String(checkIn._id),
+          changedBy: staffId,
+        };
+        await RoomStatusService.applyStatus(
+          fromRoom,
+          RoomStatus.CLEANING,
+          statusContext,
+          session
+        );
+        await RoomStatusService.applyStatus(
+          toRoom,
+          RoomStatus.OCCUPIED,
+          statusContext,
+          session
+        );
+        if (maintenanceRequest?.priority === Priority.URGENT) {
+          await RoomStatusService.applyStatus(
+            fromRoom,
+            RoomStatus.MAINTENANCE,
+            {
+              trigger: RoomStatusTrigger.MAINTENANCE,
+              reason: maintenanceRequest.title,
+              sourceId: String(maintenanceRequest._id),
+              changedBy: staffId,
+            },
+            session
+          );
+        }
+        const bill = await FolioService.postRoomMove(checkIn, move, session);
+
+        return { checkIn, move, bill, maintenanceRequest };
+      })
+    );
+  }
+}
@@ -0,0 +1,219 @@
+import { ClientSession, Types } from 'mongoose';
+import { HousekeepingTaskDocument } from '../models/HousekeepingTask.model';
+import { RoomModel, RoomDocument } from '../models/Room.model';
+import {
+  RoomStatusChangeModel,
+  RoomStatusChangeDocument,
+} from '../models/RoomStatusChange.model';
+import { AppError } from '../utils/errors';
+import { HttpStatusCode } from '../types/api';
+import {
+  HousekeepingTaskType,
+  RoomStatus,
+  RoomStatusTrigger,
+  TaskStatus,
+} from '../types/models';
+
+export interface RoomStatusContext {
+  trigger: RoomStatusTrigger;
+  reason?: string;
+  sourceId?: string;
+  changedBy?: string;
+}
+
+export interface RoomStatusHistory {
+  changes: RoomStatusChangeDocument[];
+  total: number;
+}
+
+const ANY = Object.values(RoomStatusTrigger);
+const { MANUAL, CHECK_IN, CHECK_OUT, ROOM_MOVE, HOUSEKEEPING } =
+  RoomStatusTrigger;
+
+// Legal transitions from each status, with what may cause them. Only a
+// check-in or move fills a room, only a check-out or move leaves it to be
+// cleaned, and only a completed inspection makes a cleaned room available.
+const ROOM_STATUS_TRANSITIONS: Record<
+  RoomStatus,
+  Partial<Record<RoomStatus, RoomStatusTrigger[]>>
+> = {
+  [RoomStatus.AVAILABLE]: {
+    [RoomStatus.RESERVED]: ANY,
+    [RoomStatus.OCCUPIED]: [CHECK_IN, ROOM_MOVE],
+    [RoomStatus.CLEANING]: ANY,
+    [RoomStatus.MAINTENANCE]: ANY,
+    [RoomStatus.OUT_OF_SERVICE]: ANY,
+  },
+  [RoomStatus.RESERVED]: {
+    [RoomStatus.AVAILABLE]: ANY,
+    [RoomStatus.OCCUPIED]: [CHECK_IN, ROOM_MOVE],
+    [RoomStatus.CLEANING]: ANY,
+    [RoomStatus.MAINTENANCE]: ANY,
+    [RoomStatus.OUT_OF_SERVICE]: ANY,
+  },
+  [RoomStatus.OCCUPIED]: {
+    [RoomStatus.CLEANING]: [CHECK_OUT, ROOM_MOVE],
+    [RoomStatus.MAINTENANCE]: ANY,
+  },
+  [RoomStatus.CLEANING]: {
+    [RoomStatus.AVAILABLE]: [HOUSEKEEPING],
+    [RoomStatus.MAINTENANCE]: ANY,
+    [RoomStatus.OUT_OF_SERVICE]: ANY,
+  },
+  [RoomStatus.MAINTENANCE]: {
+    [RoomStatus.CLEANING]: ANY,
+    [RoomStatus.OUT_OF_SERVICE]: ANY,
+  },
+  [RoomStatus.OUT_OF_SERVICE]: {
+    [RoomStatus.CLEANING]: ANY,
+    [RoomStatus.MAINTENANCE]: ANY,
+  },
+};
+
+const label = (value: string) => value.replace(/_/g, ' ');
+
+/**
+ * Room Status Service
+ * The only way a room's status changes. Each change must be a legal
+ * transition for what caused it, and is recorded with who made it and why.
+ */
+export class RoomStatusService {
+  /**
+   * Statuses a room can move to from its current one, for a given cause
+   */
+  static allowedTransitions(
+    from: RoomStatus,
+    trigger: RoomStatusTrigger
+  ): RoomStatus[] {
+    return Object.entries(ROOM_STATUS_TRANSITIONS[from])
+      .filter(([, triggers]) => triggers?.includes(trigger))
+      .map(([status]) => status as RoomStatus);
+  }
+
+  /**
+   * Change the status of a room by ID
+   */
+  static async changeStatus(
+    roomId: string,
+    status: RoomStatus,
+    context: RoomStatusContext,
+    session?: ClientSession
+  ): Promise<RoomDocument> {
+    if (!Types.ObjectId.isValid(roomId)) {
+      throw new AppError('Invalid room ID format');
+    }
+
+    const room = await RoomModel.findById(roomId).session(session ?? null);
+    if (!room) {
+      throw new AppError('Room not found', HttpStatusCode.NOT_FOUND);
+    }
+    await RoomStatusService.applyStatus(room, status, context, session);
+    return room;
+  }
+
+  /**
+   * Change the status of a loaded room and record the change
+   * A room already in the status is left as it is.
+   */
+  static async applyStatus(
+    room: RoomDocument,
+    status: RoomStatus,
+    context: RoomStatusContext,
+    session?: ClientSession
+  ): Promise<void> {
+    const from = room.status;
+    if (from === status) {
+      return;
+    }
+
+    if (!ROOM_STATUS_TRANSITIONS[from][status]?.includes(context.trigger)) {
+      const allowed = RoomStatusService.allowedTransitions(
+        from,
+        context.trigger
+      );
+      throw new AppError(
+        `Room ${room.roomNumber} cannot go from ${label(from)} to ${label(status)}` +
+          (context.trigger === MANUAL ? '' : ` on ${label(context.trigger)}`) +
+          (allowed.length > 0
+            ? `; it can go to: ${allowed.map(label).join(', ')}`
+            : ''),
+        HttpStatusCode.CONFLICT
+      );
+    }
+
+    room.status = status;
+    await room.save({ session });
+    await RoomStatusChangeModel.create(
+      [
+        {
+          roomId: String(room._id),
+          fromStatus: from,
+          toStatus: status,
+          ...context,
+        },
+      ],
+      { session }
+    );
+  }
+
+  /**
+   * Make a room being cleaned available once its inspection is completed
+   * Other tasks, and rooms not being cleaned, are left as they are.
+   */
+  static async afterHousekeepingTask(
+    task: HousekeepingTaskDocument,
+    changedBy?: string,
+    session?: ClientSession
+  ): Promise<void> {
+    if (
+      task.taskType !== HousekeepingTaskType.INSPECTION ||
+      task.status !== TaskStatus.COMPLETED
+    ) {
+      return;
+    }
+
+    const room = await RoomModel.findById(
+      task.populated('roomId') ?? task.roomId
+    ).session(session ?? null);
+    if (room?.status !== RoomStatus.CLEANING) {
+      return;
+    }
+    await RoomStatusService.applyStatus(
+      room,
+      RoomStatus.AVAILABLE,
+      {
+        trigger: HOUSEKEEPING,
+        reason: 'Inspection passed',
+        sourceId: String(task._id),
+        changedBy,
+      },
+      session
+    );
+  }
+
+  /**
+   * Status changes of a room, newest first
+   */
+  static async getHistory(
+    roomId: string,
+    page: number,
+    limit: number
+  ): Promise<RoomStatusHistory> {
+    if (!Types.ObjectId.isValid(roomId)) {
+      throw new AppError('Invalid room ID format');
+    }
+    if (!(await RoomModel.exists({ _id: roomId }))) {
+      throw new AppError('Room not found', HttpStatusCode.NOT_FOUND);
+    }
+
+    const [changes, total] = await Promise.all([
+      RoomStatusChangeModel.find({ roomId })
+        .populate('changedBy', 'firstName lastName email')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      RoomStatusChangeModel.countDocuments({ roomId }),
+    ]);
+    return { changes, total };
+  }
+}
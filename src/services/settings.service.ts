@@ -0,0 +1,419 @@
+import { z } from 'zod';
+import { housekeepingConfig } from '../config/housekeeping.config';
+import { reservationConfig } from '../config/reservation.config';
+import {
+  SystemSettingsDocument,
+  SystemSettingsModel,
+} from '../models/SystemSettings.model';
+import { HttpStatusCode } from '../types/api';
+import { SettingCategory, SettingType } from '../types/models';
+import { AppError } from '../utils/errors';
+import { taxRulesSchema } from '../validations/tax.validation';
+
+/**
+ * A setting the application reads, with the rules its value must follow
+ * and the value used until one is stored
+ */
+interface SettingDefinition {
+  category: SettingCategory;
+  type: SettingType;
+  description: string;
+  default: unknown;
+  // Range of a number, or length of a string
+  min?: number;
+  max?: number;
+  allowed?: readonly string[];
+  // Shape of a JSON value
+  schema?: z.ZodType;
+}
+
+export interface SettingView {
+  settingKey: string;
+  value: unknown;
+  type: SettingType;
+  category: SettingCategory;
+  description?: string;
+  isEditable: boolean;
+  // No value is stored, so the built-in default applies
+  isDefault: boolean;
+  updatedAt?: Date;
+}
+
+export interface SettingInput {
+  settingKey: string;
+  value: unknown;
+  category?: SettingCategory;
+  description?: string;
+  isEditable: boolean;
+}
+
+export interface SettingChanges {
+  value?: unknown;
+  description?: string;
+}
+
+export const SETTING_DEFINITIONS: Record<string, SettingDefinition> = {
+  DEFAULT_RATE_PLAN_CODE: {
+    category: SettingCategory.ROOM_RATES,
+    type: 'string',
+    description: 'Rate plan used when a booking does not name one',
+    default: 'BAR',
+    min: 1,
+    max: 20,
+  },
+  TAX_RULES: {
+    category: SettingCategory.TAXES,
+    type: 'json',
+    description: 'Tax rules applied to folio charges',
+    default: [],
+    schema: taxRulesSchema.shape.rules,
+  },
+  RESERVATION_HOLD_TTL_MINUTES: {
+    category: SettingCategory.POLICIES,
+    type: 'number',
+    description: 'Minutes a room hold lasts unless the client asks otherwise',
+    default: reservationConfig.holdTtlMinutes,
+    min: 1,
+    max: 60,
+  },
+  RESERVATION_MAX_HOLD_TTL_MINUTES: {
+    category: SettingCategory.POLICIES,
+    type: 'number',
+    description: 'Longest room hold a client may ask for, in minutes',
+    default: reservationConfig.maxHoldTtlMinutes,
+    min: 1,
+    max: 60,
+  },
+  HOUSEKEEPING_LINEN_CHANGE_NIGHTS: {
+    category: SettingCategory.POLICIES,
+    type: 'number',
+    description: 'Nights between linen changes during a stay',
+    default: housekeepingConfig.linenChangeNights,
+    min: 1,
+    max: 30,
+  },
+  HOUSEKEEPING_DEEP_CLEAN_DAYS: {
+    category: SettingCategory.POLICIES,
+    type: 'number',
+    description: 'Days between deep cleans of a room without its own interval',
+    default: housekeepingConfig.deepCleanIntervalDays,
+    min: 1,
+    max: 365,
+  },
+};
+
+// Other processes may write settings too, so cached values expire
+const CACHE_TTL_MS = 60 * 1000;
+
+const typeOf = (value: unknown): SettingType => {
+  switch (typeof value) {
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'string':
+      return 'string';
+    default:
+      return 'json';
+  }
+};
+
+/**
+ * Settings Service
+ * Typed access to system settings. Settings the application reads are
+ * defined above, with a type, limits and a default; other keys may be
+ * stored freely. Values are cached in process and dropped on every write.
+ */
+export class SettingsService {
+  private static cache = new Map<
+    string,
+    { value: unknown; expiresAt: number }
+  >();
+
+  /**
+   * The value of a setting: the stored one, else its default. Each caller
+   * gets its own copy, so changing it cannot alter the cached value.
+   */
+  static async get<T = unknown>(settingKey: string): Promise<T> {
+    const key = settingKey.toUpperCase();
+    const cached = SettingsService.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return structuredClone(cached.value) as T;
+    }
+
+    const setting = await SystemSettingsModel.findOne({ settingKey: key });
+    const definition = SETTING_DEFINITIONS[key];
+    if (!setting && !definition) {
+      throw new AppError(`Setting ${key} not found`, HttpStatusCode.NOT_FOUND);
+    }
+
+    const value = setting
+      ? SettingsService.parse(setting)
+      : structuredClone(definition.default);
+    SettingsService.cache.set(key, {
+      value,
+      expiresAt: Date.now() + CACHE_TTL_MS,
+    });
+    return structuredClone(value) as T;
+  }
+
+  /**
+   * Every setting, stored or defined, grouped by category
+   */
+  static async list(
+    category?: SettingCategory
+  ): Promise<Partial<Record<SettingCategory, SettingView[]>>> {
+    const settings = await SystemSettingsModel.find(
+      category ? { category } : {}
+    ).sort({ settingKey: 1 });
+
+    const views = settings.map(setting => SettingsService.toView(setting));
+    const stored = new Set(views.map(view => view.settingKey));
+    for (const [key, definition] of Object.entries(SETTING_DEFINITIONS)) {
+      if (!stored.has(key) && (!category || definition.category === category)) {
+        views.push(SettingsService.defaultView(key, definition));
+      }
+    }
+
+    const groups: Partial<Record<SettingCategory, SettingView[]>> = {};
+    for (const view of views.sort((a, b) =>
+      a.settingKey.localeCompare(b.settingKey)
+    )) {
+      (groups[view.category] ??= []).push(view);
+    }
+    return groups;
+  }
+
+  /**
+   * One setting, stored or defined
+   */
+  static async getView(settingKey: string): Promise<SettingView> {
+    const key = settingKey.toUpperCase();
+    const setting = await SystemSettingsModel.findOne({ settingKey: key });
+    if (setting) {
+      return SettingsService.toView(setting);
+    }
+
+    const definition = SETTING_DEFINITIONS[key];
+    if (!definition) {
+      throw new AppError(`Setting ${key} not found`, HttpStatusCode.NOT_FOUND);
+    }
+    return SettingsService.defaultView(key, definition);
+  }
+
+  /**
+   * Store a new setting; defined settings keep their own category
+   */
+  static async create(input: SettingInput): Promise<SettingView> {
+    const key = input.settingKey.toUpperCase();
+    const definition = SETTING_DEFINITIONS[key];
+    if (
+      definition &&
+      input.category &&
+      input.category !== definition.category
+    ) {
+      throw new AppError(
+        `Setting ${key} belongs to the ${definition.category} category`
+      );
+    }
+    const category = definition?.category ?? input.category;
+    if (!category) {
+      throw new AppError(`A category is required for setting ${key}`);
+    }
+    if (await SystemSettingsModel.exists({ settingKey: key })) {
+      throw new AppError(
+        `Setting ${key} already exists`,
+        HttpStatusCode.CONFLICT
+      );
+    }
+
+    const setting = await SystemSettingsModel.create({
+      settingKey: key,
+      settingValue: SettingsService.serialize(key, input.value),
+      category,
+      description: input.description ?? definition?.description,
+      isEditable: input.isEditable,
+    });
+    SettingsService.cache.delete(key);
+    return SettingsService.toView(setting);
+  }
+
+  /**
+   * Change the value or description of a setting; a defined setting with
+   * no stored value is stored on its first change
+   */
+  static async update(
+    settingKey: string,
+    changes: SettingChanges
+  ): Promise<SettingView> {
+    const key = settingKey.toUpperCase();
+    const definition = SETTING_DEFINITIONS[key];
+    const setting = await SystemSettingsModel.findOne({ settingKey: key });
+
+    if (!setting) {
+      if (!definition) {
+        throw new AppError(
+          `Setting ${key} not found`,
+          HttpStatusCode.NOT_FOUND
+        );
+      }
+      return SettingsService.create({
+        settingKey: key,
+        value: changes.value !== undefined ? changes.value : definition.default,
+        description: changes.description,
+        isEditable: true,
+      });
+    }
+
+    SettingsService.assertEditable(setting);
+    if (changes.value !== undefined) {
+      setting.settingValue = SettingsService.serialize(key, changes.value);
+    }
+    if (changes.description !== undefined) {
+      setting.description = changes.description;
+    }
+    await setting.save();
+    SettingsService.cache.delete(key);
+    return SettingsService.toView(setting);
+  }
+
+  /**
+   * Delete a stored setting; a defined setting goes back to its default
+   */
+  static async remove(settingKey: string): Promise<void> {
+    const key = settingKey.toUpperCase();
+    const setting = await SystemSettingsModel.findOne({ settingKey: key });
+    if (!setting) {
+      throw new AppError(`Setting ${key} not found`, HttpStatusCode.NOT_FOUND);
+    }
+
+    SettingsService.assertEditable(setting);
+    await setting.deleteOne();
+    SettingsService.cache.delete(key);
+  }
+
+  private static assertEditable(setting: SystemSettingsDocument): void {
+    if (!setting.isEditable) {
+      throw new AppError(
+        `Setting ${setting.settingKey} is not editable`,
+        HttpStatusCode.FORBIDDEN
+      );
+    }
+  }
+
+  // Check a value against the definition of its key and store it as text
+  private static serialize(key: string, value: unknown): string {
+    const definition = SETTING_DEFINITIONS[key];
+    if (value === null || value === undefined) {
+      throw new AppError(`A value is required for setting ${key}`);
+    }
+    if (!definition) {
+      return typeof value === 'string' ? value : JSON.stringify(value);
+    }
+
+    const fail = (message: string): never => {
+      throw new AppError(`Setting ${key} ${message}`);
+    };
+    const { type, min, max, allowed } = definition;
+
+    if (typeOf(value) !== type) {
+      fail(`must be a ${type === 'json' ? 'list or object' : type}`);
+    }
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) fail('must be a finite number');
+      if (min !== undefined && value < min) fail(`cannot be less than ${min}`);
+      if (max !== undefined && value > max) fail(`cannot exceed ${max}`);
+      return String(value);
+    }
+    if (typeof value === 'string') {
+      if (min !== undefined && value.length < min)
+        fail(`must be at least ${min} characters long`);
+      if (max !== undefined && value.length > max)
+        fail(`cannot exceed ${max} characters`);
+      if (allowed && !allowed.includes(value))
+        fail(`must be one of: ${allowed.join(', ')}`);
+      return value;
+    }
+    if (typeof value === 'boolean') {
+      return String(value);
+    }
+
+    if (definition.schema) {
+      const parsed = definition.schema.safeParse(value);
+      if (!parsed.success) {
+        fail(
+          `is invalid: ${parsed.error.issues
+            .map(
+              issue => `${issue.path.join('.') || 'value'}: ${issue.message}`
+            )
+            .join('; ')}`
+        );
+      }
+      return JSON.stringify(parsed.data);
+    }
+    return JSON.stringify(value);
+  }
+
+  // The stored text read back by the type of its definition, or by its
+  // contents for settings that have none
+  private static parse(setting: SystemSettingsDocument): unknown {
+    const definition = SETTING_DEFINITIONS[setting.settingKey];
+    if (!definition) {
+      return setting.parsedValue;
+    }
+
+    const text = setting.settingValue;
+    switch (definition.type) {
+      case 'number':
+        return Number(text);
+      case 'boolean':
+        return text === 'true';
+      case 'json':
+        try {
+          return JSON.parse(text);
+        } catch {
+          throw new AppError(
+            `The ${setting.settingKey} setting does not hold valid JSON`,
+            HttpStatusCode.INTERNAL_SERVER_ERROR
+          );
+        }
+      default:
+        return text;
+    }
+  }
+
+  private static toView(setting: SystemSettingsDocument): SettingView {
+    const definition = SETTING_DEFINITIONS[setting.settingKey];
+    return {
+      settingKey: setting.settingKey,
+      value: SettingsService.parse(setting),
+      type: definition?.type ?? (setting.settingType as SettingType),
+      category: setting.category,
+      description: setting.description,
+      isEditable: setting.isEditable,
+      isDefault: false,
+      updatedAt: setting.updatedAt,
+    };
+  }
+
+  private static defaultView(
+    key: string,
+    definition: SettingDefinition
+  ): SettingView {
+    return {
+      settingKey: key,
+      value: definition.default,
+      type: definition.type,
+      category: definition.category,
+      description: definition.description,
+      isEditable: true,
+      isDefault: true,
+    };
+  }
+}
+
+/**
+ * The value of a setting, typed by the caller
+ */
+export const getSetting = <T = unknown>(settingKey: string): Promise<T> =>
+  SettingsService.get<T>(settingKey);
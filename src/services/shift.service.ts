@@ -0,0 +1,766 @@
+import { Types } from 'mongoose';
+import {
+  LeaveRequestDocument,
+  LeaveRequestModel,
+} from '../models/LeaveRequest.model';
+import {
+  ShiftTemplateDocument,
+  ShiftTemplateModel,
+} from '../models/ShiftTemplate.model';
+import {
+  StaffShiftDocument,
+  StaffShiftModel,
+} from '../models/StaffShift.model';
+import {
+  TimeClockEntryDocument,
+  TimeClockEntryModel,
+} from '../models/TimeClockEntry.model';
+import { UserDocument, UserModel } from '../models/User.model';
+import { AppError } from '../utils/errors';
+import { DAY_MS, startOfUtcDay } from '../utils/dates';
+import { runInTransaction } from '../utils/transaction';
+import { HttpStatusCode } from '../types/api';
+import { LeaveStatus, LeaveType, UserRole } from '../types/models';
+
+export interface ShiftTemplateInput {
+  name: string;
+  code: string;
+  startTime: string;
+  endTime: string;
+  roles: UserRole[];
+  isActive?: boolean;
+}
+
+export interface RosterEntry {
+  staffId: string;
+  shiftTemplateId: string;
+  date: Date;
+  notes?: string;
+}
+
+export interface RosterWeekRequest {
+  weekStart: Date;
+  role: UserRole;
+  entries: RosterEntry[];
+}
+
+export interface RosterStaff {
+  staffId: string;
+  name: string;
+  role: UserRole;
+  shifts: StaffShiftDocument[];
+  leave: LeaveRequestDocument[];
+}
+
+export interface RosterWeek {
+  weekStart: string;
+  weekEnd: string;
+  role?: UserRole;
+  staff: RosterStaff[];
+}
+
+export interface LeaveInput {
+  leaveType: LeaveType;
+  startDate: Date;
+  endDate: Date;
+  reason?: string;
+}
+
+export interface LeaveFilter {
+  status?: LeaveStatus;
+  staffId?: string;
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+}
+
+export interface LeaveReview {
+  status: LeaveStatus.APPROVED | LeaveStatus.REJECTED;
+  notes?: string;
+}
+
+export interface ClockEntryFilter {
+  staffId?: string;
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+}
+
+export interface OnDutyStaff {
+  staffId: string;
+  name: string;
+  role: UserRole;
+  shift?: {
+    shiftId: string;
+    startsAt: Date;
+    endsAt: Date;
+  };
+  clockedInAt?: Date;
+}
+
+export interface OnDutyQuery {
+  // When to check; now if left out
+  at?: Date;
+  roles?: UserRole[];
+}
+
+// Roles that work shifts
+export const STAFF_ROLES: UserRole[] = Object.values(UserRole).filter(
+  role => role !== UserRole.GUEST
+);
+
+// How early before a rostered shift clocking in counts toward it
+const EARLY_CLOCK_IN_MS = 30 * 60 * 1000;
+
+// Most names listed as suggestions when an assignee is not on duty
+const SUGGESTION_LIMIT = 5;
+
+const label = (value: string) => value.replace(/_/g, ' ');
+const dayKey = (day: Date) => day.toISOString().slice(0, 10);
+const fullName = (user: UserDocument) => `${user.firstName} ${user.lastName}`;
+
+const minutesOf = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Shift Service
+ * Who works when: shift templates, weekly rosters per role, leave and the
+ * time clock. Staff are on duty while a rostered shift covers the time,
+ * unless they have clocked out of it, or while they are clocked in; staff
+ * on approved leave are never on duty. Assignment endpoints check their
+ * assignee against this.
+ */
+export class ShiftService {
+  /**
+   * Start and end of a template's shift on a day
+   */
+  static shiftWindow(
+    day: Date,
+    template: Pick<ShiftTemplateDocument, 'startTime' | 'endTime'>
+  ): { startsAt: Date; endsAt: Date } {
+    const start = minutesOf(template.startTime);
+    let end = minutesOf(template.endTime);
+    // Overnight shifts end the next day
+    if (end <= start) {
+      end += 24 * 60;
+    }
+    const midnight = startOfUtcDay(day).getTime();
+    return {
+      startsAt: new Date(midnight + start * 60 * 1000),
+      endsAt: new Date(midnight + end * 60 * 1000),
+    };
+  }
+
+  /**
+   * Monday (UTC) of the week a date falls in
+   */
+  static weekOf(date: Date): Date {
+    const day = startOfUtcDay(date);
+    return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+  }
+
+  /**
+   * Shift templates, active ones unless asked otherwise
+   */
+  static async listTemplates(
+    includeInactive = false
+  ): Promise<ShiftTemplateDocument[]> {
+    return ShiftTemplateModel.find(
+      includeInactive ? {} : { isActive: true }
+    ).sort({ startTime: 1, code: 1 });
+  }
+
+  static async createTemplate(
+    input: ShiftTemplateInput
+  ): Promise<ShiftTemplateDocument> {
+    const code = input.code.toUpperCase();
+    if (await ShiftTemplateModel.exists({ code })) {
+      throw new AppError(
+        `Shift code ${code} is already in use`,
+        HttpStatusCode.CONFLICT
+      );
+    }
+    return ShiftTemplateModel.create({ ...input, code });
+  }
+
+  /**
+   * Change a template; shifts already rostered keep their times
+   */
+  static async updateTemplate(
+    id: string,
+    changes: Partial<ShiftTemplateInput>
+  ): Promise<ShiftTemplateDocument> {
+    const template = await ShiftService.findTemplate(id);
+    if (changes.code) {
+      const code = changes.code.toUpperCase();
+      if (
+        code !== template.code &&
+        (await ShiftTemplateModel.exists({ code }))
+      ) {
+        throw new AppError(
+          `Shift code ${code} is already in use`,
+          HttpStatusCode.CONFLICT
+        );
+      }
+      changes = { ...changes, code };
+    }
+    template.set(changes);
+    return template.save();
+  }
+
+  /**
+   * Stop a template from being rostered; past shifts keep it
+   */
+  static async deactivateTemplate(id: string): Promise<ShiftTemplateDocument> {
+    const template = await ShiftService.findTemplate(id);
+    template.isActive = false;
+    return template.save();
+  }
+
+  /**
+   * The shifts and approved leave of a week, by staff member
+   */
+  static async getWeek(weekStart: Date, role?: UserRole): Promise<RosterWeek> {
+    const monday = ShiftService.weekOf(weekStart);
+    const nextMonday = new Date(monday.getTime() + 7 * DAY_MS);
+
+    const [staff, shifts] = await Promise.all([
+      UserModel.find({
+        isActive: true,
+        role: role ?? { $in: STAFF_ROLES },
+      })
+        .select('firstName lastName role')
+        .sort({ firstName: 1, lastName: 1 }),
+      StaffShiftModel.find({
+        date: { $gte: monday, $lt: nextMonday },
+        ...(role ? { role } : {}),
+      })
+        .populate('shiftTemplateId', 'name code startTime endTime')
+        .sort({ startsAt: 1 }),
+    ]);
+    const leave = await LeaveRequestModel.find({
+      staffId: { $in: staff.map(user => user._id) },
+      status: LeaveStatus.APPROVED,
+      startDate: { $lt: nextMonday },
+      endDate: { $gte: monday },
+    }).sort({ startDate: 1 });
+
+    return {
+      weekStart: dayKey(monday),
+      weekEnd: dayKey(new Date(nextMonday.getTime() - DAY_MS)),
+      role,
+      staff: staff.map(user => ({
+        staffId: String(user._id),
+        name: fullName(user),
+        role: user.role,
+        shifts: shifts.filter(
+          shift => String(shift.staffId) === String(user._id)
+        ),
+        leave: leave.filter(
+          request => String(request.staffId) === String(user._id)
+        ),
+      })),
+    };
+  }
+
+  /**
+   * Replace the shifts of a role's staff for a week
+   */
+  static async setWeek(
+    request: RosterWeekRequest,
+    scheduledBy?: string
+  ): Promise<RosterWeek> {
+    const { role, entries } = request;
+    if (!STAFF_ROLES.includes(role)) {
+      throw new AppError(`${label(role)} users do not work shifts`);
+    }
+    const monday = ShiftService.weekOf(request.weekStart);
+    const nextMonday = new Date(monday.getTime() + 7 * DAY_MS);
+
+    const [staff, templates] = await Promise.all([
+      UserModel.find({ role, isActive: true }).select('firstName lastName'),
+      ShiftTemplateModel.find({
+        _id: {
+          $in: entries
+            .map(entry => entry.shiftTemplateId)
+            .filter(id => Types.ObjectId.isValid(id)),
+        },
+      }),
+    ]);
+    const staffById = new Map(staff.map(user => [String(user._id), user]));
+    const templateById = new Map(
+      templates.map(template => [String(template._id), template])
+    );
+
+    const problems: string[] = [];
+    const shifts = entries.map((entry, index) => {
+      const day = startOfUtcDay(entry.date);
+      const template = templateById.get(entry.shiftTemplateId);
+      const where = `Entry ${index + 1}`;
+      if (!staffById.has(entry.staffId)) {
+        problems.push(`${where}: not an active ${label(role)} staff member`);
+      }
+      if (!template || !template.isActive) {
+        problems.push(`${where}: shift template not found or inactive`);
+      } else if (template.roles.length > 0 && !template.roles.includes(role)) {
+        problems.push(
+          `${where}: ${template.code} shifts are not worked by ${label(role)} staff`
+        );
+      }
+      if (day < monday || day >= nextMonday) {
+        problems.push(`${where}: ${dayKey(day)} is not in the week`);
+      }
+      return {
+        staffId: entry.staffId,
+        role,
+        shiftTemplateId: entry.shiftTemplateId,
+        date: day,
+        ...(template
+          ? ShiftService.shiftWindow(day, template)
+          : { startsAt: day, endsAt: day }),
+        notes: entry.notes,
+        scheduledBy,
+      };
+    });
+    if (problems.length > 0) {
+      throw new AppError(problems.join('; '));
+    }
+
+    // One staff member cannot work two shifts at once
+    const byStart = [...shifts].sort(
+      (a, b) =>
+        a.staffId.localeCompare(b.staffId) ||
+        a.startsAt.getTime() - b.startsAt.getTime()
+    );
+    for (let i = 1; i < byStart.length; i++) {
+      const [previous, shift] = [byStart[i - 1], byStart[i]];
+      if (
+        previous.staffId === shift.staffId &&
+        shift.startsAt < previous.endsAt
+      ) {
+        problems.push(
+          `${fullName(staffById.get(shift.staffId)!)} has overlapping shifts on ${dayKey(shift.date)}`
+        );
+      }
+    }
+    if (problems.length > 0) {
+      throw new AppError(problems.join('; '));
+    }
+
+    const leave = await LeaveRequestModel.find({
+      staffId: { $in: [...new Set(shifts.map(shift => shift.staffId))] },
+      status: LeaveStatus.APPROVED,
+      startDate: { $lt: nextMonday },
+      endDate: { $gte: monday },
+    });
+    for (const shift of shifts) {
+      const onLeave = leave.some(
+        request =>
+          String(request.staffId) === shift.staffId &&
+          request.startDate <= shift.date &&
+          request.endDate >= shift.date
+      );
+      if (onLeave) {
+        problems.push(
+          `${fullName(staffById.get(shift.staffId)!)} is on leave on ${dayKey(shift.date)}`
+        );
+      }
+    }
+    if (problems.length > 0) {
+      throw new AppError(problems.join('; '), HttpStatusCode.CONFLICT);
+    }
+
+    await runInTransaction(async session => {
+      await StaffShiftModel.deleteMany(
+        { role, date: { $gte: monday, $lt: nextMonday } },
+        { session }
+      );
+      if (shifts.length > 0) {
+        await StaffShiftModel.insertMany(shifts, { session });
+      }
+    });
+    return ShiftService.getWeek(monday, role);
+  }
+
+  /**
+   * Ask for leave; it must not overlap leave already asked for
+   */
+  static async requestLeave(
+    staffId: string,
+    input: LeaveInput
+  ): Promise<LeaveRequestDocument> {
+    const startDate = startOfUtcDay(input.startDate);
+    const endDate = startOfUtcDay(input.endDate);
+    if (endDate < startDate) {
+      throw new AppError('Leave cannot end before it starts');
+    }
+
+    const overlapping = await LeaveRequestModel.exists({
+      staffId,
+      status: { $in: [LeaveStatus.PENDING, LeaveStatus.APPROVED] },
+      startDate: { $lte: endDate },
+      endDate: { $gte: startDate },
+    });
+    if (overlapping) {
+      throw new AppError(
+        'You already have leave requested for some of these days',
+        HttpStatusCode.CONFLICT
+      );
+    }
+
+    return LeaveRequestModel.create({
+      staffId,
+      leaveType: input.leaveType,
+      startDate,
+      endDate,
+      reason: input.reason,
+    });
+  }
+
+  static async listLeave(
+    filter: LeaveFilter
+  ): Promise<{ requests: LeaveRequestDocument[]; total: number }> {
+    const query: Record<string, unknown> = {};
+    if (filter.status) query['status'] = filter.status;
+    if (filter.staffId) query['staffId'] = filter.staffId;
+    if (filter.from) query['endDate'] = { $gte: startOfUtcDay(filter.from) };
+    if (filter.to) query['startDate'] = { $lte: startOfUtcDay(filter.to) };
+
+    const [requests, total] = await Promise.all([
+      LeaveRequestModel.find(query)
+        .populate('staffId', 'firstName lastName email role')
+        .populate('reviewedBy', 'firstName lastName')
+        .sort({ startDate: -1 })
+        .skip((filter.page - 1) * filter.limit)
+        .limit(filter.limit),
+      LeaveRequestModel.countDocuments(query),
+    ]);
+    return { requests, total };
+  }
+
+  /**
+   * Approve or reject pending leave; approving it removes the shifts
+   * rostered during it
+   */
+  static async reviewLeave(
+    id: string,
+    review: LeaveReview,
+    reviewedBy?: string
+  ): Promise<{ request: LeaveRequestDocument; shiftsRemoved: number }> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new AppError('Invalid leave request ID format');
+    }
+
+    return runInTransaction(async session => {
+      const request = await LeaveRequestModel.findById(id).session(session);
+      if (!request) {
+        throw new AppError('Leave request not found', HttpStatusCode.NOT_FOUND);
+      }
+      if (request.status !== LeaveStatus.PENDING) {
+        throw new AppError(
+          `Leave request is already ${request.status}`,
+          HttpStatusCode.CONFLICT
+        );
+      }
+
+      request.status = review.status;
+      request.reviewNotes = review.notes;
+      request.reviewedBy = reviewedBy;
+      request.reviewedAt = new Date();
+      await request.save({ session });
+
+      let shiftsRemoved = 0;
+      if (review.status === LeaveStatus.APPROVED) {
+        ({ deletedCount: shiftsRemoved } = await StaffShiftModel.deleteMany(
+          {
+            staffId: request.staffId,
+            date: { $gte: request.startDate, $lte: request.endDate },
+          },
+          { session }
+        ));
+      }
+      return { request, shiftsRemoved };
+    });
+  }
+
+  /**
+   * Withdraw your own leave that is pending, or approved and not started
+   */
+  static async cancelLeave(
+    id: string,
+    staffId: string
+  ): Promise<LeaveRequestDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new AppError('Invalid leave request ID format');
+    }
+    const request = await LeaveRequestModel.findOne({ _id: id, staffId });
+    if (!request) {
+      throw new AppError('Leave request not found', HttpStatusCode.NOT_FOUND);
+    }
+
+    const started = request.startDate <= startOfUtcDay(new Date());
+    if (
+      request.status !== LeaveStatus.PENDING &&
+      !(request.status === LeaveStatus.APPROVED && !started)
+    ) {
+      throw new AppError(
+        request.status === LeaveStatus.APPROVED
+          ? 'Leave that has started cannot be cancelled'
+          : `Leave request is already ${request.status}`,
+        HttpStatusCode.CONFLICT
+      );
+    }
+    request.status = LeaveStatus.CANCELLED;
+    return request.save();
+  }
+
+  /**
+   * Clock in, toward the rostered shift about to start or under way
+   */
+  static async clockIn(staffId: string): Promise<TimeClockEntryDocument> {
+    const now = new Date();
+    const open = await TimeClockEntryModel.findOne({
+      staffId,
+      clockOutAt: { $exists: false },
+    });
+    if (open) {
+      throw new AppError(
+        `You have been clocked in since ${open.clockInAt.toISOString()}`,
+        HttpStatusCode.CONFLICT
+      );
+    }
+    if (await ShiftService.onLeave(staffId, now)) {
+      throw new AppError('You are on leave today', HttpStatusCode.CONFLICT);
+    }
+
+    const shift = await StaffShiftModel.findOne({
+      staffId,
+      startsAt: { $lte: new Date(now.getTime() + EARLY_CLOCK_IN_MS) },
+      endsAt: { $gt: now },
+    }).sort({ startsAt: 1 });
+    return TimeClockEntryModel.create({
+      staffId,
+      shiftId: shift?._id,
+      clockInAt: now,
+    });
+  }
+
+  static async clockOut(
+    staffId: string
+  ): Promise<{ entry: TimeClockEntryDocument; minutesWorked: number }> {
+    const entry = await TimeClockEntryModel.findOne({
+      staffId,
+      clockOutAt: { $exists: false },
+    });
+    if (!entry) {
+      throw new AppError('You are not clocked in', HttpStatusCode.CONFLICT);
+    }
+    entry.clockOutAt = new Date();
+    await entry.save();
+    return {
+      entry,
+      minutesWorked: Math.round(
+        (entry.clockOutAt.getTime() - entry.clockInAt.getTime()) / 60000
+      ),
+    };
+  }
+
+  static async listClockEntries(
+    filter: ClockEntryFilter
+  ): Promise<{ entries: TimeClockEntryDocument[]; total: number }> {
+    const query: Record<string, unknown> = {};
+    if (filter.staffId) query['staffId'] = filter.staffId;
+    if (filter.from || filter.to) {
+      query['clockInAt'] = {
+        ...(filter.from ? { $gte: filter.from } : {}),
+        ...(filter.to ? { $lt: filter.to } : {}),
+      };
+    }
+
+    const [entries, total] = await Promise.all([
+      TimeClockEntryModel.find(query)
+        .populate('staffId', 'firstName lastName role')
+        .populate('shiftId', 'startsAt endsAt')
+        .sort({ clockInAt: -1 })
+        .skip((filter.page - 1) * filter.limit)
+        .limit(filter.limit),
+      TimeClockEntryModel.countDocuments(query),
+    ]);
+    return { entries, total };
+  }
+
+  /**
+   * Staff on duty at a time, by name
+   */
+  static async onDuty(query: OnDutyQuery = {}): Promise<OnDutyStaff[]> {
+    const at = query.at ?? new Date();
+    const roles = query.roles?.length ? query.roles : STAFF_ROLES;
+    // The clock only says who is working now or was before
+    const live = at.getTime() <= Date.now();
+
+    const [shifts, clockedIn] = await Promise.all([
+      StaffShiftModel.find({
+        role: { $in: roles },
+        startsAt: { $lte: at },
+        endsAt: { $gt: at },
+      }),
+      live
+        ? TimeClockEntryModel.find({
+            clockInAt: { $lte: at },
+            $or: [
+              { clockOutAt: { $exists: false } },
+              { clockOutAt: { $gt: at } },
+            ],
+          })
+        : Promise.resolve([]),
+    ]);
+    // Clocking out of a shift ends it early
+    const clockedOut = live
+      ? await TimeClockEntryModel.distinct('shiftId', {
+          shiftId: { $in: shifts.map(shift => shift._id) },
+          clockOutAt: { $lte: at },
+        })
+      : [];
+    const ended = new Set(clockedOut.map(id => String(id)));
+
+    const duty = new Map<string, Omit<OnDutyStaff, 'name' | 'role'>>();
+    for (const shift of shifts) {
+      if (!ended.has(String(shift._id))) {
+        duty.set(String(shift.staffId), {
+          staffId: String(shift.staffId),
+          shift: {
+            shiftId: String(shift._id),
+            startsAt: shift.startsAt,
+            endsAt: shift.endsAt,
+          },
+        });
+      }
+    }
+    for (const entry of clockedIn) {
+      const staffId = String(entry.staffId);
+      duty.set(staffId, {
+        ...(duty.get(staffId) ?? { staffId }),
+        clockedInAt: entry.clockInAt,
+      });
+    }
+
+    const day = startOfUtcDay(at);
+    const [users, onLeave] = await Promise.all([
+      UserModel.find({
+        _id: { $in: [...duty.keys()] },
+        role: { $in: roles },
+        isActive: true,
+      })
+        .select('firstName lastName role')
+        .sort({ firstName: 1, lastName: 1 }),
+      LeaveRequestModel.distinct('staffId', {
+        staffId: { $in: [...duty.keys()] },
+        status: LeaveStatus.APPROVED,
+        startDate: { $lte: day },
+        endDate: { $gte: day },
+      }),
+    ]);
+    const away = new Set(onLeave.map(id => String(id)));
+
+    return users
+      .filter(user => !away.has(String(user._id)))
+      .map(user => ({
+        ...duty.get(String(user._id))!,
+        name: fullName(user),
+        role: user.role,
+      }));
+  }
+
+  /**
+   * Staff with a shift starting on a day, and not on leave
+   */
+  static async onShift(date: Date, roles: UserRole[]): Promise<UserDocument[]> {
+    const day = startOfUtcDay(date);
+    const staffIds = await StaffShiftModel.distinct('staffId', {
+      role: { $in: roles },
+      date: day,
+    });
+    const onLeave = await LeaveRequestModel.distinct('staffId', {
+      staffId: { $in: staffIds },
+      status: LeaveStatus.APPROVED,
+      startDate: { $lte: day },
+      endDate: { $gte: day },
+    });
+    return UserModel.find({
+      _id: { $in: staffIds, $nin: onLeave },
+      role: { $in: roles },
+      isActive: true,
+    })
+      .select('firstName lastName role')
+      .sort({ firstName: 1, lastName: 1 });
+  }
+
+  /**
+   * Check a staff member can be given work due at a time, naming who is
+   * on duty when they cannot; work due now or overdue is checked against now
+   */
+  static async assertOnDuty(
+    staffId: string,
+    roles: UserRole[],
+    at?: Date
+  ): Promise<void> {
+    if (!Types.ObjectId.isValid(staffId)) {
+      throw new AppError('Invalid staff ID format');
+    }
+    const user = await UserModel.findById(staffId).select(
+      'firstName lastName role isActive'
+    );
+    if (!user || !user.isActive) {
+      throw new AppError('Staff member not found', HttpStatusCode.NOT_FOUND);
+    }
+    if (!roles.includes(user.role)) {
+      throw new AppError(
+        `${fullName(user)} is not ${roles.map(label).join(' or ')} staff`
+      );
+    }
+
+    const due = at && at.getTime() > Date.now() ? at : undefined;
+    const onDuty = await ShiftService.onDuty({ at: due, roles });
+    if (onDuty.some(staff => staff.staffId === staffId)) {
+      return;
+    }
+    const when = due ? `at ${due.toISOString()}` : 'now';
+    throw new AppError(
+      `${fullName(user)} is not on duty ${when}` +
+        (onDuty.length > 0
+          ? `; on duty: ${onDuty
+              .slice(0, SUGGESTION_LIMIT)
+              .map(staff => staff.name)
+              .join(', ')}`
+          : `; no ${roles.map(label).join(' or ')} staff are on duty`),
+      HttpStatusCode.CONFLICT
+    );
+  }
+
+  private static async findTemplate(
+    id: string
+  ): Promise<ShiftTemplateDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new AppError('Invalid shift template ID format');
+    }
+    const template = await ShiftTemplateModel.findById(id);
+    if (!template) {
+      throw new AppError('Shift template not found', HttpStatusCode.NOT_FOUND);
+    }
+    return template;
+  }
+
+  private static async onLeave(staffId: string, at: Date): Promise<boolean> {
+    const day = startOfUtcDay(at);
+    return !!(await LeaveRequestModel.exists({
+      staffId,
+      status: LeaveStatus.APPROVED,
+      startDate: { $lte: day },
+      endDate: { $gte: day },
+    }));
+  }
+}
@@ -0,0 +1,137 @@
+import { ClientSession } from 'mongoose';
+import { BillDocument } from '../models/Bill.model';
+import { SystemSettingsModel } from '../models/SystemSettings.model';
+import { UserModel } from '../models/User.model';
+import { taxRulesSchema } from '../validations/tax.validation';
+import { AppError } from '../utils/errors';
+import { roundCurrency } from '../utils/money';
+import { HttpStatusCode } from '../types/api';
+import { SettingsService } from './settings.service';
+import {
+  FolioCharge,
+  FolioChargeType,
+  LineTax,
+  SettingCategory,
+  TaxCalculation,
+  TaxRule,
+} from '../types/models';
+
+// TAXES setting holding the tax rules as a JSON array
+export const TAX_RULES_SETTING = 'TAX_RULES';
+
+/**
+ * Tax Service
+ * Works out the taxes of folio lines from the rules in the TAX_RULES
+ * setting. Rules apply in order to the charge types they list; a compound
+ * rule is charged on the line plus the taxes before it. Percentage rules
+ * use the line amount, per-night rules a flat amount per room night.
+ * Guests can be exempt from individual taxes by code.
+ */
+export class TaxService {
+  /**
+   * The configured tax rules, in the order they apply
+   */
+  static async getRules(session?: ClientSession): Promise<TaxRule[]> {
+    const setting = await SystemSettingsModel.findOne({
+      settingKey: TAX_RULES_SETTING,
+      category: SettingCategory.TAXES,
+    }).session(session ?? null);
+    if (!setting) {
+      return [];
+    }
+
+    let stored: unknown;
+    try {
+      stored = JSON.parse(setting.settingValue);
+    } catch {
+      stored = null;
+    }
+
+    const parsed = taxRulesSchema.safeParse({ rules: stored });
+    if (!parsed.success) {
+      throw new AppError(
+        `The ${TAX_RULES_SETTING} setting is not a valid list of tax rules`,
+        HttpStatusCode.INTERNAL_SERVER_ERROR
+      );
+    }
+    return parsed.data.rules;
+  }
+
+  /**
+   * Replace the tax rules; applies to charges posted from now on
+   */
+  static async setRules(rules: TaxRule[]): Promise<TaxRule[]> {
+    await SettingsService.update(TAX_RULES_SETTING, { value: rules });
+    return TaxService.getRules();
+  }
+
+  /**
+   * Tax the lines of a bill that have not been taxed yet
+   */
+  static async applyTaxes(
+    bill: BillDocument,
+    session?: ClientSession
+  ): Promise<void> {
+    const pending = bill.charges.filter(
+      charge => !charge.taxedAt && !charge.routedToBillId
+    );
+    if (pending.length === 0) {
+      return;
+    }
+
+    const [rules, guest] = await Promise.all([
+      TaxService.getRules(session),
+      UserModel.findById(bill.guestId)
+        .select('taxExemptions')
+        .session(session ?? null),
+    ]);
+    const exemptions = new Set(guest?.taxExemptions ?? []);
+
+    const taxedAt = new Date();
+    for (const charge of pending) {
+      const taxes = TaxService.calculateLineTaxes(charge, rules, exemptions);
+      charge.taxes = taxes;
+      charge.taxAmount = roundCurrency(
+        taxes.reduce((total, tax) => total + tax.amount, 0)
+      );
+      charge.taxedAt = taxedAt;
+    }
+  }
+
+  /**
+   * Taxes of one folio line under the given rules
+   */
+  static calculateLineTaxes(
+    charge: Pick<FolioCharge, 'chargeType' | 'amount' | 'quantity'>,
+    rules: TaxRule[],
+    exemptions: Set<string> = new Set()
+  ): LineTax[] {
+    const taxes: LineTax[] = [];
+    let taxesSoFar = 0;
+
+    for (const rule of rules) {
+      if (
+        !rule.isActive ||
+        exemptions.has(rule.code) ||
+        !rule.appliesTo.includes(charge.chargeType)
+      ) {
+        continue;
+      }
+
+      let amount = 0;
+      if (rule.calculation === TaxCalculation.PERCENTAGE) {
+        const base = rule.compound ? charge.amount + taxesSoFar : charge.amount;
+        amount = roundCurrency((base * rule.rate) / 100);
+      } else if (charge.chargeType === FolioChargeType.ROOM) {
+        amount = roundCurrency(rule.rate * charge.quantity);
+      }
+
+      if (amount !== 0) {
+        taxes.push({ code: rule.code, name: rule.name, amount });
+        taxesSoFar += amount;
+      }
+    }
+
+    return taxes;
+  }
+}
@@ -21,6 +21,10 @@ export interface User extends BaseModel {
   isActive: boolean;
   lastLogin?: Date;
   profileImage?: string;
+  tokenVersion: number;
+  permissionGrants: string[];
+  permissionDenials: string[];
+  taxExemptions: string[];
 }
 
 export enum UserRole {
@@ -32,6 +36,35 @@ export enum UserRole {
   GUEST = 'guest',
 }
 
+// Editable permission set of a role; roles without one use the defaults
+export interface RolePermission extends BaseModel {
+  role: UserRole;
+  permissions: string[];
+  updatedBy?: string;
+}
+
+// Server-side refresh token; only a hash of the token is stored
+export interface RefreshToken extends BaseModel {
+  userId: string;
+  tokenHash: string;
+  familyId: string;
+  tokenVersion: number;
+  expiresAt: Date;
+  revokedAt?: Date;
+  replacedByHash?: string;
+  createdByIp?: string;
+  userAgent?: string;
+}
+
+// Single-use password reset token; only a hash of the token is stored
+export interface PasswordResetToken extends BaseModel {
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  requestedByIp?: string;
+}
+
 export interface UserProfile {
   userId: string;
   address?: string;
@@ -62,6 +95,8 @@ export interface Room extends BaseModel {
   amenities: string[];
   description?: string;
   images?: string[];
+  // Days between deep cleans; the system setting applies when unset
+  deepCleanIntervalDays?: number;
   isActive: boolean;
 }
 
@@ -81,6 +116,28 @@ export enum RoomStatus {
   OUT_OF_SERVICE = 'out_of_service',
 }
 
+// What caused a room status change
+export enum RoomStatusTrigger {
+  MANUAL = 'manual',
+  CHECK_IN = 'check_in',
+  CHECK_OUT = 'check_out',
+  ROOM_MOVE = 'room_move',
+  HOUSEKEEPING = 'housekeeping',
+  MAINTENANCE = 'maintenance',
+}
+
+// One change of a room's status, with who made it and why
+export interface RoomStatusChange extends BaseModel {
+  roomId: string;
+  fromStatus: RoomStatus;
+  toStatus: RoomStatus;
+  trigger: RoomStatusTrigger;
+  reason?: string;
+  // Check-in, check-out, task or request that caused the change
+  sourceId?: string;
+  changedBy?: string;
+}
+
 // Reservation and Booking Types
 export interface Reservation extends BaseModel {
   guestId: string;
@@ -91,9 +148,14 @@ export interface Reservation extends BaseModel {
   status: ReservationStatus;
   totalAmount: number;
   depositAmount?: number;
+  depositPaymentMethod?: PaymentMethod;
+  depositReference?: string;
   specialRequests?: string;
   source: ReservationSource;
   assignedRoomId?: string;
+  groupBookingId?: string;
+  ratePlanId?: string;
+  nightlyRates?: NightlyRate[];
 }
 
 export enum ReservationStatus {
@@ -112,6 +174,143 @@ export enum ReservationSource {
   TRAVEL_AGENT = 'travel_agent',
 }
 
+// Reservation statuses that keep their room nights out of inventory
+export const INVENTORY_HOLDING_STATUSES: ReservationStatus[] = [
+  ReservationStatus.PENDING,
+  ReservationStatus.CONFIRMED,
+  ReservationStatus.CHECKED_IN,
+];
+
+// Per-room, per-night inventory
+export interface RoomNight extends BaseModel {
+  roomId: string;
+  date: Date;
+  status: RoomNightStatus;
+  reservationId?: string;
+  groupBookingId?: string;
+  holdId?: string;
+  heldBy?: string;
+  expiresAt?: Date;
+}
+
+export enum RoomNightStatus {
+  HELD = 'held',
+  BLOCKED = 'blocked',
+  BOOKED = 'booked',
+}
+
+export interface RoomHold {
+  holdId: string;
+  roomId: string;
+  checkInDate: Date;
+  checkOutDate: Date;
+  expiresAt: Date;
+}
+
+// Group and Block Booking Types
+export interface GroupBooking extends BaseModel {
+  name: string;
+  groupCode: string;
+  contactGuestId: string;
+  arrivalDate: Date;
+  departureDate: Date;
+  cutoffDate: Date;
+  status: GroupBookingStatus;
+  allotments: GroupAllotment[];
+  billingRoutes: BillChargeType[];
+  masterBillId?: string;
+  notes?: string;
+  createdBy?: string;
+  releasedAt?: Date;
+}
+
+export interface GroupAllotment {
+  roomType: RoomType;
+  roomsBlocked: number;
+  roomsPickedUp: number;
+  roomIds: string[];
+  ratePerNight?: number;
+}
+
+export enum GroupBookingStatus {
+  OPEN = 'open',
+  RELEASED = 'released',
+  CANCELLED = 'cancelled',
+}
+
+export interface RoomingListEntry {
+  guestId: string;
+  roomType: RoomType;
+  numberOfGuests: number;
+  checkInDate?: Date;
+  checkOutDate?: Date;
+  specialRequests?: string;
+}
+
+// Rate Plan and Pricing Types
+export interface RatePlan extends BaseModel {
+  code: string;
+  name: string;
+  type: RatePlanType;
+  roomType: RoomType;
+  baseRate?: number;
+  seasons: RateSeason[];
+  dayOfWeekModifiers: DayOfWeekModifier[];
+  minLengthOfStay: number;
+  closedToArrivalDates: Date[];
+  isRefundable: boolean;
+  corporateAccount?: string;
+  packageInclusions?: string[];
+  description?: string;
+  isActive: boolean;
+}
+
+export enum RatePlanType {
+  BAR = 'bar',
+  NON_REFUNDABLE = 'non_refundable',
+  CORPORATE = 'corporate',
+  PACKAGE = 'package',
+}
+
+// Date range with its own price and restrictions; the latest-starting season wins
+export interface RateSeason {
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  rate?: number;
+  adjustment?: RateAdjustment;
+  minLengthOfStay?: number;
+  closedToArrival?: boolean;
+}
+
+export interface DayOfWeekModifier {
+  dayOfWeek: number; // 0 = Sunday
+  adjustment: RateAdjustment;
+}
+
+export interface RateAdjustment {
+  type: RateAdjustmentType;
+  value: number;
+}
+
+export enum RateAdjustmentType {
+  PERCENTAGE = 'percentage',
+  FIXED = 'fixed',
+}
+
+export interface NightlyRate {
+  date: Date;
+  rate: number;
+  season?: string;
+}
+
+export interface RateQuote {
+  ratePlanId?: string;
+  ratePlanCode?: string;
+  nights: NightlyRate[];
+  totalAmount: number;
+}
+
 export interface CheckIn extends BaseModel {
   reservationId: string;
   roomId: string;
@@ -122,6 +321,31 @@ export interface CheckIn extends BaseModel {
   keyIssued: boolean;
   welcomePackDelivered: boolean;
   specialInstructions?: string;
+  roomMoves?: RoomMove[];
+}
+
+// How the rate difference of a room move is settled
+export enum RoomMoveCharge {
+  DIFFERENCE = 'difference',
+  COMPLIMENTARY = 'complimentary',
+}
+
+// One move of a stay in progress to another room
+export interface RoomMove {
+  fromRoomId: string;
+  fromRoomNumber: string;
+  toRoomId: string;
+  toRoomNumber: string;
+  movedAt: Date;
+  reason: string;
+  charge: RoomMoveCharge;
+  // Difference between the new and old rates of the nights left
+  rateDifference: number;
+  // Amount posted to the folio; zero when complimentary
+  chargedAmount: number;
+  nights: number;
+  maintenanceRequestId?: string;
+  movedBy?: string;
 }
 
 export interface CheckOut extends BaseModel {
@@ -152,6 +376,131 @@ export interface Bill extends BaseModel {
   dueDate: Date;
   paidDate?: Date;
   paymentMethod?: PaymentMethod;
+  groupBookingId?: string;
+  isMasterBill?: boolean;
+  masterBillId?: string;
+  routedCharges?: RoutedCharge[];
+  charges: FolioCharge[];
+  taxBreakdown: LineTax[];
+  adjustmentAmount: number;
+  payments: BillPayment[];
+  amountPaid: number;
+  creditedAmount: number;
+  netAmount: number;
+  balanceDue: number;
+}
+
+// Charge line posted to a bill by the folio engine or by staff
+export interface FolioCharge {
+  _id?: string;
+  chargeType: FolioChargeType;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  serviceDate: Date;
+  sourceId?: string;
+  reason?: string;
+  taxes?: LineTax[];
+  taxAmount?: number;
+  taxedAt?: Date;
+  routedToBillId?: string;
+  taxesRoutedToBillId?: string;
+  sourceBillId?: string;
+  postedBy?: string;
+  postedAt: Date;
+}
+
+export enum FolioChargeType {
+  ROOM = 'room',
+  SERVICE = 'service',
+  LATE_FEE = 'late_fee',
+  MINIBAR = 'minibar',
+  ADJUSTMENT = 'adjustment',
+  // Carries taxes routed from another bill; has no amount of its own
+  TAX = 'tax',
+}
+
+// Tax charged on one folio line
+export interface LineTax {
+  code: string;
+  name: string;
+  amount: number;
+}
+
+// Named tax read from the TAX_RULES setting
+export interface TaxRule {
+  code: string;
+  name: string;
+  calculation: TaxCalculation;
+  rate: number;
+  appliesTo: FolioChargeType[];
+  compound: boolean;
+  isActive: boolean;
+}
+
+export enum TaxCalculation {
+  PERCENTAGE = 'percentage',
+  PER_NIGHT = 'per_night',
+}
+
+// Entry in a bill's payment ledger; voided entries are kept as an audit trail
+export interface BillPayment {
+  _id?: string;
+  amount: number;
+  paymentMethod?: PaymentMethod;
+  reference?: string;
+  isDeposit: boolean;
+  status: BillPaymentStatus;
+  refundedAmount: number;
+  receivedBy?: string;
+  receivedAt: Date;
+  notes?: string;
+  voidedAt?: Date;
+  voidedBy?: string;
+  voidReason?: string;
+}
+
+export enum BillPaymentStatus {
+  POSTED = 'posted',
+  VOIDED = 'voided',
+}
+
+// Refund of part or all of a bill payment, numbered in its own sequence
+export interface CreditNote extends BaseModel {
+  creditNoteNumber: string;
+  billId: string;
+  paymentId: string;
+  guestId: string;
+  amount: number;
+  creditedAmount: number;
+  refundMethod: PaymentMethod;
+  reason: string;
+  notes?: string;
+  issuedBy?: string;
+  issuedAt: Date;
+}
+
+// Named counter used to issue sequential document numbers
+export interface Counter {
+  name: string;
+  value: number;
+}
+
+// Charge routed from a child bill onto a group master bill
+export interface RoutedCharge {
+  sourceBillId: string;
+  chargeType: BillChargeType;
+  description: string;
+  amount: number;
+  routedAt: Date;
+}
+
+export enum BillChargeType {
+  ROOM = 'room',
+  TAX = 'tax',
+  SERVICE_CHARGE = 'service_charge',
+  ADDITIONAL_SERVICES = 'additional_services',
 }
 
 export interface AdditionalService extends BaseModel {
@@ -170,6 +519,7 @@ export enum PaymentStatus {
   PAID = 'paid',
   OVERDUE = 'overdue',
   CANCELLED = 'cancelled',
+  REFUNDED = 'refunded',
 }
 
 export enum PaymentMethod {
@@ -190,17 +540,21 @@ export enum ServiceStatus {
 // Housekeeping and Maintenance Types
 export interface HousekeepingTask extends BaseModel {
   roomId: string;
-  assignedStaffId: string;
+  // Generated tasks wait unassigned until staff are given them
+  assignedStaffId?: string;
   taskType: HousekeepingTaskType;
   status: TaskStatus;
   scheduledDate: Date;
   completedDate?: Date;
   notes?: string;
   priority: Priority;
+  // Day, room and type of a generated task; one task per key
+  generationKey?: string;
 }
 
 export enum HousekeepingTaskType {
   DAILY_CLEANING = 'daily_cleaning',
+  DEPARTURE_CLEANING = 'departure_cleaning',
   DEEP_CLEANING = 'deep_cleaning',
   LINEN_CHANGE = 'linen_change',
   AMENITY_RESTOCK = 'amenity_restock',
@@ -219,7 +573,38 @@ export interface MaintenanceRequest extends BaseModel {
   estimatedCompletionDate?: Date;
   actualCompletionDate?: Date;
   cost?: number;
+  estimatedCost?: number;
   notes?: string;
+  assetId?: string;
+  // Set on work orders raised by a preventive maintenance plan
+  preventivePlanId?: string;
+  dueDate?: Date;
+  checklist?: MaintenanceChecklistItem[];
+}
+
+export interface MaintenanceChecklistItem {
+  item: string;
+  done: boolean;
+}
+
+// Recurring preventive work on a room or a piece of equipment
+export interface MaintenancePlan extends BaseModel {
+  title: string;
+  description?: string;
+  category: MaintenanceCategory;
+  roomId?: string;
+  assetId?: string;
+  // What is serviced, such as the boiler or an HVAC filter
+  equipment?: string;
+  intervalDays: number;
+  // Days before the due date that the work order is raised
+  leadDays: number;
+  checklist: string[];
+  estimatedCost?: number;
+  priority: Priority;
+  nextDueDate: Date;
+  isActive: boolean;
+  createdBy?: string;
 }
 
 export enum MaintenanceCategory {
@@ -246,6 +631,37 @@ export enum Priority {
   URGENT = 'urgent',
 }
 
+// A piece of equipment kept in the asset register
+export interface Asset extends BaseModel {
+  assetTag: string;
+  assetType: AssetType;
+  name: string;
+  make?: string;
+  modelNumber?: string;
+  serialNumber?: string;
+  installDate?: Date;
+  warrantyExpiry?: Date;
+  roomId?: string;
+  // Where the asset is when it is not in a guest room, such as a plant room
+  location?: string;
+  notes?: string;
+  isActive: boolean;
+}
+
+export enum AssetType {
+  HVAC = 'hvac',
+  BOILER = 'boiler',
+  WATER_HEATER = 'water_heater',
+  REFRIGERATOR = 'refrigerator',
+  TELEVISION = 'television',
+  APPLIANCE = 'appliance',
+  PLUMBING = 'plumbing',
+  ELECTRICAL = 'electrical',
+  ELEVATOR = 'elevator',
+  FURNITURE = 'furniture',
+  OTHER = 'other',
+}
+
 // Feedback and Guest Services Types
 export interface Feedback extends BaseModel {
   guestId: string;
@@ -294,7 +710,71 @@ export enum ServiceType {
   CONCIERGE = 'concierge',
 }
 
+// Staff Scheduling Types
+// Working hours a shift can be rostered on, in UTC
+export interface ShiftTemplate extends BaseModel {
+  name: string;
+  code: string;
+  // HH:mm; a shift that ends at or before its start ends the next day
+  startTime: string;
+  endTime: string;
+  // Roles that may work the shift; any staff role when empty
+  roles: UserRole[];
+  isActive: boolean;
+}
+
+// A shift rostered for one staff member, on the day it starts
+export interface StaffShift extends BaseModel {
+  staffId: string;
+  role: UserRole;
+  shiftTemplateId: string;
+  date: Date;
+  startsAt: Date;
+  endsAt: Date;
+  notes?: string;
+  scheduledBy?: string;
+}
+
+export interface LeaveRequest extends BaseModel {
+  staffId: string;
+  leaveType: LeaveType;
+  startDate: Date;
+  // Last day of leave, inclusive
+  endDate: Date;
+  reason?: string;
+  status: LeaveStatus;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  reviewNotes?: string;
+}
+
+export enum LeaveType {
+  ANNUAL = 'annual',
+  SICK = 'sick',
+  UNPAID = 'unpaid',
+  OTHER = 'other',
+}
+
+export enum LeaveStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  CANCELLED = 'cancelled',
+}
+
+// A clock-in, closed by the clock-out that follows it
+export interface TimeClockEntry extends BaseModel {
+  staffId: string;
+  // Rostered shift the time was worked on, if any
+  shiftId?: string;
+  clockInAt: Date;
+  clockOutAt?: Date;
+}
+
 // System Administration Types
+// How a setting value is stored as text and read back
+export type SettingType = 'string' | 'number' | 'boolean' | 'json';
+
 export interface SystemSettings extends BaseModel {
   settingKey: string;
   settingValue: string;
@@ -430,3 +910,50 @@ export enum InventoryTransactionType {
   DAMAGED = 'damaged',
   EXPIRED = 'expired',
 }
+
+// Bulk Import Types
+export enum ImportResource {
+  ROOMS = 'rooms',
+  USERS = 'users',
+  INVENTORY = 'inventory',
+}
+
+export enum ImportStatus {
+  VALIDATED = 'validated',
+  COMPLETED = 'completed',
+  REJECTED = 'rejected',
+  FAILED = 'failed',
+}
+
+export enum ImportRowAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  INVALID = 'invalid',
+}
+
+// Outcome of one row of an import file, numbered from 1 after the header
+export interface ImportRowResult {
+  row: number;
+  key?: string;
+  action: ImportRowAction;
+  recordId?: string;
+  issues: { field: string; message: string }[];
+}
+
+export interface ImportLog extends BaseModel {
+  resource: ImportResource;
+  format: 'csv' | 'json';
+  dryRun: boolean;
+  // Whether rows for existing records overwrite them
+  overwriteExisting: boolean;
+  status: ImportStatus;
+  totalRows: number;
+  created: number;
+  updated: number;
+  failed: number;
+  rows: ImportRowResult[];
+  // Records as they were before an overwrite replaced them
+  backup: Record<string, unknown>[];
+  error?: string;
+  importedBy?: string;
+}
@@ -0,0 +1,244 @@
+import { Readable } from 'stream';
+
+type Row = Record<string, unknown>;
+
+export const CSV_DELIMITERS = {
+  comma: ',',
+  semicolon: ';',
+  tab: '\t',
+  pipe: '|',
+} as const;
+
+export type CsvDelimiter = keyof typeof CSV_DELIMITERS;
+
+export interface CsvOptions {
+  delimiter?: CsvDelimiter;
+  // Start with a UTF-8 byte order mark so Excel detects the encoding
+  bom?: boolean;
+}
+
+export const CSV_CONTENT_TYPE = 'text/csv; charset=utf-8';
+
+const BOM = '\uFEFF';
+const LINE_END = '\r\n';
+
+// Values that are written as a single field rather than flattened
+const isLeaf = (value: unknown): boolean =>
+  value === null ||
+  typeof value !== 'object' ||
+  value instanceof Date ||
+  Array.isArray(value) ||
+  Buffer.isBuffer(value) ||
+  typeof (value as { toHexString?: unknown }).toHexString === 'function';
+
+/**
+ * Flatten nested objects into dotted keys, e.g. { period: { start } }
+ * becomes { 'period.start': ... }
+ */
+export const flattenRecord = (
+  record: Row,
+  prefix = '',
+  target: Row = {}
+): Row => {
+  for (const [key, value] of Object.entries(record)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isLeaf(value)) {
+      target[path] = value;
+    } else {
+      flattenRecord(value as Row, path, target);
+    }
+  }
+  return target;
+};
+
+/**
+ * Every flattened key of the rows, in the order they first appear
+ */
+export const csvHeaders = (rows: Iterable<Row>): string[] => {
+  const headers = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(flattenRecord(row))) {
+      headers.add(key);
+    }
+  }
+  return [...headers];
+};
+
+const fieldText = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? '' : value.toISOString();
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (typeof (value as { toHexString?: unknown }).toHexString === 'function') {
+    return (value as { toHexString: () => string }).toHexString();
+  }
+  return JSON.stringify(value) ?? '';
+};
+
+/**
+ * One field, quoted as RFC 4180 requires when it holds the delimiter, a
+ * quote or a line break, or starts or ends with a space
+ */
+export const csvField = (value: unknown, delimiter = ','): string => {
+  const text = fieldText(value);
+  const needsQuotes =
+    text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim();
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * The lines of a CSV file: the header, then one line per row
+ * Rows are flattened and written under the given columns as they arrive,
+ * so a database cursor can be written without holding it in memory.
+ */
+export async function* csvLines(
+  rows: Iterable<Row> | AsyncIterable<Row>,
+  columns: string[],
+  options: CsvOptions = {}
+): AsyncGenerator<string> {
+  const delimiter = CSV_DELIMITERS[options.delimiter ?? 'comma'];
+  const line = (fields: unknown[]) =>
+    fields.map(field => csvField(field, delimiter)).join(delimiter) + LINE_END;
+
+  yield (options.bom ? BOM : '') + line(columns);
+  for await (const row of rows) {
+    const flat = flattenRecord(row);
+    yield line(columns.map(column => flat[column]));
+  }
+}
+
+/**
+ * A readable stream of a CSV file, ready to be piped to a response
+ */
+export const createCsvStream = (
+  rows: Iterable<Row> | AsyncIterable<Row>,
+  columns: string[],
+  options: CsvOptions = {}
+): Readable => Readable.from(csvLines(rows, columns, options));
+
+/**
+ * Parse CSV text into rows of fields, following RFC 4180
+ * Quoted fields may hold delimiters, doubled quotes and line breaks; a
+ * leading byte order mark and blank lines are ignored.
+ */
+export const parseCsv = (
+  text: string,
+  delimiter: CsvDelimiter = 'comma'
+): string[][] => {
+  const separator = CSV_DELIMITERS[delimiter];
+  const input = text.startsWith(BOM) ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let index = 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  while (index < input.length) {
+    const char = input[index];
+
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      index++;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' && input[index + 1] === '\n') {
+      endRow();
+      index++;
+    } else if (char === '\n' || char === '\r') {
+      endRow();
+    } else {
+      field += char;
+    }
+    index++;
+  }
+
+  if (quoted) {
+    throw new Error('CSV has an unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+};
+
+// Header segments that would reach an object's prototype
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Parse CSV text into records keyed by its header row; dotted headers
+ * become nested objects again, and empty fields are left out. Headers
+ * naming __proto__, constructor or prototype are refused.
+ */
+export const parseCsvRecords = (
+  text: string,
+  delimiter: CsvDelimiter = 'comma'
+): Row[] => {
+  const [headers, ...rows] = parseCsv(text, delimiter);
+  if (!headers) {
+    return [];
+  }
+
+  const paths = headers.map(header => header.trim().split('.'));
+  paths.forEach((path, index) => {
+    if (path.some(key => UNSAFE_KEYS.includes(key))) {
+      throw new Error(`CSV header "${headers[index]}" is not allowed`);
+    }
+  });
+
+  return rows.map(fields => {
+    const record: Row = {};
+    headers.forEach((header, index) => {
+      const value = fields[index];
+      if (value === undefined || value === '' || header.trim() === '') {
+        return;
+      }
+
+      const path = paths[index];
+      let target = record;
+      for (const key of path.slice(0, -1)) {
+        if (
+          !Object.prototype.hasOwnProperty.call(target, key) ||
+          typeof target[key] !== 'object' ||
+          target[key] === null
+        ) {
+          target[key] = {};
+        }
+        target = target[key] as Row;
+      }
+      target[path[path.length - 1]] = value;
+    });
+    return record;
+  });
+};
@@ -0,0 +1,58 @@
+import { AppError } from './errors';
+import { reservationConfig } from '../config/reservation.config';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Truncate a date to midnight UTC
+ */
+export const startOfUtcDay = (date: Date): Date =>
+  new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+
+/**
+ * Count the nights between two dates, by UTC calendar day
+ */
+export const countNights = (
+  checkInDate: Date | string,
+  checkOutDate: Date | string
+): number =>
+  Math.round(
+    (startOfUtcDay(new Date(checkOutDate)).getTime() -
+      startOfUtcDay(new Date(checkInDate)).getTime()) /
+      DAY_MS
+  );
+
+/**
+ * Get the nights (UTC midnight) covered by a stay, check-out day excluded
+ * Stays longer than the configured maximum are refused before any night is
+ * built.
+ */
+export const getStayNights = (
+  checkInDate: Date | string,
+  checkOutDate: Date | string
+): Date[] => {
+  const start = startOfUtcDay(new Date(checkInDate));
+  const end = startOfUtcDay(new Date(checkOutDate));
+
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    throw new AppError('Invalid check-in or check-out date');
+  }
+
+  if (end <= start) {
+    throw new AppError('Check-out date must be after check-in date');
+  }
+
+  if (countNights(start, end) > reservationConfig.maxStayNights) {
+    throw new AppError(
+      `A stay cannot exceed ${reservationConfig.maxStayNights} nights`
+    );
+  }
+
+  const nights: Date[] = [];
+  for (let time = start.getTime(); time < end.getTime(); time += DAY_MS) {
+    nights.push(new Date(time));
+  }
+  return nights;
+};
@@ -0,0 +1,26 @@
+import { HttpStatusCode } from '../types/api';
+
+/**
+ * Application Error
+ * Thrown from services so controllers can map it to an HTTP response
+ */
+export class AppError extends Error {
+  public readonly statusCode: HttpStatusCode;
+
+  constructor(
+    message: string,
+    statusCode: HttpStatusCode = HttpStatusCode.BAD_REQUEST
+  ) {
+    super(message);
+    this.name = 'AppError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Check whether an error is a MongoDB duplicate key violation
+ */
+export const isDuplicateKeyError = (error: unknown): boolean =>
+  typeof error === 'object' &&
+  error !== null &&
+  (error as { code?: number }).code === 11000;
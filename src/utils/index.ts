@@ -2,5 +2,10 @@
 export { logger, loggerUtils } from './logger';
 export { default as winston } from './logger';
 export { ResponseUtil } from './response';
+export { AppError, isDuplicateKeyError } from './errors';
+export { runInTransaction } from './transaction';
+export { startOfUtcDay, getStayNights } from './dates';
+export { roundCurrency } from './money';
+export { nextSequence } from './sequence';
 // Future utilities can be exported here
 // export { someOtherUtil } from './someOtherUtil';
@@ -0,0 +1,5 @@
+/**
+ * Round an amount to whole cents
+ */
+export const roundCurrency = (amount: number): number =>
+  Math.round(amount * 100) / 100;
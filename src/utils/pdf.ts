@@ -0,0 +1,375 @@
+/**
+ * Minimal PDF writer
+ * Lays out text, rules and tables on A4 pages in the standard Helvetica
+ * fonts every PDF reader ships with, so no font files are embedded and
+ * nothing is fetched. Text outside Latin-1 is printed as '?'.
+ */
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const FOOTER_SIZE = 8;
+
+// Advance widths of characters 32-126, in 1/1000 of the font size
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+  584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+  556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+  500, 389, 280, 389, 584,
+];
+const DEFAULT_WIDTH = 556;
+
+export type PdfAlign = 'left' | 'center' | 'right';
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: PdfAlign;
+  // Grey level from 0 (black) to 1 (white)
+  gray?: number;
+}
+
+export interface PdfColumn {
+  header: string;
+  // Share of the table width, relative to the other columns
+  weight?: number;
+  align?: PdfAlign;
+}
+
+export interface PdfDocumentOptions {
+  title?: string;
+  author?: string;
+  // Drawn at the top of every page, e.g. a letterhead
+  header?: (doc: PdfDocument) => void;
+}
+
+// Printable Latin-1 text; anything else becomes '?'
+const toLatin1 = (text: string): string =>
+  Array.from(text.replace(/[\r\n\t]+/g, ' '))
+    .map(char => {
+      const code = char.charCodeAt(0);
+      return char.length === 1 &&
+        code >= 32 &&
+        (code < 127 || (code >= 160 && code <= 255))
+        ? char
+        : '?';
+    })
+    .join('');
+
+const escapeText = (text: string): string =>
+  text.replace(/[\\()]/g, match => `\\${match}`);
+
+const format = (value: number): string => String(Math.round(value * 100) / 100);
+
+/**
+ * A PDF document written top to bottom
+ * Content flows from a cursor that moves down the page; a new page is
+ * started whenever the next block does not fit.
+ */
+export class PdfDocument {
+  private readonly pages: string[][] = [];
+  private cursor = MARGIN;
+
+  constructor(private readonly options: PdfDocumentOptions = {}) {
+    this.addPage();
+  }
+
+  /**
+   * Width available between the margins
+   */
+  get contentWidth(): number {
+    return PAGE_WIDTH - 2 * MARGIN;
+  }
+
+  /**
+   * Distance of the cursor from the top of the page
+   */
+  get y(): number {
+    return this.cursor;
+  }
+
+  /**
+   * Width of a piece of text in points
+   */
+  static textWidth(text: string, size: number, bold = false): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let total = 0;
+    for (const char of toLatin1(text)) {
+      const code = char.charCodeAt(0);
+      total += code <= 126 ? widths[code - 32] : DEFAULT_WIDTH;
+    }
+    return (total * size) / 1000;
+  }
+
+  /**
+   * Start a new page and draw the header on it
+   */
+  addPage(): void {
+    this.pages.push([]);
+    this.cursor = MARGIN;
+    this.options.header?.(this);
+  }
+
+  /**
+   * Start a new page unless the given height fits below the cursor
+   */
+  ensureSpace(height: number): void {
+    if (this.cursor + height > PAGE_HEIGHT - MARGIN) {
+      this.addPage();
+    }
+  }
+
+  moveDown(points: number): void {
+    this.cursor += points;
+  }
+
+  /**
+   * Draw text with its top at the given distance from the top of the page
+   * Alignment is within the box starting at x that is width wide.
+   */
+  textAt(
+    text: string,
+    x: number,
+    top: number,
+    width: number,
+    options: PdfTextOptions = {}
+  ): void {
+    const { size = 10, bold = false, align = 'left', gray = 0 } = options;
+    const line = toLatin1(text);
+    const textWidth = PdfDocument.textWidth(line, size, bold);
+    const left =
+      align === 'right'
+        ? x + width - textWidth
+        : align === 'center'
+          ? x + (width - textWidth) / 2
+          : x;
+    const baseline = PAGE_HEIGHT - top - size * 0.8;
+
+    this.currentPage.push(
+      `BT ${format(gray)} g /${bold ? 'F2' : 'F1'} ${size} Tf ` +
+        `${format(left)} ${format(baseline)} Td (${escapeText(line)}) Tj ET`
+    );
+  }
+
+  /**
+   * Write text at the cursor, wrapping it to the content width
+   */
+  text(text: string, options: PdfTextOptions = {}): void {
+    const size = options.size ?? 10;
+    const lineHeight = size * 1.35;
+
+    for (const line of this.wrap(text, this.contentWidth, size, options.bold)) {
+      this.ensureSpace(lineHeight);
+      this.textAt(line, MARGIN, this.cursor, this.contentWidth, options);
+      this.cursor += lineHeight;
+    }
+  }
+
+  /**
+   * Labelled values, one per line, in a block of the given width
+   * aligned to the left or right margin
+   */
+  keyValues(
+    rows: [string, string][],
+    options: { width?: number; align?: 'left' | 'right'; size?: number } = {}
+  ): void {
+    const { width = this.contentWidth, align = 'left', size = 10 } = options;
+    const x = align === 'right' ? PAGE_WIDTH - MARGIN - width : MARGIN;
+    const lineHeight = size * 1.45;
+
+    for (const [label, value] of rows) {
+      this.ensureSpace(lineHeight);
+      this.textAt(label, x, this.cursor, width, { size, gray: 0.35 });
+      this.textAt(value, x, this.cursor, width, { size, align: 'right' });
+      this.cursor += lineHeight;
+    }
+  }
+
+  /**
+   * A horizontal rule across the content width at the cursor
+   */
+  rule(gray = 0.75): void {
+    const y = PAGE_HEIGHT - this.cursor;
+    this.currentPage.push(
+      `${format(gray)} G 0.5 w ${MARGIN} ${format(y)} m ` +
+        `${format(PAGE_WIDTH - MARGIN)} ${format(y)} l S`
+    );
+  }
+
+  /**
+   * A table with a header row that is repeated on every page it spans
+   * Cells too wide for their column are cut short.
+   */
+  table(columns: PdfColumn[], rows: string[][], size = 9): void {
+    const totalWeight = columns.reduce(
+      (sum, col) => sum + (col.weight ?? 1),
+      0
+    );
+    const widths = columns.map(
+      col => (this.contentWidth * (col.weight ?? 1)) / totalWeight
+    );
+    const rowHeight = size * 1.7;
+    const padding = 3;
+
+    const drawRow = (cells: string[], bold: boolean) => {
+      let x = MARGIN;
+      cells.forEach((cell, index) => {
+        const width = widths[index] - 2 * padding;
+        this.textAt(
+          this.truncate(cell, width, size, bold),
+          x + padding,
+          this.cursor + size * 0.35,
+          width,
+          { size, bold, align: columns[index].align }
+        );
+        x += widths[index];
+      });
+      this.cursor += rowHeight;
+    };
+    const drawHeader = () => {
+      drawRow(
+        columns.map(col => col.header),
+        true
+      );
+      this.rule(0.4);
+    };
+
+    this.ensureSpace(rowHeight * 2);
+    drawHeader();
+    for (const row of rows) {
+      if (this.cursor + rowHeight > PAGE_HEIGHT - MARGIN) {
+        this.addPage();
+        drawHeader();
+      }
+      drawRow(row, false);
+    }
+    this.rule();
+  }
+
+  /**
+   * The finished document, with page numbers in the footers
+   */
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const addObject = (body: string): number => objects.push(body);
+
+    const catalogId = addObject('');
+    const pagesId = addObject('');
+    const fontId = addObject(
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica ' +
+        '/Encoding /WinAnsiEncoding >>'
+    );
+    const boldFontId = addObject(
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold ' +
+        '/Encoding /WinAnsiEncoding >>'
+    );
+    const infoId = addObject(
+      `<< /Title (${escapeText(toLatin1(this.options.title ?? ''))}) ` +
+        `/Author (${escapeText(toLatin1(this.options.author ?? ''))}) ` +
+        `/CreationDate (D:${new Date()
+          .toISOString()
+          .replace(/[-:T]/g, '')
+          .slice(0, 14)}Z) >>`
+    );
+
+    const pageIds = this.pages.map((operations, index) => {
+      const footer = `Page ${index + 1} of ${this.pages.length}`;
+      const footerX =
+        PAGE_WIDTH - MARGIN - PdfDocument.textWidth(footer, FOOTER_SIZE);
+      const content = [
+        ...operations,
+        `BT 0.5 g /F1 ${FOOTER_SIZE} Tf ${format(footerX)} ${MARGIN / 2} Td ` +
+          `(${footer}) Tj ET`,
+      ].join('\n');
+
+      const contentId = addObject(
+        `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\n` +
+          `stream\n${content}\nendstream`
+      );
+      return addObject(
+        `<< /Type /Page /Parent ${pagesId} 0 R ` +
+          `/MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 ${fontId} 0 R /F2 ${boldFontId} 0 R >> >> ` +
+          `/Contents ${contentId} 0 R >>`
+      );
+    });
+
+    objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+    objects[pagesId - 1] =
+      `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] ` +
+      `/Count ${pageIds.length} >>`;
+
+    let output = '%PDF-1.4\n';
+    const offsets = objects.map((body, index) => {
+      const offset = Buffer.byteLength(output, 'latin1');
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output +=
+      `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+      offsets
+        .map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`)
+        .join('') +
+      `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R ` +
+      `/Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private get currentPage(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private wrap(
+    text: string,
+    width: number,
+    size: number,
+    bold = false
+  ): string[] {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && PdfDocument.textWidth(candidate, size, bold) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    return line ? [...lines, line] : lines;
+  }
+
+  private truncate(
+    text: string,
+    width: number,
+    size: number,
+    bold: boolean
+  ): string {
+    if (PdfDocument.textWidth(text, size, bold) <= width) {
+      return text;
+    }
+    let cut = text;
+    while (
+      cut.length > 0 &&
+      PdfDocument.textWidth(`${cut}...`, size, bold) > width
+    ) {
+      cut = cut.slice(0, -1);
+    }
+    return `${cut}...`;
+  }
+}
@@ -1,4 +1,5 @@
 import { Response } from 'express';
+import { pipeline, Readable } from 'stream';
 import {
   ErrorResponse,
   HttpStatusCode,
@@ -216,6 +217,31 @@ export class ResponseUtil {
   static noContent(res: Response): Response {
     return res.status(HttpStatusCode.NO_CONTENT).send();
   }
+
+  /**
+   * Send a file download; streams are piped to the response as they are
+   * read
+   */
+  static file(
+    res: Response,
+    content: Buffer | string | Readable,
+    contentType: string,
+    filename: string
+  ): Response {
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.status(HttpStatusCode.OK);
+
+    if (content instanceof Readable) {
+      pipeline(content, res, error => {
+        if (error) {
+          logger.error('File download failed', { filename, error });
+        }
+      });
+      return res;
+    }
+    return res.send(content);
+  }
 }
 
 /**
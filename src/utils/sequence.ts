@@ -0,0 +1,19 @@
+import { ClientSession } from 'mongoose';
+import { CounterModel } from '../models/Counter.model';
+
+/**
+ * Take the next value of a named counter
+ * Inside a transaction the increment is rolled back with it, so numbers
+ * stay gap-free.
+ */
+export const nextSequence = async (
+  name: string,
+  session?: ClientSession
+): Promise<number> => {
+  const counter = await CounterModel.findOneAndUpdate(
+    { name },
+    { $inc: { value: 1 } },
+    { upsert: true, new: true, session }
+  );
+  return counter.value;
+};
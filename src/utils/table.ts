@@ -0,0 +1,81 @@
+import { PdfAlign } from './pdf';
+import { XlsxCellFormat } from './xlsx';
+
+type Row = Record<string, any>;
+
+/**
+ * A column of a document table and where its value comes from in a row
+ */
+export interface TableColumn {
+  label: string;
+  value: (row: Row) => unknown;
+  align?: PdfAlign;
+  // Share of the page width in PDFs
+  weight?: number;
+  format?: XlsxCellFormat;
+}
+
+/**
+ * Rows laid out under titled columns, ready to be written in any
+ * document format
+ */
+export interface DocumentTable {
+  title: string;
+  columns: Omit<TableColumn, 'value'>[];
+  rows: unknown[][];
+}
+
+/**
+ * Value at a dotted path, e.g. 'roomId.roomNumber' of a populated row
+ */
+export const valueAt = (row: Row, path: string): unknown =>
+  path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        value && typeof value === 'object' ? (value as Row)[key] : undefined,
+      row
+    );
+
+const field = (
+  label: string,
+  path: string,
+  options: Omit<TableColumn, 'label' | 'value'> = {}
+): TableColumn => ({ label, value: row => valueAt(row, path), ...options });
+
+/**
+ * Builders for the usual kinds of column
+ */
+export const columns = {
+  text: field,
+  number: (label: string, path: string): TableColumn =>
+    field(label, path, { align: 'right', format: 'number' }),
+  money: (label: string, path: string): TableColumn =>
+    field(label, path, { align: 'right', format: 'currency' }),
+  date: (label: string, path: string): TableColumn =>
+    field(label, path, { format: 'date' }),
+  // Populated user references print as the person's name
+  person: (label: string, path: string): TableColumn => ({
+    label,
+    value: row => {
+      const user = valueAt(row, path) as Row | undefined;
+      return user && typeof user === 'object' && 'firstName' in user
+        ? `${user.firstName} ${user.lastName}`
+        : user;
+    },
+    weight: 1.5,
+  }),
+};
+
+/**
+ * Lay rows out under the given columns
+ */
+export const tabulate = (
+  title: string,
+  tableColumns: TableColumn[],
+  rows: Row[]
+): DocumentTable => ({
+  title,
+  columns: tableColumns.map(({ value: _value, ...column }) => column),
+  rows: rows.map(row => tableColumns.map(column => column.value(row))),
+});
@@ -0,0 +1,22 @@
+import mongoose, { ClientSession } from 'mongoose';
+
+/**
+ * Run work inside a MongoDB transaction
+ * The callback may be retried by the driver on transient errors, so it must
+ * not have side effects outside the session.
+ */
+export const runInTransaction = async <T>(
+  work: (session: ClientSession) => Promise<T>
+): Promise<T> => {
+  const session = await mongoose.startSession();
+
+  try {
+    let result: T | undefined;
+    await session.withTransaction(async () => {
+      result = await work(session);
+    });
+    return result as T;
+  } finally {
+    await session.endSession();
+  }
+};
@@ -0,0 +1,300 @@
+import { createZip } from './zip';
+
+/**
+ * How the cells of a column are typed; dates are also detected from Date
+ * values and ISO date strings
+ */
+export type XlsxCellFormat = 'text' | 'number' | 'currency' | 'date';
+
+export interface XlsxColumn {
+  header: string;
+  format?: XlsxCellFormat;
+  // Width in characters; worked out from the contents when left out
+  width?: number;
+}
+
+export interface XlsxSheet {
+  name: string;
+  columns: XlsxColumn[];
+  rows: unknown[][];
+}
+
+export const XLSX_CONTENT_TYPE =
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Indexes into cellXfs of the stylesheet below
+const STYLE = { header: 1, date: 2, dateTime: 3, currency: 4 };
+
+const STYLESHEET =
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<numFmts count="2"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/>' +
+  '<numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm"/></numFmts>' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>' +
+  '<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill>' +
+  '<fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="5">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '</cellXfs>' +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  '</styleSheet>';
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS =
+  'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const ISO_DATE =
+  /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Days between Excel's epoch (1899-12-30) and the Unix epoch
+const EXCEL_EPOCH_OFFSET = 25569;
+
+// Control characters other than tab and line breaks are not allowed in XML
+const isXmlChar = (char: string): boolean => {
+  const code = char.charCodeAt(0);
+  return (
+    (code >= 0x20 && code !== 0xfffe && code !== 0xffff) ||
+    code === 0x09 ||
+    code === 0x0a ||
+    code === 0x0d
+  );
+};
+
+const escapeXml = (text: string): string =>
+  Array.from(text)
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const toDate = (value: unknown): Date | null => {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value === 'string' && ISO_DATE.test(value)) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+};
+
+const cellXml = (
+  ref: string,
+  value: unknown,
+  format: XlsxCellFormat | undefined
+): string => {
+  if (value === null || value === undefined || value === '') {
+    return '';
+  }
+
+  const date = format === 'text' ? null : toDate(value);
+  if (date) {
+    const serial = date.getTime() / MS_PER_DAY + EXCEL_EPOCH_OFFSET;
+    const style =
+      format === 'date' || date.getTime() % MS_PER_DAY === 0
+        ? STYLE.date
+        : STYLE.dateTime;
+    return `<c r="${ref}" s="${style}"><v>${serial}</v></c>`;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    const style = format === 'currency' ? ` s="${STYLE.currency}"` : '';
+    return `<c r="${ref}"${style}><v>${value}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return (
+    `<c r="${ref}" t="inlineStr"><is>` +
+    `<t xml:space="preserve">${escapeXml(text)}</t></is></c>`
+  );
+};
+
+// Characters a value takes up once shown in a cell
+const displayLength = (value: unknown): number => {
+  if (toDate(value)) {
+    return 16;
+  }
+  return typeof value === 'string'
+    ? value.length
+    : (JSON.stringify(value) ?? '').length;
+};
+
+// Widest of the header and the first rows, within sensible bounds
+const columnWidth = (column: XlsxColumn, values: unknown[]): number => {
+  if (column.width) {
+    return column.width;
+  }
+  const longest = values
+    .slice(0, 200)
+    .reduce<number>(
+      (max, value) => Math.max(max, displayLength(value)),
+      column.header.length
+    );
+  return Math.min(Math.max(longest + 2, 8), 60);
+};
+
+/**
+ * Office Open XML (XLSX) workbook writer
+ * Each sheet has a bold, frozen header row; numbers, currency amounts,
+ * booleans and dates are written as typed cells so they sort and sum in a
+ * spreadsheet.
+ */
+export class XlsxWorkbook {
+  private readonly sheets: XlsxSheet[] = [];
+
+  /**
+   * Add a sheet; its name is made safe and unique within the workbook
+   */
+  addSheet(sheet: XlsxSheet): void {
+    const base =
+      sheet.name
+        .replace(/[[\]:*?/\\]/g, ' ')
+        .trim()
+        .slice(0, 31) || `Sheet${this.sheets.length + 1}`;
+    let name = base;
+    for (
+      let copy = 2;
+      this.sheets.some(
+        existing => existing.name.toLowerCase() === name.toLowerCase()
+      );
+      copy++
+    ) {
+      name = `${base.slice(0, 31 - ` (${copy})`.length)} (${copy})`;
+    }
+    this.sheets.push({ ...sheet, name });
+  }
+
+  /**
+   * The finished workbook as an .xlsx file
+   */
+  toBuffer(): Buffer {
+    if (this.sheets.length === 0) {
+      this.addSheet({ name: 'Sheet1', columns: [], rows: [] });
+    }
+
+    const sheetEntries = this.sheets.map((sheet, index) => ({
+      name: `xl/worksheets/sheet${index + 1}.xml`,
+      data: XlsxWorkbook.sheetXml(sheet),
+    }));
+
+    return createZip([
+      {
+        name: '[Content_Types].xml',
+        data:
+          XML_HEADER +
+          '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+          '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+          '<Default Extension="xml" ContentType="application/xml"/>' +
+          '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+          '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+          sheetEntries
+            .map(
+              entry =>
+                `<Override PartName="/${entry.name}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+            )
+            .join('') +
+          '</Types>',
+      },
+      {
+        name: '_rels/.rels',
+        data:
+          XML_HEADER +
+          '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+          '</Relationships>',
+      },
+      {
+        name: 'xl/workbook.xml',
+        data:
+          XML_HEADER +
+          `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>` +
+          this.sheets
+            .map(
+              (sheet, index) =>
+                `<sheet name="${escapeXml(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+            )
+            .join('') +
+          '</sheets></workbook>',
+      },
+      {
+        name: 'xl/_rels/workbook.xml.rels',
+        data:
+          XML_HEADER +
+          '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          sheetEntries
+            .map(
+              (_, index) =>
+                `<Relationship Id="rId${index + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+            )
+            .join('') +
+          `<Relationship Id="rId${sheetEntries.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+          '</Relationships>',
+      },
+      { name: 'xl/styles.xml', data: XML_HEADER + STYLESHEET },
+      ...sheetEntries,
+    ]);
+  }
+
+  private static sheetXml(sheet: XlsxSheet): string {
+    const { columns, rows } = sheet;
+
+    const cols = columns
+      .map((column, index) => {
+        const width = columnWidth(
+          column,
+          rows.map(row => row[index])
+        );
+        return `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`;
+      })
+      .join('');
+
+    const header = columns
+      .map(
+        (column, index) =>
+          `<c r="${columnName(index)}1" s="${STYLE.header}" t="inlineStr">` +
+          `<is><t xml:space="preserve">${escapeXml(column.header)}</t></is></c>`
+      )
+      .join('');
+
+    const body = rows
+      .map((row, rowIndex) => {
+        const number = rowIndex + 2;
+        const cells = columns
+          .map((column, index) =>
+            cellXml(`${columnName(index)}${number}`, row[index], column.format)
+          )
+          .join('');
+        return `<row r="${number}">${cells}</row>`;
+      })
+      .join('');
+
+    return (
+      XML_HEADER +
+      `<worksheet xmlns="${MAIN_NS}">` +
+      '<sheetViews><sheetView workbookViewId="0">' +
+      '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+      '</sheetView></sheetViews>' +
+      '<sheetFormatPr defaultRowHeight="15"/>' +
+      (cols ? `<cols>${cols}</cols>` : '') +
+      `<sheetData><row r="1">${header}</row>${body}</sheetData>` +
+      '</worksheet>'
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { z } from 'zod';
+import { objectIdSchema } from './common.validation';
+
+// Asset Type Enum
+export const assetTypeSchema = z.enum([
+  'hvac',
+  'boiler',
+  'water_heater',
+  'refrigerator',
+  'television',
+  'appliance',
+  'plumbing',
+  'electrical',
+  'elevator',
+  'furniture',
+  'other',
+]);
+
+const paginationSchema = {
+  page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(100, 'Limit cannot exceed 100')
+    .default(20),
+};
+
+const assetFields = {
+  assetTag: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .min(1, 'Asset tag is required')
+    .max(50, 'Asset tag cannot exceed 50 characters'),
+  assetType: assetTypeSchema,
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Asset name is required')
+    .max(200, 'Name cannot exceed 200 characters'),
+  make: z.string().trim().max(100, 'Make cannot exceed 100 characters'),
+  modelNumber: z
+    .string()
+    .trim()
+    .max(100, 'Model number cannot exceed 100 characters'),
+  serialNumber: z
+    .string()
+    .trim()
+    .max(100, 'Serial number cannot exceed 100 characters'),
+  installDate: z.coerce.date(),
+  warrantyExpiry: z.coerce.date(),
+  roomId: objectIdSchema,
+  location: z
+    .string()
+    .trim()
+    .min(1, 'Location cannot be empty')
+    .max(200, 'Location cannot exceed 200 characters'),
+  notes: z.string().trim().max(1000, 'Notes cannot exceed 1000 characters'),
+  isActive: z.boolean(),
+};
+
+// Asset Schema
+export const assetSchema = z
+  .object({
+    assetTag: assetFields.assetTag,
+    assetType: assetFields.assetType,
+    name: assetFields.name,
+    make: assetFields.make.optional(),
+    modelNumber: assetFields.modelNumber.optional(),
+    serialNumber: assetFields.serialNumber.optional(),
+    installDate: assetFields.installDate.optional(),
+    warrantyExpiry: assetFields.warrantyExpiry.optional(),
+    roomId: assetFields.roomId.optional(),
+    location: assetFields.location.optional(),
+    notes: assetFields.notes.optional(),
+    isActive: assetFields.isActive.default(true),
+  })
+  .refine(asset => asset.roomId || asset.location, {
+    message: 'An asset needs a room or a location',
+    path: ['roomId'],
+  });
+
+// Asset Update Schema
+export const assetUpdateSchema = z.object({
+  assetTag: assetFields.assetTag.optional(),
+  assetType: assetFields.assetType.optional(),
+  name: assetFields.name.optional(),
+  make: assetFields.make.optional(),
+  modelNumber: assetFields.modelNumber.optional(),
+  serialNumber: assetFields.serialNumber.optional(),
+  installDate: assetFields.installDate.optional(),
+  warrantyExpiry: assetFields.warrantyExpiry.optional(),
+  roomId: assetFields.roomId.optional(),
+  location: assetFields.location.optional(),
+  notes: assetFields.notes.optional(),
+  isActive: assetFields.isActive.optional(),
+});
+
+// Asset Filter Schema
+export const assetFilterSchema = z.object({
+  assetType: assetTypeSchema.optional(),
+  roomId: objectIdSchema.optional(),
+  search: z
+    .string()
+    .trim()
+    .min(1, 'Search cannot be empty')
+    .max(100, 'Search cannot exceed 100 characters')
+    .optional(),
+  underWarranty: z
+    .enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .optional(),
+  includeInactive: z
+    .enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .optional(),
+  ...paginationSchema,
+});
+
+// Export all schemas
+export const assetValidationSchemas = {
+  asset: assetSchema,
+  assetUpdate: assetUpdateSchema,
+  assetFilter: assetFilterSchema,
+};
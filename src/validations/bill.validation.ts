@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { PaymentMethod } from '../types/models';
+import { objectIdSchema } from './common.validation';
 
 // Bill Status Enum
 export const billStatusSchema = z.enum([
@@ -111,34 +113,82 @@ export const billFilterSchema = z.object({
 
 // Bill Payment Schema
 export const billPaymentSchema = z.object({
-  billId: z.string().min(1, 'Bill ID is required'),
-  paymentMethod: paymentMethodSchema,
-  paymentAmount: z
+  amount: z
     .number()
     .min(0.01, 'Payment amount must be greater than 0')
     .max(100000, 'Payment amount cannot exceed 100000'),
-  paymentDate: z.date().min(new Date(), 'Payment date must be in the future'),
-  transactionId: z
+  paymentMethod: z.enum(PaymentMethod),
+  reference: z
     .string()
-    .max(100, 'Transaction ID cannot exceed 100 characters')
+    .max(100, 'Payment reference cannot exceed 100 characters')
     .optional(),
   notes: z.string().max(500, 'Notes cannot exceed 500 characters').optional(),
 });
 
+// Void Payment Schema
+export const voidPaymentSchema = z.object({
+  reason: z
+    .string()
+    .min(1, 'Void reason is required')
+    .max(500, 'Void reason cannot exceed 500 characters'),
+});
+
 // Bill Refund Schema
 export const billRefundSchema = z.object({
-  billId: z.string().min(1, 'Bill ID is required'),
-  refundAmount: z
+  paymentId: objectIdSchema,
+  amount: z
     .number()
     .min(0.01, 'Refund amount must be greater than 0')
     .max(100000, 'Refund amount cannot exceed 100000'),
-  refundReason: z
+  reason: z
     .string()
     .min(1, 'Refund reason is required')
     .max(500, 'Refund reason cannot exceed 500 characters'),
+  refundMethod: z.enum(PaymentMethod).optional(),
   notes: z.string().max(500, 'Notes cannot exceed 500 characters').optional(),
 });
 
+// Open Folio Schema
+export const openFolioSchema = z.object({
+  checkInId: objectIdSchema,
+});
+
+// Minibar Posting Schema
+export const minibarSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        itemName: z
+          .string()
+          .min(1, 'Item name is required')
+          .max(200, 'Item name cannot exceed 200 characters'),
+        quantity: z.number().int().min(1, 'Quantity must be at least 1'),
+        unitPrice: z
+          .number()
+          .min(0, 'Unit price cannot be negative')
+          .max(10000, 'Unit price cannot exceed 10000'),
+      })
+    )
+    .min(1, 'At least one item is required'),
+});
+
+// Charge Adjustment Schema
+export const adjustmentSchema = z.object({
+  amount: z
+    .number()
+    .min(-100000, 'Adjustment cannot be below -100000')
+    .max(100000, 'Adjustment cannot exceed 100000')
+    .refine(amount => amount !== 0, 'Adjustment amount cannot be zero'),
+  description: z
+    .string()
+    .min(1, 'Description is required')
+    .max(200, 'Description cannot exceed 200 characters'),
+  reason: z
+    .string()
+    .min(1, 'Adjustment reason is required')
+    .max(500, 'Adjustment reason cannot exceed 500 characters'),
+});
+
 // Export all schemas
 export const billValidationSchemas = {
   bill: billSchema,
@@ -146,5 +196,9 @@ export const billValidationSchemas = {
   billSearch: billSearchSchema,
   billFilter: billFilterSchema,
   billPayment: billPaymentSchema,
+  voidPayment: voidPaymentSchema,
   billRefund: billRefundSchema,
+  openFolio: openFolioSchema,
+  minibar: minibarSchema,
+  adjustment: adjustmentSchema,
 };
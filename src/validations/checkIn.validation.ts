@@ -93,6 +93,40 @@ export const checkInCompletionSchema = z.object({
   notes: z.string().max(500, 'Notes cannot exceed 500 characters').optional(),
 });
 
+// Room Move Schema
+export const roomMoveSchema = z.object({
+  toRoomId: z.string().min(1, 'Target room ID is required'),
+  reason: z
+    .string()
+    .min(1, 'Reason is required')
+    .max(500, 'Reason cannot exceed 500 characters'),
+  charge: z.enum(['difference', 'complimentary']).default('difference'),
+  // Maintenance request to raise for the room being left
+  maintenance: z
+    .object({
+      title: z
+        .string()
+        .min(1, 'Title is required')
+        .max(200, 'Title cannot exceed 200 characters'),
+      description: z
+        .string()
+        .min(1, 'Description is required')
+        .max(2000, 'Description cannot exceed 2000 characters'),
+      category: z
+        .enum([
+          'electrical',
+          'plumbing',
+          'hvac',
+          'appliance',
+          'structural',
+          'general',
+        ])
+        .default('general'),
+      priority: z.enum(['low', 'medium', 'high', 'urgent']).default('high'),
+    })
+    .optional(),
+});
+
 // Export all schemas
 export const checkInValidationSchemas = {
   checkIn: checkInSchema,
@@ -100,4 +134,5 @@ export const checkInValidationSchemas = {
   checkInSearch: checkInSearchSchema,
   checkInFilter: checkInFilterSchema,
   checkInCompletion: checkInCompletionSchema,
+  roomMove: roomMoveSchema,
 };
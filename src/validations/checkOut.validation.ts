@@ -100,6 +100,15 @@ export const checkOutCompletionSchema = z.object({
   notes: z.string().max(500, 'Notes cannot exceed 500 characters').optional(),
 });
 
+// Late Fee Schema
+export const lateFeeSchema = z.object({
+  lateFeeAmount: z
+    .number()
+    .min(0.01, 'Late fee must be greater than 0')
+    .max(1000, 'Late fee cannot exceed 1000'),
+  reason: z.string().max(200, 'Reason cannot exceed 200 characters').optional(),
+});
+
 // Export all schemas
 export const checkOutValidationSchemas = {
   checkOut: checkOutSchema,
@@ -107,4 +116,5 @@ export const checkOutValidationSchemas = {
   checkOutSearch: checkOutSearchSchema,
   checkOutFilter: checkOutFilterSchema,
   checkOutCompletion: checkOutCompletionSchema,
+  lateFee: lateFeeSchema,
 };
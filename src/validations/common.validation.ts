@@ -155,14 +155,26 @@ export const statusUpdateSchema = z.object({
 });
 
 // Common Bulk Operation Schema
-export const bulkOperationSchema = z.object({
-  ids: z
-    .array(objectIdSchema)
-    .min(1, 'At least one ID is required')
-    .max(100, 'Cannot process more than 100 items at once'),
-  operation: z.enum(['delete', 'update', 'activate', 'deactivate']),
-  data: z.record(z.string(), z.any()).optional(),
-});
+export const bulkOperationSchema = z
+  .object({
+    ids: z
+      .array(objectIdSchema)
+      .min(1, 'At least one ID is required')
+      .max(100, 'Cannot process more than 100 items at once'),
+    operation: z.enum(['delete', 'update', 'activate', 'deactivate']),
+    data: z.record(z.string(), z.any()).optional(),
+    // All items or none
+    atomic: z.boolean().default(false),
+  })
+  .refine(data => data.operation !== 'update' || data.data, {
+    message: 'Update data is required',
+    path: ['data'],
+  });
+
+// Common CSV Delimiter Schema
+export const csvDelimiterSchema = z
+  .enum(['comma', 'semicolon', 'tab', 'pipe'])
+  .default('comma');
 
 // Common Export Schema
 export const exportSchema = z.object({
@@ -170,14 +182,38 @@ export const exportSchema = z.object({
   filters: z.record(z.string(), z.any()).optional(),
   fields: z.array(z.string()).optional(),
   includeInactive: z.boolean().default(false),
+  // CSV only
+  delimiter: csvDelimiterSchema,
+  bom: z.boolean().default(false),
 });
 
 // Common Import Schema
-export const importSchema = z.object({
-  file: fileUploadSchema,
-  overwrite: z.boolean().default(false),
-  backup: z.boolean().default(true),
-  validateOnly: z.boolean().default(false),
+// The file comes in the request body: CSV text, or JSON as text or records
+export const importSchema = z
+  .object({
+    format: z.enum(['csv', 'json']).default('json'),
+    data: z.union([
+      z
+        .string()
+        .min(1, 'Import data is required')
+        .max(10 * 1024 * 1024, 'Import data cannot exceed 10MB'),
+      z.array(z.record(z.string(), z.any())).min(1, 'No records to import'),
+    ]),
+    delimiter: csvDelimiterSchema,
+    overwrite: z.boolean().default(false),
+    backup: z.boolean().default(true),
+    validateOnly: z.boolean().default(false),
+  })
+  .refine(data => data.format === 'json' || typeof data.data === 'string', {
+    message: 'CSV data must be sent as text',
+    path: ['data'],
+  });
+
+// Common Import Log Download Schema
+export const importLogDownloadSchema = z.object({
+  format: z.enum(['csv', 'json']).default('csv'),
+  delimiter: csvDelimiterSchema,
+  bom: z.stringbool().default(false),
 });
 
 // Export all schemas
@@ -200,4 +236,5 @@ export const commonValidationSchemas = {
   bulkOperation: bulkOperationSchema,
   export: exportSchema,
   import: importSchema,
+  importLogDownload: importLogDownloadSchema,
 };
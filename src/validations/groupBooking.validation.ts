@@ -0,0 +1,138 @@
+import { z } from 'zod';
+
+// Room Type Enum
+export const groupRoomTypeSchema = z.enum([
+  'standard',
+  'deluxe',
+  'suite',
+  'presidential',
+]);
+
+// Bill Charge Type Enum
+export const billChargeTypeSchema = z.enum([
+  'room',
+  'tax',
+  'service_charge',
+  'additional_services',
+]);
+
+// Group Booking Status Enum
+export const groupBookingStatusSchema = z.enum([
+  'open',
+  'released',
+  'cancelled',
+]);
+
+// Room Allotment Schema
+export const groupAllotmentSchema = z.object({
+  roomType: groupRoomTypeSchema,
+  roomsBlocked: z
+    .number()
+    .int()
+    .min(1, 'At least one room must be blocked')
+    .max(500, 'Cannot block more than 500 rooms per type'),
+  ratePerNight: z
+    .number()
+    .min(0, 'Rate per night cannot be negative')
+    .optional(),
+});
+
+// Base Group Booking Schema
+export const groupBookingSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, 'Group name is required')
+      .max(200, 'Group name cannot exceed 200 characters'),
+    groupCode: z
+      .string()
+      .min(3, 'Group code must be at least 3 characters')
+      .max(20, 'Group code cannot exceed 20 characters')
+      .regex(
+        /^[A-Za-z0-9-]+$/,
+        'Group code can only contain letters, numbers and dashes'
+      ),
+    contactGuestId: z.string().min(1, 'Contact guest ID is required'),
+    arrivalDate: z.coerce
+      .date()
+      .min(new Date(), 'Arrival date must be in the future'),
+    departureDate: z.coerce.date(),
+    cutoffDate: z.coerce.date(),
+    allotments: z
+      .array(groupAllotmentSchema)
+      .min(1, 'At least one room allotment is required'),
+    billingRoutes: z.array(billChargeTypeSchema).default([]),
+    notes: z
+      .string()
+      .max(1000, 'Notes cannot exceed 1000 characters')
+      .optional(),
+  })
+  .refine(data => data.departureDate > data.arrivalDate, {
+    message: 'Departure date must be after arrival date',
+    path: ['departureDate'],
+  })
+  .refine(data => data.cutoffDate <= data.arrivalDate, {
+    message: 'Cutoff date cannot be after arrival date',
+    path: ['cutoffDate'],
+  })
+  .refine(
+    data =>
+      new Set(data.allotments.map(allotment => allotment.roomType)).size ===
+      data.allotments.length,
+    {
+      message: 'Each room type can only appear once in the allotments',
+      path: ['allotments'],
+    }
+  );
+
+// Rooming List Entry Schema
+export const roomingListEntrySchema = z.object({
+  guestId: z.string().min(1, 'Guest ID is required'),
+  roomType: groupRoomTypeSchema,
+  numberOfGuests: z
+    .number()
+    .int()
+    .min(1, 'Number of guests must be at least 1')
+    .max(10, 'Number of guests cannot exceed 10'),
+  checkInDate: z.coerce.date().optional(),
+  checkOutDate: z.coerce.date().optional(),
+  specialRequests: z
+    .string()
+    .max(1000, 'Special requests cannot exceed 1000 characters')
+    .optional(),
+});
+
+// Rooming List Schema
+export const roomingListSchema = z.object({
+  entries: z
+    .array(roomingListEntrySchema)
+    .min(1, 'Rooming list must contain at least one guest'),
+});
+
+// Master Bill Routing Schema
+export const masterBillRoutingSchema = z.object({
+  billIds: z
+    .array(z.string().min(1, 'Bill ID is required'))
+    .min(1, 'At least one bill is required'),
+});
+
+// Group Booking Filter Schema
+export const groupBookingFilterSchema = z.object({
+  status: groupBookingStatusSchema.optional(),
+  contactGuestId: z.string().optional(),
+  page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(100, 'Limit cannot exceed 100')
+    .default(10),
+});
+
+// Export all schemas
+export const groupBookingValidationSchemas = {
+  groupBooking: groupBookingSchema,
+  roomingList: roomingListSchema,
+  masterBillRouting: masterBillRoutingSchema,
+  groupBookingFilter: groupBookingFilterSchema,
+};
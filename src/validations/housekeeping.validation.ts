@@ -19,6 +19,7 @@ export const taskTypeSchema = z.enum([
   'inspection',
   'restocking',
   'deep_cleaning',
+  'departure_cleaning',
 ]);
 
 // Base Housekeeping Task Schema
@@ -128,6 +129,28 @@ export const taskCompletionSchema = z.object({
     .optional(),
 });
 
+// Board Generation Schema
+export const boardGenerationSchema = z.object({
+  // Day to build the board for; today when left out
+  date: z.coerce.date().optional(),
+});
+
+// Board Query Schema
+export const boardQuerySchema = z.object({
+  date: z.coerce.date().optional(),
+});
+
+// Auto-Assignment Schema
+export const autoAssignSchema = z.object({
+  date: z.coerce.date().optional(),
+  staffIds: z
+    .array(z.string().min(1, 'Staff ID is required'))
+    .max(100, 'Cannot assign to more than 100 staff')
+    .optional(),
+  reassign: z.boolean().default(false),
+  preview: z.boolean().default(false),
+});
+
 // Export all schemas
 export const housekeepingValidationSchemas = {
   housekeepingTask: housekeepingTaskSchema,
@@ -137,4 +160,7 @@ export const housekeepingValidationSchemas = {
   taskAssignment: taskAssignmentSchema,
   taskStatusUpdate: taskStatusUpdateSchema,
   taskCompletion: taskCompletionSchema,
+  boardGeneration: boardGenerationSchema,
+  boardQuery: boardQuerySchema,
+  autoAssign: autoAssignSchema,
 };
@@ -31,7 +31,9 @@ export const maintenanceTypeSchema = z.enum([
 
 // Base Maintenance Request Schema
 export const maintenanceRequestSchema = z.object({
-  roomId: z.string().min(1, 'Room ID is required'),
+  // A request names a room, an asset or both
+  roomId: z.string().min(1, 'Room ID is required').optional(),
+  assetId: z.string().min(1, 'Asset ID is required').optional(),
   reportedBy: z.string().min(1, 'Reporter ID is required'),
   assignedTo: z.string().optional(),
   maintenanceType: maintenanceTypeSchema,
@@ -60,6 +62,18 @@ export const maintenanceRequestSchema = z.object({
   actualStartTime: z.string().datetime('Invalid date format').optional(),
   actualEndTime: z.string().datetime('Invalid date format').optional(),
   notes: z.string().max(1000, 'Notes cannot exceed 1000 characters').optional(),
+  // Preventive work orders carry their plan's checklist to tick off
+  checklist: z
+    .array(
+      z.object({
+        item: z
+          .string()
+          .min(1, 'Checklist items cannot be empty')
+          .max(200, 'Checklist items cannot exceed 200 characters'),
+        done: z.boolean().default(false),
+      })
+    )
+    .optional(),
   isActive: z.boolean().default(true),
 });
 
@@ -82,6 +96,7 @@ export const maintenanceRequestSearchSchema = z.object({
   maintenanceType: maintenanceTypeSchema.optional(),
   assignedTo: z.string().optional(),
   roomId: z.string().optional(),
+  assetId: z.string().optional(),
   reportedBy: z.string().optional(),
   startDate: z.string().datetime('Invalid date format').optional(),
   endDate: z.string().datetime('Invalid date format').optional(),
@@ -0,0 +1,147 @@
+import { z } from 'zod';
+import { objectIdSchema } from './common.validation';
+
+// Maintenance Category Enum
+export const maintenanceCategorySchema = z.enum([
+  'electrical',
+  'plumbing',
+  'hvac',
+  'appliance',
+  'structural',
+  'general',
+]);
+
+// Maintenance Plan Priority Enum
+export const planPrioritySchema = z.enum(['low', 'medium', 'high', 'urgent']);
+
+const paginationSchema = {
+  page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(100, 'Limit cannot exceed 100')
+    .default(20),
+};
+
+const planFields = {
+  title: z
+    .string()
+    .trim()
+    .min(1, 'Plan title is required')
+    .max(200, 'Title cannot exceed 200 characters'),
+  description: z
+    .string()
+    .trim()
+    .max(2000, 'Description cannot exceed 2000 characters'),
+  category: maintenanceCategorySchema,
+  roomId: objectIdSchema,
+  assetId: objectIdSchema,
+  equipment: z
+    .string()
+    .trim()
+    .min(1, 'Equipment cannot be empty')
+    .max(200, 'Equipment cannot exceed 200 characters'),
+  intervalDays: z
+    .number()
+    .int()
+    .min(1, 'Interval must be at least 1 day')
+    .max(3650, 'Interval cannot exceed 3650 days'),
+  leadDays: z
+    .number()
+    .int()
+    .min(0, 'Lead time cannot be negative')
+    .max(365, 'Lead time cannot exceed 365 days'),
+  checklist: z
+    .array(
+      z
+        .string()
+        .trim()
+        .min(1, 'Checklist items cannot be empty')
+        .max(200, 'Checklist items cannot exceed 200 characters')
+    )
+    .max(50, 'A checklist cannot exceed 50 items'),
+  estimatedCost: z.number().min(0, 'Estimated cost cannot be negative'),
+  priority: planPrioritySchema,
+  // First date the work falls due
+  nextDueDate: z.coerce.date(),
+  isActive: z.boolean(),
+};
+
+// Maintenance Plan Schema
+export const maintenancePlanSchema = z
+  .object({
+    title: planFields.title,
+    description: planFields.description.optional(),
+    category: planFields.category,
+    roomId: planFields.roomId.optional(),
+    assetId: planFields.assetId.optional(),
+    equipment: planFields.equipment.optional(),
+    intervalDays: planFields.intervalDays,
+    leadDays: planFields.leadDays.default(7),
+    checklist: planFields.checklist.default([]),
+    estimatedCost: planFields.estimatedCost.optional(),
+    priority: planFields.priority.default('medium'),
+    nextDueDate: planFields.nextDueDate,
+    isActive: planFields.isActive.default(true),
+  })
+  .refine(plan => plan.roomId || plan.assetId || plan.equipment, {
+    message: 'A plan needs a room, an asset or equipment',
+    path: ['roomId'],
+  });
+
+// Maintenance Plan Update Schema
+export const maintenancePlanUpdateSchema = z.object({
+  title: planFields.title.optional(),
+  description: planFields.description.optional(),
+  category: planFields.category.optional(),
+  roomId: planFields.roomId.optional(),
+  assetId: planFields.assetId.optional(),
+  equipment: planFields.equipment.optional(),
+  intervalDays: planFields.intervalDays.optional(),
+  leadDays: planFields.leadDays.optional(),
+  checklist: planFields.checklist.optional(),
+  estimatedCost: planFields.estimatedCost.optional(),
+  priority: planFields.priority.optional(),
+  nextDueDate: planFields.nextDueDate.optional(),
+  isActive: planFields.isActive.optional(),
+});
+
+// Maintenance Plan Filter Schema
+export const maintenancePlanFilterSchema = z.object({
+  category: maintenanceCategorySchema.optional(),
+  roomId: objectIdSchema.optional(),
+  assetId: objectIdSchema.optional(),
+  includeInactive: z
+    .enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .optional(),
+  ...paginationSchema,
+});
+
+// Preventive Generation Schema
+export const preventiveGenerationSchema = z.object({
+  // Day to generate for; today if left out
+  asOf: z.coerce.date().optional(),
+});
+
+// Compliance Query Schema
+export const complianceQuerySchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    category: maintenanceCategorySchema.optional(),
+  })
+  .refine(query => !query.from || !query.to || query.from <= query.to, {
+    message: 'From date must not be after to date',
+    path: ['to'],
+  });
+
+// Export all schemas
+export const maintenancePlanValidationSchemas = {
+  maintenancePlan: maintenancePlanSchema,
+  maintenancePlanUpdate: maintenancePlanUpdateSchema,
+  maintenancePlanFilter: maintenancePlanFilterSchema,
+  preventiveGeneration: preventiveGenerationSchema,
+  complianceQuery: complianceQuerySchema,
+};
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import {
+  FeedbackCategory,
+  Priority,
+  ReservationStatus,
+  ServiceStatus,
+  ServiceType,
+} from '../types/models';
+
+// Pagination shared by the guest portal lists
+const paginationSchema = z.object({
+  page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(100, 'Limit cannot exceed 100')
+    .default(10),
+});
+
+// My Reservations Filter Schema
+export const myReservationsFilterSchema = paginationSchema.extend({
+  status: z.enum(ReservationStatus).optional(),
+});
+
+// My Folio Filter Schema
+export const myFolioFilterSchema = z.object({
+  reservationId: z.string().optional(),
+});
+
+// My Service Requests Filter Schema
+export const myServiceRequestsFilterSchema = paginationSchema.extend({
+  status: z.enum(ServiceStatus).optional(),
+});
+
+// My Service Request Schema (room and guest come from the current stay)
+export const myServiceRequestSchema = z.object({
+  serviceType: z.enum(ServiceType),
+  description: z
+    .string()
+    .min(1, 'Description is required')
+    .max(1000, 'Description cannot exceed 1000 characters'),
+  priority: z.enum(Priority).default(Priority.MEDIUM),
+});
+
+// My Feedback Schema (room and guest come from the reservation)
+export const myFeedbackSchema = z.object({
+  reservationId: z.string().min(1, 'Reservation ID is required'),
+  rating: z.number().int().min(1).max(5),
+  comment: z
+    .string()
+    .max(2000, 'Comment cannot exceed 2000 characters')
+    .optional(),
+  category: z.enum(FeedbackCategory),
+  isAnonymous: z.boolean().default(false),
+});
+
+// My Notifications Filter Schema
+export const myNotificationsFilterSchema = paginationSchema.extend({
+  isRead: z.enum(['true', 'false']).optional(),
+});
+
+// Export all schemas
+export const meValidationSchemas = {
+  reservationsFilter: myReservationsFilterSchema,
+  folioFilter: myFolioFilterSchema,
+  serviceRequestsFilter: myServiceRequestsFilterSchema,
+  serviceRequest: myServiceRequestSchema,
+  feedback: myFeedbackSchema,
+  notificationsFilter: myNotificationsFilterSchema,
+};
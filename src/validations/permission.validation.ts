@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { Permission, PERMISSION_NAMES } from '../config/permissions.config';
+
+// Permission Name Enum
+export const permissionSchema = z.enum(
+  PERMISSION_NAMES as [Permission, ...Permission[]]
+);
+
+// Role Permission Set Schema
+export const rolePermissionsSchema = z.object({
+  permissions: z.array(permissionSchema),
+});
+
+// User Grants and Denials Schema
+export const userPermissionOverridesSchema = z
+  .object({
+    grants: z.array(permissionSchema).default([]),
+    denials: z.array(permissionSchema).default([]),
+  })
+  .refine(data => !data.grants.some(name => data.denials.includes(name)), {
+    message: 'A permission cannot be both granted and denied',
+    path: ['denials'],
+  });
+
+// Export all schemas
+export const permissionValidationSchemas = {
+  rolePermissions: rolePermissionsSchema,
+  userPermissionOverrides: userPermissionOverridesSchema,
+};
@@ -0,0 +1,137 @@
+import { z } from 'zod';
+
+// Rate Plan Type Enum
+export const ratePlanTypeSchema = z.enum([
+  'bar',
+  'non_refundable',
+  'corporate',
+  'package',
+]);
+
+// Room Type Enum
+export const ratePlanRoomTypeSchema = z.enum([
+  'standard',
+  'deluxe',
+  'suite',
+  'presidential',
+]);
+
+// Rate Adjustment Schema (value may be negative for discounts)
+export const rateAdjustmentSchema = z.object({
+  type: z.enum(['percentage', 'fixed']),
+  value: z
+    .number()
+    .min(-100000, 'Adjustment is too small')
+    .max(100000, 'Adjustment is too large'),
+});
+
+// Season Schema
+export const rateSeasonSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, 'Season name is required')
+      .max(100, 'Season name cannot exceed 100 characters'),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+    rate: z.number().min(0, 'Season rate cannot be negative').optional(),
+    adjustment: rateAdjustmentSchema.optional(),
+    minLengthOfStay: z
+      .number()
+      .int()
+      .min(1, 'Minimum length of stay must be at least 1 night')
+      .optional(),
+    closedToArrival: z.boolean().optional(),
+  })
+  .refine(data => data.endDate >= data.startDate, {
+    message: 'Season end date cannot be before its start date',
+    path: ['endDate'],
+  });
+
+// Day of Week Modifier Schema
+export const dayOfWeekModifierSchema = z.object({
+  dayOfWeek: z
+    .number()
+    .int()
+    .min(0, 'Day of week must be between 0 (Sunday) and 6 (Saturday)')
+    .max(6, 'Day of week must be between 0 (Sunday) and 6 (Saturday)'),
+  adjustment: rateAdjustmentSchema,
+});
+
+// Rate Plan Fields (no defaults, so partial updates leave fields untouched)
+const ratePlanFieldsSchema = z.object({
+  code: z
+    .string()
+    .min(2, 'Rate plan code must be at least 2 characters')
+    .max(20, 'Rate plan code cannot exceed 20 characters')
+    .regex(
+      /^[A-Za-z0-9_-]+$/,
+      'Rate plan code can only contain letters, numbers, dashes and underscores'
+    ),
+  name: z
+    .string()
+    .min(1, 'Rate plan name is required')
+    .max(100, 'Rate plan name cannot exceed 100 characters'),
+  type: ratePlanTypeSchema,
+  roomType: ratePlanRoomTypeSchema,
+  baseRate: z.number().min(0, 'Base rate cannot be negative').optional(),
+  seasons: z.array(rateSeasonSchema),
+  dayOfWeekModifiers: z
+    .array(dayOfWeekModifierSchema)
+    .refine(
+      modifiers =>
+        new Set(modifiers.map(modifier => modifier.dayOfWeek)).size ===
+        modifiers.length,
+      'Each day of week can only have one modifier'
+    ),
+  minLengthOfStay: z
+    .number()
+    .int()
+    .min(1, 'Minimum length of stay must be at least 1 night'),
+  closedToArrivalDates: z.array(z.coerce.date()),
+  isRefundable: z.boolean(),
+  corporateAccount: z
+    .string()
+    .max(100, 'Corporate account cannot exceed 100 characters')
+    .optional(),
+  packageInclusions: z
+    .array(z.string().max(200, 'Inclusion cannot exceed 200 characters'))
+    .optional(),
+  description: z
+    .string()
+    .max(500, 'Description cannot exceed 500 characters')
+    .optional(),
+  isActive: z.boolean(),
+});
+
+// Base Rate Plan Schema
+export const ratePlanSchema = ratePlanFieldsSchema.extend({
+  seasons: ratePlanFieldsSchema.shape.seasons.default([]),
+  dayOfWeekModifiers: ratePlanFieldsSchema.shape.dayOfWeekModifiers.default([]),
+  minLengthOfStay: ratePlanFieldsSchema.shape.minLengthOfStay.default(1),
+  closedToArrivalDates: ratePlanFieldsSchema.shape.closedToArrivalDates.default(
+    []
+  ),
+  isRefundable: ratePlanFieldsSchema.shape.isRefundable.default(true),
+  isActive: ratePlanFieldsSchema.shape.isActive.default(true),
+});
+
+// Rate Plan Update Schema
+export const ratePlanUpdateSchema = ratePlanFieldsSchema.partial().omit({
+  code: true,
+  roomType: true,
+});
+
+// Rate Plan Filter Schema
+export const ratePlanFilterSchema = z.object({
+  roomType: ratePlanRoomTypeSchema.optional(),
+  type: ratePlanTypeSchema.optional(),
+  isActive: z.enum(['true', 'false']).optional(),
+});
+
+// Export all schemas
+export const ratePlanValidationSchemas = {
+  ratePlan: ratePlanSchema,
+  ratePlanUpdate: ratePlanUpdateSchema,
+  ratePlanFilter: ratePlanFilterSchema,
+};
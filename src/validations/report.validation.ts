@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { ReportType, ReportFormat } from '../types/models';
+import { csvDelimiterSchema } from './common.validation';
 
 // Base report schema
 const reportBaseSchema = z.object({
@@ -130,7 +131,12 @@ const bulkUpdateSchema = z.object({
 // Report download schema
 const reportDownloadSchema = z.object({
   format: z.nativeEnum(ReportFormat).optional(),
-  includeMetadata: z.boolean().default(false),
+  includeMetadata: z.stringbool().default(false),
+  // CSV only: the delimiter, a byte order mark for Excel, and one section
+  // of the report data (e.g. summary) instead of all of them
+  delimiter: csvDelimiterSchema,
+  bom: z.stringbool().default(false),
+  section: z.string().min(1).optional(),
 });
 
 // Report statistics schema
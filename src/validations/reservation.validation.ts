@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { reservationConfig } from '../config/reservation.config';
+import { countNights, startOfUtcDay } from '../utils/dates';
+import { objectIdSchema } from './common.validation';
 
 // Reservation Status Enum
 export const reservationStatusSchema = z.enum([
@@ -19,12 +22,22 @@ export const paymentStatusSchema = z.enum([
   'failed',
 ]);
 
-// Base Reservation Schema
-export const reservationSchema = z.object({
+// Reservation Source Enum
+export const reservationSourceSchema = z.enum([
+  'online',
+  'phone',
+  'walk_in',
+  'travel_agent',
+]);
+
+// Reservation fields shared by create and update, without defaults
+const reservationFields = z.object({
   guestId: z.string().min(1, 'Guest ID is required'),
   roomId: z.string().min(1, 'Room ID is required'),
-  checkInDate: z.date().min(new Date(), 'Check-in date must be in the future'),
-  checkOutDate: z
+  checkInDate: z.coerce
+    .date()
+    .min(new Date(), 'Check-in date must be in the future'),
+  checkOutDate: z.coerce
     .date()
     .min(new Date(), 'Check-out date must be in the future'),
   numberOfGuests: z
@@ -32,25 +45,70 @@ export const reservationSchema = z.object({
     .int()
     .min(1, 'Number of guests must be at least 1')
     .max(10, 'Number of guests cannot exceed 10'),
+  // Priced server-side from the rate plan; any client value is ignored
   totalAmount: z
     .number()
     .min(0, 'Total amount cannot be negative')
-    .max(100000, 'Total amount cannot exceed 100000'),
-  status: reservationStatusSchema.default('pending'),
-  paymentStatus: paymentStatusSchema.default('pending'),
+    .max(100000, 'Total amount cannot exceed 100000')
+    .optional(),
+  ratePlanId: z.string().min(1, 'Rate plan ID is required').optional(),
+  status: reservationStatusSchema,
+  paymentStatus: paymentStatusSchema,
+  source: reservationSourceSchema,
+  holdId: z.string().uuid('Invalid hold ID format').optional(),
   specialRequests: z
     .string()
     .max(1000, 'Special requests cannot exceed 1000 characters')
     .optional(),
   notes: z.string().max(500, 'Notes cannot exceed 500 characters').optional(),
-  isActive: z.boolean().default(true),
+  isActive: z.boolean(),
 });
 
+// Check-out must follow check-in, within the longest stay allowed
+const checkStay = (
+  stay: { checkInDate?: Date; checkOutDate?: Date },
+  ctx: z.RefinementCtx
+): void => {
+  if (!stay.checkInDate || !stay.checkOutDate) {
+    return;
+  }
+
+  const nights = countNights(stay.checkInDate, stay.checkOutDate);
+  if (nights < 1) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Check-out date must be after check-in date',
+      path: ['checkOutDate'],
+    });
+  } else if (nights > reservationConfig.maxStayNights) {
+    ctx.addIssue({
+      code: 'custom',
+      message: `A stay cannot exceed ${reservationConfig.maxStayNights} nights`,
+      path: ['checkOutDate'],
+    });
+  }
+};
+
+// Base Reservation Schema
+export const reservationSchema = reservationFields
+  .extend({
+    status: reservationStatusSchema.default('pending'),
+    paymentStatus: paymentStatusSchema.default('pending'),
+    source: reservationSourceSchema.default('online'),
+    isActive: z.boolean().default(true),
+  })
+  .superRefine(checkStay);
+
 // Reservation Update Schema
-export const reservationUpdateSchema = reservationSchema.partial().omit({
-  guestId: true,
-  roomId: true,
-});
+// Built from the fields without defaults so an update only sets what it sends
+export const reservationUpdateSchema = reservationFields
+  .partial()
+  .omit({
+    guestId: true,
+    roomId: true,
+    holdId: true,
+  })
+  .superRefine(checkStay);
 
 // Reservation Search Schema
 export const reservationSearchSchema = z.object({
@@ -79,17 +137,18 @@ export const reservationSearchSchema = z.object({
 
 // Reservation Filter Schema
 export const reservationFilterSchema = z.object({
+  search: z
+    .string()
+    .max(100, 'Search query cannot exceed 100 characters')
+    .optional(),
   status: reservationStatusSchema.optional(),
-  paymentStatus: paymentStatusSchema.optional(),
-  guestId: z.string().optional(),
-  roomId: z.string().optional(),
-  startDate: z.date().optional(),
-  endDate: z.date().optional(),
-  minAmount: z.number().min(0, 'Minimum amount cannot be negative').optional(),
-  maxAmount: z.number().min(0, 'Maximum amount cannot be negative').optional(),
-  isActive: z.boolean().optional(),
-  page: z.number().int().min(1, 'Page must be at least 1').default(1),
-  limit: z
+  source: reservationSourceSchema.optional(),
+  guestId: objectIdSchema.optional(),
+  roomId: objectIdSchema.optional(),
+  checkInDate: z.coerce.date().optional(),
+  checkOutDate: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+  limit: z.coerce
     .number()
     .int()
     .min(1, 'Limit must be at least 1')
@@ -97,29 +156,68 @@ export const reservationFilterSchema = z.object({
     .default(10),
   sortBy: z
     .enum(['checkInDate', 'checkOutDate', 'totalAmount', 'createdAt', 'status'])
-    .default('checkInDate'),
-  sortOrder: z.enum(['asc', 'desc']).default('asc'),
+    .default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
 });
 
 // Reservation Availability Schema
-export const reservationAvailabilitySchema = z.object({
-  checkInDate: z.date().min(new Date(), 'Check-in date must be in the future'),
-  checkOutDate: z
-    .date()
-    .min(new Date(), 'Check-out date must be in the future'),
-  roomType: z.enum(['standard', 'deluxe', 'suite', 'presidential']).optional(),
-  numberOfGuests: z
-    .number()
-    .int()
-    .min(1, 'Number of guests must be at least 1')
-    .max(10, 'Number of guests cannot exceed 10')
-    .optional(),
-  maxPrice: z.number().min(0, 'Maximum price cannot be negative').optional(),
-});
+export const reservationAvailabilitySchema = z
+  .object({
+    roomId: z.string().min(1, 'Room ID is required'),
+    checkInDate: z.coerce
+      .date()
+      .min(new Date(), 'Check-in date must be in the future'),
+    checkOutDate: z.coerce
+      .date()
+      .min(new Date(), 'Check-out date must be in the future'),
+    roomType: z
+      .enum(['standard', 'deluxe', 'suite', 'presidential'])
+      .optional(),
+    numberOfGuests: z.coerce
+      .number()
+      .int()
+      .min(1, 'Number of guests must be at least 1')
+      .max(10, 'Number of guests cannot exceed 10')
+      .optional(),
+    maxPrice: z.coerce
+      .number()
+      .min(0, 'Maximum price cannot be negative')
+      .optional(),
+  })
+  .superRefine(checkStay);
+
+// Room Hold Schema
+export const reservationHoldSchema = z
+  .object({
+    roomId: objectIdSchema,
+    checkInDate: z.coerce
+      .date()
+      .refine(
+        date => date >= startOfUtcDay(new Date()),
+        'Check-in date cannot be in the past'
+      ),
+    checkOutDate: z.coerce.date(),
+    ttlMinutes: z
+      .number()
+      .int()
+      .min(1, 'Hold must last at least 1 minute')
+      .max(60, 'Hold cannot exceed 60 minutes')
+      .optional(),
+  })
+  .superRefine(checkStay);
+
+// Reservation Quote Schema
+export const reservationQuoteSchema = z
+  .object({
+    roomId: z.string().min(1, 'Room ID is required'),
+    checkInDate: z.coerce.date(),
+    checkOutDate: z.coerce.date(),
+    ratePlanId: z.string().optional(),
+  })
+  .superRefine(checkStay);
 
 // Reservation Confirmation Schema
 export const reservationConfirmationSchema = z.object({
-  reservationId: z.string().min(1, 'Reservation ID is required'),
   confirmationNotes: z
     .string()
     .max(500, 'Confirmation notes cannot exceed 500 characters')
@@ -128,11 +226,11 @@ export const reservationConfirmationSchema = z.object({
 
 // Reservation Cancellation Schema
 export const reservationCancellationSchema = z.object({
-  reservationId: z.string().min(1, 'Reservation ID is required'),
   cancellationReason: z
     .string()
     .min(1, 'Cancellation reason is required')
-    .max(500, 'Cancellation reason cannot exceed 500 characters'),
+    .max(500, 'Cancellation reason cannot exceed 500 characters')
+    .optional(),
   refundAmount: z
     .number()
     .min(0, 'Refund amount cannot be negative')
@@ -142,7 +240,6 @@ export const reservationCancellationSchema = z.object({
 
 // Reservation Deletion Schema
 export const reservationDeletionSchema = z.object({
-  reservationId: z.string().min(1, 'Reservation ID is required'),
   deletionReason: z
     .string()
     .min(1, 'Deletion reason is required')
@@ -157,6 +254,8 @@ export const reservationValidationSchemas = {
   reservationSearch: reservationSearchSchema,
   reservationFilter: reservationFilterSchema,
   reservationAvailability: reservationAvailabilitySchema,
+  reservationHold: reservationHoldSchema,
+  reservationQuote: reservationQuoteSchema,
   reservationConfirmation: reservationConfirmationSchema,
   reservationCancellation: reservationCancellationSchema,
   deleteReservation: reservationDeletionSchema,
@@ -53,6 +53,12 @@ export const roomSchema = z.object({
     .array(z.string().url('Please enter valid URLs'))
     .max(20, 'Cannot have more than 20 images')
     .optional(),
+  deepCleanIntervalDays: z
+    .number()
+    .int()
+    .min(1, 'Deep clean interval must be at least 1 day')
+    .max(365, 'Deep clean interval cannot exceed 365 days')
+    .optional(),
   isActive: z.boolean().default(true),
 });
 
@@ -132,6 +138,17 @@ export const roomStatusUpdateSchema = z.object({
   notes: z.string().max(500, 'Notes cannot exceed 500 characters').optional(),
 });
 
+// Room Status History Query Schema
+export const roomStatusHistorySchema = z.object({
+  page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(100, 'Limit cannot exceed 100')
+    .default(20),
+});
+
 // Room Price Update Schema
 export const roomPriceUpdateSchema = z.object({
   pricePerNight: z
@@ -215,6 +232,7 @@ export const roomValidationSchemas = {
   roomFilter: roomFilterSchema,
   roomAvailability: roomAvailabilitySchema,
   roomStatusUpdate: roomStatusUpdateSchema,
+  roomStatusHistory: roomStatusHistorySchema,
   roomPriceUpdate: roomPriceUpdateSchema,
   roomMaintenance: roomMaintenanceSchema,
 };
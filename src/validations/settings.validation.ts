@@ -0,0 +1,58 @@
+import { z } from 'zod';
+
+// Setting Category Enum
+export const settingCategorySchema = z.enum([
+  'room_rates',
+  'taxes',
+  'policies',
+  'notifications',
+  'system',
+]);
+
+// Setting values are checked against the definition of their key
+const settingValueSchema = z.unknown().refine(value => value != null, {
+  message: 'Setting value is required',
+});
+
+const settingDescriptionSchema = z
+  .string()
+  .max(500, 'Description cannot exceed 500 characters');
+
+// Setting Schema
+export const settingSchema = z.object({
+  settingKey: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(
+      /^[A-Z][A-Z0-9_]{0,99}$/,
+      'Setting key must start with a letter and contain only letters, numbers and underscores'
+    ),
+  value: settingValueSchema,
+  category: settingCategorySchema.optional(),
+  description: settingDescriptionSchema.optional(),
+  isEditable: z.boolean().default(true),
+});
+
+// Setting Update Schema
+export const settingUpdateSchema = z
+  .object({
+    value: settingValueSchema.optional(),
+    description: settingDescriptionSchema.optional(),
+  })
+  .refine(
+    data => data.value !== undefined || data.description !== undefined,
+    'Provide a value or a description to change'
+  );
+
+// Setting Filter Schema
+export const settingFilterSchema = z.object({
+  category: settingCategorySchema.optional(),
+});
+
+// Export all schemas
+export const settingsValidationSchemas = {
+  setting: settingSchema,
+  settingUpdate: settingUpdateSchema,
+  settingFilter: settingFilterSchema,
+};
@@ -0,0 +1,160 @@
+import { z } from 'zod';
+import { objectIdSchema } from './common.validation';
+
+// Roles that work shifts
+export const staffRoleSchema = z.enum([
+  'admin',
+  'manager',
+  'receptionist',
+  'housekeeping',
+  'maintenance',
+]);
+
+// Leave Type Enum
+export const leaveTypeSchema = z.enum(['annual', 'sick', 'unpaid', 'other']);
+
+// Leave Status Enum
+export const leaveStatusSchema = z.enum([
+  'pending',
+  'approved',
+  'rejected',
+  'cancelled',
+]);
+
+const timeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:mm format');
+
+const paginationSchema = {
+  page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(100, 'Limit cannot exceed 100')
+    .default(20),
+};
+
+// Shift Template Schema
+export const shiftTemplateSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Shift name is required')
+    .max(100, 'Shift name cannot exceed 100 characters'),
+  code: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(
+      /^[A-Z0-9_-]{1,20}$/,
+      'Shift code must be 1-20 letters, numbers, dashes or underscores'
+    ),
+  startTime: timeSchema,
+  endTime: timeSchema,
+  roles: z.array(staffRoleSchema).default([]),
+  isActive: z.boolean().default(true),
+});
+
+// Shift Template Update Schema
+export const shiftTemplateUpdateSchema = z.object({
+  name: shiftTemplateSchema.shape.name.optional(),
+  code: shiftTemplateSchema.shape.code.optional(),
+  startTime: timeSchema.optional(),
+  endTime: timeSchema.optional(),
+  roles: z.array(staffRoleSchema).optional(),
+  isActive: z.boolean().optional(),
+});
+
+// Shift Template Filter Schema
+export const shiftTemplateFilterSchema = z.object({
+  includeInactive: z
+    .enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .optional(),
+});
+
+// Roster Query Schema
+export const rosterQuerySchema = z.object({
+  // Any day of the week; the roster starts on its Monday
+  weekStart: z.coerce.date().default(() => new Date()),
+  role: staffRoleSchema.optional(),
+});
+
+// Roster Week Schema
+export const rosterWeekSchema = z.object({
+  weekStart: z.coerce.date(),
+  role: staffRoleSchema,
+  entries: z
+    .array(
+      z.object({
+        staffId: objectIdSchema,
+        shiftTemplateId: objectIdSchema,
+        date: z.coerce.date(),
+        notes: z
+          .string()
+          .max(500, 'Notes cannot exceed 500 characters')
+          .optional(),
+      })
+    )
+    .max(1000, 'A week cannot have more than 1000 shifts'),
+});
+
+// On Duty Query Schema
+export const onDutyQuerySchema = z.object({
+  role: staffRoleSchema.optional(),
+  at: z.coerce.date().optional(),
+});
+
+// Leave Request Schema
+export const leaveRequestSchema = z
+  .object({
+    leaveType: leaveTypeSchema,
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+    reason: z
+      .string()
+      .max(500, 'Reason cannot exceed 500 characters')
+      .optional(),
+  })
+  .refine(data => data.endDate >= data.startDate, {
+    message: 'Leave cannot end before it starts',
+    path: ['endDate'],
+  });
+
+// Leave Review Schema
+export const leaveReviewSchema = z.object({
+  status: z.enum(['approved', 'rejected']),
+  notes: z.string().max(500, 'Notes cannot exceed 500 characters').optional(),
+});
+
+// Leave Filter Schema
+export const leaveFilterSchema = z.object({
+  status: leaveStatusSchema.optional(),
+  staffId: objectIdSchema.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  ...paginationSchema,
+});
+
+// Clock Entry Filter Schema
+export const clockEntryFilterSchema = z.object({
+  staffId: objectIdSchema.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  ...paginationSchema,
+});
+
+// Export all schemas
+export const shiftValidationSchemas = {
+  shiftTemplate: shiftTemplateSchema,
+  shiftTemplateUpdate: shiftTemplateUpdateSchema,
+  shiftTemplateFilter: shiftTemplateFilterSchema,
+  rosterQuery: rosterQuerySchema,
+  rosterWeek: rosterWeekSchema,
+  onDutyQuery: onDutyQuerySchema,
+  leaveRequest: leaveRequestSchema,
+  leaveReview: leaveReviewSchema,
+  leaveFilter: leaveFilterSchema,
+  clockEntryFilter: clockEntryFilterSchema,
+};
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { FolioChargeType, TaxCalculation } from '../types/models';
+
+// Tax Rule Schema
+export const taxRuleSchema = z.object({
+  code: z
+    .string()
+    .min(1, 'Tax code is required')
+    .max(20, 'Tax code cannot exceed 20 characters')
+    .transform(code => code.toUpperCase()),
+  name: z
+    .string()
+    .min(1, 'Tax name is required')
+    .max(100, 'Tax name cannot exceed 100 characters'),
+  calculation: z.enum(TaxCalculation),
+  rate: z
+    .number()
+    .min(0, 'Tax rate cannot be negative')
+    .max(10000, 'Tax rate cannot exceed 10000'),
+  appliesTo: z
+    .array(z.enum(FolioChargeType))
+    .min(1, 'A tax must apply to at least one charge type'),
+  compound: z.boolean().default(false),
+  isActive: z.boolean().default(true),
+});
+
+// Tax Rule Set Schema; rules apply in the order given
+export const taxRulesSchema = z.object({
+  rules: z
+    .array(taxRuleSchema)
+    .refine(
+      rules => new Set(rules.map(rule => rule.code)).size === rules.length,
+      'Tax codes must be unique'
+    ),
+});
+
+// Export all schemas
+export const taxValidationSchemas = {
+  taxRule: taxRuleSchema,
+  taxRules: taxRulesSchema,
+};
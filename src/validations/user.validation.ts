@@ -32,7 +32,14 @@ export const userSchema = z.object({
 });
 
 // User Update Schema (partial, no password)
-export const userUpdateSchema = userSchema.partial().omit({ password: true });
+export const userUpdateSchema = userSchema
+  .partial()
+  .omit({ password: true })
+  .extend({
+    taxExemptions: z
+      .array(z.string().min(1).max(20, 'Tax code cannot exceed 20 characters'))
+      .optional(),
+  });
 
 // User Login Schema
 export const userLoginSchema = z.object({
@@ -0,0 +1,353 @@
+import { Document, Model, Types } from 'mongoose';
+import { FakeSession } from './fakeTransaction';
+
+type Raw = Record<string, any>;
+type Filter = Record<string, any>;
+
+// Comparable form of a stored value: ids as hex strings, dates as times
+const normalize = (value: any): unknown => {
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (value && typeof value.toHexString === 'function') {
+    return value.toHexString();
+  }
+  return value;
+};
+
+const same = (a: unknown, b: unknown): boolean => normalize(a) === normalize(b);
+
+const isOperatorObject = (condition: unknown): condition is Filter =>
+  !!condition &&
+  typeof condition === 'object' &&
+  !(condition instanceof Date) &&
+  !Array.isArray(condition) &&
+  Object.keys(condition).every(key => key.startsWith('$'));
+
+const compare = (a: any, b: any): number =>
+  (normalize(a) as number) - (normalize(b) as number);
+
+const matches = (doc: Raw, filter: Filter): boolean =>
+  Object.entries(filter).every(([field, condition]) => {
+    if (field === '$or') {
+      return (condition as Filter[]).some(branch => matches(doc, branch));
+    }
+
+    const value = doc[field];
+    if (!isOperatorObject(condition)) {
+      return same(value, condition);
+    }
+
+    return Object.entries(condition).every(([operator, operand]) => {
+      switch (operator) {
+        case '$in':
+          return (operand as unknown[]).some(item => same(value, item));
+        case '$nin':
+          return !(operand as unknown[]).some(item => same(value, item));
+        case '$ne':
+          return !same(value, operand);
+        case '$exists':
+          return (value !== undefined) === operand;
+        case '$gt':
+          return value !== undefined && compare(value, operand) > 0;
+        case '$gte':
+          return value !== undefined && compare(value, operand) >= 0;
+        case '$lt':
+          return value !== undefined && compare(value, operand) < 0;
+        case '$lte':
+          return value !== undefined && compare(value, operand) <= 0;
+        default:
+          throw new Error(`Operator ${operator} is not supported`);
+      }
+    });
+  });
+
+const duplicateKeyError = (): Error =>
+  Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+
+/**
+ * A chainable, awaitable query over a fake collection
+ */
+class FakeQuery<T> implements PromiseLike<T> {
+  private sortSpec?: Record<string, 1 | -1>;
+  private leanResult = false;
+
+  constructor(
+    private readonly run: (options: {
+      sort?: Record<string, 1 | -1>;
+      lean: boolean;
+    }) => T | Promise<T>
+  ) {}
+
+  session(): this {
+    return this;
+  }
+
+  select(): this {
+    return this;
+  }
+
+  populate(): this {
+    return this;
+  }
+
+  sort(spec: Record<string, 1 | -1>): this {
+    this.sortSpec = spec;
+    return this;
+  }
+
+  lean<R = T>(): FakeQuery<R> {
+    this.leanResult = true;
+    return this as unknown as FakeQuery<R>;
+  }
+
+  exec(): Promise<T> {
+    // Resolved a tick later, like a round trip to the server
+    return Promise.resolve().then(() =>
+      this.run({ sort: this.sortSpec, lean: this.leanResult })
+    );
+  }
+
+  then<A = T, B = never>(
+    onFulfilled?: ((value: T) => A | PromiseLike<A>) | null,
+    onRejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+  ): Promise<A | B> {
+    return this.exec().then(onFulfilled, onRejected);
+  }
+}
+
+/**
+ * In-memory stand-in for a MongoDB collection behind a Mongoose model
+ * Installs spies on the model's query and write methods and on the save and
+ * deleteOne of its documents. Writes made with a FakeSession are undone when
+ * the fake transaction fails; unique indexes raise the same duplicate key
+ * error (code 11000) as the server.
+ */
+export class FakeCollection {
+  readonly docs: Raw[] = [];
+  // Makes matching writes fail, to simulate a broken write
+  failWhen?: (doc: Raw) => Error | undefined;
+
+  constructor(
+    private readonly model: Model<any>,
+    private readonly uniqueIndexes: string[][] = []
+  ) {
+    this.install();
+  }
+
+  /**
+   * Documents matching a filter, as stored
+   */
+  find(filter: Filter = {}): Raw[] {
+    return this.docs.filter(doc => matches(doc, filter));
+  }
+
+  /**
+   * Store documents directly, outside any transaction
+   */
+  seed(...docs: Raw[]): Raw[] {
+    return docs.map(doc => this.insert({ ...doc }));
+  }
+
+  private install(): void {
+    const model = this.model as any;
+    const collection = this;
+
+    jest
+      .spyOn(model, 'find')
+      .mockImplementation((filter?: unknown) =>
+        this.query(filter as Filter, results => results)
+      );
+    jest
+      .spyOn(model, 'findOne')
+      .mockImplementation((filter?: unknown) =>
+        this.query(filter as Filter, results => results[0] ?? null)
+      );
+    jest
+      .spyOn(model, 'findById')
+      .mockImplementation((id: unknown) =>
+        this.query({ _id: id }, results => results[0] ?? null)
+      );
+    jest
+      .spyOn(model, 'countDocuments')
+      .mockImplementation(
+        (filter?: unknown) =>
+          new FakeQuery(() => this.find(filter as Filter).length)
+      );
+    jest.spyOn(model, 'distinct').mockImplementation(
+      (field: unknown, filter?: unknown) =>
+        new FakeQuery(() => {
+          const values = this.find(filter as Filter).map(
+            doc => doc[field as string]
+          );
+          return values.filter(
+            (value, index) =>
+              values.findIndex(other => same(other, value)) === index
+          );
+        })
+    );
+
+    jest
+      .spyOn(model, 'insertMany')
+      .mockImplementation(async (docs: unknown, options?: unknown) => {
+        const session = (options as { session?: FakeSession })?.session;
+        const inserted: Document[] = [];
+        for (const doc of docs as Raw[]) {
+          // One document at a time, so concurrent inserts interleave
+          await Promise.resolve();
+          inserted.push(model.hydrate(this.insert({ ...doc }, session)));
+        }
+        return inserted;
+      });
+    jest
+      .spyOn(model, 'create')
+      .mockImplementation(async (docs: unknown, options?: unknown) => {
+        const session = (options as { session?: FakeSession })?.session;
+        const created: Document[] = [];
+        for (const data of ([] as Raw[]).concat(docs as Raw[])) {
+          const doc = new model(data);
+          await doc.validate();
+          this.insert(doc.toObject(), session);
+          doc.isNew = false;
+          created.push(doc);
+        }
+        return Array.isArray(docs) ? created : created[0];
+      });
+    jest.spyOn(model, 'deleteMany').mockImplementation(
+      (filter?: unknown, options?: unknown) =>
+        new FakeQuery(() => {
+          const removed = this.find(filter as Filter);
+          for (const doc of removed) {
+            this.remove(doc, (options as { session?: FakeSession })?.session);
+          }
+          return { deletedCount: removed.length };
+        })
+    );
+    jest.spyOn(model, 'updateMany').mockImplementation(
+      (filter?: unknown, update?: unknown, options?: unknown) =>
+        new FakeQuery(() => {
+          const session = (options as { session?: FakeSession })?.session;
+          const { $set = {}, $unset = {} } = update as {
+            $set?: Raw;
+            $unset?: Raw;
+          };
+          const updated = this.find(filter as Filter);
+          for (const doc of updated) {
+            const previous = { ...doc };
+            Object.assign(doc, $set);
+            for (const field of Object.keys($unset)) {
+              delete doc[field];
+            }
+            session?.undo.push(() => {
+              for (const field of Object.keys(doc)) {
+                delete doc[field];
+              }
+              Object.assign(doc, previous);
+            });
+          }
+          return {
+            matchedCount: updated.length,
+            modifiedCount: updated.length,
+          };
+        })
+    );
+
+    jest.spyOn(model.prototype, 'save').mockImplementation(async function (
+      this: Document,
+      options?: unknown
+    ) {
+      const session = (options as { session?: FakeSession })?.session;
+      const raw = this.toObject({ depopulate: true }) as Raw;
+      await Promise.resolve();
+      collection.write(raw, session);
+      this.isNew = false;
+      return this;
+    });
+    jest.spyOn(model.prototype, 'deleteOne').mockImplementation(async function (
+      this: Document,
+      options?: unknown
+    ) {
+      const session = (options as { session?: FakeSession })?.session;
+      const removed = collection.find({ _id: this._id });
+      for (const doc of removed) {
+        collection.remove(doc, session);
+      }
+      return { deletedCount: removed.length };
+    });
+  }
+
+  private query<T>(filter: Filter = {}, pick: (results: any[]) => T) {
+    return new FakeQuery(({ sort, lean }) => {
+      const results = this.find(filter);
+      if (sort) {
+        const [[field, direction]] = Object.entries(sort);
+        results.sort(
+          (a, b) =>
+            direction *
+            String(normalize(a[field])).localeCompare(
+              String(normalize(b[field])),
+              undefined,
+              { numeric: true }
+            )
+        );
+      }
+      return pick(
+        results.map(doc =>
+          lean ? { ...doc } : (this.model as any).hydrate({ ...doc })
+        )
+      );
+    });
+  }
+
+  private insert(doc: Raw, session?: FakeSession): Raw {
+    doc._id ??= new Types.ObjectId();
+    this.check(doc);
+    this.docs.push(doc);
+    session?.undo.push(() => this.docs.splice(this.docs.indexOf(doc), 1));
+    return doc;
+  }
+
+  // Insert a document, or replace the stored one with the same _id
+  private write(raw: Raw, session?: FakeSession): void {
+    const existing = this.docs.find(doc => same(doc._id, raw._id));
+    if (!existing) {
+      this.insert(raw, session);
+      return;
+    }
+
+    this.check(raw, existing);
+    const previous = { ...existing };
+    for (const field of Object.keys(existing)) {
+      delete existing[field];
+    }
+    Object.assign(existing, raw);
+    session?.undo.push(() => {
+      for (const field of Object.keys(existing)) {
+        delete existing[field];
+      }
+      Object.assign(existing, previous);
+    });
+  }
+
+  private remove(doc: Raw, session?: FakeSession): void {
+    this.docs.splice(this.docs.indexOf(doc), 1);
+    session?.undo.push(() => this.docs.push(doc));
+  }
+
+  private check(doc: Raw, replacing?: Raw): void {
+    const failure = this.failWhen?.(doc);
+    if (failure) {
+      throw failure;
+    }
+
+    for (const fields of this.uniqueIndexes) {
+      const key = (item: Raw) =>
+        JSON.stringify(fields.map(field => normalize(item[field])));
+      if (
+        this.docs.some(other => other !== replacing && key(other) === key(doc))
+      ) {
+        throw duplicateKeyError();
+      }
+    }
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Stand-in for the session of a MongoDB transaction
+ * Writes made with a session record how to undo themselves; the undo steps
+ * run, newest first, when the transaction fails.
+ */
+export interface FakeSession {
+  undo: (() => void)[];
+}
+
+/**
+ * Drop-in for runInTransaction from src/utils/transaction, with
+ * jest.mock('<path>/utils/transaction', () => jest.requireActual(...))
+ */
+export const runInTransaction = async <T>(
+  work: (session: FakeSession) => Promise<T>
+): Promise<T> => {
+  const session: FakeSession = { undo: [] };
+  try {
+    return await work(session);
+  } catch (error) {
+    for (const undo of session.undo.reverse()) {
+      undo();
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,40 @@
+import { inflateRawSync } from 'zlib';
+
+export interface ZipFile {
+  data: Buffer;
+  crc: number;
+  size: number;
+}
+
+/**
+ * Read the entries of a ZIP archive by walking its local file headers
+ */
+export const readZip = (archive: Buffer): Map<string, ZipFile> => {
+  const files = new Map<string, ZipFile>();
+  let offset = 0;
+
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const method = archive.readUInt16LE(offset + 8);
+    const crc = archive.readUInt32LE(offset + 14);
+    const compressedSize = archive.readUInt32LE(offset + 18);
+    const size = archive.readUInt32LE(offset + 22);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const extraLength = archive.readUInt16LE(offset + 28);
+    const name = archive.toString(
+      'utf8',
+      offset + 30,
+      offset + 30 + nameLength
+    );
+    const start = offset + 30 + nameLength + extraLength;
+    const raw = archive.subarray(start, start + compressedSize);
+
+    files.set(name, {
+      data: method === 8 ? inflateRawSync(raw) : raw,
+      crc,
+      size,
+    });
+    offset = start + compressedSize;
+  }
+
+  return files;
+};
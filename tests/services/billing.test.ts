@@ -0,0 +1,266 @@
+import { Types } from 'mongoose';
+import { BillModel } from '../../src/models/Bill.model';
+import { BillingService } from '../../src/services/billing.service';
+import {
+  BillPaymentStatus,
+  FolioChargeType,
+  PaymentMethod,
+  PaymentStatus,
+} from '../../src/types/models';
+import { FakeCollection } from '../helpers/fakeCollection';
+
+jest.mock('../../src/utils/transaction', () =>
+  jest.requireActual('../helpers/fakeTransaction')
+);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const charge = (
+  chargeType: FolioChargeType,
+  amount: number,
+  fields: Record<string, unknown> = {}
+) => ({
+  chargeType,
+  description: chargeType,
+  quantity: 1,
+  unitPrice: amount,
+  amount,
+  serviceDate: new Date(),
+  ...fields,
+});
+
+const payment = (amount: number, fields: Record<string, unknown> = {}) => ({
+  amount,
+  paymentMethod: PaymentMethod.CASH,
+  status: BillPaymentStatus.POSTED,
+  refundedAmount: 0,
+  isDeposit: false,
+  receivedAt: new Date(),
+  ...fields,
+});
+
+const bill = (fields: Record<string, unknown> = {}) =>
+  new BillModel({
+    guestId: new Types.ObjectId(),
+    baseAmount: 200,
+    taxAmount: 20,
+    serviceCharges: 0,
+    totalAmount: 220,
+    dueDate: new Date(Date.now() + 7 * DAY_MS),
+    ...fields,
+  });
+
+describe('BillingService.recalculate', () => {
+  it('derives the totals from the folio lines', () => {
+    const vat = (amount: number) => ({
+      taxes: [{ code: 'VAT', name: 'VAT', amount }],
+      taxAmount: amount,
+    });
+    const folio = bill({
+      charges: [
+        charge(FolioChargeType.ROOM, 200, { quantity: 2, ...vat(20) }),
+        charge(FolioChargeType.MINIBAR, 15, vat(1.5)),
+        charge(FolioChargeType.ADJUSTMENT, -10),
+        // Routed to a master bill: no longer counts here
+        charge(FolioChargeType.SERVICE, 500, {
+          routedToBillId: new Types.ObjectId(),
+          ...vat(50),
+        }),
+        // Only its taxes were routed away
+        charge(FolioChargeType.LATE_FEE, 30, {
+          taxesRoutedToBillId: new Types.ObjectId(),
+          ...vat(3),
+        }),
+      ],
+    });
+
+    BillingService.recalculate(folio);
+
+    expect(folio).toMatchObject({
+      baseAmount: 200,
+      serviceCharges: 45,
+      adjustmentAmount: -10,
+      taxAmount: 21.5,
+      totalAmount: 256.5,
+      balanceDue: 256.5,
+      status: PaymentStatus.PENDING,
+    });
+    expect(folio.toObject().taxBreakdown).toEqual([
+      { code: 'VAT', name: 'VAT', amount: 21.5 },
+    ]);
+  });
+
+  it('keeps hand-entered amounts when the bill has no lines', () => {
+    const manual = bill();
+
+    BillingService.recalculate(manual);
+
+    expect(manual).toMatchObject({ totalAmount: 220, balanceDue: 220 });
+  });
+
+  it('moves from pending to partial to paid as payments are posted', () => {
+    const ledger = bill();
+
+    ledger.payments.push(payment(100));
+    BillingService.recalculate(ledger);
+    expect(ledger).toMatchObject({
+      amountPaid: 100,
+      balanceDue: 120,
+      status: PaymentStatus.PARTIAL,
+    });
+
+    ledger.payments.push(payment(120));
+    BillingService.recalculate(ledger);
+    expect(ledger).toMatchObject({
+      amountPaid: 220,
+      balanceDue: 0,
+      status: PaymentStatus.PAID,
+    });
+    expect(ledger.paidDate).toBeInstanceOf(Date);
+  });
+
+  it('leaves voided payments and refunds out of the amount paid', () => {
+    const ledger = bill({
+      payments: [
+        payment(220, { status: BillPaymentStatus.VOIDED }),
+        payment(100, { refundedAmount: 40 }),
+      ],
+    });
+
+    BillingService.recalculate(ledger);
+
+    expect(ledger).toMatchObject({
+      amountPaid: 60,
+      balanceDue: 160,
+      status: PaymentStatus.PARTIAL,
+    });
+  });
+
+  it('marks unpaid bills past their due date as overdue', () => {
+    const late = bill({ dueDate: new Date(Date.now() - DAY_MS) });
+
+    BillingService.recalculate(late);
+
+    expect(late.status).toBe(PaymentStatus.OVERDUE);
+  });
+
+  it('nets credit notes off the total and marks fully credited bills refunded', () => {
+    const credited = bill({ payments: [payment(220)], creditedAmount: 20 });
+
+    BillingService.recalculate(credited);
+    expect(credited).toMatchObject({
+      netAmount: 200,
+      balanceDue: 0,
+      status: PaymentStatus.PAID,
+    });
+
+    credited.creditedAmount = 220;
+    credited.payments[0].refundedAmount = 220;
+    BillingService.recalculate(credited);
+    expect(credited).toMatchObject({
+      netAmount: 0,
+      status: PaymentStatus.REFUNDED,
+    });
+  });
+
+  it('keeps cancelled bills cancelled', () => {
+    const cancelled = bill({ status: PaymentStatus.CANCELLED });
+
+    BillingService.recalculate(cancelled);
+
+    expect(cancelled.status).toBe(PaymentStatus.CANCELLED);
+  });
+
+  it('keeps bills settled before the ledger existed paid', () => {
+    const legacy = bill({ status: PaymentStatus.PAID, paidDate: new Date() });
+
+    BillingService.recalculate(legacy);
+
+    expect(legacy).toMatchObject({
+      amountPaid: 220,
+      balanceDue: 0,
+      status: PaymentStatus.PAID,
+    });
+  });
+});
+
+describe('BillingService payments', () => {
+  let bills: FakeCollection;
+
+  beforeEach(() => {
+    bills = new FakeCollection(BillModel);
+  });
+
+  const seed = (fields: Record<string, unknown> = {}) =>
+    String(bills.seed(bill(fields).toObject())[0]._id);
+
+  it('posts a payment to the ledger', async () => {
+    const billId = seed();
+
+    const paid = await BillingService.recordPayment(billId, {
+      amount: 220,
+      paymentMethod: PaymentMethod.CREDIT_CARD,
+    });
+
+    expect(paid.status).toBe(PaymentStatus.PAID);
+    expect(bills.docs[0]).toMatchObject({
+      amountPaid: 220,
+      status: PaymentStatus.PAID,
+      paymentMethod: PaymentMethod.CREDIT_CARD,
+    });
+    expect(bills.docs[0].payments).toHaveLength(1);
+  });
+
+  it('refuses a payment above the balance and leaves the bill as it was', async () => {
+    const billId = seed();
+
+    await expect(
+      BillingService.recordPayment(billId, {
+        amount: 220.01,
+        paymentMethod: PaymentMethod.CASH,
+      })
+    ).rejects.toThrow('Payment exceeds the outstanding balance of 220');
+    expect(bills.docs[0].payments).toHaveLength(0);
+  });
+
+  it('takes deposits only on reservation bills', async () => {
+    const walkIn = seed();
+    const reserved = seed({ reservationId: new Types.ObjectId() });
+    const deposit = { amount: 50, paymentMethod: PaymentMethod.CASH };
+
+    await expect(BillingService.recordDeposit(walkIn, deposit)).rejects.toThrow(
+      'Deposits can only be taken on reservation bills'
+    );
+
+    const bill = await BillingService.recordDeposit(reserved, deposit);
+    expect(bill.payments[0]).toMatchObject({ amount: 50, isDeposit: true });
+    expect(bill.status).toBe(PaymentStatus.PARTIAL);
+  });
+
+  it('reopens a bill when its payment is voided', async () => {
+    const billId = seed();
+    const paid = await BillingService.recordPayment(billId, {
+      amount: 220,
+      paymentMethod: PaymentMethod.CASH,
+    });
+
+    const reopened = await BillingService.voidPayment(
+      billId,
+      String(paid.payments[0]._id),
+      'Card declined'
+    );
+
+    expect(reopened).toMatchObject({
+      amountPaid: 0,
+      balanceDue: 220,
+      status: PaymentStatus.PENDING,
+    });
+    expect(reopened.paidDate).toBeUndefined();
+    await expect(
+      BillingService.recordPayment(billId, {
+        amount: 10,
+        paymentMethod: PaymentMethod.CASH,
+      })
+    ).resolves.toMatchObject({ status: PaymentStatus.PARTIAL });
+  });
+});
@@ -0,0 +1,154 @@
+import { Types } from 'mongoose';
+import { RoomModel } from '../../src/models/Room.model';
+import { BulkService } from '../../src/services/bulk.service';
+import { RoomType } from '../../src/types/models';
+import { logger } from '../../src/utils/logger';
+import { FakeCollection } from '../helpers/fakeCollection';
+
+jest.mock('../../src/utils/transaction', () =>
+  jest.requireActual('../helpers/fakeTransaction')
+);
+
+const validationError = (message: string) =>
+  Object.assign(new Error(message), { name: 'ValidationError' });
+
+describe('BulkService.apply', () => {
+  let rooms: FakeCollection;
+  let ids: string[];
+
+  beforeEach(() => {
+    rooms = new FakeCollection(RoomModel);
+    ids = rooms
+      .seed(
+        ...['101', '102', '103'].map(roomNumber => ({
+          roomNumber,
+          roomType: RoomType.STANDARD,
+          floor: 1,
+          capacity: 2,
+          pricePerNight: 100,
+          isActive: true,
+        }))
+      )
+      .map(room => String(room._id));
+  });
+
+  const activeRooms = () =>
+    rooms.docs.filter(room => room.isActive).map(room => room.roomNumber);
+
+  it('applies an atomic operation to every record', async () => {
+    const result = await BulkService.apply('rooms', {
+      ids,
+      operation: 'deactivate',
+      atomic: true,
+    });
+
+    expect(result).toMatchObject({
+      applied: true,
+      total: 3,
+      succeeded: 3,
+      failed: 0,
+    });
+    expect(activeRooms()).toEqual([]);
+  });
+
+  it('rolls an atomic operation back when one record fails', async () => {
+    rooms.failWhen = room =>
+      room.roomNumber === '102' && !room.isActive
+        ? validationError('Room is in use')
+        : undefined;
+
+    const result = await BulkService.apply('rooms', {
+      ids,
+      operation: 'deactivate',
+      atomic: true,
+    });
+
+    expect(result).toMatchObject({ applied: false, succeeded: 0, failed: 3 });
+    expect(result.results).toEqual([
+      {
+        id: ids[0],
+        success: false,
+        message: 'Rolled back because another item failed',
+      },
+      { id: ids[1], success: false, message: 'Room is in use' },
+      {
+        id: ids[2],
+        success: false,
+        message: 'Not attempted because another item failed',
+      },
+    ]);
+    expect(activeRooms()).toEqual(['101', '102', '103']);
+  });
+
+  it('rolls an atomic update back on an unexpected error and logs it', async () => {
+    rooms.failWhen = room =>
+      room.roomNumber === '103' && room.pricePerNight === 250
+        ? new Error('connection reset')
+        : undefined;
+
+    const result = await BulkService.apply('rooms', {
+      ids,
+      operation: 'update',
+      data: { pricePerNight: 250 },
+      atomic: true,
+    });
+
+    expect(result.applied).toBe(false);
+    expect(result.results[2]).toEqual({
+      id: ids[2],
+      success: false,
+      message: 'Failed to update item',
+    });
+    expect(rooms.docs.map(room => room.pricePerNight)).toEqual([100, 100, 100]);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Bulk operation failed for an item',
+      expect.objectContaining({ id: ids[2], operation: 'update' })
+    );
+  });
+
+  it('changes nothing in atomic mode when a record is missing', async () => {
+    const missing = new Types.ObjectId().toHexString();
+
+    const result = await BulkService.apply('rooms', {
+      ids: [...ids, missing],
+      operation: 'deactivate',
+      atomic: true,
+    });
+
+    expect(result.applied).toBe(false);
+    expect(result.results[3]).toEqual({
+      id: missing,
+      success: false,
+      message: 'Room not found',
+    });
+    expect(activeRooms()).toEqual(['101', '102', '103']);
+  });
+
+  it('keeps the records that succeeded when not atomic', async () => {
+    rooms.failWhen = room =>
+      room.roomNumber === '102' && !room.isActive
+        ? validationError('Room is in use')
+        : undefined;
+
+    const result = await BulkService.apply('rooms', {
+      ids,
+      operation: 'deactivate',
+      atomic: false,
+    });
+
+    expect(result).toMatchObject({ applied: true, succeeded: 2, failed: 1 });
+    expect(activeRooms()).toEqual(['102']);
+  });
+
+  it('refuses invalid update data before touching any record', async () => {
+    await expect(
+      BulkService.apply('rooms', {
+        ids,
+        operation: 'update',
+        data: { pricePerNight: -5 },
+        atomic: true,
+      })
+    ).rejects.toThrow('Invalid update data: pricePerNight:');
+    expect(rooms.docs.map(room => room.pricePerNight)).toEqual([100, 100, 100]);
+  });
+});
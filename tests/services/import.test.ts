@@ -0,0 +1,202 @@
+import { ImportLogModel } from '../../src/models/ImportLog.model';
+import { RoomModel } from '../../src/models/Room.model';
+import {
+  ImportRequest,
+  ImportService,
+} from '../../src/services/import.service';
+import {
+  ImportResource,
+  ImportRowAction,
+  ImportStatus,
+  RoomStatus,
+  RoomType,
+} from '../../src/types/models';
+import { FakeCollection } from '../helpers/fakeCollection';
+
+jest.mock('../../src/utils/transaction', () =>
+  jest.requireActual('../helpers/fakeTransaction')
+);
+
+const ROOMS_CSV = [
+  'roomNumber,roomType,floor,capacity,pricePerNight',
+  '101,standard,1,2,100',
+  '102,deluxe,1,2,150',
+  '103,suite,1,4,300',
+].join('\n');
+
+const request = (fields: Partial<ImportRequest> = {}): ImportRequest => ({
+  format: 'csv',
+  data: ROOMS_CSV,
+  overwrite: false,
+  backup: false,
+  validateOnly: false,
+  ...fields,
+});
+
+describe('ImportService.importRecords', () => {
+  let rooms: FakeCollection;
+  let logs: FakeCollection;
+
+  beforeEach(() => {
+    rooms = new FakeCollection(RoomModel, [['roomNumber']]);
+    logs = new FakeCollection(ImportLogModel);
+  });
+
+  const roomNumbers = () => rooms.docs.map(room => room.roomNumber as string);
+
+  it('writes every row and logs the records it created', async () => {
+    const log = await ImportService.importRecords(
+      ImportResource.ROOMS,
+      request()
+    );
+
+    expect(log).toMatchObject({
+      status: ImportStatus.COMPLETED,
+      totalRows: 3,
+      created: 3,
+      failed: 0,
+    });
+    expect(roomNumbers()).toEqual(['101', '102', '103']);
+    expect(rooms.docs[2]).toMatchObject({
+      roomType: RoomType.SUITE,
+      capacity: 4,
+      pricePerNight: 300,
+    });
+    expect(log.rows.map(row => String(row.recordId))).toEqual(
+      rooms.docs.map(room => String(room._id))
+    );
+    expect(logs.docs).toHaveLength(1);
+  });
+
+  it('rolls every row back when a write fails part way', async () => {
+    rooms.failWhen = room =>
+      room.roomNumber === '103' ? new Error('Write conflict') : undefined;
+
+    const log = await ImportService.importRecords(
+      ImportResource.ROOMS,
+      request()
+    );
+
+    expect(log).toMatchObject({
+      status: ImportStatus.FAILED,
+      error: 'Write conflict',
+    });
+    expect(rooms.docs).toHaveLength(0);
+    expect(log.rows.every(row => row.recordId === undefined)).toBe(true);
+    expect(log.rows[2].issues).toEqual([
+      expect.objectContaining({
+        field: 'roomNumber',
+        message: 'Write conflict',
+      }),
+    ]);
+    expect(logs.docs).toHaveLength(1);
+  });
+
+  it('restores overwritten records when a later row fails', async () => {
+    rooms.seed({
+      roomNumber: '101',
+      roomType: RoomType.STANDARD,
+      floor: 1,
+      capacity: 2,
+      pricePerNight: 80,
+      status: RoomStatus.OCCUPIED,
+      isActive: true,
+    });
+    rooms.failWhen = room =>
+      room.roomNumber === '103' ? new Error('Write conflict') : undefined;
+
+    const log = await ImportService.importRecords(
+      ImportResource.ROOMS,
+      request({ overwrite: true, backup: true })
+    );
+
+    expect(log.status).toBe(ImportStatus.FAILED);
+    expect(roomNumbers()).toEqual(['101']);
+    expect(rooms.docs[0]).toMatchObject({
+      pricePerNight: 80,
+      status: RoomStatus.OCCUPIED,
+    });
+    expect(log.backup).toEqual([]);
+  });
+
+  it('overwrites existing records, keeping their status and backing them up', async () => {
+    rooms.seed({
+      roomNumber: '101',
+      roomType: RoomType.STANDARD,
+      floor: 1,
+      capacity: 2,
+      pricePerNight: 80,
+      status: RoomStatus.OCCUPIED,
+      isActive: true,
+    });
+
+    const log = await ImportService.importRecords(
+      ImportResource.ROOMS,
+      request({ overwrite: true, backup: true })
+    );
+
+    expect(log).toMatchObject({
+      status: ImportStatus.COMPLETED,
+      created: 2,
+      updated: 1,
+    });
+    expect(rooms.docs[0]).toMatchObject({
+      pricePerNight: 100,
+      status: RoomStatus.OCCUPIED,
+    });
+    expect(log.backup).toEqual([
+      expect.objectContaining({ roomNumber: '101', pricePerNight: 80 }),
+    ]);
+    expect(log.backup[0]).not.toHaveProperty('status');
+  });
+
+  it('refuses existing records unless overwriting', async () => {
+    rooms.seed({ roomNumber: '102', pricePerNight: 90 });
+
+    const log = await ImportService.importRecords(
+      ImportResource.ROOMS,
+      request()
+    );
+
+    expect(log).toMatchObject({ status: ImportStatus.REJECTED, failed: 1 });
+    expect(log.rows[1]).toMatchObject({
+      action: ImportRowAction.INVALID,
+      issues: [
+        {
+          field: 'roomNumber',
+          message:
+            'Room 102 already exists; import with overwrite to update it',
+        },
+      ],
+    });
+    expect(roomNumbers()).toEqual(['102']);
+  });
+
+  it('writes nothing when any row is invalid', async () => {
+    const log = await ImportService.importRecords(
+      ImportResource.ROOMS,
+      request({
+        data: `${ROOMS_CSV}\n104,penthouse,1,2,100\n101,standard,2,2,100`,
+      })
+    );
+
+    expect(log).toMatchObject({
+      status: ImportStatus.REJECTED,
+      created: 3,
+      failed: 2,
+    });
+    expect(log.rows[3].issues[0].field).toBe('roomType');
+    expect(log.rows[4].issues[0].message).toBe('Same roomNumber as row 1');
+    expect(rooms.docs).toHaveLength(0);
+  });
+
+  it('only validates on a dry run', async () => {
+    const log = await ImportService.importRecords(
+      ImportResource.ROOMS,
+      request({ validateOnly: true })
+    );
+
+    expect(log).toMatchObject({ status: ImportStatus.VALIDATED, created: 3 });
+    expect(rooms.docs).toHaveLength(0);
+  });
+});
@@ -0,0 +1,196 @@
+import { Types } from 'mongoose';
+import { RatePlanModel } from '../../src/models/RatePlan.model';
+import { RoomModel } from '../../src/models/Room.model';
+import { SystemSettingsModel } from '../../src/models/SystemSettings.model';
+import { PricingService } from '../../src/services/pricing.service';
+import {
+  RateAdjustmentType,
+  RatePlanType,
+  RoomType,
+} from '../../src/types/models';
+import { FakeCollection } from '../helpers/fakeCollection';
+
+const night = (date: string) => new Date(`${date}T00:00:00Z`);
+
+const ratePlan = (fields: Record<string, unknown> = {}) =>
+  new RatePlanModel({
+    code: 'BAR',
+    name: 'Best available rate',
+    type: RatePlanType.BAR,
+    roomType: RoomType.STANDARD,
+    baseRate: 120,
+    seasons: [
+      {
+        name: 'Summer',
+        startDate: night('2025-07-01'),
+        endDate: night('2025-08-31'),
+        rate: 150,
+      },
+      {
+        name: 'Festival',
+        startDate: night('2025-07-10'),
+        endDate: night('2025-07-12'),
+        adjustment: { type: RateAdjustmentType.PERCENTAGE, value: 20 },
+      },
+    ],
+    // Saturdays
+    dayOfWeekModifiers: [
+      {
+        dayOfWeek: 6,
+        adjustment: { type: RateAdjustmentType.FIXED, value: 25 },
+      },
+    ],
+    ...fields,
+  });
+
+describe('PricingService.priceNight', () => {
+  const plan = ratePlan();
+
+  it('uses the base rate outside any season', () => {
+    expect(PricingService.priceNight(plan, 99, night('2025-06-10'))).toEqual({
+      date: night('2025-06-10'),
+      rate: 120,
+      season: undefined,
+    });
+  });
+
+  it("falls back to the room's rate when the plan has no base rate", () => {
+    const roomRatePlan = ratePlan({ baseRate: undefined, seasons: [] });
+
+    expect(
+      PricingService.priceNight(roomRatePlan, 99, night('2025-06-10')).rate
+    ).toBe(99);
+  });
+
+  it('uses the season rate', () => {
+    expect(PricingService.priceNight(plan, 99, night('2025-07-08'))).toEqual({
+      date: night('2025-07-08'),
+      rate: 150,
+      season: 'Summer',
+    });
+  });
+
+  it('lets the latest-starting season win and applies its adjustment', () => {
+    // Festival has no rate of its own: base rate plus 20%
+    expect(PricingService.priceNight(plan, 99, night('2025-07-11'))).toEqual({
+      date: night('2025-07-11'),
+      rate: 144,
+      season: 'Festival',
+    });
+  });
+
+  it('applies the day-of-week modifier after the season', () => {
+    expect(PricingService.priceNight(plan, 99, night('2025-07-12')).rate).toBe(
+      169
+    );
+    expect(PricingService.priceNight(plan, 99, night('2025-06-14')).rate).toBe(
+      145
+    );
+  });
+
+  it('rounds to cents and never goes below zero', () => {
+    const thirds = ratePlan({
+      baseRate: 100,
+      seasons: [],
+      dayOfWeekModifiers: [
+        {
+          dayOfWeek: 2,
+          adjustment: { type: RateAdjustmentType.PERCENTAGE, value: 100 / 3 },
+        },
+        {
+          dayOfWeek: 3,
+          adjustment: { type: RateAdjustmentType.FIXED, value: -500 },
+        },
+      ],
+    });
+
+    expect(PricingService.priceNight(thirds, 0, night('2025-06-10')).rate).toBe(
+      133.33
+    );
+    expect(PricingService.priceNight(thirds, 0, night('2025-06-11')).rate).toBe(
+      0
+    );
+  });
+});
+
+describe('PricingService.quote', () => {
+  let rooms: FakeCollection;
+  let plans: FakeCollection;
+  const roomId = new Types.ObjectId();
+
+  beforeEach(() => {
+    jest.spyOn(SystemSettingsModel, 'findOne').mockResolvedValue(null);
+    rooms = new FakeCollection(RoomModel);
+    plans = new FakeCollection(RatePlanModel);
+    rooms.seed({
+      _id: roomId,
+      roomNumber: '101',
+      roomType: RoomType.STANDARD,
+      pricePerNight: 80,
+      isActive: true,
+    });
+  });
+
+  const stay = {
+    roomId: roomId.toHexString(),
+    checkInDate: '2025-07-11',
+    checkOutDate: '2025-07-14',
+  };
+
+  it("prices at the room's rate when its type has no default plan", async () => {
+    const quote = await PricingService.quote(stay);
+
+    expect(quote.ratePlanId).toBeUndefined();
+    expect(quote.nights.map(item => item.rate)).toEqual([80, 80, 80]);
+    expect(quote.totalAmount).toBe(240);
+  });
+
+  it('prices each night from the default plan', async () => {
+    plans.seed(ratePlan().toObject());
+
+    const quote = await PricingService.quote(stay);
+
+    expect(quote.ratePlanCode).toBe('BAR');
+    expect(quote.nights.map(item => item.rate)).toEqual([144, 169, 150]);
+    expect(quote.totalAmount).toBe(463);
+  });
+
+  it('refuses a plan for another room type', async () => {
+    const suitePlan = plans.seed(
+      ratePlan({ roomType: RoomType.SUITE }).toObject()
+    )[0];
+
+    await expect(
+      PricingService.quote({ ...stay, ratePlanId: String(suitePlan._id) })
+    ).rejects.toThrow('Rate plan BAR does not apply to standard rooms');
+  });
+
+  it('enforces the minimum stay unless told not to', async () => {
+    plans.seed(ratePlan({ minLengthOfStay: 4 }).toObject());
+
+    await expect(PricingService.quote(stay)).rejects.toThrow(
+      'Rate plan BAR requires a minimum stay of 4 night(s)'
+    );
+    await expect(
+      PricingService.quote(stay, { enforceRestrictions: false })
+    ).resolves.toMatchObject({ totalAmount: 463 });
+  });
+
+  it('refuses arrival on a closed-to-arrival date', async () => {
+    plans.seed(
+      ratePlan({ closedToArrivalDates: [night('2025-07-11')] }).toObject()
+    );
+
+    await expect(PricingService.quote(stay)).rejects.toThrow(
+      'Rate plan BAR is closed to arrival on 2025-07-11'
+    );
+  });
+
+  it('refuses inactive rooms', async () => {
+    rooms.docs[0].isActive = false;
+
+    await expect(PricingService.quote(stay)).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+});
@@ -0,0 +1,300 @@
+import { Types } from 'mongoose';
+import { RatePlanModel } from '../../src/models/RatePlan.model';
+import { ReservationModel } from '../../src/models/Reservation.model';
+import { RoomModel } from '../../src/models/Room.model';
+import { RoomNightModel } from '../../src/models/RoomNight.model';
+import { SystemSettingsModel } from '../../src/models/SystemSettings.model';
+import { ReservationEngine } from '../../src/services/reservationEngine.service';
+import {
+  ReservationStatus,
+  RoomNightStatus,
+  RoomType,
+} from '../../src/types/models';
+import { AppError } from '../../src/utils/errors';
+import { FakeCollection } from '../helpers/fakeCollection';
+
+jest.mock('../../src/utils/transaction', () =>
+  jest.requireActual('../helpers/fakeTransaction')
+);
+
+const night = (date: string) => new Date(`${date}T00:00:00Z`);
+
+describe('ReservationEngine', () => {
+  let nights: FakeCollection;
+  let reservations: FakeCollection;
+  const roomId = new Types.ObjectId();
+
+  beforeEach(() => {
+    jest.spyOn(SystemSettingsModel, 'findOne').mockResolvedValue(null);
+    new FakeCollection(RoomModel).seed({
+      _id: roomId,
+      roomNumber: '101',
+      roomType: RoomType.STANDARD,
+      pricePerNight: 100,
+      isActive: true,
+    });
+    new FakeCollection(RatePlanModel);
+    nights = new FakeCollection(RoomNightModel, [['roomId', 'date']]);
+    reservations = new FakeCollection(ReservationModel);
+  });
+
+  const booking = (checkInDate: string, checkOutDate: string) => ({
+    guestId: new Types.ObjectId().toHexString(),
+    roomId: roomId.toHexString(),
+    checkInDate: night(checkInDate),
+    checkOutDate: night(checkOutDate),
+    numberOfGuests: 2,
+    status: ReservationStatus.CONFIRMED,
+  });
+
+  const stay = (checkInDate: string, checkOutDate: string) => ({
+    roomId: roomId.toHexString(),
+    checkInDate,
+    checkOutDate,
+  });
+
+  const nightsOf = (reservationId: unknown) =>
+    nights
+      .find({ reservationId })
+      .map(item => (item.date as Date).toISOString().slice(0, 10));
+
+  describe('createReservation', () => {
+    it('books every night of the stay and prices it server-side', async () => {
+      const reservation = await ReservationEngine.createReservation({
+        ...booking('2025-06-01', '2025-06-03'),
+        totalAmount: 1,
+      });
+
+      expect(reservation.totalAmount).toBe(200);
+      expect(nightsOf(reservation._id)).toEqual(['2025-06-01', '2025-06-02']);
+      expect(
+        nights.docs.every(item => item.status === RoomNightStatus.BOOKED)
+      ).toBe(true);
+      expect(reservations.docs).toHaveLength(1);
+    });
+
+    it('books only one of two concurrent requests for the same nights', async () => {
+      const results = await Promise.allSettled([
+        ReservationEngine.createReservation(
+          booking('2025-06-01', '2025-06-04')
+        ),
+        ReservationEngine.createReservation(
+          booking('2025-06-01', '2025-06-04')
+        ),
+      ]);
+
+      const booked = results.filter(result => result.status === 'fulfilled');
+      const refused = results.filter(result => result.status === 'rejected');
+      expect(booked).toHaveLength(1);
+      expect(refused).toHaveLength(1);
+      expect((refused[0] as PromiseRejectedResult).reason).toMatchObject({
+        statusCode: 409,
+        message: 'Room is not available for the selected dates',
+      });
+
+      const winner = (booked[0] as PromiseFulfilledResult<{ _id: unknown }>)
+        .value;
+      expect(nights.docs).toHaveLength(3);
+      expect(nightsOf(winner._id)).toHaveLength(3);
+      expect(reservations.docs).toHaveLength(1);
+    });
+
+    it('keeps no nights of the loser when concurrent stays only overlap', async () => {
+      const results = await Promise.allSettled([
+        ReservationEngine.createReservation(
+          booking('2025-06-01', '2025-06-03')
+        ),
+        ReservationEngine.createReservation(
+          booking('2025-06-02', '2025-06-05')
+        ),
+      ]);
+
+      const booked = results.filter(result => result.status === 'fulfilled');
+      expect(booked).toHaveLength(1);
+
+      const winner = (booked[0] as PromiseFulfilledResult<{ _id: unknown }>)
+        .value;
+      expect(
+        nights.docs.every(
+          item => String(item.reservationId) === String(winner._id)
+        )
+      ).toBe(true);
+      expect(reservations.docs).toHaveLength(1);
+    });
+
+    it('lets stays that only touch on the check-out day both book', async () => {
+      await ReservationEngine.createReservation(
+        booking('2025-06-01', '2025-06-03')
+      );
+      await ReservationEngine.createReservation(
+        booking('2025-06-03', '2025-06-05')
+      );
+
+      expect(nights.docs).toHaveLength(4);
+      expect(reservations.docs).toHaveLength(2);
+    });
+
+    it('rolls the booked nights back when the reservation cannot be saved', async () => {
+      reservations.failWhen = () => new Error('write failed');
+
+      await expect(
+        ReservationEngine.createReservation(booking('2025-06-01', '2025-06-03'))
+      ).rejects.toThrow('write failed');
+
+      expect(nights.docs).toHaveLength(0);
+      expect(reservations.docs).toHaveLength(0);
+    });
+
+    it('refuses stays that are reversed or too long before writing anything', async () => {
+      await expect(
+        ReservationEngine.createReservation(booking('2025-06-03', '2025-06-01'))
+      ).rejects.toThrow('Check-out date must be after check-in date');
+      await expect(
+        ReservationEngine.createReservation(booking('2025-01-01', '2027-01-01'))
+      ).rejects.toBeInstanceOf(AppError);
+
+      expect(nights.docs).toHaveLength(0);
+      expect(reservations.docs).toHaveLength(0);
+    });
+  });
+
+  describe('holds', () => {
+    it('holds the nights until they expire', async () => {
+      const hold = await ReservationEngine.createHold({
+        ...stay('2025-06-01', '2025-06-03'),
+        ttlMinutes: 10,
+      });
+
+      expect(hold).toMatchObject({
+        roomId: roomId.toHexString(),
+        checkInDate: night('2025-06-01'),
+        checkOutDate: night('2025-06-03'),
+      });
+      expect(nights.find({ holdId: hold.holdId })).toHaveLength(2);
+      expect(
+        await ReservationEngine.findConflicts(stay('2025-06-02', '2025-06-04'))
+      ).toHaveLength(1);
+    });
+
+    it('caps the hold at the longest allowed time', async () => {
+      const before = Date.now();
+      const hold = await ReservationEngine.createHold({
+        ...stay('2025-06-01', '2025-06-02'),
+        ttlMinutes: 24 * 60,
+      });
+
+      expect(hold.expiresAt.getTime() - before).toBeLessThanOrEqual(
+        60 * 60 * 1000 + 1000
+      );
+    });
+
+    it('grants only one of two concurrent holds on the same nights', async () => {
+      const results = await Promise.allSettled([
+        ReservationEngine.createHold(stay('2025-06-01', '2025-06-03')),
+        ReservationEngine.createHold(stay('2025-06-02', '2025-06-04')),
+      ]);
+
+      expect(
+        results.filter(result => result.status === 'fulfilled')
+      ).toHaveLength(1);
+      expect(
+        (
+          results.find(
+            result => result.status === 'rejected'
+          ) as PromiseRejectedResult
+        ).reason
+      ).toMatchObject({ statusCode: 409 });
+      expect(nights.docs).toHaveLength(2);
+    });
+
+    it('blocks other bookings while active', async () => {
+      await ReservationEngine.createHold(stay('2025-06-01', '2025-06-03'));
+
+      await expect(
+        ReservationEngine.createReservation(booking('2025-06-02', '2025-06-04'))
+      ).rejects.toMatchObject({ statusCode: 409 });
+      expect(reservations.docs).toHaveLength(0);
+    });
+
+    it('no longer blocks anyone once expired', async () => {
+      const hold = await ReservationEngine.createHold(
+        stay('2025-06-01', '2025-06-03')
+      );
+      for (const item of nights.find({ holdId: hold.holdId })) {
+        item.expiresAt = new Date(Date.now() - 1000);
+      }
+
+      const reservation = await ReservationEngine.createReservation(
+        booking('2025-06-01', '2025-06-03')
+      );
+
+      expect(nightsOf(reservation._id)).toHaveLength(2);
+      expect(nights.find({ holdId: hold.holdId })).toHaveLength(0);
+    });
+
+    it('turns into the booking of the guest who held it', async () => {
+      const hold = await ReservationEngine.createHold(
+        stay('2025-06-01', '2025-06-04')
+      );
+
+      const reservation = await ReservationEngine.createReservation(
+        booking('2025-06-01', '2025-06-03'),
+        hold.holdId
+      );
+
+      // The night outside the booked stay is released
+      expect(nights.docs).toHaveLength(2);
+      expect(nightsOf(reservation._id)).toEqual(['2025-06-01', '2025-06-02']);
+      expect(
+        nights.docs.every(
+          item => item.status === RoomNightStatus.BOOKED && !item.holdId
+        )
+      ).toBe(true);
+    });
+
+    it('cannot be converted once expired, and the hold is left alone', async () => {
+      const hold = await ReservationEngine.createHold(
+        stay('2025-06-01', '2025-06-03')
+      );
+      const [first] = nights.find({ holdId: hold.holdId });
+      first.expiresAt = new Date(Date.now() - 1000);
+
+      await expect(
+        ReservationEngine.createReservation(
+          booking('2025-06-01', '2025-06-03'),
+          hold.holdId
+        )
+      ).rejects.toMatchObject({
+        statusCode: 409,
+        message: 'Room hold has expired or does not cover the requested stay',
+      });
+      expect(nights.find({ holdId: hold.holdId })).toHaveLength(2);
+      expect(reservations.docs).toHaveLength(0);
+    });
+
+    it('refuses reversed stays', async () => {
+      await expect(
+        ReservationEngine.createHold(stay('2025-06-03', '2025-06-01'))
+      ).rejects.toThrow('Check-out date must be after check-in date');
+      expect(nights.docs).toHaveLength(0);
+    });
+  });
+
+  describe('cancelReservation', () => {
+    it('returns the nights to inventory', async () => {
+      const reservation = await ReservationEngine.createReservation(
+        booking('2025-06-01', '2025-06-03')
+      );
+
+      const cancelled = await ReservationEngine.cancelReservation(
+        String(reservation._id)
+      );
+
+      expect(cancelled.status).toBe(ReservationStatus.CANCELLED);
+      expect(nights.docs).toHaveLength(0);
+      await expect(
+        ReservationEngine.createReservation(booking('2025-06-01', '2025-06-03'))
+      ).resolves.toBeDefined();
+    });
+  });
+});
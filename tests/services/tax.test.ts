@@ -0,0 +1,87 @@
+import { TaxService } from '../../src/services/tax.service';
+import {
+  FolioChargeType,
+  TaxCalculation,
+  TaxRule,
+} from '../../src/types/models';
+
+const rule = (fields: Partial<TaxRule>): TaxRule => ({
+  code: 'VAT',
+  name: 'Value added tax',
+  calculation: TaxCalculation.PERCENTAGE,
+  rate: 10,
+  appliesTo: [FolioChargeType.ROOM, FolioChargeType.SERVICE],
+  compound: false,
+  isActive: true,
+  ...fields,
+});
+
+const room = { chargeType: FolioChargeType.ROOM, amount: 300, quantity: 3 };
+
+describe('TaxService.calculateLineTaxes', () => {
+  it('charges a percentage of the line amount', () => {
+    expect(TaxService.calculateLineTaxes(room, [rule({})])).toEqual([
+      { code: 'VAT', name: 'Value added tax', amount: 30 },
+    ]);
+  });
+
+  it('adds the taxes before it to the base of a compound tax', () => {
+    const taxes = TaxService.calculateLineTaxes(room, [
+      rule({}),
+      rule({ code: 'CITY', name: 'City tax', rate: 5, compound: true }),
+    ]);
+
+    expect(taxes).toEqual([
+      { code: 'VAT', name: 'Value added tax', amount: 30 },
+      { code: 'CITY', name: 'City tax', amount: 16.5 },
+    ]);
+  });
+
+  it('charges per-night taxes on room lines only', () => {
+    const perNight = rule({
+      code: 'TOURISM',
+      name: 'Tourism levy',
+      calculation: TaxCalculation.PER_NIGHT,
+      rate: 2.5,
+    });
+
+    expect(TaxService.calculateLineTaxes(room, [perNight])).toEqual([
+      { code: 'TOURISM', name: 'Tourism levy', amount: 7.5 },
+    ]);
+    expect(
+      TaxService.calculateLineTaxes(
+        { chargeType: FolioChargeType.SERVICE, amount: 50, quantity: 2 },
+        [perNight]
+      )
+    ).toEqual([]);
+  });
+
+  it('skips inactive rules, exempt codes and other charge types', () => {
+    const minibar = {
+      chargeType: FolioChargeType.MINIBAR,
+      amount: 20,
+      quantity: 1,
+    };
+    const rules = [
+      rule({}),
+      rule({ code: 'OLD', isActive: false }),
+      rule({ code: 'BAR', appliesTo: [FolioChargeType.MINIBAR], rate: 20 }),
+    ];
+
+    expect(
+      TaxService.calculateLineTaxes(room, rules, new Set(['VAT']))
+    ).toEqual([]);
+    expect(TaxService.calculateLineTaxes(minibar, rules)).toEqual([
+      { code: 'BAR', name: 'Value added tax', amount: 4 },
+    ]);
+  });
+
+  it('rounds each tax to cents and leaves out zero amounts', () => {
+    expect(
+      TaxService.calculateLineTaxes(
+        { chargeType: FolioChargeType.ROOM, amount: 33.33, quantity: 1 },
+        [rule({ rate: 7 }), rule({ code: 'ZERO', rate: 0 })]
+      )
+    ).toEqual([{ code: 'VAT', name: 'Value added tax', amount: 2.33 }]);
+  });
+});
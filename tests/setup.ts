@@ -0,0 +1,11 @@
+// The real logger writes to files under logs/; tests only need the calls
+jest.mock('../src/utils/logger', () => {
+  const logger = {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    http: jest.fn(),
+    debug: jest.fn(),
+  };
+  return { __esModule: true, default: logger, logger, loggerUtils: {} };
+});
@@ -0,0 +1,179 @@
+import { Types } from 'mongoose';
+import {
+  createCsvStream,
+  csvField,
+  csvHeaders,
+  flattenRecord,
+  parseCsv,
+  parseCsvRecords,
+} from '../../src/utils/csv';
+
+const readStream = async (stream: NodeJS.ReadableStream): Promise<string> => {
+  let text = '';
+  for await (const chunk of stream) {
+    text += String(chunk);
+  }
+  return text;
+};
+
+describe('flattenRecord', () => {
+  it('joins nested keys with dots and keeps leaf values whole', () => {
+    const id = new Types.ObjectId();
+    const date = new Date('2025-01-02T00:00:00Z');
+
+    expect(
+      flattenRecord({
+        id,
+        period: { start: date, end: null },
+        tags: ['a', 'b'],
+      })
+    ).toEqual({
+      id,
+      'period.start': date,
+      'period.end': null,
+      tags: ['a', 'b'],
+    });
+  });
+});
+
+describe('csvHeaders', () => {
+  it('lists every flattened key in the order it first appears', () => {
+    expect(
+      csvHeaders([{ a: 1, b: { c: 2 } }, { d: 3, a: 4 }, { b: { e: 5 } }])
+    ).toEqual(['a', 'b.c', 'd', 'b.e']);
+  });
+});
+
+describe('csvField', () => {
+  it('leaves plain values unquoted', () => {
+    expect(csvField('plain')).toBe('plain');
+    expect(csvField(12.5)).toBe('12.5');
+    expect(csvField(true)).toBe('true');
+    expect(csvField(null)).toBe('');
+    expect(csvField(undefined)).toBe('');
+  });
+
+  it('quotes delimiters, quotes, line breaks and outer spaces', () => {
+    expect(csvField('a,b')).toBe('"a,b"');
+    expect(csvField('say "hi"')).toBe('"say ""hi"""');
+    expect(csvField('two\nlines')).toBe('"two\nlines"');
+    expect(csvField(' padded')).toBe('" padded"');
+  });
+
+  it('only quotes for the delimiter in use', () => {
+    expect(csvField('a,b', ';')).toBe('a,b');
+    expect(csvField('a;b', ';')).toBe('"a;b"');
+  });
+
+  it('writes dates as ISO strings, ids as hex and objects as JSON', () => {
+    const id = new Types.ObjectId();
+
+    expect(csvField(new Date('2025-03-04T05:06:07Z'))).toBe(
+      '2025-03-04T05:06:07.000Z'
+    );
+    expect(csvField(new Date('invalid'))).toBe('');
+    expect(csvField(id)).toBe(id.toHexString());
+    expect(csvField(['a', 'b'])).toBe('"[""a"",""b""]"');
+  });
+});
+
+describe('createCsvStream', () => {
+  it('writes a header and one CRLF-terminated line per row', async () => {
+    const text = await readStream(
+      createCsvStream(
+        [{ name: 'Ann', address: { city: 'Oslo' } }, { name: 'Bo, Jr.' }],
+        ['name', 'address.city']
+      )
+    );
+
+    expect(text).toBe('name,address.city\r\nAnn,Oslo\r\n"Bo, Jr.",\r\n');
+  });
+
+  it('honours the delimiter and byte order mark options', async () => {
+    async function* rows() {
+      yield { a: 1, b: 2 };
+    }
+
+    const text = await readStream(
+      createCsvStream(rows(), ['a', 'b'], { delimiter: 'semicolon', bom: true })
+    );
+
+    expect(text).toBe('\uFEFFa;b\r\n1;2\r\n');
+  });
+});
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('a,b\r\n1,2\n3,4')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+      ['3', '4'],
+    ]);
+  });
+
+  it('reads quoted fields with delimiters, quotes and line breaks', () => {
+    expect(parseCsv('"a,b","say ""hi""","two\r\nlines"\n')).toEqual([
+      ['a,b', 'say "hi"', 'two\r\nlines'],
+    ]);
+  });
+
+  it('ignores a byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFa\n\n1\n\n')).toEqual([['a'], ['1']]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCsv('a,,c\n,,')).toEqual([
+      ['a', '', 'c'],
+      ['', '', ''],
+    ]);
+  });
+
+  it('uses the given delimiter', () => {
+    expect(parseCsv('a\tb\n1,5\t2', 'tab')).toEqual([
+      ['a', 'b'],
+      ['1,5', '2'],
+    ]);
+  });
+
+  it('refuses an unterminated quoted field', () => {
+    expect(() => parseCsv('a,"open\n')).toThrow(
+      'CSV has an unterminated quoted field'
+    );
+  });
+
+  it('reads back what createCsvStream writes', async () => {
+    const rows = [{ note: 'a, "quoted"\nline', amount: 3 }];
+    const text = await readStream(createCsvStream(rows, ['note', 'amount']));
+
+    expect(parseCsv(text)).toEqual([
+      ['note', 'amount'],
+      ['a, "quoted"\nline', '3'],
+    ]);
+  });
+});
+
+describe('parseCsvRecords', () => {
+  it('keys rows by header and nests dotted headers', () => {
+    expect(
+      parseCsvRecords('name,address.city,address.zip\nAnn,Oslo,0150\n')
+    ).toEqual([{ name: 'Ann', address: { city: 'Oslo', zip: '0150' } }]);
+  });
+
+  it('leaves empty fields out', () => {
+    expect(parseCsvRecords('a,b\n1,\n')).toEqual([{ a: '1' }]);
+  });
+
+  it('returns no records for empty text', () => {
+    expect(parseCsvRecords('')).toEqual([]);
+  });
+
+  it.each(['__proto__.polluted', 'constructor', 'a.prototype'])(
+    'refuses the header %s',
+    header => {
+      expect(() => parseCsvRecords(`${header}\nyes\n`)).toThrow(
+        `CSV header "${header}" is not allowed`
+      );
+      expect(({} as Record<string, unknown>)['polluted']).toBeUndefined();
+    }
+  );
+});
@@ -0,0 +1,78 @@
+import { reservationConfig } from '../../src/config/reservation.config';
+import {
+  countNights,
+  DAY_MS,
+  getStayNights,
+  startOfUtcDay,
+} from '../../src/utils/dates';
+import { AppError } from '../../src/utils/errors';
+
+describe('startOfUtcDay', () => {
+  it('truncates to midnight UTC', () => {
+    expect(startOfUtcDay(new Date('2025-06-01T23:59:59.999Z'))).toEqual(
+      new Date('2025-06-01T00:00:00Z')
+    );
+  });
+});
+
+describe('countNights', () => {
+  it('counts calendar days between check-in and check-out', () => {
+    expect(countNights('2025-06-01T15:00:00Z', '2025-06-04T10:00:00Z')).toBe(3);
+    expect(countNights('2025-06-01', '2025-06-01T23:00:00Z')).toBe(0);
+    expect(countNights('2025-06-04', '2025-06-01')).toBe(-3);
+  });
+
+  it('is not thrown off by a daylight saving change', () => {
+    expect(countNights('2025-03-29', '2025-04-01')).toBe(3);
+  });
+});
+
+describe('getStayNights', () => {
+  it('lists each night at midnight UTC, check-out day excluded', () => {
+    const nights = getStayNights(
+      '2025-12-30T14:00:00Z',
+      '2026-01-02T11:00:00Z'
+    );
+
+    expect(nights).toEqual([
+      new Date('2025-12-30T00:00:00Z'),
+      new Date('2025-12-31T00:00:00Z'),
+      new Date('2026-01-01T00:00:00Z'),
+    ]);
+    expect(nights[1].getTime() - nights[0].getTime()).toBe(DAY_MS);
+  });
+
+  it.each([
+    ['2025-06-02', '2025-06-01'],
+    ['2025-06-01T08:00:00Z', '2025-06-01T20:00:00Z'],
+  ])(
+    'refuses a check-out (%s to %s) that is not after check-in',
+    (checkIn, checkOut) => {
+      expect(() => getStayNights(checkIn, checkOut)).toThrow(
+        new AppError('Check-out date must be after check-in date')
+      );
+    }
+  );
+
+  it('refuses invalid dates', () => {
+    expect(() => getStayNights('not a date', '2025-06-01')).toThrow(
+      'Invalid check-in or check-out date'
+    );
+  });
+
+  it('allows the longest stay and refuses anything longer', () => {
+    const checkIn = new Date('2025-01-01T00:00:00Z');
+    const max = reservationConfig.maxStayNights;
+
+    expect(
+      getStayNights(checkIn, new Date(checkIn.getTime() + max * DAY_MS))
+    ).toHaveLength(max);
+    expect(() =>
+      getStayNights(checkIn, new Date(checkIn.getTime() + (max + 1) * DAY_MS))
+    ).toThrow(`A stay cannot exceed ${max} nights`);
+  });
+
+  it('refuses huge ranges before building any night', () => {
+    expect(() => getStayNights('0001-01-01', '9999-12-31')).toThrow(AppError);
+  });
+});
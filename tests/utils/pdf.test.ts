@@ -0,0 +1,104 @@
+import { PdfDocument } from '../../src/utils/pdf';
+
+const render = (doc: PdfDocument) => doc.toBuffer().toString('latin1');
+
+const pageCount = (pdf: string) =>
+  Number(/\/Type \/Pages .*\/Count (\d+)/.exec(pdf)?.[1]);
+
+describe('PdfDocument', () => {
+  it('writes a complete PDF with a cross-reference table', () => {
+    const doc = new PdfDocument({ title: 'Invoice', author: 'Front desk' });
+    doc.text('Hello');
+    const pdf = render(doc);
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.endsWith('%%EOF\n')).toBe(true);
+    expect(pdf).toContain('/Title (Invoice) /Author (Front desk)');
+    expect(pdf).toContain('(Hello) Tj');
+
+    // Every object starts where the cross-reference table says it does
+    const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map(match =>
+      Number(match[1])
+    );
+    expect(offsets.length).toBeGreaterThan(0);
+    offsets.forEach((offset, index) => {
+      expect(pdf.startsWith(`${index + 1} 0 obj`, offset)).toBe(true);
+    });
+    const startxref = Number(/startxref\n(\d+)/.exec(pdf)?.[1]);
+    expect(pdf.startsWith('xref', startxref)).toBe(true);
+  });
+
+  it('escapes parentheses and backslashes and replaces non-Latin-1 text', () => {
+    const doc = new PdfDocument();
+    doc.text('(a) \\ b → c');
+
+    expect(render(doc)).toContain('(\\(a\\) \\\\ b ? c) Tj');
+  });
+
+  it('measures text with the Helvetica widths', () => {
+    expect(PdfDocument.textWidth('AB', 10)).toBeCloseTo(13.34);
+    expect(PdfDocument.textWidth('AB', 10, true)).toBeCloseTo(14.44);
+    expect(PdfDocument.textWidth('', 10)).toBe(0);
+  });
+
+  it('wraps long text within the content width', () => {
+    const doc = new PdfDocument();
+    const top = doc.y;
+    doc.text('word '.repeat(200), { size: 10 });
+    const lines = render(doc).match(/\(word[^)]*\) Tj/g) ?? [];
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(doc.y - top).toBeCloseTo(lines.length * 13.5);
+    for (const line of lines) {
+      const text = /\((.*)\) Tj/.exec(line)![1];
+      expect(PdfDocument.textWidth(text, 10)).toBeLessThanOrEqual(
+        doc.contentWidth
+      );
+    }
+  });
+
+  it('repeats the table header and numbers every page', () => {
+    const doc = new PdfDocument({
+      header: page => page.text('Letterhead', { bold: true }),
+    });
+    doc.table(
+      [{ header: 'Item' }, { header: 'Amount', align: 'right', weight: 2 }],
+      Array.from({ length: 120 }, (_, index) => [`Item ${index}`, '10.00'])
+    );
+    const pdf = render(doc);
+    const pages = pageCount(pdf);
+
+    expect(pages).toBeGreaterThan(1);
+    expect(pdf.match(/\(Item\) Tj/g)).toHaveLength(pages);
+    expect(pdf.match(/\(Letterhead\) Tj/g)).toHaveLength(pages);
+    expect(pdf).toContain(`(Page 1 of ${pages}) Tj`);
+    expect(pdf).toContain(`(Page ${pages} of ${pages}) Tj`);
+    expect(pdf).toContain('(Item 119) Tj');
+  });
+
+  it('cuts table cells that do not fit their column', () => {
+    const doc = new PdfDocument();
+    doc.table(
+      [{ header: 'A' }, { header: 'B', weight: 9 }],
+      [['x'.repeat(80), 'y']]
+    );
+    const cell = /\((x+[^)]*)\) Tj/.exec(render(doc))?.[1] ?? '';
+
+    expect(cell.length).toBeLessThan(80);
+    expect(PdfDocument.textWidth(cell, 9)).toBeLessThanOrEqual(
+      doc.contentWidth / 10
+    );
+  });
+
+  it('starts a new page when a block does not fit', () => {
+    const doc = new PdfDocument();
+    doc.moveDown(700);
+    doc.keyValues([
+      ['Subtotal', '100.00'],
+      ['Tax', '10.00'],
+      ['Total', '110.00'],
+    ]);
+
+    expect(pageCount(render(doc))).toBe(2);
+  });
+});
@@ -0,0 +1,49 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { runInTransaction } from '../../src/utils/transaction';
+
+describe('runInTransaction', () => {
+  let session: { withTransaction: jest.Mock; endSession: jest.Mock };
+
+  beforeEach(() => {
+    session = {
+      withTransaction: jest.fn((work: () => Promise<void>) => work()),
+      endSession: jest.fn(() => Promise.resolve()),
+    };
+    jest
+      .spyOn(mongoose, 'startSession')
+      .mockResolvedValue(session as unknown as ClientSession);
+  });
+
+  it('runs the work in a transaction and returns its result', async () => {
+    const work = jest.fn((given: ClientSession) =>
+      Promise.resolve(given === (session as unknown) ? 'done' : 'wrong session')
+    );
+
+    await expect(runInTransaction(work)).resolves.toBe('done');
+    expect(session.withTransaction).toHaveBeenCalledTimes(1);
+    expect(session.endSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns the result of the last attempt when the driver retries', async () => {
+    session.withTransaction.mockImplementation(
+      async (work: () => Promise<void>) => {
+        await work();
+        await work();
+      }
+    );
+    let attempt = 0;
+
+    await expect(
+      runInTransaction(() => Promise.resolve(++attempt))
+    ).resolves.toBe(2);
+  });
+
+  it('ends the session and rethrows when the work fails', async () => {
+    const failure = new Error('aborted');
+
+    await expect(runInTransaction(() => Promise.reject(failure))).rejects.toBe(
+      failure
+    );
+    expect(session.endSession).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,134 @@
+import { XlsxSheet, XlsxWorkbook } from '../../src/utils/xlsx';
+import { readZip } from '../helpers/zip';
+
+const build = (...sheets: XlsxSheet[]) => {
+  const workbook = new XlsxWorkbook();
+  sheets.forEach(sheet => workbook.addSheet(sheet));
+  const files = readZip(workbook.toBuffer());
+  return (name: string) => files.get(name)?.data.toString('utf8') ?? '';
+};
+
+const sheetNames = (workbookXml: string) =>
+  [...workbookXml.matchAll(/<sheet name="([^"]*)"/g)].map(match => match[1]);
+
+describe('XlsxWorkbook', () => {
+  it('packages the parts a spreadsheet application expects', () => {
+    const part = build({ name: 'Data', columns: [], rows: [] });
+
+    expect(part('[Content_Types].xml')).toContain(
+      '<Override PartName="/xl/worksheets/sheet1.xml"'
+    );
+    expect(part('_rels/.rels')).toContain('Target="xl/workbook.xml"');
+    expect(part('xl/_rels/workbook.xml.rels')).toContain(
+      'Target="worksheets/sheet1.xml"'
+    );
+    expect(part('xl/styles.xml')).toContain('<cellXfs count="5">');
+    expect(sheetNames(part('xl/workbook.xml'))).toEqual(['Data']);
+  });
+
+  it('adds an empty sheet to a workbook without any', () => {
+    const part = build();
+
+    expect(sheetNames(part('xl/workbook.xml'))).toEqual(['Sheet1']);
+    expect(part('xl/worksheets/sheet1.xml')).toContain('<sheetData>');
+  });
+
+  it('makes sheet names safe, short and unique', () => {
+    const empty = { columns: [], rows: [] };
+    const part = build(
+      { name: 'In/Out', ...empty },
+      { name: 'x'.repeat(40), ...empty },
+      { name: 'Data', ...empty },
+      { name: 'data', ...empty },
+      { name: '[]', ...empty }
+    );
+
+    expect(sheetNames(part('xl/workbook.xml'))).toEqual([
+      'In Out',
+      'x'.repeat(31),
+      'Data',
+      'data (2)',
+      'Sheet5',
+    ]);
+  });
+
+  it('writes a bold, frozen header row', () => {
+    const sheet = build({
+      name: 'Guests',
+      columns: [{ header: 'Name' }, { header: 'Notes', width: 30 }],
+      rows: [],
+    })('xl/worksheets/sheet1.xml');
+
+    expect(sheet).toContain('state="frozen"');
+    expect(sheet).toContain(
+      '<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Name</t></is></c>'
+    );
+    expect(sheet).toContain(
+      '<col min="2" max="2" width="30" customWidth="1"/>'
+    );
+  });
+
+  it('writes typed cells for dates, numbers, currency and booleans', () => {
+    const sheet = build({
+      name: 'Bills',
+      columns: [
+        { header: 'Date' },
+        { header: 'Nights', format: 'number' },
+        { header: 'Total', format: 'currency' },
+        { header: 'Paid' },
+        { header: 'Issued' },
+        { header: 'Empty' },
+      ],
+      rows: [
+        [
+          new Date('2025-01-02T00:00:00Z'),
+          3,
+          99.9,
+          true,
+          '2025-01-02T18:00:00Z',
+          null,
+        ],
+      ],
+    })('xl/worksheets/sheet1.xml');
+
+    expect(sheet).toContain(
+      '<row r="2">' +
+        '<c r="A2" s="2"><v>45659</v></c>' +
+        '<c r="B2"><v>3</v></c>' +
+        '<c r="C2" s="4"><v>99.9</v></c>' +
+        '<c r="D2" t="b"><v>1</v></c>' +
+        '<c r="E2" s="3"><v>45659.75</v></c>' +
+        '</row>'
+    );
+  });
+
+  it('escapes text and drops characters XML cannot hold', () => {
+    const sheet = build({
+      name: 'Notes',
+      columns: [{ header: 'Note' }, { header: 'Code', format: 'text' }],
+      rows: [['a < b & "c"\u0001', '2025-01-02']],
+    })('xl/worksheets/sheet1.xml');
+
+    expect(sheet).toContain(
+      '<t xml:space="preserve">a &lt; b &amp; &quot;c&quot;</t>'
+    );
+    expect(sheet).toContain(
+      '<c r="B2" t="inlineStr"><is><t xml:space="preserve">2025-01-02</t></is></c>'
+    );
+  });
+
+  it('names columns past Z like a spreadsheet does', () => {
+    const columns = Array.from({ length: 28 }, (_, index) => ({
+      header: `C${index}`,
+    }));
+    const sheet = build({
+      name: 'Wide',
+      columns,
+      rows: [columns.map((_, index) => index)],
+    })('xl/worksheets/sheet1.xml');
+
+    expect(sheet).toContain('<c r="Z2"><v>25</v></c>');
+    expect(sheet).toContain('<c r="AA2"><v>26</v></c>');
+    expect(sheet).toContain('<c r="AB2"><v>27</v></c>');
+  });
+});
@@ -0,0 +1,55 @@
+import { createZip } from '../../src/utils/zip';
+import { readZip } from '../helpers/zip';
+
+describe('createZip', () => {
+  it('packs every entry so it inflates back to its contents', () => {
+    const binary = Buffer.from([0, 1, 2, 255, 254]);
+    const archive = createZip([
+      { name: 'hello.txt', data: 'Hello, world' },
+      { name: 'folder/binary.bin', data: binary },
+      { name: 'ünïcode.txt', data: 'ø' },
+    ]);
+
+    const files = readZip(archive);
+
+    expect([...files.keys()]).toEqual([
+      'hello.txt',
+      'folder/binary.bin',
+      'ünïcode.txt',
+    ]);
+    expect(files.get('hello.txt')?.data.toString()).toBe('Hello, world');
+    expect(files.get('folder/binary.bin')?.data).toEqual(binary);
+    expect(files.get('ünïcode.txt')?.data.toString()).toBe('ø');
+  });
+
+  it('records the uncompressed size and CRC-32 of each entry', () => {
+    const files = readZip(
+      createZip([{ name: 'check.txt', data: 'The quick brown fox' }])
+    );
+
+    // CRC-32 of "The quick brown fox" as computed by zlib
+    expect(files.get('check.txt')).toMatchObject({ size: 19, crc: 0xb74574de });
+  });
+
+  it('ends with a central directory that counts the entries', () => {
+    const archive = createZip([
+      { name: 'a.txt', data: 'a' },
+      { name: 'b.txt', data: '' },
+    ]);
+    const end = archive.subarray(archive.length - 22);
+
+    expect(end.readUInt32LE(0)).toBe(0x06054b50);
+    expect(end.readUInt16LE(10)).toBe(2);
+
+    const centralOffset = end.readUInt32LE(16);
+    expect(archive.readUInt32LE(centralOffset)).toBe(0x02014b50);
+    expect(centralOffset + end.readUInt32LE(12)).toBe(archive.length - 22);
+  });
+
+  it('writes an empty archive as a bare end record', () => {
+    const archive = createZip([]);
+
+    expect(archive).toHaveLength(22);
+    expect(archive.readUInt32LE(0)).toBe(0x06054b50);
+  });
+});